@@ -0,0 +1,38 @@
+/**
+ * A cached value and when it was fetched from its source
+ */
+export interface CacheEntry<T = unknown> {
+  value: T;
+  fetchedAt: Date;
+}
+
+/**
+ * Storage backend for cached data that outlives the process or is shared
+ * across API instances. Entries are kept until retainMs passes or they're
+ * replaced; deciding whether one is fresh is up to the caller.
+ */
+export interface CacheStore {
+  /** Get an entry, or null if there isn't one */
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+
+  /** Create or replace an entry, keeping it for at least retainMs */
+  set<T>(key: string, entry: CacheEntry<T>, retainMs: number): Promise<void>;
+
+  /** Remove every entry */
+  clear(): Promise<void>;
+}
+
+/**
+ * Serialize an entry for storage outside the process
+ */
+export function serializeEntry<T>(key: string, entry: CacheEntry<T>): string {
+  return JSON.stringify({ key, value: entry.value, fetchedAt: entry.fetchedAt.toISOString() });
+}
+
+/**
+ * Rebuild an entry from its serialized form
+ */
+export function deserializeEntry<T>(raw: string): CacheEntry<T> {
+  const parsed = JSON.parse(raw);
+  return { value: parsed.value as T, fetchedAt: new Date(parsed.fetchedAt) };
+}
@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { CacheEntry, CacheStore } from './cacheStore';
+
+/**
+ * Cache store that keeps one JSON file per entry in a directory, so cached
+ * data survives restarts of a single API instance. Entries older than their
+ * retention are treated as missing and replaced on the next write.
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly dir: string) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.file(key), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const parsed = JSON.parse(raw);
+    if (new Date(parsed.retainUntil) <= new Date()) return null;
+    return { value: parsed.value as T, fetchedAt: new Date(parsed.fetchedAt) };
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, retainMs: number): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    // Write to a temporary file first so readers never see a partial entry
+    const file = this.file(key);
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify({
+      key,
+      value: entry.value,
+      fetchedAt: entry.fetchedAt.toISOString(),
+      retainUntil: new Date(Date.now() + retainMs).toISOString()
+    }), 'utf8');
+    await fs.rename(temp, file);
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    await Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(file => fs.rm(path.join(this.dir, file), { force: true })));
+  }
+
+  private file(key: string): string {
+    return path.join(this.dir, `${createHash('sha1').update(key).digest('hex')}.json`);
+  }
+}
@@ -0,0 +1,68 @@
+import { getRedisClient } from '../database/redis';
+import { CacheStore } from './cacheStore';
+import { FileCacheStore } from './fileCacheStore';
+import { RedisCacheStore } from './redisCacheStore';
+import { RequestCounter, MemoryRequestCounter, FileRequestCounter, RedisRequestCounter } from './requestCounter';
+
+export { CacheEntry, CacheStore } from './cacheStore';
+export { FileCacheStore } from './fileCacheStore';
+export { RedisCacheStore, RedisCacheClient } from './redisCacheStore';
+export { SwrCache, SwrCacheOptions, CachedValue } from './swrCache';
+export {
+  RequestCounter,
+  MemoryRequestCounter,
+  FileRequestCounter,
+  RedisRequestCounter,
+  RedisCounterClient
+} from './requestCounter';
+
+export type CacheStoreType = 'memory' | 'file' | 'redis';
+
+export interface CacheStoreOptions {
+  type: CacheStoreType;
+  // Directory for the file store
+  dir: string;
+  // Redis settings for the redis store
+  redisUrl: string;
+  keyPrefix: string;
+}
+
+/**
+ * Create the store a cache saves entries to; null for 'memory', where
+ * entries only live in the process
+ */
+export function createCacheStore(options: CacheStoreOptions): CacheStore | null {
+  if (options.type === 'file') {
+    return new FileCacheStore(options.dir);
+  }
+
+  if (options.type === 'redis') {
+    return new RedisCacheStore(() => getRedisClient(options.redisUrl), options.keyPrefix);
+  }
+
+  return null;
+}
+
+export interface RequestCounterOptions {
+  type: CacheStoreType;
+  // File the file counter saves to
+  file: string;
+  // Redis settings for the redis counter
+  redisUrl: string;
+  keyPrefix: string;
+}
+
+/**
+ * Create a per-day request counter kept in the given kind of store
+ */
+export function createRequestCounter(options: RequestCounterOptions): RequestCounter {
+  if (options.type === 'file') {
+    return new FileRequestCounter(options.file);
+  }
+
+  if (options.type === 'redis') {
+    return new RedisRequestCounter(() => getRedisClient(options.redisUrl), options.keyPrefix);
+  }
+
+  return new MemoryRequestCounter();
+}
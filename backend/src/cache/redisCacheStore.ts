@@ -0,0 +1,44 @@
+import { CacheEntry, CacheStore, serializeEntry, deserializeEntry } from './cacheStore';
+
+/**
+ * The subset of the node-redis client this store relies on
+ */
+export interface RedisCacheClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options: { PX: number }): Promise<unknown>;
+  del(key: string): Promise<number>;
+  scanIterator(options: { MATCH: string }): AsyncIterable<string>;
+}
+
+/**
+ * Redis-backed cache store, shared by every API instance. Retention uses
+ * Redis key TTLs (PX), so Redis drops old entries on its own.
+ */
+export class RedisCacheStore implements CacheStore {
+  constructor(
+    private readonly getClient: () => Promise<RedisCacheClient>,
+    private readonly keyPrefix: string = 'lantern:cache:'
+  ) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const client = await this.getClient();
+    const raw = await client.get(this.key(key));
+    return raw ? deserializeEntry<T>(raw) : null;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, retainMs: number): Promise<void> {
+    const client = await this.getClient();
+    await client.set(this.key(key), serializeEntry(key, entry), { PX: Math.max(1, Math.ceil(retainMs)) });
+  }
+
+  async clear(): Promise<void> {
+    const client = await this.getClient();
+    for await (const redisKey of client.scanIterator({ MATCH: `${this.keyPrefix}*` })) {
+      await client.del(redisKey);
+    }
+  }
+
+  private key(key: string): string {
+    return `${this.keyPrefix}${key}`;
+  }
+}
@@ -0,0 +1,132 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Counts requests per day (days are YYYY-MM-DD strings chosen by the caller)
+ */
+export interface RequestCounter {
+  get(day: string): Promise<number>;
+  // Both return the day's count after the change
+  increment(day: string): Promise<number>;
+  decrement(day: string): Promise<number>;
+}
+
+/**
+ * Counter kept in this process; it starts again from zero on restart
+ */
+export class MemoryRequestCounter implements RequestCounter {
+  private counts = new Map<string, number>();
+
+  async get(day: string): Promise<number> {
+    return this.counts.get(day) || 0;
+  }
+
+  async increment(day: string): Promise<number> {
+    const count = (this.counts.get(day) || 0) + 1;
+    // Only the current day is ever asked for, so earlier days can go
+    this.counts = new Map([[day, count]]);
+    return count;
+  }
+
+  async decrement(day: string): Promise<number> {
+    const count = Math.max(0, (this.counts.get(day) || 0) - 1);
+    this.counts.set(day, count);
+    return count;
+  }
+}
+
+/**
+ * Counter saved to a single JSON file holding the current day's count, so
+ * it survives restarts of a single API instance
+ */
+export class FileRequestCounter implements RequestCounter {
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly file: string) {}
+
+  async get(day: string): Promise<number> {
+    await this.writing;
+    return this.read(day);
+  }
+
+  increment(day: string): Promise<number> {
+    return this.add(day, 1);
+  }
+
+  decrement(day: string): Promise<number> {
+    return this.add(day, -1);
+  }
+
+  private add(day: string, change: number): Promise<number> {
+    // Chain changes so concurrent requests in this process aren't lost
+    const changed = this.writing.then(async () => {
+      const count = Math.max(0, (await this.read(day)) + change);
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      const temp = `${this.file}.${process.pid}.tmp`;
+      await fs.writeFile(temp, JSON.stringify({ day, count }), 'utf8');
+      await fs.rename(temp, this.file);
+      return count;
+    });
+    this.writing = changed.catch(() => undefined);
+    return changed;
+  }
+
+  private async read(day: string): Promise<number> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+
+    const saved = JSON.parse(raw);
+    return saved.day === day ? saved.count : 0;
+  }
+}
+
+/**
+ * The subset of the node-redis client the Redis counter relies on
+ */
+export interface RedisCounterClient {
+  get(key: string): Promise<string | null>;
+  incr(key: string): Promise<number>;
+  decr(key: string): Promise<number>;
+  pExpire(key: string, ms: number): Promise<unknown>;
+}
+
+// Keep each day's key a little past the day itself, then let Redis drop it
+const REDIS_COUNT_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+/**
+ * Counter shared by every API instance, one Redis key per day
+ */
+export class RedisRequestCounter implements RequestCounter {
+  constructor(
+    private readonly getClient: () => Promise<RedisCounterClient>,
+    private readonly keyPrefix: string = 'lantern:requests:'
+  ) {}
+
+  async get(day: string): Promise<number> {
+    const client = await this.getClient();
+    return parseInt((await client.get(this.key(day))) || '0', 10);
+  }
+
+  async increment(day: string): Promise<number> {
+    const client = await this.getClient();
+    const count = await client.incr(this.key(day));
+    if (count === 1) {
+      await client.pExpire(this.key(day), REDIS_COUNT_RETENTION_MS);
+    }
+    return count;
+  }
+
+  async decrement(day: string): Promise<number> {
+    const client = await this.getClient();
+    return client.decr(this.key(day));
+  }
+
+  private key(day: string): string {
+    return `${this.keyPrefix}${day}`;
+  }
+}
@@ -0,0 +1,208 @@
+import { CacheEntry, CacheStore } from './cacheStore';
+
+export interface SwrCacheOptions {
+  // How long an entry is fresh
+  ttlMs: number;
+  // How long past its TTL a stale entry is still served while it's refreshed
+  maxStaleMs: number;
+}
+
+export interface CachedValue<T> extends CacheEntry<T> {
+  // True when the entry is past its TTL (a refresh has been started, or just failed)
+  stale: boolean;
+}
+
+/**
+ * Stale-while-revalidate cache. Fresh entries are served as they are;
+ * stale ones are served at once while a background refresh replaces them.
+ * Only missing or too-old entries make the caller wait for a fetch, and if
+ * that fetch fails an old entry is still better than none.
+ *
+ * Entries this process reads or writes are kept in memory; with a store,
+ * they're also saved there so they survive restarts or are shared.
+ */
+export class SwrCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  // Pending fetches by key; null when the fetch didn't return the key
+  private readonly refreshing = new Map<string, Promise<CacheEntry<T> | null>>();
+
+  constructor(
+    private readonly options: SwrCacheOptions,
+    private readonly store: CacheStore | null = null
+  ) {}
+
+  /**
+   * Get a value, fetching it with load when it's missing or stale.
+   * ttlMs overrides the cache's TTL for this lookup.
+   */
+  async get(key: string, load: () => Promise<T>, ttlMs: number = this.options.ttlMs): Promise<CachedValue<T>> {
+    const values = await this.getMany([key], async () => new Map([[key, await load()]]), ttlMs);
+    return values.get(key)!;
+  }
+
+  /**
+   * Get several values, fetching every missing or stale one with a single
+   * call to load. Keys load doesn't return are left out of the result.
+   * With waitForStale, stale entries are refreshed before returning rather
+   * than in the background. load is told when nobody is waiting on it.
+   */
+  async getMany(
+    keys: string[],
+    load: (keys: string[], background: boolean) => Promise<Map<string, T>>,
+    ttlMs: number = this.options.ttlMs,
+    waitForStale = false
+  ): Promise<Map<string, CachedValue<T>>> {
+    const retainMs = ttlMs + this.options.maxStaleMs;
+    const found = await Promise.all(keys.map(key => this.lookup(key)));
+    const values = new Map<string, CachedValue<T>>();
+    const stale: string[] = [];
+    const missing: string[] = [];
+
+    keys.forEach((key, i) => {
+      const entry = found[i];
+      const age = entry ? Date.now() - entry.fetchedAt.getTime() : Infinity;
+
+      if (entry && age < ttlMs) {
+        values.set(key, { ...entry, stale: false });
+      } else if (entry && age < retainMs && !waitForStale) {
+        values.set(key, { ...entry, stale: true });
+        stale.push(key);
+      } else {
+        missing.push(key);
+      }
+    });
+
+    if (stale.length > 0) {
+      this.refresh(stale, load, retainMs, true).catch(error => {
+        console.warn(`Background refresh of ${stale.join(', ')} failed:`, (error as Error).message);
+      });
+    }
+
+    if (missing.length > 0) {
+      try {
+        for (const [key, entry] of await this.refresh(missing, load, retainMs, false)) {
+          values.set(key, { ...entry, stale: false });
+        }
+      } catch (error) {
+        const old = missing.map(key => found[keys.indexOf(key)]);
+        if (old.some(entry => !entry)) throw error;
+        console.warn(`Refresh of ${missing.join(', ')} failed, serving cached data:`, (error as Error).message);
+        missing.forEach((key, i) => values.set(key, { ...old[i]!, stale: true }));
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Get the cached values for several keys without fetching any. Keys that
+   * aren't cached, or are too far past ttlMs to serve, are left out.
+   */
+  async getCached(keys: string[], ttlMs: number = this.options.ttlMs): Promise<Map<string, CachedValue<T>>> {
+    const retainMs = ttlMs + this.options.maxStaleMs;
+    const found = await Promise.all(keys.map(key => this.lookup(key)));
+    const values = new Map<string, CachedValue<T>>();
+
+    keys.forEach((key, i) => {
+      const entry = found[i];
+      const age = entry ? Date.now() - entry.fetchedAt.getTime() : Infinity;
+      if (entry && age < retainMs) {
+        values.set(key, { ...entry, stale: age >= ttlMs });
+      }
+    });
+
+    return values;
+  }
+
+  /**
+   * The entry held in memory for a key, without fetching or checking the store
+   */
+  peek(key: string): CacheEntry<T> | null {
+    return this.entries.get(key) || null;
+  }
+
+  /**
+   * Drop every entry held in memory at once, and clear the store in the background
+   */
+  clear(): void {
+    this.entries.clear();
+    this.refreshing.clear();
+    this.store?.clear().catch(error => {
+      console.error('Failed to clear cache store:', (error as Error).message);
+    });
+  }
+
+  /**
+   * Number of entries held in memory
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private async lookup(key: string): Promise<CacheEntry<T> | null> {
+    const held = this.entries.get(key);
+    if (held || !this.store) return held || null;
+
+    try {
+      const stored = await this.store.get<T>(key);
+      if (stored) this.entries.set(key, stored);
+      return stored;
+    } catch (error) {
+      console.error(`Failed to read ${key} from cache store:`, (error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch fresh values, loading the keys nobody is fetching yet in one call
+   * and sharing fetches already under way with their callers
+   */
+  private async refresh(
+    keys: string[],
+    load: (keys: string[], background: boolean) => Promise<Map<string, T>>,
+    retainMs: number,
+    background: boolean
+  ): Promise<Map<string, CacheEntry<T>>> {
+    const toLoad = keys.filter(key => !this.refreshing.has(key));
+
+    if (toLoad.length > 0) {
+      const loaded = load(toLoad, background).then(async values => {
+        const fetchedAt = new Date();
+        const saved = new Map<string, CacheEntry<T>>();
+        for (const key of toLoad) {
+          if (!values.has(key)) continue;
+          const entry: CacheEntry<T> = { value: values.get(key)!, fetchedAt };
+          this.entries.set(key, entry);
+          saved.set(key, entry);
+        }
+        await Promise.all([...saved].map(([key, entry]) => this.save(key, entry, retainMs)));
+        return saved;
+      });
+
+      for (const key of toLoad) {
+        const pending: Promise<CacheEntry<T> | null> = loaded
+          .then(saved => saved.get(key) || null)
+          .finally(() => {
+            if (this.refreshing.get(key) === pending) this.refreshing.delete(key);
+          });
+        this.refreshing.set(key, pending);
+      }
+    }
+
+    const entries = await Promise.all(keys.map(key => this.refreshing.get(key)!));
+    const refreshed = new Map<string, CacheEntry<T>>();
+    keys.forEach((key, i) => {
+      if (entries[i]) refreshed.set(key, entries[i]!);
+    });
+    return refreshed;
+  }
+
+  private async save(key: string, entry: CacheEntry<T>, retainMs: number): Promise<void> {
+    if (!this.store) return;
+    try {
+      await this.store.set(key, entry, retainMs);
+    } catch (error) {
+      console.error(`Failed to save ${key} to cache store:`, (error as Error).message);
+    }
+  }
+}
@@ -4,6 +4,9 @@
  * Configuration options for the BLS (Bureau of Labor Statistics) API integration.
  */
 
+import path from 'path';
+import { CacheStoreType } from '../cache';
+
 export interface BLSConfig {
   // Enable or disable BLS data enrichment
   enabled: boolean;
@@ -19,6 +22,16 @@ export interface BLSConfig {
   cache: {
     enabled: boolean;
     ttlMs: number; // Time to live in milliseconds
+    // How long past the TTL stale data is still served while it's refreshed
+    maxStaleMs: number;
+    // 'memory' keeps responses in this process; 'file' keeps them across restarts;
+    // 'redis' shares them across API instances
+    store: CacheStoreType;
+    dir: string;
+    redis: {
+      url: string;
+      keyPrefix: string;
+    };
   };
   
   // Retry settings
@@ -26,12 +39,47 @@ export interface BLSConfig {
     maxAttempts: number;
     baseDelayMs: number;
   };
+
+  // Daily request budget, counted per UTC day
+  budget: {
+    // Requests BLS allows per day: 500 with a registration key, 25 without
+    dailyLimit: number;
+    // Requests kept for user-facing lookups; background fetches stop once only these are left
+    reserve: number;
+    // Where the count is kept, apart from cached responses: 'file' (the default) keeps it
+    // across restarts; 'redis' shares it across API instances; 'memory' forgets it on restart
+    store: CacheStoreType;
+    // Where the count is saved for the 'file' store (not a *.json entry, so clearing the cache keeps it)
+    file: string;
+    // Key prefix for the 'redis' store (outside cache.redis.keyPrefix for the same reason)
+    keyPrefix: string;
+  };
+
+  // Occupational Employment and Wage Statistics (OEWS) wages by career and area
+  oews: {
+    // How long cached wages are fresh before the warmup fetches them again (OEWS is published once a year)
+    ttlMs: number;
+  };
+
+  // Background job that refreshes every referenced series before it goes stale
+  warmup: {
+    enabled: boolean;
+    // null works the interval out from the cache TTL and the daily budget
+    intervalMs: number | null;
+  };
+}
+
+function parseCacheStore(value: string | undefined, fallback: CacheStoreType = 'memory'): CacheStoreType {
+  return value === 'memory' || value === 'file' || value === 'redis' ? value : fallback;
 }
 
 /**
  * Get BLS configuration from environment variables
  */
 export function getBLSConfig(): BLSConfig {
+  const cacheDir = process.env.BLS_CACHE_DIR || './cache/bls';
+  const dailyLimit = parseInt(process.env.BLS_DAILY_REQUEST_LIMIT || (process.env.BLS_API_KEY ? '500' : '25'), 10);
+
   return {
     enabled: process.env.BLS_ENABLED !== 'false',
     seriesIds: {
@@ -42,11 +90,32 @@ export function getBLSConfig(): BLSConfig {
     cache: {
       enabled: process.env.BLS_CACHE_ENABLED !== 'false',
       ttlMs: parseInt(process.env.BLS_CACHE_TTL_MS || '3600000', 10), // 1 hour default
+      maxStaleMs: parseInt(process.env.BLS_CACHE_MAX_STALE_MS || '604800000', 10), // 7 days default
+      store: parseCacheStore(process.env.BLS_CACHE_STORE),
+      dir: cacheDir,
+      redis: {
+        url: process.env.REDIS_URL || 'redis://localhost:6379',
+        keyPrefix: process.env.BLS_CACHE_KEY_PREFIX || 'lantern:bls:',
+      },
     },
     retry: {
       maxAttempts: parseInt(process.env.BLS_RETRY_MAX_ATTEMPTS || '3', 10),
       baseDelayMs: parseInt(process.env.BLS_RETRY_BASE_DELAY_MS || '1000', 10),
     },
+    budget: {
+      dailyLimit,
+      reserve: parseInt(process.env.BLS_BUDGET_RESERVE || String(Math.ceil(dailyLimit * 0.2)), 10), // 20% of the limit default
+      store: parseCacheStore(process.env.BLS_BUDGET_STORE, 'file'),
+      file: path.join(cacheDir, 'request-budget'),
+      keyPrefix: process.env.BLS_BUDGET_KEY_PREFIX || 'lantern:bls-budget:',
+    },
+    oews: {
+      ttlMs: parseInt(process.env.OEWS_CACHE_TTL_MS || '604800000', 10), // 7 days default
+    },
+    warmup: {
+      enabled: process.env.BLS_WARMUP_ENABLED !== 'false',
+      intervalMs: process.env.BLS_WARMUP_INTERVAL_MS ? parseInt(process.env.BLS_WARMUP_INTERVAL_MS, 10) : null,
+    },
   };
 }
 
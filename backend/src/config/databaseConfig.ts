@@ -0,0 +1,45 @@
+/**
+ * Database Configuration
+ *
+ * Connection settings for the PostgreSQL persistence layer.
+ */
+
+export type DatabaseDriver = 'postgres' | 'memory';
+
+export interface DatabaseConfig {
+  // 'postgres' connects to a real server, 'memory' runs an in-process stand-in (pg-mem)
+  driver: DatabaseDriver;
+
+  // Full connection string; takes precedence over the individual settings below
+  connectionString?: string;
+  host: string;
+  port: number;
+  database: string;
+  user: string;
+  password?: string;
+
+  // Maximum number of pooled connections
+  poolSize: number;
+
+  // Apply pending migrations when the API starts
+  autoMigrate: boolean;
+}
+
+/**
+ * Get database configuration from environment variables
+ */
+export function getDatabaseConfig(): DatabaseConfig {
+  return {
+    driver: process.env.DB_DRIVER === 'memory' ? 'memory' : 'postgres',
+    connectionString: process.env.DATABASE_URL || undefined,
+    host: process.env.DB_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT || '5432', 10),
+    database: process.env.DB_NAME || 'lantern_ai',
+    user: process.env.DB_USER || 'postgres',
+    password: process.env.DB_PASSWORD || undefined,
+    poolSize: parseInt(process.env.DB_POOL_SIZE || '10', 10),
+    autoMigrate: process.env.DB_AUTO_MIGRATE !== 'false',
+  };
+}
+
+export default getDatabaseConfig;
@@ -0,0 +1,60 @@
+/**
+ * Local Demand Configuration
+ *
+ * Thresholds for rating a career's local demand. Each input scores a point
+ * for (+1) or against (-1) demand, or none between its thresholds:
+ * - growth: projected 10-year employment change, in percent
+ * - openings: projected annual openings per 100 jobs (new jobs plus workers
+ *   retiring or leaving the occupation)
+ * - unemployment: the latest LAUS rate for the student's county, else state.
+ *   A tight labor market (low unemployment) means employers compete for workers.
+ * The points are summed; inputs without data are left out.
+ */
+
+export interface DemandConfig {
+  // Total points at or above which demand is 'high', and at or below which it is 'low'
+  highScore: number;
+  lowScore: number;
+
+  growth: {
+    highPercent: number;
+    lowPercent: number;
+  };
+
+  openings: {
+    highPer100Jobs: number;
+    lowPer100Jobs: number;
+  };
+
+  unemployment: {
+    tightPercent: number;
+    slackPercent: number;
+    // How long a cached LAUS rate is fresh before the warmup job fetches it again
+    ttlMs: number;
+  };
+}
+
+/**
+ * Get demand configuration from environment variables
+ */
+export function getDemandConfig(): DemandConfig {
+  return {
+    highScore: parseInt(process.env.DEMAND_HIGH_SCORE || '2', 10),
+    lowScore: parseInt(process.env.DEMAND_LOW_SCORE || '-1', 10),
+    growth: {
+      highPercent: parseFloat(process.env.DEMAND_GROWTH_HIGH_PERCENT || '7'),
+      lowPercent: parseFloat(process.env.DEMAND_GROWTH_LOW_PERCENT || '1'),
+    },
+    openings: {
+      highPer100Jobs: parseFloat(process.env.DEMAND_OPENINGS_HIGH_PER_100 || '10'),
+      lowPer100Jobs: parseFloat(process.env.DEMAND_OPENINGS_LOW_PER_100 || '7'),
+    },
+    unemployment: {
+      tightPercent: parseFloat(process.env.DEMAND_UNEMPLOYMENT_TIGHT_PERCENT || '4'),
+      slackPercent: parseFloat(process.env.DEMAND_UNEMPLOYMENT_SLACK_PERCENT || '6'),
+      ttlMs: parseInt(process.env.LAUS_CACHE_TTL_MS || '86400000', 10), // 1 day default
+    },
+  };
+}
+
+export default getDemandConfig;
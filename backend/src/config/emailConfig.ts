@@ -0,0 +1,47 @@
+/**
+ * Email Configuration
+ *
+ * Selects how outgoing mail is delivered.
+ */
+
+export type EmailTransportType = 'smtp' | 'outbox';
+
+export interface EmailConfig {
+  // 'smtp' sends through a mail server; 'outbox' writes messages to disk for local testing
+  transport: EmailTransportType;
+
+  // Sender address on every message
+  from: string;
+
+  // SMTP settings (only used when transport is 'smtp')
+  smtp: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+  };
+
+  // Where the outbox transport writes messages
+  outboxDir: string;
+}
+
+/**
+ * Get email configuration from environment variables
+ */
+export function getEmailConfig(): EmailConfig {
+  return {
+    transport: process.env.EMAIL_TRANSPORT === 'smtp' ? 'smtp' : 'outbox',
+    from: process.env.EMAIL_FROM || 'noreply@lanternai.org',
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || undefined,
+      pass: process.env.SMTP_PASS || undefined,
+    },
+    outboxDir: process.env.EMAIL_OUTBOX_DIR || './outbox',
+  };
+}
+
+export default getEmailConfig;
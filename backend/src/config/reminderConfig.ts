@@ -0,0 +1,31 @@
+/**
+ * Reminder Configuration
+ *
+ * Controls the background job that sends action reminders.
+ */
+
+export type ReminderNotifierType = 'email' | 'in-app';
+
+export interface ReminderConfig {
+  // Run the reminder job in this process
+  enabled: boolean;
+
+  // How often to look for due reminders
+  intervalMs: number;
+
+  // 'in-app' adds to the student's notification feed; 'email' sends the reminder template
+  notifier: ReminderNotifierType;
+}
+
+/**
+ * Get reminder configuration from environment variables
+ */
+export function getReminderConfig(): ReminderConfig {
+  return {
+    enabled: process.env.REMINDERS_ENABLED !== 'false',
+    intervalMs: parseInt(process.env.REMINDER_INTERVAL_MS || '300000', 10), // 5 minutes default
+    notifier: process.env.REMINDER_NOTIFIER === 'email' ? 'email' : 'in-app',
+  };
+}
+
+export default getReminderConfig;
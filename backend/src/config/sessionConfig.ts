@@ -0,0 +1,37 @@
+/**
+ * Session Store Configuration
+ *
+ * Selects where anonymous assessment sessions are kept.
+ */
+
+export type SessionStoreType = 'memory' | 'redis';
+
+export interface SessionConfig {
+  // 'memory' keeps sessions in this process; 'redis' shares them across API instances
+  store: SessionStoreType;
+
+  // How long a session lives after it is created
+  ttlMs: number;
+
+  // Redis settings (only used when store is 'redis')
+  redis: {
+    url: string;
+    keyPrefix: string;
+  };
+}
+
+/**
+ * Get session configuration from environment variables
+ */
+export function getSessionConfig(): SessionConfig {
+  return {
+    store: process.env.SESSION_STORE === 'redis' ? 'redis' : 'memory',
+    ttlMs: parseInt(process.env.SESSION_TTL_MS || '86400000', 10), // 24 hours default
+    redis: {
+      url: process.env.REDIS_URL || 'redis://localhost:6379',
+      keyPrefix: process.env.SESSION_KEY_PREFIX || 'lantern:session:',
+    },
+  };
+}
+
+export default getSessionConfig;
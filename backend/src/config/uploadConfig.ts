@@ -0,0 +1,44 @@
+/**
+ * Upload Configuration
+ *
+ * Limits on the CSV files admins upload, and how API instances share the
+ * work of processing them and the data they load.
+ */
+
+import { hostname } from 'os';
+
+export interface UploadConfig {
+  // Largest file accepted, in bytes
+  maxFileSize: number;
+
+  // Row errors kept on an upload's report; the rest are summarized in one line
+  maxReportedErrors: number;
+
+  // Names this API instance on the uploads it processes; keep it the same across restarts
+  instanceId: string;
+
+  // How often an instance records that it is still processing an upload
+  heartbeatIntervalMs: number;
+
+  // Unfinished uploads with no heartbeat for this long are failed at startup
+  staleAfterMs: number;
+
+  // How often to check for uploads another instance finished and load their data
+  reloadIntervalMs: number;
+}
+
+/**
+ * Get upload configuration from environment variables
+ */
+export function getUploadConfig(): UploadConfig {
+  return {
+    maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '5242880', 10), // 5 MB default
+    maxReportedErrors: parseInt(process.env.UPLOAD_MAX_REPORTED_ERRORS || '100', 10),
+    instanceId: process.env.INSTANCE_ID || hostname(),
+    heartbeatIntervalMs: parseInt(process.env.UPLOAD_HEARTBEAT_INTERVAL_MS || '30000', 10), // 30 seconds default
+    staleAfterMs: parseInt(process.env.UPLOAD_STALE_AFTER_MS || '300000', 10), // 5 minutes default
+    reloadIntervalMs: parseInt(process.env.UPLOAD_RELOAD_INTERVAL_MS || '60000', 10), // 1 minute default
+  };
+}
+
+export default getUploadConfig;
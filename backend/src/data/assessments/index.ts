@@ -0,0 +1,37 @@
+import { AssessmentDefinition, AssessmentQuestion } from '../../types';
+import standardV1 from './standard.v1.json';
+import standardV2 from './standard.v2.json';
+import riasecV1 from './riasec.v1.json';
+
+/**
+ * Published assessment versions.
+ *
+ * Never edit a published version's questions: sessions and profiles are
+ * stamped with the version they were taken on. Add a new version instead,
+ * with a `migration` describing how answers to the previous version map on.
+ */
+export const ASSESSMENT_DEFINITIONS: AssessmentDefinition[] = [
+  {
+    type: 'standard',
+    version: 1,
+    title: 'Quick Career Quiz',
+    description: '12 questions about your interests, skills and plans. Takes about 5 minutes.',
+    questions: standardV1 as AssessmentQuestion[],
+  },
+  {
+    type: 'standard',
+    version: 2,
+    title: 'Quick Career Quiz',
+    description: '12 questions about your interests, skills and plans, plus a few follow-ups when they help. Takes about 5 minutes.',
+    questions: standardV2 as AssessmentQuestion[],
+    // v2 only adds optional follow-up questions
+    migration: { fromVersion: 1, answers: {} },
+  },
+  {
+    type: 'riasec',
+    version: 1,
+    title: 'Interest Inventory (Holland Code)',
+    description: '30 activities to rate plus a few questions about your plans. Gives you a three-letter Holland code your counselor can use.',
+    questions: riasecV1 as AssessmentQuestion[],
+  },
+];
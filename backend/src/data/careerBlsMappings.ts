@@ -6,7 +6,8 @@
  * - CPI (all urban consumers): CUSR0000SA0
  * - Average hourly earnings (total private): CES0500000003
  *
- * For occupation-specific wages, use OEWS or occupation-specific series if available.
+ * Occupation wages don't need a mapping: they come from OEWS series built
+ * from each career's SOC code (see services/wageService.ts).
  */
 export type CareerBlsMapping = {
   careerId: string;
@@ -24,7 +25,6 @@ export const CAREER_BLS_MAPPINGS: CareerBlsMapping[] = [
     seriesIds: {
       cpi: 'CUSR0000SA0',
       unemployment: 'LNS14000000',
-      wages: 'CES0500000003',
     },
   },
   {
@@ -32,7 +32,6 @@ export const CAREER_BLS_MAPPINGS: CareerBlsMapping[] = [
     seriesIds: {
       cpi: 'CUSR0000SA0',
       unemployment: 'LNS14000000',
-      wages: 'CES0500000003',
     },
   },
   {
@@ -40,7 +39,6 @@ export const CAREER_BLS_MAPPINGS: CareerBlsMapping[] = [
     seriesIds: {
       cpi: 'CUSR0000SA0',
       unemployment: 'LNS14000000',
-      wages: 'CES0500000003',
     },
   },
   // Add mappings for other careers…
@@ -0,0 +1,152 @@
+import { Career } from '../types';
+
+/**
+ * Hand-curated careers.
+ *
+ * When the normalized O*NET database is available these act as an overlay:
+ * their IDs, titles, sector tags, certifications, salaries and outlooks are
+ * applied on top of the matching O*NET occupation (by onetCode). When it is
+ * missing, they are the whole catalog.
+ */
+export const CURATED_CAREERS: Career[] = [
+  {
+    id: 'rn-001',
+    title: 'Registered Nurse',
+    sector: 'healthcare',
+    description: 'Provide and coordinate patient care, educate patients about health conditions.',
+    responsibilities: ['Assess patient health', 'Administer medications', 'Operate medical equipment'],
+    requiredEducation: 'associate',
+    certifications: ['RN License', 'BLS Certification'],
+    averageSalary: 75000,
+    salaryRange: { min: 65000, max: 85000 },
+    growthOutlook: 'Much faster than average (9% growth)',
+    onetCode: '29-1141.00',
+    hollandCode: 'SIC'
+  },
+  {
+    id: 'ma-001',
+    title: 'Medical Assistant',
+    sector: 'healthcare',
+    description: 'Perform administrative and clinical tasks to support doctors.',
+    responsibilities: ['Take vital signs', 'Prepare patients', 'Schedule appointments'],
+    requiredEducation: 'certificate',
+    certifications: ['CMA or RMA Certification'],
+    averageSalary: 37000,
+    salaryRange: { min: 32000, max: 42000 },
+    growthOutlook: 'Much faster than average (16% growth)',
+    onetCode: '31-9092.00',
+    hollandCode: 'SCR'
+  },
+  {
+    id: 'lpn-001',
+    title: 'Licensed Practical Nurse',
+    sector: 'healthcare',
+    description: 'Provide basic nursing care under direction of RNs and doctors.',
+    responsibilities: ['Monitor patient health', 'Change bandages', 'Collect samples'],
+    requiredEducation: 'certificate',
+    certifications: ['LPN License'],
+    averageSalary: 50000,
+    salaryRange: { min: 45000, max: 55000 },
+    growthOutlook: 'Faster than average (6% growth)',
+    onetCode: '29-2061.00',
+    hollandCode: 'SRC'
+  },
+  {
+    id: 'chw-001',
+    title: 'Community Health Worker',
+    sector: 'healthcare',
+    description: 'Assist communities to adopt healthy behaviors and access healthcare.',
+    responsibilities: ['Conduct outreach', 'Provide counseling', 'Connect to resources'],
+    requiredEducation: 'certificate',
+    certifications: ['CHW Certification'],
+    averageSalary: 43000,
+    salaryRange: { min: 38000, max: 48000 },
+    growthOutlook: 'Much faster than average (13% growth)',
+    onetCode: '21-1094.00',
+    hollandCode: 'SEC'
+  },
+  {
+    id: 'emt-001',
+    title: 'Emergency Medical Technician',
+    sector: 'healthcare',
+    description: 'Respond to emergency calls and provide medical care.',
+    responsibilities: ['Assess patient condition', 'Provide emergency care', 'Transport patients'],
+    requiredEducation: 'certificate',
+    certifications: ['EMT Certification', 'CPR/AED'],
+    averageSalary: 38000,
+    salaryRange: { min: 33000, max: 43000 },
+    growthOutlook: 'Faster than average (7% growth)',
+    onetCode: '29-2041.00',
+    hollandCode: 'RSI'
+  },
+  {
+    id: 'elec-001',
+    title: 'Electrician',
+    sector: 'infrastructure',
+    description: 'Install, maintain, and repair electrical systems.',
+    responsibilities: ['Read blueprints', 'Install systems', 'Inspect components'],
+    requiredEducation: 'certificate',
+    certifications: ['Electrician License', 'OSHA Safety'],
+    averageSalary: 60000,
+    salaryRange: { min: 50000, max: 70000 },
+    growthOutlook: 'Faster than average (8% growth)',
+    onetCode: '47-2111.00',
+    hollandCode: 'RIC'
+  },
+  {
+    id: 'plumb-001',
+    title: 'Plumber',
+    sector: 'infrastructure',
+    description: 'Install and repair pipes for water, gas, and waste systems.',
+    responsibilities: ['Install pipe systems', 'Repair plumbing', 'Read blueprints'],
+    requiredEducation: 'certificate',
+    certifications: ['Plumbing License'],
+    averageSalary: 58000,
+    salaryRange: { min: 48000, max: 68000 },
+    growthOutlook: 'Faster than average (5% growth)',
+    onetCode: '47-2152.00',
+    hollandCode: 'RCI'
+  },
+  {
+    id: 'hvac-001',
+    title: 'HVAC Technician',
+    sector: 'infrastructure',
+    description: 'Install and maintain heating, ventilation, and air conditioning systems.',
+    responsibilities: ['Install HVAC systems', 'Perform maintenance', 'Test performance'],
+    requiredEducation: 'certificate',
+    certifications: ['EPA Certification', 'HVAC License'],
+    averageSalary: 52000,
+    salaryRange: { min: 45000, max: 59000 },
+    growthOutlook: 'Faster than average (5% growth)',
+    onetCode: '49-9021.00',
+    hollandCode: 'RCI'
+  },
+  {
+    id: 'const-001',
+    title: 'Construction Worker',
+    sector: 'infrastructure',
+    description: 'Perform physical labor at construction sites.',
+    responsibilities: ['Operate equipment', 'Load materials', 'Follow safety protocols'],
+    requiredEducation: 'high-school',
+    certifications: ['OSHA 10 or 30'],
+    averageSalary: 40000,
+    salaryRange: { min: 35000, max: 45000 },
+    growthOutlook: 'Average (4% growth)',
+    onetCode: '47-2061.00',
+    hollandCode: 'RC'
+  },
+  {
+    id: 'weld-001',
+    title: 'Welder',
+    sector: 'infrastructure',
+    description: 'Join metal parts using heat and pressure.',
+    responsibilities: ['Read blueprints', 'Set up equipment', 'Weld components'],
+    requiredEducation: 'certificate',
+    certifications: ['AWS Welding Certification'],
+    averageSalary: 47000,
+    salaryRange: { min: 40000, max: 54000 },
+    growthOutlook: 'Slower than average (2% growth)',
+    onetCode: '51-4121.00',
+    hollandCode: 'RCI'
+  }
+];
@@ -0,0 +1,72 @@
+import { EmailTemplate } from '../types';
+
+/**
+ * Built-in email templates. {{name}} placeholders are filled in by
+ * EmailService.render; every placeholder must be listed in `variables`.
+ */
+export const EMAIL_TEMPLATES: EmailTemplate[] = [
+  {
+    id: 'counselor-outreach-v1',
+    type: 'counselor-outreach',
+    subject: '{{studentName}} would like to talk about {{careerTitle}}',
+    body: `Hi {{counselorName}},
+
+{{studentName}} has been exploring {{careerTitle}} on Lantern AI and would like to talk with you about it.
+
+Career: {{careerTitle}} ({{careerSector}})
+Typical education: {{careerEducation}}
+Salary range: {{careerSalaryRange}}
+
+Message from {{studentFirstName}}:
+{{message}}
+
+Reply to this email to reach {{studentFirstName}} at {{studentEmail}}.
+
+- Lantern AI`,
+    variables: [
+      'counselorName', 'studentName', 'studentFirstName', 'studentEmail', 'careerTitle',
+      'careerSector', 'careerEducation', 'careerSalaryRange', 'message',
+    ],
+  },
+  {
+    id: 'program-inquiry-v1',
+    type: 'program-inquiry',
+    subject: 'Question about {{programName}}',
+    body: `Hello {{programProvider}},
+
+My name is {{studentName}} and I'm interested in {{programName}} as a path toward becoming a {{careerTitle}}.
+
+Could you tell me more about eligibility, the application process and any upcoming deadlines? The listing I found shows:
+
+Program type: {{programType}}
+Duration: {{programDuration}}
+Cost: {{programCost}}
+Location: {{programLocation}}
+
+{{message}}
+
+Thank you,
+{{studentName}}
+{{studentEmail}}`,
+    variables: [
+      'programProvider', 'programName', 'programType', 'programDuration', 'programCost',
+      'programLocation', 'studentName', 'studentEmail', 'careerTitle', 'message',
+    ],
+  },
+  {
+    id: 'reminder-v1',
+    type: 'reminder',
+    subject: 'Reminder: {{reminderTitle}}',
+    body: `Hi {{studentFirstName}},
+
+This is a reminder about a step in your {{careerTitle}} action plan:
+
+{{reminderTitle}}
+Due: {{reminderDue}}
+
+{{message}}
+
+- Lantern AI`,
+    variables: ['studentFirstName', 'careerTitle', 'reminderTitle', 'reminderDue', 'message'],
+  },
+];
@@ -0,0 +1,33 @@
+/**
+ * National employment projections for the curated careers' occupations,
+ * by SOC code, from the BLS Employment Projections program. Employment and
+ * openings are in thousands; openings are the projected average per year.
+ */
+export interface OccupationProjection {
+  title: string;
+  employment: number;
+  annualOpenings: number;
+  growthPercent: number;
+}
+
+export const PROJECTIONS_PERIOD = '2023-33';
+
+export const OCCUPATION_PROJECTIONS: Record<string, OccupationProjection> = {
+  '21-1094': { title: 'Community health workers', employment: 67.2, annualOpenings: 8.5, growthPercent: 13 },
+  '29-1141': { title: 'Registered nurses', employment: 3304.6, annualOpenings: 197.2, growthPercent: 6 },
+  '29-2041': { title: 'Emergency medical technicians and paramedics', employment: 273.5, annualOpenings: 19.0, growthPercent: 5 },
+  '29-2061': { title: 'Licensed practical and licensed vocational nurses', employment: 657.2, annualOpenings: 54.4, growthPercent: 3 },
+  '31-9092': { title: 'Medical assistants', employment: 764.4, annualOpenings: 112.3, growthPercent: 15 },
+  '47-2061': { title: 'Construction laborers', employment: 1093.4, annualOpenings: 125.9, growthPercent: 7 },
+  '47-2111': { title: 'Electricians', employment: 818.7, annualOpenings: 80.2, growthPercent: 11 },
+  '47-2152': { title: 'Plumbers, pipefitters, and steamfitters', employment: 504.5, annualOpenings: 44.0, growthPercent: 6 },
+  '49-9021': { title: 'Heating, air conditioning, and refrigeration mechanics and installers', employment: 415.8, annualOpenings: 42.5, growthPercent: 9 },
+  '51-4121': { title: 'Welders, cutters, solderers, and brazers', employment: 460.5, annualOpenings: 45.8, growthPercent: 2 },
+};
+
+/**
+ * Projection for an O*NET-SOC code (e.g. 29-1141.00), by its SOC code
+ */
+export function getProjectionForOnetCode(onetCode: string): OccupationProjection | null {
+  return OCCUPATION_PROJECTIONS[onetCode.slice(0, 7)] || null;
+}
@@ -0,0 +1,152 @@
+/**
+ * Parent Summary Text
+ *
+ * Every sentence a parent summary can contain, in each supported language.
+ * Career titles and trait names without a translation fall back to English.
+ */
+
+import { Career, DemandLevel, EducationLevel, Language, Sector } from '../types';
+
+export interface ParentSummaryText {
+  // BCP 47 locale used for dates and money
+  locale: string;
+  defaultStudentName: string;
+  title: string;
+  intro: (studentName: string) => string;
+  interestsHeading: string;
+  careersHeading: string;
+  nextStepsHeading: string;
+  labels: { sector: string; pathway: string; salary: string; demand: string };
+  sectors: Record<Sector, string>;
+  demand: Record<DemandLevel, string>;
+  education: Record<EducationLevel, string>;
+  pathway: (education: string, duration: string, cost: string) => string;
+  salary: (min: string, max: string) => string;
+  duration: (duration: string) => string;
+  preparedOn: (date: string) => string;
+  counselorStep: string;
+  // Action plan steps, keyed by step ID (education-1 also by required education)
+  steps: Record<string, (career: Career, detail?: string) => string>;
+  traits: Record<string, string>;
+  careerTitles: Record<string, string>;
+}
+
+const en: ParentSummaryText = {
+  locale: 'en-US',
+  defaultStudentName: 'Your student',
+  title: 'Career Exploration Summary',
+  intro: name => `${name} completed a career interest assessment with Lantern AI. Here is what we learned and what comes next.`,
+  interestsHeading: 'Top Interests',
+  careersHeading: 'Careers Being Explored',
+  nextStepsHeading: 'Next Steps',
+  labels: { sector: 'Field', pathway: 'Path to get there', salary: 'Typical salary', demand: 'Local demand' },
+  sectors: { healthcare: 'Healthcare', infrastructure: 'Infrastructure' },
+  demand: { high: 'High demand', medium: 'Moderate demand', low: 'Low demand' },
+  education: {
+    'high-school': 'High school diploma',
+    'certificate': 'Certificate program',
+    'associate': 'Associate degree',
+    'bachelor': "Bachelor's degree",
+  },
+  pathway: (education, duration, cost) => `${education}, about ${duration} in total (estimated cost ${cost})`,
+  salary: (min, max) => `${min} – ${max} per year`,
+  duration: duration => duration,
+  preparedOn: date => `Prepared on ${date}`,
+  counselorStep: "Talk with your student's school counselor about classes and programs that fit these careers",
+  steps: {
+    'research-1': career => `Learn what a ${career.title} does day to day`,
+    'research-2': career => `Look for ${career.title} jobs and training programs near home`,
+    'education-1:high-school': () => 'Finish high school with strong grades in science, math and health classes',
+    'education-1:certificate': () => 'Find an accredited certificate or vocational program',
+    'education-1:associate': () => 'Research community college programs',
+    'education-1:bachelor': () => 'Research 4-year colleges with programs in this field',
+    'education-2': career => `Learn which licenses and certifications are required: ${career.certifications.join(', ')}`,
+    'skills': (_career, skill) => `Build ${skill} skills through classes or practice`,
+    'experience-1': () => 'Look for internships, volunteer work or a part-time job',
+    'experience-2': career => `Spend a day shadowing a ${career.title} at work`,
+    'networking-1': () => 'Join professional groups and attend industry events',
+    'networking-2': career => `Find an experienced ${career.title} to act as a mentor`,
+  },
+  traits: {},
+  careerTitles: {},
+};
+
+const es: ParentSummaryText = {
+  locale: 'es-US',
+  defaultStudentName: 'Su estudiante',
+  title: 'Resumen de exploración profesional',
+  intro: name => `${name} completó una evaluación de intereses profesionales con Lantern AI. Esto es lo que aprendimos y los próximos pasos.`,
+  interestsHeading: 'Intereses principales',
+  careersHeading: 'Carreras que está explorando',
+  nextStepsHeading: 'Próximos pasos',
+  labels: { sector: 'Área', pathway: 'Cómo llegar', salary: 'Salario típico', demand: 'Demanda local' },
+  sectors: { healthcare: 'Salud', infrastructure: 'Infraestructura' },
+  demand: { high: 'Alta demanda', medium: 'Demanda moderada', low: 'Baja demanda' },
+  education: {
+    'high-school': 'Diploma de preparatoria (high school)',
+    'certificate': 'Programa de certificado',
+    'associate': 'Título asociado (associate degree)',
+    'bachelor': 'Licenciatura (bachelor’s degree)',
+  },
+  pathway: (education, duration, cost) => `${education}, aproximadamente ${duration} en total (costo estimado ${cost})`,
+  salary: (min, max) => `${min} – ${max} al año`,
+  duration: duration => duration
+    .replace(/\byears?\b/g, 'años')
+    .replace(/\bmonths?\b/g, 'meses')
+    .replace(/\bOngoing\b/g, 'Continuo'),
+  preparedOn: date => `Preparado el ${date}`,
+  counselorStep: 'Hablar con el consejero escolar sobre clases y programas que se ajusten a estas carreras',
+  steps: {
+    'research-1': career => `Aprender qué hace un(a) ${careerTitle(career, 'es')} en su trabajo diario`,
+    'research-2': career => `Buscar empleos y programas de formación de ${careerTitle(career, 'es')} cerca de casa`,
+    'education-1:high-school': () => 'Terminar la preparatoria con buenas calificaciones en ciencias, matemáticas y salud',
+    'education-1:certificate': () => 'Encontrar un programa de certificado o vocacional acreditado',
+    'education-1:associate': () => 'Investigar programas en colegios comunitarios (community colleges)',
+    'education-1:bachelor': () => 'Investigar universidades de 4 años con programas en este campo',
+    'education-2': career => `Conocer las licencias y certificaciones requeridas: ${career.certifications.join(', ')}`,
+    'skills': (_career, skill) => `Desarrollar habilidades de ${skill} con clases o práctica`,
+    'experience-1': () => 'Buscar prácticas, voluntariado o un trabajo de medio tiempo',
+    'experience-2': career => `Pasar un día acompañando a un(a) ${careerTitle(career, 'es')} en su trabajo`,
+    'networking-1': () => 'Unirse a asociaciones profesionales y asistir a eventos del sector',
+    'networking-2': career => `Encontrar a un(a) ${careerTitle(career, 'es')} con experiencia que sea su mentor(a)`,
+  },
+  traits: {
+    'Helping Others': 'Ayudar a los demás',
+    'Hands-on Work': 'Trabajo práctico',
+    'Healthcare': 'Salud',
+    'Infrastructure': 'Infraestructura',
+    'Community Impact': 'Impacto en la comunidad',
+    'Technology': 'Tecnología',
+    'Attention to Detail': 'Atención al detalle',
+    'Communication': 'Comunicación',
+    'Exploring Options': 'Explorando opciones',
+    'Willingness to Learn': 'Disposición para aprender',
+    'Realistic': 'Realista',
+    'Investigative': 'Investigador',
+    'Artistic': 'Artístico',
+    'Social': 'Social',
+    'Enterprising': 'Emprendedor',
+    'Conventional': 'Convencional',
+  },
+  careerTitles: {
+    'rn-001': 'Enfermero(a) registrado(a)',
+    'ma-001': 'Asistente médico(a)',
+    'lpn-001': 'Enfermero(a) práctico(a) con licencia',
+    'chw-001': 'Promotor(a) de salud comunitaria',
+    'emt-001': 'Técnico(a) en emergencias médicas',
+    'elec-001': 'Electricista',
+    'plumb-001': 'Plomero(a)',
+    'hvac-001': 'Técnico(a) de calefacción y aire acondicionado (HVAC)',
+    'const-001': 'Trabajador(a) de la construcción',
+    'weld-001': 'Soldador(a)',
+  },
+};
+
+export const PARENT_SUMMARY_TEXT: Record<Language, ParentSummaryText> = { en, es };
+
+/**
+ * A career's title in the given language
+ */
+export function careerTitle(career: Career, language: Language): string {
+  return PARENT_SUMMARY_TEXT[language].careerTitles[career.id] || career.title;
+}
@@ -0,0 +1,201 @@
+import { Course, School } from '../types';
+
+/**
+ * Sample schools and course catalogs bundled with the app. Districts add
+ * their own through admin course uploads; an uploaded course replaces the
+ * bundled one with the same school and code.
+ */
+export const SCHOOLS: School[] = [
+  {
+    id: 'athens-hs',
+    name: 'Athens High School',
+    district: 'Athens City Schools',
+    zipCode: '45701',
+    city: 'Athens',
+    state: 'OH'
+  },
+  {
+    id: 'chillicothe-hs',
+    name: 'Chillicothe High School',
+    district: 'Chillicothe City Schools',
+    zipCode: '45601',
+    city: 'Chillicothe',
+    state: 'OH'
+  }
+];
+
+export const SCHOOL_COURSES: Course[] = [
+  // Athens High School
+  {
+    id: 'athens-hs-bio101',
+    schoolId: 'athens-hs',
+    code: 'BIO101',
+    name: 'Biology',
+    gradeLevels: [9, 10],
+    category: 'Science',
+    isCTE: false,
+    relatedCareers: ['rn-001', 'lpn-001', 'ma-001', 'emt-001']
+  },
+  {
+    id: 'athens-hs-ana201',
+    schoolId: 'athens-hs',
+    code: 'ANA201',
+    name: 'Anatomy and Physiology',
+    gradeLevels: [11, 12],
+    category: 'Science',
+    isCTE: false,
+    relatedCareers: ['rn-001', 'lpn-001', 'ma-001', 'emt-001']
+  },
+  {
+    id: 'athens-hs-hs110',
+    schoolId: 'athens-hs',
+    code: 'HS110',
+    name: 'Health Science Foundations',
+    gradeLevels: [9, 10],
+    category: 'Health Science',
+    isCTE: true,
+    relatedCareers: ['rn-001', 'lpn-001', 'ma-001', 'chw-001', 'emt-001']
+  },
+  {
+    id: 'athens-hs-hs210',
+    schoolId: 'athens-hs',
+    code: 'HS210',
+    name: 'Medical Terminology',
+    gradeLevels: [10, 11, 12],
+    category: 'Health Science',
+    isCTE: true,
+    relatedCareers: ['ma-001', 'lpn-001', 'rn-001']
+  },
+  {
+    id: 'athens-hs-hs320',
+    schoolId: 'athens-hs',
+    code: 'HS320',
+    name: 'Nurse Aide Training (STNA)',
+    gradeLevels: [11, 12],
+    category: 'Health Science',
+    isCTE: true,
+    relatedCareers: ['lpn-001', 'rn-001']
+  },
+  {
+    id: 'athens-hs-hs330',
+    schoolId: 'athens-hs',
+    code: 'HS330',
+    name: 'Emergency Medical Responder',
+    gradeLevels: [11, 12],
+    category: 'Health Science',
+    isCTE: true,
+    relatedCareers: ['emt-001']
+  },
+  {
+    id: 'athens-hs-soc150',
+    schoolId: 'athens-hs',
+    code: 'SOC150',
+    name: 'Community and Public Health',
+    gradeLevels: [10, 11, 12],
+    category: 'Social Studies',
+    isCTE: false,
+    relatedCareers: ['chw-001']
+  },
+  {
+    id: 'athens-hs-mth120',
+    schoolId: 'athens-hs',
+    code: 'MTH120',
+    name: 'Applied Technical Math',
+    gradeLevels: [9, 10, 11],
+    category: 'Math',
+    isCTE: false,
+    relatedCareers: ['elec-001', 'plumb-001', 'hvac-001', 'const-001', 'weld-001']
+  },
+  {
+    id: 'athens-hs-con110',
+    schoolId: 'athens-hs',
+    code: 'CON110',
+    name: 'Construction Technology I',
+    gradeLevels: [9, 10],
+    category: 'Construction Trades',
+    isCTE: true,
+    relatedCareers: ['const-001', 'elec-001', 'plumb-001', 'hvac-001']
+  },
+  {
+    id: 'athens-hs-ele210',
+    schoolId: 'athens-hs',
+    code: 'ELE210',
+    name: 'Residential Wiring',
+    gradeLevels: [11, 12],
+    category: 'Construction Trades',
+    isCTE: true,
+    relatedCareers: ['elec-001', 'hvac-001']
+  },
+
+  // Chillicothe High School
+  {
+    id: 'chillicothe-hs-sci110',
+    schoolId: 'chillicothe-hs',
+    code: 'SCI110',
+    name: 'Biology',
+    gradeLevels: [9, 10],
+    category: 'Science',
+    isCTE: false,
+    relatedCareers: ['rn-001', 'lpn-001', 'ma-001', 'emt-001']
+  },
+  {
+    id: 'chillicothe-hs-cte140',
+    schoolId: 'chillicothe-hs',
+    code: 'CTE140',
+    name: 'Exploring Health Careers',
+    gradeLevels: [9, 10],
+    category: 'Health Science',
+    isCTE: true,
+    relatedCareers: ['rn-001', 'lpn-001', 'ma-001', 'chw-001', 'emt-001']
+  },
+  {
+    id: 'chillicothe-hs-cte240',
+    schoolId: 'chillicothe-hs',
+    code: 'CTE240',
+    name: 'Medical Assisting Fundamentals',
+    gradeLevels: [11, 12],
+    category: 'Health Science',
+    isCTE: true,
+    relatedCareers: ['ma-001']
+  },
+  {
+    id: 'chillicothe-hs-cte160',
+    schoolId: 'chillicothe-hs',
+    code: 'CTE160',
+    name: 'Welding I',
+    gradeLevels: [10, 11],
+    category: 'Manufacturing',
+    isCTE: true,
+    relatedCareers: ['weld-001', 'const-001']
+  },
+  {
+    id: 'chillicothe-hs-cte260',
+    schoolId: 'chillicothe-hs',
+    code: 'CTE260',
+    name: 'Welding II (AWS Certification Prep)',
+    gradeLevels: [11, 12],
+    category: 'Manufacturing',
+    isCTE: true,
+    relatedCareers: ['weld-001']
+  },
+  {
+    id: 'chillicothe-hs-cte170',
+    schoolId: 'chillicothe-hs',
+    code: 'CTE170',
+    name: 'HVAC and Plumbing Systems',
+    gradeLevels: [11, 12],
+    category: 'Construction Trades',
+    isCTE: true,
+    relatedCareers: ['hvac-001', 'plumb-001']
+  },
+  {
+    id: 'chillicothe-hs-mth210',
+    schoolId: 'chillicothe-hs',
+    code: 'MTH210',
+    name: 'Geometry',
+    gradeLevels: [9, 10],
+    category: 'Math',
+    isCTE: false,
+    relatedCareers: ['elec-001', 'plumb-001', 'hvac-001', 'const-001', 'weld-001']
+  }
+];
@@ -0,0 +1,252 @@
+import { TrainingProgram } from '../types';
+
+/**
+ * Sample training programs bundled with the app, targeting the curated
+ * careers by ID. Every program location must be in the ZIP crosswalk
+ * (src/data/zipCrosswalk.csv) for distance search to find it.
+ */
+export const TRAINING_PROGRAMS: TrainingProgram[] = [
+  {
+    id: 'prog-001',
+    name: 'Practical Nursing Certificate',
+    provider: 'Hocking Hills Career Center',
+    type: 'certificate',
+    sector: 'healthcare',
+    targetCareers: ['lpn-001'],
+    duration: '12 months',
+    cost: 9800,
+    isPaid: false,
+    location: { zipCode: '45701', city: 'Athens', state: 'OH' },
+    eligibility: ['High school diploma or GED', 'Background check', 'CPR certification'],
+    applicationDeadline: new Date('2027-03-01'),
+    contactEmail: 'admissions@hockinghillscareercenter.example.org',
+    isActive: true
+  },
+  {
+    id: 'prog-002',
+    name: 'Associate Degree in Nursing',
+    provider: 'Scioto Valley Community College',
+    type: 'vocational',
+    sector: 'healthcare',
+    targetCareers: ['rn-001', 'lpn-001'],
+    duration: '2 years',
+    cost: 14500,
+    isPaid: false,
+    location: { zipCode: '45601', city: 'Chillicothe', state: 'OH' },
+    eligibility: ['High school diploma or GED', 'Anatomy and physiology prerequisite', 'Entrance exam'],
+    applicationDeadline: new Date('2027-02-15'),
+    contactEmail: 'admissions@sciotovalleycommunitycollege.example.org',
+    isActive: true
+  },
+  {
+    id: 'prog-003',
+    name: 'Medical Assistant Certificate',
+    provider: 'Scioto Valley Community College',
+    type: 'certificate',
+    sector: 'healthcare',
+    targetCareers: ['ma-001'],
+    duration: '9 months',
+    cost: 4200,
+    isPaid: false,
+    location: { zipCode: '45601', city: 'Chillicothe', state: 'OH' },
+    eligibility: ['High school diploma or GED'],
+    contactEmail: 'admissions@sciotovalleycommunitycollege.example.org',
+    isActive: true
+  },
+  {
+    id: 'prog-004',
+    name: 'Patient Care Summer Internship',
+    provider: 'Valley Regional Health System',
+    type: 'internship',
+    sector: 'healthcare',
+    targetCareers: ['rn-001', 'ma-001', 'lpn-001'],
+    duration: '10 weeks',
+    cost: 0,
+    isPaid: true,
+    location: { zipCode: '43215', city: 'Columbus', state: 'OH' },
+    eligibility: ['Age 16 or older', 'Enrolled in high school'],
+    applicationDeadline: new Date('2027-04-01'),
+    contactEmail: 'admissions@valleyregionalhealthsystem.example.org',
+    isActive: true
+  },
+  {
+    id: 'prog-005',
+    name: 'Community Health Worker Certificate',
+    provider: 'Appalachian Health Partners',
+    type: 'certificate',
+    sector: 'healthcare',
+    targetCareers: ['chw-001'],
+    duration: '4 months',
+    cost: 1200,
+    isPaid: false,
+    location: { zipCode: '45701', city: 'Athens', state: 'OH' },
+    eligibility: ['High school diploma or GED', 'Age 18 or older'],
+    contactEmail: 'admissions@appalachianhealthpartners.example.org',
+    isActive: true
+  },
+  {
+    id: 'prog-006',
+    name: 'EMT-Basic Course',
+    provider: 'Tri-County Fire & EMS Academy',
+    type: 'certificate',
+    sector: 'healthcare',
+    targetCareers: ['emt-001'],
+    duration: '4 months',
+    cost: 1500,
+    isPaid: false,
+    location: { zipCode: '43701', city: 'Zanesville', state: 'OH' },
+    eligibility: ['Age 18 by course completion', "Valid driver's license"],
+    contactEmail: 'admissions@tricountyfireandemsacademy.example.org',
+    isActive: true
+  },
+  {
+    id: 'prog-007',
+    name: 'Inside Wireman Apprenticeship',
+    provider: 'Central Ohio Electrical Training Center',
+    type: 'apprenticeship',
+    sector: 'infrastructure',
+    targetCareers: ['elec-001'],
+    duration: '5 years',
+    cost: 600,
+    isPaid: true,
+    location: { zipCode: '43215', city: 'Columbus', state: 'OH' },
+    eligibility: ['Age 18 or older', 'High school diploma or GED', 'Algebra 1 with a C or better', 'Aptitude test'],
+    applicationDeadline: new Date('2027-01-31'),
+    contactEmail: 'admissions@centralohioelectricaltrainingcenter.example.org',
+    isActive: true
+  },
+  {
+    id: 'prog-008',
+    name: 'Electrical Technology Certificate',
+    provider: 'Scioto Valley Community College',
+    type: 'certificate',
+    sector: 'infrastructure',
+    targetCareers: ['elec-001', 'hvac-001'],
+    duration: '1 year',
+    cost: 5200,
+    isPaid: false,
+    location: { zipCode: '45601', city: 'Chillicothe', state: 'OH' },
+    eligibility: ['High school diploma or GED'],
+    contactEmail: 'admissions@sciotovalleycommunitycollege.example.org',
+    isActive: true
+  },
+  {
+    id: 'prog-009',
+    name: 'Plumbing and Pipefitting Apprenticeship',
+    provider: 'Mid-Ohio Pipe Trades Training Center',
+    type: 'apprenticeship',
+    sector: 'infrastructure',
+    targetCareers: ['plumb-001', 'hvac-001'],
+    duration: '5 years',
+    cost: 0,
+    isPaid: true,
+    location: { zipCode: '43215', city: 'Columbus', state: 'OH' },
+    eligibility: ['Age 18 or older', 'High school diploma or GED', "Valid driver's license"],
+    contactEmail: 'admissions@midohiopipetradestrainingcenter.example.org',
+    isActive: true
+  },
+  {
+    id: 'prog-010',
+    name: 'HVAC/R Technician Program',
+    provider: 'Hocking Hills Career Center',
+    type: 'vocational',
+    sector: 'infrastructure',
+    targetCareers: ['hvac-001'],
+    duration: '10 months',
+    cost: 7800,
+    isPaid: false,
+    location: { zipCode: '45701', city: 'Athens', state: 'OH' },
+    eligibility: ['High school diploma or GED'],
+    contactEmail: 'admissions@hockinghillscareercenter.example.org',
+    isActive: true
+  },
+  {
+    id: 'prog-011',
+    name: 'Construction Pre-Apprenticeship',
+    provider: 'Appalachian Building Trades Alliance',
+    type: 'vocational',
+    sector: 'infrastructure',
+    targetCareers: ['const-001', 'elec-001', 'plumb-001'],
+    duration: '8 weeks',
+    cost: 0,
+    isPaid: true,
+    location: { zipCode: '41501', city: 'Pikeville', state: 'KY' },
+    eligibility: ['Age 17 or older'],
+    contactEmail: 'admissions@appalachianbuildingtradesalliance.example.org',
+    isActive: true
+  },
+  {
+    id: 'prog-012',
+    name: 'Welding Technology Certificate',
+    provider: 'Tri-County Career Center',
+    type: 'certificate',
+    sector: 'infrastructure',
+    targetCareers: ['weld-001'],
+    duration: '9 months',
+    cost: 6400,
+    isPaid: false,
+    location: { zipCode: '43701', city: 'Zanesville', state: 'OH' },
+    eligibility: ['High school diploma or GED'],
+    contactEmail: 'admissions@tricountycareercenter.example.org',
+    isActive: true
+  },
+  {
+    id: 'prog-013',
+    name: 'Structural Welding Apprenticeship',
+    provider: 'Kanawha Valley Ironworkers Training',
+    type: 'apprenticeship',
+    sector: 'infrastructure',
+    targetCareers: ['weld-001', 'const-001'],
+    duration: '3 years',
+    cost: 0,
+    isPaid: true,
+    location: { zipCode: '25301', city: 'Charleston', state: 'WV' },
+    eligibility: ['Age 18 or older', 'High school diploma or GED', 'Drug screening'],
+    contactEmail: 'admissions@kanawhavalleyironworkerstraining.example.org',
+    isActive: true
+  },
+  {
+    id: 'prog-014',
+    name: 'Summer Construction Internship',
+    provider: 'Great Lakes Builders Association',
+    type: 'internship',
+    sector: 'infrastructure',
+    targetCareers: ['const-001'],
+    duration: '10 weeks',
+    cost: 0,
+    isPaid: true,
+    location: { zipCode: '48201', city: 'Detroit', state: 'MI' },
+    eligibility: ['Age 16 or older'],
+    contactEmail: 'admissions@greatlakesbuildersassociation.example.org',
+    isActive: true
+  },
+  {
+    id: 'prog-015',
+    name: 'State Tested Nurse Aide Training',
+    provider: 'Capital Area Healthcare Careers',
+    type: 'certificate',
+    sector: 'healthcare',
+    targetCareers: ['lpn-001', 'rn-001', 'ma-001'],
+    duration: '4 weeks',
+    cost: 900,
+    isPaid: false,
+    location: { zipCode: '43215', city: 'Columbus', state: 'OH' },
+    eligibility: ['Age 16 or older', 'Background check'],
+    contactEmail: 'admissions@capitalareahealthcarecareers.example.org',
+    isActive: true
+  },
+  {
+    id: 'prog-016',
+    name: 'Phlebotomy Technician Certificate',
+    provider: 'Capital Area Healthcare Careers',
+    type: 'certificate',
+    sector: 'healthcare',
+    targetCareers: ['ma-001'],
+    duration: '8 weeks',
+    cost: 1100,
+    isPaid: false,
+    location: { zipCode: '43215', city: 'Columbus', state: 'OH' },
+    eligibility: ['High school diploma or GED'],
+    isActive: false
+  }
+];
@@ -0,0 +1,112 @@
+import { Sector } from '../types';
+
+/**
+ * The O*NET rating dimensions used for career matching
+ */
+export type OnetDimension = 'skills' | 'knowledge' | 'abilities';
+
+export type DimensionWeights = Partial<Record<OnetDimension, Record<string, number>>>;
+
+/**
+ * How each assessment trait (the interests and skills in a StudentProfile)
+ * maps onto O*NET skill, knowledge and ability elements. Element names must
+ * match the O*NET content model exactly; weights are relative (0-1).
+ */
+export const TRAIT_DIMENSIONS: Record<string, DimensionWeights> = {
+  'Helping Others': {
+    skills: { 'Service Orientation': 1, 'Social Perceptiveness': 0.8, 'Active Listening': 0.5 },
+    knowledge: { 'Customer and Personal Service': 1, 'Psychology': 0.6, 'Therapy and Counseling': 0.6 },
+    abilities: { 'Problem Sensitivity': 0.5 },
+  },
+  'Hands-on Work': {
+    skills: { 'Repairing': 1, 'Equipment Maintenance': 0.9, 'Installation': 0.8, 'Troubleshooting': 0.6 },
+    knowledge: { 'Mechanical': 1, 'Building and Construction': 0.7 },
+    abilities: { 'Manual Dexterity': 1, 'Arm-Hand Steadiness': 0.8, 'Multilimb Coordination': 0.6 },
+  },
+  'Healthcare': {
+    skills: { 'Monitoring': 0.6, 'Active Listening': 0.4 },
+    knowledge: { 'Medicine and Dentistry': 1, 'Biology': 0.8, 'Psychology': 0.4, 'Chemistry': 0.4 },
+    abilities: { 'Problem Sensitivity': 0.6 },
+  },
+  'Infrastructure': {
+    skills: { 'Operation and Control': 0.6, 'Quality Control Analysis': 0.5 },
+    knowledge: { 'Building and Construction': 1, 'Engineering and Technology': 0.8, 'Mechanical': 0.6, 'Design': 0.5, 'Physics': 0.5 },
+    abilities: { 'Visualization': 0.6, 'Static Strength': 0.4 },
+  },
+  'Community Impact': {
+    skills: { 'Service Orientation': 0.8, 'Coordination': 0.5 },
+    knowledge: { 'Public Safety and Security': 0.8, 'Customer and Personal Service': 0.6, 'Sociology and Anthropology': 0.6 },
+  },
+  'Technology': {
+    skills: { 'Operations Monitoring': 0.7, 'Troubleshooting': 0.6, 'Technology Design': 0.5 },
+    knowledge: { 'Computers and Electronics': 1, 'Engineering and Technology': 0.6 },
+  },
+  'Attention to Detail': {
+    skills: { 'Quality Control Analysis': 1, 'Monitoring': 0.8 },
+    abilities: { 'Perceptual Speed': 0.8, 'Near Vision': 0.7, 'Selective Attention': 0.7, 'Information Ordering': 0.6 },
+  },
+  'Communication': {
+    skills: { 'Speaking': 1, 'Active Listening': 0.9, 'Social Perceptiveness': 0.6, 'Instructing': 0.5 },
+    knowledge: { 'English Language': 0.6, 'Customer and Personal Service': 0.5 },
+    abilities: { 'Oral Expression': 1, 'Oral Comprehension': 0.9, 'Speech Clarity': 0.6 },
+  },
+};
+
+/**
+ * Typical O*NET importance ratings (1-5) by sector. Used for careers that
+ * have no O*NET occupation data, i.e. when the catalog falls back to the
+ * curated careers.
+ */
+export const SECTOR_BASELINE_RATINGS: Record<Sector, Record<OnetDimension, Record<string, number>>> = {
+  healthcare: {
+    skills: {
+      'Active Listening': 4.0, 'Service Orientation': 3.9, 'Social Perceptiveness': 3.9, 'Monitoring': 3.8,
+      'Speaking': 3.8, 'Coordination': 3.4, 'Quality Control Analysis': 2.4, 'Operation and Control': 2.3,
+      'Troubleshooting': 2.0, 'Equipment Maintenance': 1.8, 'Repairing': 1.5, 'Installation': 1.3,
+    },
+    knowledge: {
+      'Medicine and Dentistry': 4.1, 'Customer and Personal Service': 4.0, 'Psychology': 3.5, 'Biology': 3.1,
+      'English Language': 3.5, 'Public Safety and Security': 3.1, 'Therapy and Counseling': 3.0,
+      'Chemistry': 2.6, 'Computers and Electronics': 2.8, 'Mechanical': 1.6, 'Building and Construction': 1.3,
+    },
+    abilities: {
+      'Oral Comprehension': 4.0, 'Problem Sensitivity': 4.0, 'Oral Expression': 3.9, 'Near Vision': 3.6,
+      'Selective Attention': 3.2, 'Information Ordering': 3.4, 'Speech Clarity': 3.5, 'Arm-Hand Steadiness': 3.0,
+      'Manual Dexterity': 3.0, 'Perceptual Speed': 2.9, 'Static Strength': 2.4, 'Visualization': 2.3,
+    },
+  },
+  infrastructure: {
+    skills: {
+      'Repairing': 3.6, 'Equipment Maintenance': 3.5, 'Troubleshooting': 3.5, 'Installation': 3.1,
+      'Operation and Control': 3.3, 'Quality Control Analysis': 3.1, 'Monitoring': 3.1, 'Active Listening': 3.1,
+      'Speaking': 2.9, 'Coordination': 3.0, 'Service Orientation': 2.4, 'Social Perceptiveness': 2.5,
+    },
+    knowledge: {
+      'Mechanical': 4.0, 'Building and Construction': 4.0, 'Public Safety and Security': 3.5,
+      'Engineering and Technology': 3.1, 'Design': 3.0, 'Physics': 2.8, 'Computers and Electronics': 2.6,
+      'Customer and Personal Service': 3.0, 'English Language': 2.6, 'Medicine and Dentistry': 1.3,
+    },
+    abilities: {
+      'Manual Dexterity': 3.6, 'Arm-Hand Steadiness': 3.6, 'Multilimb Coordination': 3.4, 'Static Strength': 3.4,
+      'Visualization': 3.4, 'Near Vision': 3.4, 'Problem Sensitivity': 3.4, 'Oral Comprehension': 3.4,
+      'Information Ordering': 3.2, 'Oral Expression': 3.1, 'Perceptual Speed': 2.9, 'Selective Attention': 2.9,
+    },
+  },
+};
+
+/**
+ * Typical Holland code by sector, for careers with neither O*NET interest
+ * ratings nor a curated Holland code
+ */
+export const SECTOR_BASELINE_HOLLAND_CODE: Record<Sector, string> = {
+  healthcare: 'SIC',
+  infrastructure: 'RCI',
+};
+
+/**
+ * Usual work setting for each sector, used to score the work environment preference
+ */
+export const SECTOR_WORK_ENVIRONMENT: Record<Sector, 'indoor' | 'outdoor' | 'mixed'> = {
+  healthcare: 'indoor',
+  infrastructure: 'outdoor',
+};
@@ -0,0 +1,90 @@
+/**
+ * States with their FIPS codes, and the ZIP prefixes (first three digits)
+ * USPS assigns to each. Prefixes for military mail and the smaller
+ * territories aren't listed.
+ */
+export interface StateEntry {
+  name: string;
+  fips: string;
+}
+
+export const STATES: Record<string, StateEntry> = {
+  AK: { name: 'Alaska', fips: '02' },
+  AL: { name: 'Alabama', fips: '01' },
+  AR: { name: 'Arkansas', fips: '05' },
+  AZ: { name: 'Arizona', fips: '04' },
+  CA: { name: 'California', fips: '06' },
+  CO: { name: 'Colorado', fips: '08' },
+  CT: { name: 'Connecticut', fips: '09' },
+  DC: { name: 'District of Columbia', fips: '11' },
+  DE: { name: 'Delaware', fips: '10' },
+  FL: { name: 'Florida', fips: '12' },
+  GA: { name: 'Georgia', fips: '13' },
+  HI: { name: 'Hawaii', fips: '15' },
+  IA: { name: 'Iowa', fips: '19' },
+  ID: { name: 'Idaho', fips: '16' },
+  IL: { name: 'Illinois', fips: '17' },
+  IN: { name: 'Indiana', fips: '18' },
+  KS: { name: 'Kansas', fips: '20' },
+  KY: { name: 'Kentucky', fips: '21' },
+  LA: { name: 'Louisiana', fips: '22' },
+  MA: { name: 'Massachusetts', fips: '25' },
+  MD: { name: 'Maryland', fips: '24' },
+  ME: { name: 'Maine', fips: '23' },
+  MI: { name: 'Michigan', fips: '26' },
+  MN: { name: 'Minnesota', fips: '27' },
+  MO: { name: 'Missouri', fips: '29' },
+  MS: { name: 'Mississippi', fips: '28' },
+  MT: { name: 'Montana', fips: '30' },
+  NC: { name: 'North Carolina', fips: '37' },
+  ND: { name: 'North Dakota', fips: '38' },
+  NE: { name: 'Nebraska', fips: '31' },
+  NH: { name: 'New Hampshire', fips: '33' },
+  NJ: { name: 'New Jersey', fips: '34' },
+  NM: { name: 'New Mexico', fips: '35' },
+  NV: { name: 'Nevada', fips: '32' },
+  NY: { name: 'New York', fips: '36' },
+  OH: { name: 'Ohio', fips: '39' },
+  OK: { name: 'Oklahoma', fips: '40' },
+  OR: { name: 'Oregon', fips: '41' },
+  PA: { name: 'Pennsylvania', fips: '42' },
+  PR: { name: 'Puerto Rico', fips: '72' },
+  RI: { name: 'Rhode Island', fips: '44' },
+  SC: { name: 'South Carolina', fips: '45' },
+  SD: { name: 'South Dakota', fips: '46' },
+  TN: { name: 'Tennessee', fips: '47' },
+  TX: { name: 'Texas', fips: '48' },
+  UT: { name: 'Utah', fips: '49' },
+  VA: { name: 'Virginia', fips: '51' },
+  VT: { name: 'Vermont', fips: '50' },
+  WA: { name: 'Washington', fips: '53' },
+  WI: { name: 'Wisconsin', fips: '55' },
+  WV: { name: 'West Virginia', fips: '54' },
+  WY: { name: 'Wyoming', fips: '56' },
+};
+
+// [first prefix, last prefix, state], inclusive
+export const ZIP_PREFIX_STATES: [string, string, string][] = [
+  ['005', '005', 'NY'], ['006', '007', 'PR'], ['009', '009', 'PR'],
+  ['010', '027', 'MA'], ['028', '029', 'RI'], ['030', '038', 'NH'],
+  ['039', '049', 'ME'], ['050', '054', 'VT'], ['055', '055', 'MA'],
+  ['056', '059', 'VT'], ['060', '069', 'CT'], ['070', '089', 'NJ'],
+  ['100', '149', 'NY'], ['150', '196', 'PA'], ['197', '199', 'DE'],
+  ['200', '200', 'DC'], ['201', '201', 'VA'], ['202', '205', 'DC'],
+  ['206', '219', 'MD'], ['220', '246', 'VA'], ['247', '268', 'WV'],
+  ['270', '289', 'NC'], ['290', '299', 'SC'], ['300', '319', 'GA'],
+  ['320', '339', 'FL'], ['341', '349', 'FL'], ['350', '369', 'AL'],
+  ['370', '385', 'TN'], ['386', '397', 'MS'], ['398', '399', 'GA'],
+  ['400', '427', 'KY'], ['430', '459', 'OH'], ['460', '479', 'IN'],
+  ['480', '499', 'MI'], ['500', '528', 'IA'], ['530', '549', 'WI'],
+  ['550', '567', 'MN'], ['569', '569', 'DC'], ['570', '577', 'SD'],
+  ['580', '588', 'ND'], ['590', '599', 'MT'], ['600', '629', 'IL'],
+  ['630', '658', 'MO'], ['660', '679', 'KS'], ['680', '693', 'NE'],
+  ['700', '714', 'LA'], ['716', '729', 'AR'], ['730', '732', 'OK'],
+  ['733', '733', 'TX'], ['734', '749', 'OK'], ['750', '799', 'TX'],
+  ['800', '816', 'CO'], ['820', '831', 'WY'], ['832', '838', 'ID'],
+  ['840', '847', 'UT'], ['850', '865', 'AZ'], ['870', '884', 'NM'],
+  ['885', '885', 'TX'], ['889', '898', 'NV'], ['900', '961', 'CA'],
+  ['967', '968', 'HI'], ['970', '979', 'OR'], ['980', '994', 'WA'],
+  ['995', '999', 'AK'],
+];
@@ -0,0 +1,117 @@
+/**
+ * PostgreSQL connection management
+ *
+ * Every repository goes through the shared pool returned by getPool().
+ * Tests (and DB_DRIVER=memory) swap in an in-process pg-mem database
+ * that speaks the same `pg` Pool interface.
+ */
+
+import { Pool, QueryResult, QueryResultRow } from 'pg';
+import { getDatabaseConfig, DatabaseConfig } from '../config/databaseConfig';
+import { runMigrations, Queryable } from './migrations';
+import { withTransaction } from './transaction';
+
+let pool: Pool | null = null;
+
+/**
+ * Create a pool connected to a real PostgreSQL server
+ */
+function createPostgresPool(config: DatabaseConfig): Pool {
+  if (config.connectionString) {
+    return new Pool({ connectionString: config.connectionString, max: config.poolSize });
+  }
+
+  return new Pool({
+    host: config.host,
+    port: config.port,
+    database: config.database,
+    user: config.user,
+    password: config.password,
+    max: config.poolSize,
+  });
+}
+
+/**
+ * Create a pool backed by an empty in-process pg-mem database.
+ * pg-mem is a dev dependency, so it is only loaded when asked for.
+ */
+export function createMemoryPool(): Pool {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const { newDb, DataType } = require('pg-mem');
+  const db = newDb({ noAstCoverageCheck: true });
+
+  // pg-mem has no jsonb_set; this covers replacing a value at an existing path
+  db.public.registerFunction({
+    name: 'jsonb_set',
+    args: [DataType.jsonb, db.public.getType(DataType.text).asArray(), DataType.jsonb],
+    returns: DataType.jsonb,
+    implementation: (target: unknown, path: string[], value: unknown) => {
+      const copy = JSON.parse(JSON.stringify(target));
+      const parent = path.slice(0, -1).reduce((node, key) => node?.[key], copy);
+      if (parent && typeof parent === 'object') parent[path[path.length - 1]] = value;
+      return copy;
+    },
+  });
+
+  const adapter = db.adapters.createPg();
+  return new adapter.Pool() as Pool;
+}
+
+/**
+ * Get the shared connection pool, creating it on first use
+ */
+export function getPool(): Pool {
+  if (!pool) {
+    const config = getDatabaseConfig();
+    pool = config.driver === 'memory' ? createMemoryPool() : createPostgresPool(config);
+  }
+  return pool;
+}
+
+/**
+ * Replace the shared pool (used by tests to inject an in-process database)
+ */
+export function setPool(newPool: Pool | null): void {
+  pool = newPool;
+}
+
+/**
+ * Close the shared pool
+ */
+export async function closePool(): Promise<void> {
+  if (pool) {
+    const current = pool;
+    pool = null;
+    await current.end();
+  }
+}
+
+/**
+ * Run a parameterized query against the shared pool
+ */
+export function query<T extends QueryResultRow = any>(
+  text: string,
+  params?: unknown[]
+): Promise<QueryResult<T>> {
+  return getPool().query<T>(text, params);
+}
+
+/**
+ * Run queries on one connection of the shared pool inside a transaction
+ */
+export function transaction<T>(fn: (client: Queryable) => Promise<T>): Promise<T> {
+  return withTransaction(getPool(), fn);
+}
+
+/**
+ * Prepare the database for use, applying migrations if configured to
+ */
+export async function initDatabase(): Promise<void> {
+  const config = getDatabaseConfig();
+  if (config.autoMigrate || config.driver === 'memory') {
+    const applied = await runMigrations(getPool());
+    if (applied.length > 0) {
+      console.log(`🗄️  Applied ${applied.length} database migration(s): ${applied.join(', ')}`);
+    }
+  }
+}
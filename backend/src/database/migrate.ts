@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+/**
+ * Database Migration Script
+ *
+ * Applies pending migrations to the database configured in .env
+ * (DATABASE_URL or DB_HOST/DB_PORT/DB_NAME/DB_USER/DB_PASSWORD).
+ *
+ * Usage:
+ *   npm run build && npm run db:migrate
+ *   # or during development:
+ *   npx ts-node src/database/migrate.ts
+ */
+
+import dotenv from 'dotenv';
+import { getPool, closePool } from './db';
+import { runMigrations } from './migrations';
+
+dotenv.config();
+
+async function main(): Promise<void> {
+  try {
+    const applied = await runMigrations(getPool());
+    if (applied.length === 0) {
+      console.log('Database is up to date.');
+    } else {
+      console.log(`Applied ${applied.length} migration(s):`);
+      applied.forEach(name => console.log(`  - ${name}`));
+    }
+  } catch (error) {
+    console.error(`❌ Migration failed: ${(error as Error).message}`);
+    process.exitCode = 1;
+  } finally {
+    await closePool();
+  }
+}
+
+main();
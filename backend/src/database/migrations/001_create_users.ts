@@ -0,0 +1,36 @@
+import { Migration } from './types';
+
+/**
+ * Accounts for every role live in `users`; student-only fields hang off `students`.
+ * Counselors are plain users that must belong to a school.
+ */
+const migration: Migration = {
+  id: 1,
+  name: 'create_users',
+  up: `
+    CREATE TABLE IF NOT EXISTS users (
+      id UUID PRIMARY KEY,
+      email TEXT NOT NULL UNIQUE,
+      password_hash TEXT NOT NULL,
+      role TEXT NOT NULL CHECK (role IN ('student', 'counselor', 'teacher', 'admin')),
+      first_name TEXT NOT NULL,
+      last_name TEXT NOT NULL,
+      school_id TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      CHECK (role <> 'counselor' OR school_id IS NOT NULL)
+    );
+
+    CREATE TABLE IF NOT EXISTS students (
+      user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      grade INTEGER,
+      zip_code VARCHAR(5),
+      profile_completed BOOLEAN NOT NULL DEFAULT FALSE,
+      consent_given BOOLEAN NOT NULL DEFAULT FALSE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_users_school_id ON users (school_id);
+  `,
+};
+
+export default migration;
@@ -0,0 +1,15 @@
+import { Migration } from './types';
+
+/**
+ * Teachers, like counselors, must belong to a school
+ */
+const migration: Migration = {
+  id: 2,
+  name: 'require_teacher_school',
+  up: `
+    ALTER TABLE users
+      ADD CONSTRAINT users_teacher_school_check CHECK (role <> 'teacher' OR school_id IS NOT NULL);
+  `,
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+import { Migration } from './types';
+
+/**
+ * What counselors see about a student: the profile from their linked
+ * assessment, the careers they're aiming for, and counselors' notes.
+ */
+const migration: Migration = {
+  id: 3,
+  name: 'create_student_records',
+  up: `
+    CREATE TABLE IF NOT EXISTS student_profiles (
+      user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      status TEXT NOT NULL CHECK (status IN ('in-progress', 'complete')),
+      profile JSONB,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS student_target_careers (
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      career_id TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (user_id, career_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS counselor_notes (
+      id UUID PRIMARY KEY,
+      counselor_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      student_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      note TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_counselor_notes_student_id ON counselor_notes (student_id);
+  `,
+};
+
+export default migration;
@@ -0,0 +1,27 @@
+import { Migration } from './types';
+
+/**
+ * Every email the app tries to send, with its delivery outcome
+ */
+const migration: Migration = {
+  id: 4,
+  name: 'create_email_log',
+  up: `
+    CREATE TABLE IF NOT EXISTS email_log (
+      id UUID PRIMARY KEY,
+      template_type TEXT NOT NULL,
+      recipient TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      transport TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+      message_id TEXT,
+      error TEXT,
+      sent_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_email_log_sent_by ON email_log (sent_by);
+  `,
+};
+
+export default migration;
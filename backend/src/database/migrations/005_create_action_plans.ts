@@ -0,0 +1,40 @@
+import { Migration } from './types';
+
+/**
+ * Students' saved action plans: the generated plan with its step
+ * checkmarks, plus the custom actions they add to it
+ */
+const migration: Migration = {
+  id: 5,
+  name: 'create_action_plans',
+  up: `
+    CREATE TABLE IF NOT EXISTS action_plans (
+      id UUID PRIMARY KEY,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      career_id TEXT NOT NULL,
+      plan JSONB NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (user_id, career_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS plan_actions (
+      id UUID PRIMARY KEY,
+      plan_id UUID NOT NULL REFERENCES action_plans(id) ON DELETE CASCADE,
+      title TEXT NOT NULL,
+      description TEXT NOT NULL DEFAULT '',
+      type TEXT NOT NULL CHECK (type IN ('course', 'meeting', 'application', 'research', 'custom')),
+      due_date TIMESTAMPTZ,
+      completed BOOLEAN NOT NULL DEFAULT FALSE,
+      completed_at TIMESTAMPTZ,
+      reminder_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+      reminder_date TIMESTAMPTZ,
+      notes TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_plan_actions_plan_id ON plan_actions (plan_id);
+  `,
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+import { Migration } from './types';
+
+/**
+ * Action reminders: when each was sent (so it is sent at most once) and
+ * the in-app notification feed they can be delivered to
+ */
+const migration: Migration = {
+  id: 6,
+  name: 'create_reminders',
+  up: `
+    ALTER TABLE plan_actions ADD COLUMN reminder_sent_at TIMESTAMPTZ;
+
+    CREATE TABLE IF NOT EXISTS notifications (
+      id UUID PRIMARY KEY,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      type TEXT NOT NULL CHECK (type IN ('reminder')),
+      title TEXT NOT NULL,
+      body TEXT NOT NULL,
+      link TEXT,
+      read_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications (user_id);
+  `,
+};
+
+export default migration;
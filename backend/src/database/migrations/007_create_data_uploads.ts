@@ -0,0 +1,51 @@
+import { Migration } from './types';
+
+/**
+ * Admin CSV uploads and the district-maintained data they load: school
+ * courses, training programs and overrides for career details
+ */
+const migration: Migration = {
+  id: 7,
+  name: 'create_data_uploads',
+  up: `
+    CREATE TABLE IF NOT EXISTS data_uploads (
+      id UUID PRIMARY KEY,
+      type TEXT NOT NULL CHECK (type IN ('courses', 'programs', 'careers')),
+      filename TEXT NOT NULL,
+      uploaded_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      records_processed INTEGER NOT NULL DEFAULT 0,
+      records_failed INTEGER NOT NULL DEFAULT 0,
+      status TEXT NOT NULL CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+      errors JSONB NOT NULL DEFAULT '[]',
+      uploaded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      completed_at TIMESTAMPTZ
+    );
+
+    CREATE TABLE IF NOT EXISTS courses (
+      id UUID PRIMARY KEY,
+      school_id TEXT NOT NULL,
+      code TEXT NOT NULL,
+      name TEXT NOT NULL,
+      grade_levels JSONB NOT NULL,
+      category TEXT NOT NULL,
+      is_cte BOOLEAN NOT NULL DEFAULT FALSE,
+      related_careers JSONB NOT NULL DEFAULT '[]',
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (school_id, code)
+    );
+
+    CREATE TABLE IF NOT EXISTS training_programs (
+      id TEXT PRIMARY KEY,
+      program JSONB NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS career_overlays (
+      career_id TEXT PRIMARY KEY,
+      overlay JSONB NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `,
+};
+
+export default migration;
@@ -0,0 +1,17 @@
+import { Migration } from './types';
+
+/**
+ * Record which API instance is processing each upload and when it last
+ * reported progress, so a restarting instance only fails its own uploads
+ * and ones whose instance has stopped
+ */
+const migration: Migration = {
+  id: 8,
+  name: 'track_upload_owner',
+  up: `
+    ALTER TABLE data_uploads ADD COLUMN instance_id TEXT;
+    ALTER TABLE data_uploads ADD COLUMN heartbeat_at TIMESTAMPTZ;
+  `,
+};
+
+export default migration;
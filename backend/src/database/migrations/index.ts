@@ -0,0 +1,56 @@
+import { Migration } from './types';
+import { Connectable, withTransaction } from '../transaction';
+import createUsers from './001_create_users';
+import requireTeacherSchool from './002_require_teacher_school';
+import createStudentRecords from './003_create_student_records';
+import createEmailLog from './004_create_email_log';
+import createActionPlans from './005_create_action_plans';
+import createReminders from './006_create_reminders';
+import createDataUploads from './007_create_data_uploads';
+import trackUploadOwner from './008_track_upload_owner';
+
+export { Migration, Queryable } from './types';
+
+// Register new migrations here, in order
+export const MIGRATIONS: Migration[] = [
+  createUsers,
+  requireTeacherSchool,
+  createStudentRecords,
+  createEmailLog,
+  createActionPlans,
+  createReminders,
+  createDataUploads,
+  trackUploadOwner,
+];
+
+/**
+ * Apply every migration that has not been recorded in schema_migrations yet.
+ * Each migration runs in its own transaction with its schema_migrations row,
+ * so a failed one leaves neither a partial schema nor a record.
+ * Returns the names of the migrations that were applied.
+ */
+export async function runMigrations(db: Connectable): Promise<string[]> {
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+
+  const result = await db.query('SELECT id FROM schema_migrations');
+  const appliedIds = new Set<number>(result.rows.map(row => Number(row.id)));
+  const applied: string[] = [];
+
+  for (const migration of [...MIGRATIONS].sort((a, b) => a.id - b.id)) {
+    if (appliedIds.has(migration.id)) continue;
+
+    await withTransaction(db, async client => {
+      await client.query(migration.up);
+      await client.query('INSERT INTO schema_migrations (id, name) VALUES ($1, $2)', [migration.id, migration.name]);
+    });
+    applied.push(`${String(migration.id).padStart(3, '0')}_${migration.name}`);
+  }
+
+  return applied;
+}
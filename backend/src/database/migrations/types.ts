@@ -0,0 +1,16 @@
+import { QueryResult } from 'pg';
+
+export interface Migration {
+  // Monotonically increasing identifier; also the order migrations run in
+  id: number;
+  name: string;
+  // SQL applied when migrating forward
+  up: string;
+}
+
+/**
+ * Anything that can run a query: a Pool, a PoolClient or a pg-mem adapter
+ */
+export interface Queryable {
+  query(text: string, params?: unknown[]): Promise<QueryResult<any>>;
+}
@@ -0,0 +1,51 @@
+/**
+ * Shared Redis connection
+ *
+ * The client is created and connected on first use so that processes
+ * which never touch Redis (tests, memory-only deployments) don't need it.
+ */
+
+import { createClient } from 'redis';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+let client: RedisClient | null = null;
+let connecting: Promise<RedisClient> | null = null;
+
+/**
+ * Get the shared Redis client, connecting on first use
+ */
+export function getRedisClient(url: string = process.env.REDIS_URL || 'redis://localhost:6379'): Promise<RedisClient> {
+  if (client) return Promise.resolve(client);
+
+  if (!connecting) {
+    const newClient = createClient({ url });
+    newClient.on('error', (error: Error) => {
+      console.error('Redis client error:', error.message);
+    });
+
+    connecting = newClient.connect()
+      .then(() => {
+        client = newClient;
+        return newClient;
+      })
+      .catch((error: Error) => {
+        connecting = null;
+        throw error;
+      });
+  }
+
+  return connecting;
+}
+
+/**
+ * Close the shared Redis client
+ */
+export async function closeRedisClient(): Promise<void> {
+  const current = client;
+  client = null;
+  connecting = null;
+  if (current) {
+    await current.quit();
+  }
+}
@@ -0,0 +1,42 @@
+import { Queryable } from './migrations/types';
+
+/**
+ * A single connection checked out of a pool
+ */
+export interface PooledClient extends Queryable {
+  // Passing an error discards the connection instead of returning it to the pool
+  release(error?: Error): void;
+}
+
+/**
+ * Anything that can hand out a single connection: a Pool or a pg-mem adapter
+ */
+export interface Connectable extends Queryable {
+  connect(): Promise<PooledClient>;
+}
+
+/**
+ * Run fn's queries on one connection inside a transaction, committing when
+ * it resolves and rolling back when it throws. If the rollback fails too,
+ * that is logged, the connection is discarded and fn's error is rethrown.
+ */
+export async function withTransaction<T>(db: Connectable, fn: (client: Queryable) => Promise<T>): Promise<T> {
+  const client = await db.connect();
+  let brokenConnection: Error | undefined;
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    try {
+      await client.query('ROLLBACK');
+    } catch (rollbackError) {
+      console.error('Error rolling back transaction:', rollbackError);
+      brokenConnection = rollbackError as Error;
+    }
+    throw error;
+  } finally {
+    client.release(brokenConnection);
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * A rendered message ready to hand to a transport
+ */
+export interface EmailMessage {
+  from: string;
+  to: string;
+  replyTo?: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivery backend for outgoing mail
+ */
+export interface EmailTransport {
+  /** Transport name recorded in the send log */
+  readonly name: string;
+
+  /** Deliver a message; resolves with the transport's message ID */
+  send(message: EmailMessage): Promise<string>;
+}
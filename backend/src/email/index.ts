@@ -0,0 +1,19 @@
+import { getEmailConfig, EmailConfig } from '../config/emailConfig';
+import { EmailTransport } from './emailTransport';
+import { OutboxTransport } from './outboxTransport';
+import { SmtpTransport } from './smtpTransport';
+
+export { EmailMessage, EmailTransport } from './emailTransport';
+export { OutboxTransport } from './outboxTransport';
+export { SmtpTransport } from './smtpTransport';
+
+/**
+ * Create the mail transport selected by EMAIL_TRANSPORT
+ */
+export function createEmailTransport(config: EmailConfig = getEmailConfig()): EmailTransport {
+  if (config.transport === 'smtp') {
+    return new SmtpTransport(config.smtp);
+  }
+
+  return new OutboxTransport(config.outboxDir);
+}
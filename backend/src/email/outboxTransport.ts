@@ -0,0 +1,25 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EmailMessage, EmailTransport } from './emailTransport';
+
+/**
+ * Writes each message to a JSON file instead of sending it, so mail can be
+ * checked during local development without a mail server
+ */
+export class OutboxTransport implements EmailTransport {
+  readonly name = 'outbox';
+
+  constructor(private readonly dir: string) {}
+
+  async send(message: EmailMessage): Promise<string> {
+    const messageId = randomUUID();
+    const sentAt = new Date();
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(
+      path.join(this.dir, `${sentAt.toISOString().replace(/[:.]/g, '-')}-${messageId}.json`),
+      JSON.stringify({ messageId, sentAt, ...message }, null, 2)
+    );
+    return messageId;
+  }
+}
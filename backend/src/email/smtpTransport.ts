@@ -0,0 +1,28 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { EmailConfig } from '../config/emailConfig';
+import { EmailMessage, EmailTransport } from './emailTransport';
+
+/**
+ * Sends mail through an SMTP server. The connection is opened on first send.
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter | null = null;
+
+  constructor(private readonly config: EmailConfig['smtp']) {}
+
+  async send(message: EmailMessage): Promise<string> {
+    if (!this.transporter) {
+      const { host, port, secure, user, pass } = this.config;
+      this.transporter = nodemailer.createTransport({
+        host,
+        port,
+        secure,
+        auth: user ? { user, pass } : undefined,
+      });
+    }
+
+    const info = await this.transporter.sendMail(message);
+    return info.messageId;
+  }
+}
@@ -8,6 +8,19 @@ import assessmentRoutes from './routes/assessment';
 import careersRoutes from './routes/careers';
 import authRoutes from './routes/auth';
 import actionPlansRoutes from './routes/actionPlans';
+import counselorRoutes from './routes/counselor';
+import parentSummaryRoutes from './routes/parentSummary';
+import reportRoutes from './routes/reports';
+import emailRoutes from './routes/email';
+import reminderRoutes from './routes/reminders';
+import notificationRoutes from './routes/notifications';
+import programRoutes from './routes/programs';
+import courseRoutes from './routes/courses';
+import adminRoutes from './routes/admin';
+import { initDatabase } from './database/db';
+import { UploadService } from './services/uploadService';
+import { AuthService } from './services/authService';
+import { startJobs } from './jobs';
 
 // Load environment variables
 dotenv.config();
@@ -41,6 +54,15 @@ app.use('/api/sessions', sessionRoutes);
 app.use('/api/assessment', assessmentRoutes);
 app.use('/api/careers', careersRoutes);
 app.use('/api/action-plans', actionPlansRoutes);
+app.use('/api/counselor', counselorRoutes);
+app.use('/api/parent-summary', parentSummaryRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/email', emailRoutes);
+app.use('/api/reminders', reminderRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/programs', programRoutes);
+app.use('/api/courses', courseRoutes);
+app.use('/api/admin', adminRoutes);
 
 app.get('/api', (req, res) => {
   res.json({
@@ -53,7 +75,16 @@ app.get('/api', (req, res) => {
       assessment: '/api/assessment',
       careers: '/api/careers',
       blsEconomicData: '/api/careers/economic-data',
-      actionPlans: '/api/action-plans'
+      actionPlans: '/api/action-plans',
+      counselor: '/api/counselor',
+      parentSummary: '/api/parent-summary',
+      reports: '/api/reports',
+      email: '/api/email',
+      reminders: '/api/reminders',
+      notifications: '/api/notifications',
+      programs: '/api/programs',
+      courses: '/api/courses',
+      admin: '/api/admin'
     }
   });
 });
@@ -72,10 +103,21 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
   });
 });
 
-app.listen(PORT, () => {
-  console.log(`🚀 Lantern AI API running on port ${PORT}`);
-  console.log(`📍 Health check: http://localhost:${PORT}/health`);
-  console.log(`📚 API docs: http://localhost:${PORT}/api`);
-});
+initDatabase()
+  .then(() => AuthService.createInitialAdminFromEnv())
+  .then(() => UploadService.failInterruptedUploads())
+  .then(() => UploadService.loadUploadedData())
+  .then(() => {
+    startJobs();
+    app.listen(PORT, () => {
+      console.log(`🚀 Lantern AI API running on port ${PORT}`);
+      console.log(`📍 Health check: http://localhost:${PORT}/health`);
+      console.log(`📚 API docs: http://localhost:${PORT}/api`);
+    });
+  })
+  .catch((error: Error) => {
+    console.error('❌ Failed to initialize database:', error.message);
+    process.exit(1);
+  });
 
 export default app;
@@ -0,0 +1,100 @@
+import { getBLSConfig, BLSConfig } from '../config/blsConfig';
+import { countRequests, BLSSeriesGroup } from '../services/blsClient';
+import { getIndicatorSeriesGroup, getRegionalSeriesGroups, warmEconomicData } from '../services/careerEconomicService';
+import { ScheduledJob } from './scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WarmupSchedule {
+  intervalMs: number;
+  // Requests each run may spend on LAUS and OEWS series: its share of the background budget
+  regionalRequestsPerRun: number;
+}
+
+/**
+ * How often the warmup runs and what each run may spend on regional
+ * series. The interval is BLS_WARMUP_INTERVAL_MS when set, otherwise once
+ * per cache TTL, spaced further apart when that many runs a day, each
+ * refreshing the indicators and its part of the regional series that go
+ * stale each day, would spend more than the budget left for background
+ * requests. Each run may spend its whole share, so regional series missing
+ * at startup are filled in over the first few runs.
+ */
+export function getWarmupSchedule(
+  config: BLSConfig = getBLSConfig(),
+  indicatorCount = getIndicatorSeriesGroup().seriesIds.length,
+  regionalGroups: BLSSeriesGroup[] = config.cache.enabled ? getRegionalSeriesGroups() : []
+): WarmupSchedule {
+  const backgroundBudget = config.budget.dailyLimit - config.budget.reserve;
+  const indicatorRequests = countRequests(indicatorCount);
+  // Requests a day that refresh every regional series once per its TTL
+  const regionalRequestsPerDay = regionalGroups
+    .reduce((sum, group) => sum + countRequests(group.seriesIds.length) * DAY_MS / group.ttlMs, 0);
+  // A UTC day can hold one run more than it divides into, so leave room for it
+  const fitsBudget = (runsPerDay: number) =>
+    (runsPerDay + 1) * (indicatorRequests + Math.ceil(regionalRequestsPerDay / runsPerDay)) <= backgroundBudget;
+
+  let runsPerDay = DAY_MS / config.cache.ttlMs;
+  let withinBudgetMs = config.cache.ttlMs;
+  while (runsPerDay > 1 && !fitsBudget(runsPerDay)) {
+    runsPerDay = Math.ceil(runsPerDay) - 1;
+    withinBudgetMs = Math.ceil(DAY_MS / runsPerDay);
+  }
+  if (!fitsBudget(runsPerDay)) {
+    console.warn(
+      `BLS daily budget of ${config.budget.dailyLimit} requests can't keep every LAUS and OEWS series fresh `
+        + `(about ${Math.ceil(regionalRequestsPerDay)} requests a day); they'll be refreshed as the budget allows`
+    );
+  }
+
+  let intervalMs = withinBudgetMs;
+  if (config.warmup.intervalMs !== null) {
+    if (config.warmup.intervalMs < withinBudgetMs) {
+      console.warn(
+        `BLS_WARMUP_INTERVAL_MS of ${config.warmup.intervalMs} runs the warmup more often than the daily budget allows; `
+          + `later runs will be deferred (${withinBudgetMs} or more fits)`
+      );
+    }
+    intervalMs = config.warmup.intervalMs;
+    runsPerDay = DAY_MS / intervalMs;
+  }
+
+  return {
+    intervalMs,
+    regionalRequestsPerRun: Math.max(0, Math.floor(backgroundBudget / (runsPerDay + 1)) - indicatorRequests),
+  };
+}
+
+/**
+ * How often the warmup runs (see getWarmupSchedule)
+ */
+export function getWarmupIntervalMs(config: BLSConfig = getBLSConfig()): number {
+  return getWarmupSchedule(config).intervalMs;
+}
+
+/**
+ * Background job that keeps every referenced BLS series cached, so
+ * students viewing economic data, local demand and wages are served from
+ * the cache
+ */
+export function createBlsWarmupJob(config: BLSConfig = getBLSConfig()): ScheduledJob {
+  const { intervalMs, regionalRequestsPerRun } = getWarmupSchedule(config);
+
+  return {
+    name: 'bls-warmup',
+    intervalMs,
+    runAtStart: true,
+    async run() {
+      // Refresh indicators that would go stale before the next run
+      const report = await warmEconomicData(intervalMs, regionalRequestsPerRun);
+      console.log(
+        `📈 BLS warmup: ${report.seriesIds.length} series, ${report.refreshed.length} refreshed, `
+          + `${report.fresh.length} still fresh, ${report.stale.length} stale, ${report.unavailable.length} unavailable`
+      );
+      if (report.error) {
+        console.warn(`BLS warmup could not refresh every series: ${report.error}`);
+      }
+      return report;
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { getReminderConfig } from '../config/reminderConfig';
+import { getBLSConfig } from '../config/blsConfig';
+import { createReminderJob } from './reminderJob';
+import { createBlsWarmupJob } from './blsWarmupJob';
+import { createUploadReloadJob } from './uploadReloadJob';
+import { scheduleJob } from './scheduler';
+
+export { ScheduledJob, scheduleJob } from './scheduler';
+export { createReminderJob } from './reminderJob';
+export { createBlsWarmupJob, getWarmupIntervalMs, getWarmupSchedule } from './blsWarmupJob';
+export { createUploadReloadJob } from './uploadReloadJob';
+
+/**
+ * Start every enabled background job. Returns a function that stops them all.
+ */
+export function startJobs(): () => void {
+  const stops: (() => void)[] = [];
+
+  if (getReminderConfig().enabled) {
+    stops.push(scheduleJob(createReminderJob()));
+  }
+
+  const blsConfig = getBLSConfig();
+  if (blsConfig.enabled && blsConfig.cache.enabled && blsConfig.warmup.enabled) {
+    stops.push(scheduleJob(createBlsWarmupJob(blsConfig)));
+  }
+
+  stops.push(scheduleJob(createUploadReloadJob()));
+
+  return () => stops.forEach(stop => stop());
+}
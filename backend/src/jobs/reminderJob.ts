@@ -0,0 +1,19 @@
+import { getReminderConfig, ReminderConfig } from '../config/reminderConfig';
+import { ReminderService } from '../services/reminderService';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * Background job that sends due action reminders
+ */
+export function createReminderJob(config: ReminderConfig = getReminderConfig()): ScheduledJob {
+  return {
+    name: 'reminders',
+    intervalMs: config.intervalMs,
+    async run() {
+      const { sent, failed } = await ReminderService.sendDueReminders();
+      if (sent > 0 || failed > 0) {
+        console.log(`🔔 Reminders: ${sent} sent, ${failed} failed`);
+      }
+    },
+  };
+}
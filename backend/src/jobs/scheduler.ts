@@ -0,0 +1,45 @@
+/**
+ * A task run on a fixed interval in the background
+ */
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  // Run once right away instead of waiting for the first interval
+  runAtStart?: boolean;
+  run(): Promise<unknown>;
+}
+
+/**
+ * Run a job every intervalMs, starting one interval from now (or right
+ * away with runAtStart). A run that is still going when the next one is
+ * due is not overlapped; that tick is skipped. Errors are logged and the
+ * job keeps its schedule.
+ * Returns a function that stops the job.
+ */
+export function scheduleJob(job: ScheduledJob): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await job.run();
+    } catch (error) {
+      console.error(`Error running job ${job.name}:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, job.intervalMs);
+  const first = job.runAtStart ? setTimeout(tick, 0) : null;
+
+  // Don't keep the process alive just for background jobs
+  timer.unref();
+  first?.unref();
+
+  return () => {
+    clearInterval(timer);
+    if (first) clearTimeout(first);
+  };
+}
@@ -0,0 +1,19 @@
+import { getUploadConfig, UploadConfig } from '../config/uploadConfig';
+import { UploadService } from '../services/uploadService';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * Background job that loads courses, programs and career overlays uploaded
+ * through other API instances
+ */
+export function createUploadReloadJob(config: UploadConfig = getUploadConfig()): ScheduledJob {
+  return {
+    name: 'uploaded-data-reload',
+    intervalMs: config.reloadIntervalMs,
+    async run() {
+      if (await UploadService.reloadUploadedDataIfChanged()) {
+        console.log('📂 Uploaded data reloaded');
+      }
+    },
+  };
+}
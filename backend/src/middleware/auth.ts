@@ -0,0 +1,82 @@
+import express from 'express';
+import { AuthService } from '../services/authService';
+import { ApiResponse, UserAccount, UserRole } from '../types';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      // Set by authenticate once the bearer token is verified
+      user?: UserAccount;
+    }
+  }
+}
+
+/**
+ * Verify the bearer token and attach the user's current account to the request.
+ * The account is re-read on every request so role changes and deletions apply
+ * immediately rather than when the token expires.
+ */
+export async function authenticate(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({
+        success: false,
+        error: 'No token provided'
+      } as ApiResponse);
+    }
+
+    const tokenResult = AuthService.verifyToken(authHeader.substring(7));
+    if (!tokenResult.success) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid token'
+      } as ApiResponse);
+    }
+
+    const user = await AuthService.getUserById(tokenResult.userId!);
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not found'
+      } as ApiResponse);
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    console.error('Authentication error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Authentication failed'
+    } as ApiResponse);
+  }
+}
+
+/**
+ * Only let users with one of the given roles through. Use after authenticate.
+ */
+export function requireRole(...roles: UserRole[]): express.RequestHandler {
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      } as ApiResponse);
+    }
+
+    if (!roles.includes(req.user.role)) {
+      return res.status(403).json({
+        success: false,
+        error: `This action requires one of these roles: ${roles.join(', ')}`
+      } as ApiResponse);
+    }
+
+    next();
+  };
+}
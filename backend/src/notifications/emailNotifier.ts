@@ -0,0 +1,33 @@
+import { EmailService } from '../services/emailService';
+import { CareerService } from '../services/careerService';
+import { DueReminder, ReminderNotifier, formatReminderDue } from './reminderNotifier';
+
+/**
+ * Emails reminders to the student with the reminder template
+ */
+export class EmailNotifier implements ReminderNotifier {
+  readonly name = 'email';
+
+  async notify(reminder: DueReminder): Promise<void> {
+    const career = CareerService.getCareerById(reminder.careerId) ?? undefined;
+    const entry = await EmailService.send({
+      type: 'reminder',
+      to: reminder.student.email,
+      variables: {
+        ...EmailService.buildVariables({
+          student: reminder.student,
+          career,
+          message: reminder.notes,
+        }),
+        careerTitle: career?.title ?? 'career',
+        reminderTitle: reminder.title,
+        reminderDue: formatReminderDue(reminder),
+      },
+      sentBy: reminder.userId,
+    });
+
+    if (entry.status === 'failed') {
+      throw new Error(entry.error || 'Failed to send reminder email');
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { randomUUID } from 'crypto';
+import { NotificationRepository } from '../repositories/notificationRepository';
+import { DueReminder, ReminderNotifier, formatReminderDue } from './reminderNotifier';
+
+/**
+ * Adds reminders to the student's in-app notification feed
+ */
+export class InAppNotifier implements ReminderNotifier {
+  readonly name = 'in-app';
+
+  async notify(reminder: DueReminder): Promise<void> {
+    await NotificationRepository.create({
+      id: randomUUID(),
+      userId: reminder.userId,
+      type: 'reminder',
+      title: `Reminder: ${reminder.title}`,
+      body: reminder.notes ? `Due ${formatReminderDue(reminder)}. ${reminder.notes}` : `Due ${formatReminderDue(reminder)}`,
+      link: `/action-plan/${reminder.careerId}`,
+      createdAt: new Date(),
+    });
+  }
+}
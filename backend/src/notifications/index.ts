@@ -0,0 +1,19 @@
+import { getReminderConfig, ReminderConfig } from '../config/reminderConfig';
+import { ReminderNotifier } from './reminderNotifier';
+import { EmailNotifier } from './emailNotifier';
+import { InAppNotifier } from './inAppNotifier';
+
+export { DueReminder, ReminderNotifier, formatReminderDue } from './reminderNotifier';
+export { EmailNotifier } from './emailNotifier';
+export { InAppNotifier } from './inAppNotifier';
+
+/**
+ * Create the reminder notifier selected by REMINDER_NOTIFIER
+ */
+export function createReminderNotifier(config: ReminderConfig = getReminderConfig()): ReminderNotifier {
+  if (config.notifier === 'email') {
+    return new EmailNotifier();
+  }
+
+  return new InAppNotifier();
+}
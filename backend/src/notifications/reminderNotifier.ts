@@ -0,0 +1,21 @@
+import { DueReminder } from '../repositories/actionPlanRepository';
+
+export { DueReminder } from '../repositories/actionPlanRepository';
+
+/**
+ * Delivers action reminders to students
+ */
+export interface ReminderNotifier {
+  /** Notifier name, for logs */
+  readonly name: string;
+
+  /** Deliver one reminder; rejects if it could not be delivered */
+  notify(reminder: DueReminder): Promise<void>;
+}
+
+/**
+ * Format a reminder's due date (or its reminder date, if it has no due date)
+ */
+export function formatReminderDue(reminder: DueReminder): string {
+  return (reminder.dueDate ?? reminder.reminderDate).toLocaleDateString('en-US', { dateStyle: 'long' });
+}
@@ -0,0 +1,261 @@
+import { query } from '../database/db';
+import { Action } from '../types';
+import { ActionPlan } from '../services/actionPlanService';
+
+export interface StoredActionPlan {
+  id: string;
+  userId: string;
+  careerId: string;
+  plan: ActionPlan;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A custom action whose reminder is due, with who to remind
+ */
+export interface DueReminder {
+  actionId: string;
+  userId: string;
+  careerId: string;
+  title: string;
+  dueDate?: Date;
+  reminderDate: Date;
+  notes?: string;
+  student: { firstName: string; lastName: string; email: string };
+}
+
+interface DueReminderRow {
+  id: string;
+  user_id: string;
+  career_id: string;
+  title: string;
+  due_date: Date | null;
+  reminder_date: Date;
+  notes: string | null;
+  first_name: string;
+  last_name: string;
+  email: string;
+}
+
+interface PlanRow {
+  id: string;
+  user_id: string;
+  career_id: string;
+  plan: ActionPlan | string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface ActionRow {
+  id: string;
+  plan_id: string;
+  title: string;
+  description: string;
+  type: Action['type'];
+  due_date: Date | null;
+  completed: boolean;
+  completed_at: Date | null;
+  reminder_enabled: boolean;
+  reminder_date: Date | null;
+  notes: string | null;
+}
+
+function toPlan(row: PlanRow): StoredActionPlan {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    careerId: row.career_id,
+    plan: typeof row.plan === 'string' ? JSON.parse(row.plan) : row.plan,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function toAction(row: ActionRow): Action {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    type: row.type,
+    dueDate: row.due_date ? new Date(row.due_date) : undefined,
+    completed: row.completed,
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+    reminderEnabled: row.reminder_enabled,
+    reminderDate: row.reminder_date ? new Date(row.reminder_date) : undefined,
+    notes: row.notes ?? undefined,
+  };
+}
+
+/**
+ * Data access for students' saved action plans and their custom actions
+ */
+export class ActionPlanRepository {
+  /**
+   * Find a student's saved plan for a career
+   */
+  static async findPlan(userId: string, careerId: string): Promise<StoredActionPlan | null> {
+    const result = await query<PlanRow>(
+      'SELECT * FROM action_plans WHERE user_id = $1 AND career_id = $2',
+      [userId, careerId]
+    );
+    return result.rows[0] ? toPlan(result.rows[0]) : null;
+  }
+
+  /**
+   * List a student's saved plans, most recently updated first
+   */
+  static async listPlans(userId: string): Promise<StoredActionPlan[]> {
+    const result = await query<PlanRow>(
+      'SELECT * FROM action_plans WHERE user_id = $1 ORDER BY updated_at DESC',
+      [userId]
+    );
+    return result.rows.map(toPlan);
+  }
+
+  /**
+   * Insert a saved plan, unless the student already has one for the career
+   */
+  static async createPlan(plan: StoredActionPlan): Promise<void> {
+    await query(
+      `INSERT INTO action_plans (id, user_id, career_id, plan, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (user_id, career_id) DO NOTHING`,
+      [plan.id, plan.userId, plan.careerId, JSON.stringify(plan.plan), plan.createdAt, plan.updatedAt]
+    );
+  }
+
+  /**
+   * Check off (or uncheck) steps on a saved plan by their position in its
+   * steps. Each step is set in place in one statement, so concurrent
+   * changes to other steps are kept.
+   */
+  static async setStepsCompleted(id: string, stepIndexes: number[], completed: boolean, updatedAt: Date): Promise<void> {
+    if (stepIndexes.length === 0) return;
+
+    const plan = stepIndexes.reduce(
+      (expression, _index, i) => `jsonb_set(${expression}, $${i + 4}::text[], $3::jsonb)`,
+      'plan'
+    );
+    await query(
+      `UPDATE action_plans SET plan = ${plan}, updated_at = $2 WHERE id = $1`,
+      [id, updatedAt, JSON.stringify(completed), ...stepIndexes.map(index => ['steps', String(index), 'completed'])]
+    );
+  }
+
+  /**
+   * Record that a saved plan changed, e.g. when one of its actions did
+   */
+  static async touchPlan(id: string, updatedAt: Date): Promise<void> {
+    await query('UPDATE action_plans SET updated_at = $2 WHERE id = $1', [id, updatedAt]);
+  }
+
+  /**
+   * List the custom actions on a plan, oldest first
+   */
+  static async listActions(planId: string): Promise<Action[]> {
+    const result = await query<ActionRow>(
+      'SELECT * FROM plan_actions WHERE plan_id = $1 ORDER BY created_at',
+      [planId]
+    );
+    return result.rows.map(toAction);
+  }
+
+  /**
+   * Insert a custom action on a plan
+   */
+  static async createAction(planId: string, action: Action): Promise<void> {
+    await query(
+      `INSERT INTO plan_actions
+         (id, plan_id, title, description, type, due_date, completed, completed_at,
+          reminder_enabled, reminder_date, notes, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [action.id, planId, action.title, action.description, action.type, action.dueDate ?? null,
+        action.completed, action.completedAt ?? null, action.reminderEnabled, action.reminderDate ?? null,
+        action.notes ?? null, new Date()]
+    );
+  }
+
+  /**
+   * Save every editable field of a custom action.
+   * Returns false if the plan has no such action.
+   */
+  static async updateAction(planId: string, action: Action): Promise<boolean> {
+    const result = await query(
+      `UPDATE plan_actions
+       SET title = $3, description = $4, type = $5, due_date = $6, completed = $7, completed_at = $8,
+           reminder_enabled = $9, reminder_date = $10, notes = $11
+       WHERE id = $1 AND plan_id = $2`,
+      [action.id, planId, action.title, action.description, action.type, action.dueDate ?? null,
+        action.completed, action.completedAt ?? null, action.reminderEnabled, action.reminderDate ?? null,
+        action.notes ?? null]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Find one of a student's custom actions, with the plan it belongs to
+   */
+  static async findActionForUser(
+    userId: string,
+    actionId: string
+  ): Promise<{ planId: string; careerId: string; action: Action } | null> {
+    const result = await query<ActionRow & { career_id: string }>(
+      `SELECT a.*, p.career_id FROM plan_actions a JOIN action_plans p ON p.id = a.plan_id
+       WHERE a.id = $1 AND p.user_id = $2`,
+      [actionId, userId]
+    );
+    const row = result.rows[0];
+    return row ? { planId: row.plan_id, careerId: row.career_id, action: toAction(row) } : null;
+  }
+
+  /**
+   * Turn an action's reminder on or off and set when it fires. It will be
+   * sent again even if an earlier reminder already went out.
+   */
+  static async rescheduleReminder(actionId: string, enabled: boolean, reminderDate: Date | null): Promise<void> {
+    await query(
+      'UPDATE plan_actions SET reminder_enabled = $2, reminder_date = $3, reminder_sent_at = NULL WHERE id = $1',
+      [actionId, enabled, reminderDate]
+    );
+  }
+
+  /**
+   * List enabled, unsent reminders on unfinished actions that are due by `now`
+   */
+  static async findDueReminders(now: Date): Promise<DueReminder[]> {
+    const result = await query<DueReminderRow>(
+      `SELECT a.id, p.user_id, p.career_id, a.title, a.due_date, a.reminder_date, a.notes,
+              u.first_name, u.last_name, u.email
+       FROM plan_actions a
+       JOIN action_plans p ON p.id = a.plan_id
+       JOIN users u ON u.id = p.user_id
+       WHERE a.reminder_enabled = TRUE AND a.completed = FALSE
+         AND a.reminder_sent_at IS NULL AND a.reminder_date <= $1
+       ORDER BY a.reminder_date`,
+      [now]
+    );
+    return result.rows.map(row => ({
+      actionId: row.id,
+      userId: row.user_id,
+      careerId: row.career_id,
+      title: row.title,
+      dueDate: row.due_date ? new Date(row.due_date) : undefined,
+      reminderDate: new Date(row.reminder_date),
+      notes: row.notes ?? undefined,
+      student: { firstName: row.first_name, lastName: row.last_name, email: row.email },
+    }));
+  }
+
+  /**
+   * Mark a reminder as sent. Only one caller can claim a reminder, so
+   * whoever gets true is the one that sends it.
+   */
+  static async claimReminder(actionId: string, sentAt: Date): Promise<boolean> {
+    const result = await query(
+      'UPDATE plan_actions SET reminder_sent_at = $2 WHERE id = $1 AND reminder_sent_at IS NULL',
+      [actionId, sentAt]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,103 @@
+import { randomUUID } from 'crypto';
+import { query } from '../database/db';
+import { CareerOverlay, Course, TrainingProgram } from '../types';
+
+interface CourseRow {
+  id: string;
+  school_id: string;
+  code: string;
+  name: string;
+  grade_levels: number[];
+  category: string;
+  is_cte: boolean;
+  related_careers: string[];
+}
+
+function toCourse(row: CourseRow): Course {
+  return {
+    id: row.id,
+    schoolId: row.school_id,
+    code: row.code,
+    name: row.name,
+    gradeLevels: row.grade_levels,
+    category: row.category,
+    isCTE: row.is_cte,
+    relatedCareers: row.related_careers,
+  };
+}
+
+function toProgram(stored: TrainingProgram): TrainingProgram {
+  return {
+    ...stored,
+    applicationDeadline: stored.applicationDeadline ? new Date(stored.applicationDeadline) : undefined,
+  };
+}
+
+/**
+ * Data access for district-maintained catalog data loaded by admin
+ * uploads: school courses, training programs and career overlays
+ */
+export class CatalogDataRepository {
+  /**
+   * Insert a course, or replace the school's course with the same code
+   */
+  static async upsertCourse(course: Omit<Course, 'id'>): Promise<void> {
+    await query(
+      `INSERT INTO courses (id, school_id, code, name, grade_levels, category, is_cte, related_careers)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (school_id, code) DO UPDATE SET
+         name = EXCLUDED.name, grade_levels = EXCLUDED.grade_levels, category = EXCLUDED.category,
+         is_cte = EXCLUDED.is_cte, related_careers = EXCLUDED.related_careers, updated_at = NOW()`,
+      [randomUUID(), course.schoolId, course.code, course.name, JSON.stringify(course.gradeLevels),
+        course.category, course.isCTE, JSON.stringify(course.relatedCareers)]
+    );
+  }
+
+  /**
+   * List a school's courses by code, or every school's when no school is given
+   */
+  static async listCourses(schoolId?: string): Promise<Course[]> {
+    const result = schoolId
+      ? await query<CourseRow>('SELECT * FROM courses WHERE school_id = $1 ORDER BY code', [schoolId])
+      : await query<CourseRow>('SELECT * FROM courses ORDER BY school_id, code');
+    return result.rows.map(toCourse);
+  }
+
+  /**
+   * Insert a training program, or replace the one with the same ID
+   */
+  static async upsertProgram(program: TrainingProgram): Promise<void> {
+    await query(
+      `INSERT INTO training_programs (id, program) VALUES ($1, $2)
+       ON CONFLICT (id) DO UPDATE SET program = EXCLUDED.program, updated_at = NOW()`,
+      [program.id, JSON.stringify(program)]
+    );
+  }
+
+  /**
+   * List every uploaded training program
+   */
+  static async listPrograms(): Promise<TrainingProgram[]> {
+    const result = await query<{ program: TrainingProgram }>('SELECT program FROM training_programs ORDER BY id');
+    return result.rows.map(row => toProgram(row.program));
+  }
+
+  /**
+   * Insert a career overlay, or replace the career's existing one
+   */
+  static async upsertCareerOverlay(overlay: CareerOverlay): Promise<void> {
+    await query(
+      `INSERT INTO career_overlays (career_id, overlay) VALUES ($1, $2)
+       ON CONFLICT (career_id) DO UPDATE SET overlay = EXCLUDED.overlay, updated_at = NOW()`,
+      [overlay.careerId, JSON.stringify(overlay)]
+    );
+  }
+
+  /**
+   * List every career overlay
+   */
+  static async listCareerOverlays(): Promise<CareerOverlay[]> {
+    const result = await query<{ overlay: CareerOverlay }>('SELECT overlay FROM career_overlays ORDER BY career_id');
+    return result.rows.map(row => row.overlay);
+  }
+}
@@ -0,0 +1,60 @@
+import { query } from '../database/db';
+import { EmailLogEntry } from '../types';
+
+interface EmailLogRow {
+  id: string;
+  template_type: EmailLogEntry['templateType'];
+  recipient: string;
+  subject: string;
+  transport: string;
+  status: EmailLogEntry['status'];
+  message_id: string | null;
+  error: string | null;
+  sent_by: string | null;
+  created_at: Date;
+}
+
+function toEntry(row: EmailLogRow): EmailLogEntry {
+  return {
+    id: row.id,
+    templateType: row.template_type,
+    recipient: row.recipient,
+    subject: row.subject,
+    transport: row.transport,
+    status: row.status,
+    messageId: row.message_id ?? undefined,
+    error: row.error ?? undefined,
+    sentBy: row.sent_by ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Data access for the email send log
+ */
+export class EmailLogRepository {
+  /**
+   * Record a send attempt
+   */
+  static async create(entry: EmailLogEntry): Promise<void> {
+    await query(
+      `INSERT INTO email_log (id, template_type, recipient, subject, transport, status, message_id, error, sent_by, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [entry.id, entry.templateType, entry.recipient, entry.subject, entry.transport, entry.status,
+        entry.messageId ?? null, entry.error ?? null, entry.sentBy ?? null, entry.createdAt]
+    );
+  }
+
+  /**
+   * List send attempts, newest first, optionally only those one user made
+   */
+  static async list(options: { sentBy?: string; limit: number }): Promise<EmailLogEntry[]> {
+    const result = options.sentBy
+      ? await query<EmailLogRow>(
+        'SELECT * FROM email_log WHERE sent_by = $1 ORDER BY created_at DESC LIMIT $2',
+        [options.sentBy, options.limit]
+      )
+      : await query<EmailLogRow>('SELECT * FROM email_log ORDER BY created_at DESC LIMIT $1', [options.limit]);
+    return result.rows.map(toEntry);
+  }
+}
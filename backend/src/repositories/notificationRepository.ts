@@ -0,0 +1,66 @@
+import { query } from '../database/db';
+import { AppNotification } from '../types';
+
+interface NotificationRow {
+  id: string;
+  user_id: string;
+  type: AppNotification['type'];
+  title: string;
+  body: string;
+  link: string | null;
+  read_at: Date | null;
+  created_at: Date;
+}
+
+function toNotification(row: NotificationRow): AppNotification {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    title: row.title,
+    body: row.body,
+    link: row.link ?? undefined,
+    readAt: row.read_at ? new Date(row.read_at) : undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Data access for the in-app notification feed
+ */
+export class NotificationRepository {
+  /**
+   * Insert a notification
+   */
+  static async create(notification: AppNotification): Promise<void> {
+    await query(
+      `INSERT INTO notifications (id, user_id, type, title, body, link, read_at, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [notification.id, notification.userId, notification.type, notification.title, notification.body,
+        notification.link ?? null, notification.readAt ?? null, notification.createdAt]
+    );
+  }
+
+  /**
+   * List a user's notifications, newest first
+   */
+  static async listForUser(userId: string, limit: number): Promise<AppNotification[]> {
+    const result = await query<NotificationRow>(
+      'SELECT * FROM notifications WHERE user_id = $1 ORDER BY created_at DESC LIMIT $2',
+      [userId, limit]
+    );
+    return result.rows.map(toNotification);
+  }
+
+  /**
+   * Mark one of a user's notifications as read.
+   * Returns false if the user has no such notification.
+   */
+  static async markRead(userId: string, id: string, readAt: Date): Promise<boolean> {
+    const result = await query(
+      'UPDATE notifications SET read_at = COALESCE(read_at, $3) WHERE id = $1 AND user_id = $2',
+      [id, userId, readAt]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
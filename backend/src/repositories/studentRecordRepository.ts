@@ -0,0 +1,163 @@
+import { query, transaction } from '../database/db';
+import { CounselorNote, StudentProfile } from '../types';
+
+export type StoredProfileStatus = 'in-progress' | 'complete';
+
+export interface StoredProfile {
+  userId: string;
+  status: StoredProfileStatus;
+  profile: Partial<StudentProfile> | null;
+  updatedAt: Date;
+}
+
+export interface TargetCareer {
+  userId: string;
+  careerId: string;
+  createdAt: Date;
+}
+
+interface ProfileRow {
+  user_id: string;
+  status: StoredProfileStatus;
+  profile: Partial<StudentProfile> | string | null;
+  updated_at: Date;
+}
+
+interface TargetCareerRow {
+  user_id: string;
+  career_id: string;
+  created_at: Date;
+}
+
+interface NoteRow {
+  id: string;
+  counselor_id: string;
+  student_id: string;
+  note: string;
+  created_at: Date;
+}
+
+/**
+ * Limit a query joined to users (as u) to one school, or to every school
+ * when no school is given
+ */
+function schoolScope(schoolId?: string): { clause: string; params: unknown[] } {
+  return schoolId
+    ? { clause: 'WHERE u.school_id = $1', params: [schoolId] }
+    : { clause: '', params: [] };
+}
+
+function toProfile(row: ProfileRow): StoredProfile {
+  return {
+    userId: row.user_id,
+    status: row.status,
+    profile: typeof row.profile === 'string' ? JSON.parse(row.profile) : row.profile,
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function toTargetCareer(row: TargetCareerRow): TargetCareer {
+  return { userId: row.user_id, careerId: row.career_id, createdAt: new Date(row.created_at) };
+}
+
+function toNote(row: NoteRow): CounselorNote {
+  return {
+    id: row.id,
+    counselorId: row.counselor_id,
+    studentId: row.student_id,
+    note: row.note,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Data access for what counselors track about students: saved assessment
+ * profiles, target careers and counselor notes
+ */
+export class StudentRecordRepository {
+  /**
+   * Save (or replace) a student's assessment profile
+   */
+  static async saveProfile(
+    userId: string,
+    status: StoredProfileStatus,
+    profile: Partial<StudentProfile> | null
+  ): Promise<void> {
+    await query(
+      `INSERT INTO student_profiles (user_id, status, profile, updated_at) VALUES ($1, $2, $3, $4)
+       ON CONFLICT (user_id) DO UPDATE SET status = EXCLUDED.status, profile = EXCLUDED.profile,
+         updated_at = EXCLUDED.updated_at`,
+      [userId, status, profile ? JSON.stringify(profile) : null, new Date()]
+    );
+  }
+
+  /**
+   * Find a student's saved profile
+   */
+  static async findProfile(userId: string): Promise<StoredProfile | null> {
+    const result = await query<ProfileRow>('SELECT * FROM student_profiles WHERE user_id = $1', [userId]);
+    return result.rows[0] ? toProfile(result.rows[0]) : null;
+  }
+
+  /**
+   * List saved profiles for a school's students
+   */
+  static async listProfiles(schoolId?: string): Promise<StoredProfile[]> {
+    const { clause, params } = schoolScope(schoolId);
+    const result = await query<ProfileRow>(
+      `SELECT p.* FROM student_profiles p JOIN users u ON u.id = p.user_id ${clause}`,
+      params
+    );
+    return result.rows.map(toProfile);
+  }
+
+  /**
+   * Replace the careers a student is aiming for
+   */
+  static async setTargetCareers(userId: string, careerIds: string[]): Promise<void> {
+    await transaction(async client => {
+      await client.query('DELETE FROM student_target_careers WHERE user_id = $1', [userId]);
+      const now = new Date();
+      for (const careerId of careerIds) {
+        await client.query(
+          'INSERT INTO student_target_careers (user_id, career_id, created_at) VALUES ($1, $2, $3)',
+          [userId, careerId, now]
+        );
+      }
+    });
+  }
+
+  /**
+   * List target careers for a school's students
+   */
+  static async listTargetCareers(schoolId?: string): Promise<TargetCareer[]> {
+    const { clause, params } = schoolScope(schoolId);
+    const result = await query<TargetCareerRow>(
+      `SELECT t.* FROM student_target_careers t JOIN users u ON u.id = t.user_id ${clause}
+       ORDER BY t.created_at`,
+      params
+    );
+    return result.rows.map(toTargetCareer);
+  }
+
+  /**
+   * Insert a counselor note
+   */
+  static async createNote(note: CounselorNote): Promise<void> {
+    await query(
+      'INSERT INTO counselor_notes (id, counselor_id, student_id, note, created_at) VALUES ($1, $2, $3, $4, $5)',
+      [note.id, note.counselorId, note.studentId, note.note, note.createdAt]
+    );
+  }
+
+  /**
+   * List notes about a student, newest first
+   */
+  static async listNotes(studentId: string): Promise<CounselorNote[]> {
+    const result = await query<NoteRow>(
+      'SELECT * FROM counselor_notes WHERE student_id = $1 ORDER BY created_at DESC',
+      [studentId]
+    );
+    return result.rows.map(toNote);
+  }
+}
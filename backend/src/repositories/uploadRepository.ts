@@ -0,0 +1,110 @@
+import { query } from '../database/db';
+import { DataUpload } from '../types';
+
+interface UploadRow {
+  id: string;
+  type: DataUpload['type'];
+  filename: string;
+  uploaded_by: string;
+  records_processed: number;
+  records_failed: number;
+  status: DataUpload['status'];
+  errors: string[];
+  uploaded_at: Date;
+  completed_at: Date | null;
+}
+
+function toUpload(row: UploadRow): DataUpload {
+  return {
+    id: row.id,
+    type: row.type,
+    filename: row.filename,
+    uploadedBy: row.uploaded_by,
+    recordsProcessed: Number(row.records_processed),
+    recordsFailed: Number(row.records_failed),
+    status: row.status,
+    errors: row.errors,
+    uploadedAt: new Date(row.uploaded_at),
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+  };
+}
+
+/**
+ * Data access for admin data uploads
+ */
+export class UploadRepository {
+  /**
+   * Insert an upload, owned by the API instance that will process it
+   */
+  static async create(upload: DataUpload, instanceId: string): Promise<void> {
+    await query(
+      `INSERT INTO data_uploads (id, type, filename, uploaded_by, records_processed, records_failed, status, errors, uploaded_at,
+         instance_id, heartbeat_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $9)`,
+      [upload.id, upload.type, upload.filename, upload.uploadedBy, upload.recordsProcessed,
+        upload.recordsFailed, upload.status, JSON.stringify(upload.errors || []), upload.uploadedAt, instanceId]
+    );
+  }
+
+  /**
+   * Save an upload's status, counts and errors
+   */
+  static async update(upload: DataUpload): Promise<void> {
+    await query(
+      `UPDATE data_uploads
+       SET records_processed = $2, records_failed = $3, status = $4, errors = $5, completed_at = $6
+       WHERE id = $1`,
+      [upload.id, upload.recordsProcessed, upload.recordsFailed, upload.status,
+        JSON.stringify(upload.errors || []), upload.completedAt ?? null]
+    );
+  }
+
+  /**
+   * Record that an upload's instance is still processing it
+   */
+  static async heartbeat(id: string, now: Date): Promise<void> {
+    await query('UPDATE data_uploads SET heartbeat_at = $2 WHERE id = $1', [id, now]);
+  }
+
+  /**
+   * Find an upload by ID
+   */
+  static async findById(id: string): Promise<DataUpload | null> {
+    const result = await query<UploadRow>('SELECT * FROM data_uploads WHERE id = $1', [id]);
+    return result.rows[0] ? toUpload(result.rows[0]) : null;
+  }
+
+  /**
+   * List uploads, newest first
+   */
+  static async list(limit: number): Promise<DataUpload[]> {
+    const result = await query<UploadRow>('SELECT * FROM data_uploads ORDER BY uploaded_at DESC LIMIT $1', [limit]);
+    return result.rows.map(toUpload);
+  }
+
+  /**
+   * Mark uploads that never finished as failed with the given error: those
+   * owned by the given instance, and those with no heartbeat since
+   * staleBefore. Returns how many were marked.
+   */
+  static async failUnfinished(error: string, now: Date, instanceId: string, staleBefore: Date): Promise<number> {
+    const result = await query(
+      `UPDATE data_uploads SET status = 'failed', errors = $1, completed_at = $2
+       WHERE status IN ('pending', 'processing')
+         AND (instance_id = $3 OR instance_id IS NULL OR heartbeat_at IS NULL OR heartbeat_at < $4)`,
+      [JSON.stringify([error]), now, instanceId, staleBefore]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * When the last upload that saved any records finished, or null if none has
+   */
+  static async lastDataChange(): Promise<Date | null> {
+    const result = await query<{ latest: Date | null }>(
+      'SELECT MAX(completed_at) AS latest FROM data_uploads WHERE records_processed > 0'
+    );
+    const latest = result.rows[0]?.latest;
+    return latest ? new Date(latest) : null;
+  }
+}
@@ -0,0 +1,193 @@
+import { query, transaction } from '../database/db';
+import { User, Student, Counselor, StaffAccount, UserAccount } from '../types';
+
+// Joined users + students row as returned by the queries below
+interface UserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+  role: User['role'];
+  first_name: string;
+  last_name: string;
+  school_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+  grade: number | null;
+  zip_code: string | null;
+  profile_completed: boolean | null;
+  consent_given: boolean | null;
+}
+
+export interface StoredCredentials {
+  account: UserAccount;
+  passwordHash: string;
+}
+
+const SELECT_USER = `
+  SELECT u.id, u.email, u.password_hash, u.role, u.first_name, u.last_name, u.school_id,
+         u.created_at, u.updated_at,
+         s.grade, s.zip_code, s.profile_completed, s.consent_given
+  FROM users u
+  LEFT JOIN students s ON s.user_id = u.id
+`;
+
+/**
+ * Map a database row onto the role-specific account type
+ */
+function toAccount(row: UserRow): UserAccount | null {
+  const base = {
+    id: row.id,
+    email: row.email,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+
+  if (row.role === 'student') {
+    return {
+      ...base,
+      role: 'student',
+      schoolId: row.school_id ?? undefined,
+      grade: row.grade ?? undefined,
+      zipCode: row.zip_code ?? undefined,
+      profileCompleted: row.profile_completed ?? false,
+      consentGiven: row.consent_given ?? false,
+    };
+  }
+
+  if (row.role === 'counselor' || row.role === 'teacher') {
+    return {
+      ...base,
+      role: row.role,
+      schoolId: row.school_id as string,
+    };
+  }
+
+  if (row.role === 'admin') {
+    return {
+      ...base,
+      role: 'admin',
+      schoolId: row.school_id ?? undefined,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Data access for user accounts. Password hashes never leave this layer
+ * except through findCredentialsByEmail, which login needs.
+ */
+export class UserRepository {
+  /**
+   * Check whether an account already uses this email
+   */
+  static async emailExists(email: string): Promise<boolean> {
+    const result = await query('SELECT 1 FROM users WHERE email = $1', [email]);
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Find an account and its password hash by email
+   */
+  static async findCredentialsByEmail(email: string): Promise<StoredCredentials | null> {
+    const result = await query<UserRow>(`${SELECT_USER} WHERE u.email = $1`, [email]);
+    const row = result.rows[0];
+    if (!row) return null;
+
+    const account = toAccount(row);
+    return account ? { account, passwordHash: row.password_hash } : null;
+  }
+
+  /**
+   * Find an account by ID
+   */
+  static async findById(id: string): Promise<UserAccount | null> {
+    const result = await query<UserRow>(`${SELECT_USER} WHERE u.id = $1`, [id]);
+    const row = result.rows[0];
+    return row ? toAccount(row) : null;
+  }
+
+  /**
+   * Insert a student account
+   */
+  static async createStudent(student: Student, passwordHash: string): Promise<void> {
+    await transaction(async client => {
+      await client.query(
+        `INSERT INTO users (id, email, password_hash, role, first_name, last_name, school_id, created_at, updated_at)
+         VALUES ($1, $2, $3, 'student', $4, $5, $6, $7, $8)`,
+        [student.id, student.email, passwordHash, student.firstName, student.lastName,
+          student.schoolId ?? null, student.createdAt, student.updatedAt]
+      );
+      await client.query(
+        `INSERT INTO students (user_id, grade, zip_code, profile_completed, consent_given)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [student.id, student.grade ?? null, student.zipCode ?? null, student.profileCompleted, student.consentGiven]
+      );
+    });
+  }
+
+  /**
+   * Insert a counselor, teacher or admin account
+   */
+  static async createStaff(account: StaffAccount, passwordHash: string): Promise<void> {
+    await query(
+      `INSERT INTO users (id, email, password_hash, role, first_name, last_name, school_id, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [account.id, account.email, passwordHash, account.role, account.firstName, account.lastName,
+        account.schoolId ?? null, account.createdAt, account.updatedAt]
+    );
+  }
+
+  /**
+   * Update the editable fields of a student account.
+   * Returns the updated student, or null if no such student exists.
+   */
+  static async updateStudent(
+    id: string,
+    updates: Partial<Pick<Student, 'firstName' | 'lastName' | 'schoolId' | 'grade' | 'zipCode' | 'profileCompleted' | 'consentGiven'>>
+  ): Promise<Student | null> {
+    const existing = await this.findById(id);
+    if (!existing || existing.role !== 'student') return null;
+
+    const updated: Student = { ...existing, ...updates, updatedAt: new Date() };
+
+    await transaction(async client => {
+      await client.query(
+        `UPDATE users SET first_name = $2, last_name = $3, school_id = $4, updated_at = $5 WHERE id = $1`,
+        [id, updated.firstName, updated.lastName, updated.schoolId ?? null, updated.updatedAt]
+      );
+      await client.query(
+        `UPDATE students SET grade = $2, zip_code = $3, profile_completed = $4, consent_given = $5 WHERE user_id = $1`,
+        [id, updated.grade ?? null, updated.zipCode ?? null, updated.profileCompleted, updated.consentGiven]
+      );
+    });
+
+    return updated;
+  }
+
+  /**
+   * List student accounts, optionally only those at one school
+   */
+  static async listStudents(schoolId?: string): Promise<Student[]> {
+    const result = schoolId
+      ? await query<UserRow>(
+        `${SELECT_USER} WHERE u.role = 'student' AND u.school_id = $1 ORDER BY u.last_name, u.first_name`,
+        [schoolId]
+      )
+      : await query<UserRow>(`${SELECT_USER} WHERE u.role = 'student' ORDER BY u.last_name, u.first_name`);
+    return result.rows.map(row => toAccount(row) as Student);
+  }
+
+  /**
+   * List the counselors at a school
+   */
+  static async listCounselors(schoolId: string): Promise<Counselor[]> {
+    const result = await query<UserRow>(
+      `${SELECT_USER} WHERE u.role = 'counselor' AND u.school_id = $1 ORDER BY u.last_name, u.first_name`,
+      [schoolId]
+    );
+    return result.rows.map(row => toAccount(row) as Counselor);
+  }
+}
@@ -1,18 +1,223 @@
 import express from 'express';
-import { ActionPlanService } from '../services/actionPlanService';
+import { ActionPlanService, ActionInput } from '../services/actionPlanService';
 import { CareerService } from '../services/careerService';
-import { ApiResponse } from '../types';
+import { authenticate, requireRole } from '../middleware/auth';
+import { ApiResponse, Career, Student } from '../types';
 
 const router = express.Router();
 
+/**
+ * Resolve a career from an O*NET-SOC code, falling back to the internal career ID
+ * (the results page links to action plans by career ID)
+ */
+function findCareer(codeOrId: string): Career | null {
+  return CareerService.getCareerByCode(codeOrId) || CareerService.getCareerById(codeOrId);
+}
+
+// Saved plans belong to a signed-in student
+router.use('/saved', authenticate, requireRole('student'));
+
+// GET /api/action-plans/saved - The student's saved plans with progress
+router.get('/saved', async (req, res) => {
+  try {
+    const plans = await ActionPlanService.listSavedPlans(req.user!.id);
+
+    res.json({
+      success: true,
+      data: plans
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error listing saved action plans:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve action plans'
+    } as ApiResponse);
+  }
+});
+
+// GET /api/action-plans/saved/:careerCode - The student's saved plan (created on first visit)
+router.get('/saved/:careerCode', async (req, res) => {
+  try {
+    const career = findCareer(req.params.careerCode);
+    if (!career) {
+      return res.status(404).json({
+        success: false,
+        error: 'Career not found'
+      } as ApiResponse);
+    }
+
+    const plan = await ActionPlanService.getSavedPlan(req.user as Student, career);
+
+    res.json({
+      success: true,
+      data: plan
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error retrieving saved action plan:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve action plan'
+    } as ApiResponse);
+  }
+});
+
+// PATCH /api/action-plans/saved/:careerCode/steps/:stepId - Check off or uncheck a step
+router.patch('/saved/:careerCode/steps/:stepId', async (req, res) => {
+  try {
+    const { completed } = req.body;
+
+    if (typeof completed !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: 'completed must be true or false'
+      } as ApiResponse);
+    }
+
+    const career = findCareer(req.params.careerCode);
+    const plan = career
+      ? await ActionPlanService.setStepCompleted(req.user as Student, career, req.params.stepId, completed)
+      : null;
+    if (!plan) {
+      return res.status(404).json({
+        success: false,
+        error: 'Career or step not found'
+      } as ApiResponse);
+    }
+
+    res.json({
+      success: true,
+      data: plan
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error updating action plan step:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update step'
+    } as ApiResponse);
+  }
+});
+
+// POST /api/action-plans/saved/:careerCode/import - One-time import of checkmarks kept in the browser
+router.post('/saved/:careerCode/import', async (req, res) => {
+  try {
+    const { steps } = req.body;
+
+    const valid = Array.isArray(steps) && steps.every(step =>
+      typeof step?.id === 'string' && typeof step?.completed === 'boolean');
+    if (!valid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Steps array of { id, completed } is required'
+      } as ApiResponse);
+    }
+
+    const career = findCareer(req.params.careerCode);
+    if (!career) {
+      return res.status(404).json({
+        success: false,
+        error: 'Career not found'
+      } as ApiResponse);
+    }
+
+    const plan = await ActionPlanService.importStepProgress(req.user as Student, career, steps);
+
+    res.json({
+      success: true,
+      data: plan,
+      message: 'Progress imported'
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error importing action plan progress:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to import progress'
+    } as ApiResponse);
+  }
+});
+
+// POST /api/action-plans/saved/:careerCode/actions - Add a custom action
+router.post('/saved/:careerCode/actions', async (req, res) => {
+  try {
+    const { action, error } = ActionPlanService.validateActionInput(req.body || {});
+    if (!action) {
+      return res.status(400).json({
+        success: false,
+        error
+      } as ApiResponse);
+    }
+
+    const career = findCareer(req.params.careerCode);
+    if (!career) {
+      return res.status(404).json({
+        success: false,
+        error: 'Career not found'
+      } as ApiResponse);
+    }
+
+    const created = await ActionPlanService.addAction(
+      req.user as Student,
+      career,
+      action as ActionInput & { title: string }
+    );
+
+    res.status(201).json({
+      success: true,
+      data: created,
+      message: 'Action added'
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error adding action:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add action'
+    } as ApiResponse);
+  }
+});
+
+// PATCH /api/action-plans/saved/:careerCode/actions/:actionId - Update a custom action
+router.patch('/saved/:careerCode/actions/:actionId', async (req, res) => {
+  try {
+    const { action, error } = ActionPlanService.validateActionInput(req.body || {}, true);
+    if (!action) {
+      return res.status(400).json({
+        success: false,
+        error
+      } as ApiResponse);
+    }
+
+    const career = findCareer(req.params.careerCode);
+    const updated = career
+      ? await ActionPlanService.updateAction(req.user as Student, career, req.params.actionId, action)
+      : null;
+    if (!updated) {
+      return res.status(404).json({
+        success: false,
+        error: 'Career or action not found'
+      } as ApiResponse);
+    }
+
+    res.json({
+      success: true,
+      data: updated
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error updating action:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update action'
+    } as ApiResponse);
+  }
+});
+
 // GET /api/action-plans/:careerCode - Get action plan for a specific career
+// (?grade=10&zipCode=45701&schoolId=athens-hs recommends the school's courses)
 router.get('/:careerCode', async (req, res) => {
   try {
     const { careerCode } = req.params;
-    const { grade, zipCode } = req.query;
+    const { grade, zipCode, schoolId } = req.query;
 
     // Get career details
-    const career = await CareerService.getCareerByCode(careerCode);
+    const career = findCareer(careerCode);
     if (!career) {
       return res.status(404).json({
         success: false,
@@ -24,7 +229,8 @@ router.get('/:careerCode', async (req, res) => {
     const actionPlan = ActionPlanService.generateActionPlan(
       career,
       grade ? parseInt(grade as string) : undefined,
-      zipCode as string
+      zipCode as string,
+      typeof schoolId === 'string' && schoolId ? schoolId : undefined
     );
 
     res.json({
@@ -43,7 +249,7 @@ router.get('/:careerCode', async (req, res) => {
 // POST /api/action-plans/multiple - Get action plans for multiple careers
 router.post('/multiple', async (req, res) => {
   try {
-    const { careerCodes, grade, zipCode } = req.body;
+    const { careerCodes, grade, zipCode, schoolId } = req.body;
 
     if (!careerCodes || !Array.isArray(careerCodes)) {
       return res.status(400).json({
@@ -53,17 +259,16 @@ router.post('/multiple', async (req, res) => {
     }
 
     // Get career details for all codes
-    const careers = await Promise.all(
-      careerCodes.map(code => CareerService.getCareerByCode(code))
-    );
-
-    const validCareers = careers.filter(c => c !== null);
+    const validCareers = careerCodes
+      .map((code: string) => findCareer(String(code)))
+      .filter((c: Career | null): c is Career => c !== null);
 
     // Generate action plans
     const actionPlans = ActionPlanService.generateMultipleActionPlans(
       validCareers,
       grade,
-      zipCode
+      zipCode,
+      typeof schoolId === 'string' && schoolId ? schoolId : undefined
     );
 
     res.json({
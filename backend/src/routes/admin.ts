@@ -0,0 +1,141 @@
+import express from 'express';
+import { UploadService } from '../services/uploadService';
+import { UPLOAD_COLUMNS, UPLOAD_TYPES, UploadType } from '../services/uploadRecords';
+import { getUploadConfig } from '../config/uploadConfig';
+import { getBudgetStatus } from '../services/blsBudget';
+import { authenticate, requireRole } from '../middleware/auth';
+import { ApiResponse } from '../types';
+
+const router = express.Router();
+
+router.use(authenticate, requireRole('admin'));
+
+const { maxFileSize } = getUploadConfig();
+const parseCsvBody = express.text({ type: ['text/csv', 'text/plain'], limit: maxFileSize });
+
+/**
+ * Read a CSV request body, answering 413 for files over MAX_FILE_SIZE
+ */
+const readCsvBody: express.RequestHandler = (req, res, next) => {
+  parseCsvBody(req, res, (error?: { type?: string }) => {
+    if (!error) return next();
+
+    const tooLarge = error.type === 'entity.too.large';
+    res.status(tooLarge ? 413 : 400).json({
+      success: false,
+      error: tooLarge ? `File must be at most ${maxFileSize} bytes` : 'Could not read the uploaded file'
+    } as ApiResponse);
+  });
+};
+
+// GET /api/admin/uploads/columns - Required and optional CSV columns for each upload type
+router.get('/uploads/columns', (req, res) => {
+  res.json({
+    success: true,
+    data: UPLOAD_COLUMNS
+  } as ApiResponse);
+});
+
+// POST /api/admin/uploads - Upload a CSV file (Content-Type: text/csv) for processing
+// (?type=courses|programs|careers&filename=courses.csv)
+router.post('/uploads', readCsvBody, async (req, res) => {
+  try {
+    const { type, filename } = req.query;
+
+    if (!UPLOAD_TYPES.includes(type as UploadType)) {
+      return res.status(400).json({
+        success: false,
+        error: `Type must be one of: ${UPLOAD_TYPES.join(', ')}`
+      } as ApiResponse);
+    }
+
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Send the CSV file as the request body with Content-Type: text/csv'
+      } as ApiResponse);
+    }
+
+    const { upload, processing } = await UploadService.startUpload({
+      type: type as UploadType,
+      filename: typeof filename === 'string' && filename.trim() ? filename.trim() : `${type}.csv`,
+      content: req.body,
+      uploadedBy: req.user!.id,
+      schoolId: req.user!.schoolId
+    });
+    processing.catch(error => console.error(`Error processing upload ${upload.id}:`, error));
+
+    res.status(202).json({
+      success: true,
+      data: upload,
+      message: 'Upload received and queued for processing'
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error starting upload:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start upload'
+    } as ApiResponse);
+  }
+});
+
+// GET /api/admin/uploads - Recent uploads, newest first (?limit=50, at most 200)
+router.get('/uploads', async (req, res) => {
+  try {
+    const limit = parseInt(req.query.limit as string, 10);
+    const uploads = await UploadService.listUploads(limit > 0 ? limit : undefined);
+
+    res.json({
+      success: true,
+      data: uploads
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error listing uploads:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve uploads'
+    } as ApiResponse);
+  }
+});
+
+// GET /api/admin/uploads/:id - An upload's status and row errors
+router.get('/uploads/:id', async (req, res) => {
+  try {
+    const upload = await UploadService.getUpload(req.params.id);
+    if (!upload) {
+      return res.status(404).json({
+        success: false,
+        error: 'Upload not found'
+      } as ApiResponse);
+    }
+
+    res.json({
+      success: true,
+      data: upload
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error retrieving upload:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve upload'
+    } as ApiResponse);
+  }
+});
+
+// GET /api/admin/bls/budget - BLS requests used and remaining today (UTC)
+router.get('/bls/budget', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await getBudgetStatus()
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error retrieving BLS request budget:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve BLS request budget'
+    } as ApiResponse);
+  }
+});
+
+export default router;
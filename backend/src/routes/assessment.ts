@@ -1,18 +1,74 @@
 import express from 'express';
 import { SessionService } from '../services/sessionService';
-import { AssessmentService } from '../services/assessmentService';
+import { GeographyService } from '../services/geographyService';
+import {
+  AssessmentService,
+  ASSESSMENT_TYPES,
+  UNVERSIONED_ASSESSMENT_VERSION
+} from '../services/assessmentService';
 import { ApiResponse } from '../types';
 
 const router = express.Router();
 
-// GET /api/assessment/questions
+/**
+ * Parse an assessment version from a query or body value.
+ * Returns undefined when absent and null when it isn't a positive integer.
+ */
+function parseVersion(value: unknown): number | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
+// GET /api/assessment/definitions - Published assessment types and versions
+router.get('/definitions', (req, res) => {
+  try {
+    const definitions = AssessmentService.listDefinitions().map(d => ({
+      type: d.type,
+      version: d.version,
+      title: d.title,
+      description: d.description,
+      questionCount: d.questions.length,
+      latest: AssessmentService.getLatestVersion(d.type) === d.version
+    }));
+
+    res.json({
+      success: true,
+      data: definitions
+    } as ApiResponse);
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve assessment definitions'
+    } as ApiResponse);
+  }
+});
+
+// GET /api/assessment/questions - Questions for an assessment (?type=standard|riasec&version=N, latest by default)
 router.get('/questions', (req, res) => {
   try {
-    const questions = AssessmentService.getQuestions();
+    const type = req.query.type || 'standard';
+    if (!AssessmentService.isAssessmentType(type)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown assessment type. Use one of: ${ASSESSMENT_TYPES.join(', ')}`
+      } as ApiResponse);
+    }
+
+    const version = parseVersion(req.query.version);
+    const definition = version === null ? null : AssessmentService.getDefinition(type, version);
+    if (!definition) {
+      return res.status(404).json({
+        success: false,
+        error: `Assessment version not found: ${type} v${req.query.version}`
+      } as ApiResponse);
+    }
+
+    const questions = definition.questions;
     res.json({
       success: true,
       data: questions,
-      message: `Retrieved ${questions.length} questions`
+      message: `Retrieved ${questions.length} questions (${type} v${definition.version})`
     } as ApiResponse);
   } catch (error) {
     res.status(500).json({
@@ -22,10 +78,51 @@ router.get('/questions', (req, res) => {
   }
 });
 
+// POST /api/assessment/next - Next question for an adaptive assessment, given the answers so far
+router.post('/next', (req, res) => {
+  try {
+    const { assessmentType = 'standard', assessmentVersion, answers = [] } = req.body;
+
+    if (!AssessmentService.isAssessmentType(assessmentType)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown assessment type. Use one of: ${ASSESSMENT_TYPES.join(', ')}`
+      } as ApiResponse);
+    }
+
+    if (!Array.isArray(answers)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Answers must be an array'
+      } as ApiResponse);
+    }
+
+    const version = parseVersion(assessmentVersion);
+    const next = version === null ? null : AssessmentService.getNextQuestion(answers, assessmentType, version);
+    if (!next) {
+      return res.status(404).json({
+        success: false,
+        error: `Assessment version not found: ${assessmentType} v${assessmentVersion}`
+      } as ApiResponse);
+    }
+
+    res.json({
+      success: true,
+      data: next
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error choosing next question:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to choose next question'
+    } as ApiResponse);
+  }
+});
+
 // POST /api/assessment/answers
-router.post('/answers', (req, res) => {
+router.post('/answers', async (req, res) => {
   try {
-    const { sessionId, answers } = req.body;
+    const { sessionId, answers, assessmentType = 'standard', assessmentVersion } = req.body;
 
     if (!sessionId || !answers) {
       return res.status(400).json({
@@ -34,8 +131,26 @@ router.post('/answers', (req, res) => {
       } as ApiResponse);
     }
 
+    if (!AssessmentService.isAssessmentType(assessmentType)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown assessment type. Use one of: ${ASSESSMENT_TYPES.join(', ')}`
+      } as ApiResponse);
+    }
+
+    const requestedVersion = parseVersion(assessmentVersion);
+    const definition = requestedVersion === null
+      ? null
+      : AssessmentService.getDefinition(assessmentType, requestedVersion);
+    if (!definition) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown assessment version: ${assessmentType} v${assessmentVersion}`
+      } as ApiResponse);
+    }
+
     // Validate answers
-    const validation = AssessmentService.validateAnswers(answers);
+    const validation = AssessmentService.validateAnswers(answers, assessmentType, definition.version);
     if (!validation.valid) {
       return res.status(400).json({
         success: false,
@@ -45,7 +160,10 @@ router.post('/answers', (req, res) => {
     }
 
     // Save answers to session
-    const updated = SessionService.updateSessionAnswers(sessionId, answers);
+    const updated = await SessionService.updateSessionAnswers(sessionId, answers, {
+      type: assessmentType,
+      version: definition.version
+    });
 
     if (!updated) {
       return res.status(404).json({
@@ -67,8 +185,107 @@ router.post('/answers', (req, res) => {
   }
 });
 
+// PATCH /api/assessment/answers - Save answers as they're given, without requiring a complete set
+router.patch('/answers', async (req, res) => {
+  try {
+    const { sessionId, answers, assessmentType = 'standard', assessmentVersion } = req.body;
+
+    if (!sessionId || !Array.isArray(answers) || answers.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Session ID and at least one answer are required'
+      } as ApiResponse);
+    }
+
+    if (!AssessmentService.isAssessmentType(assessmentType)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown assessment type. Use one of: ${ASSESSMENT_TYPES.join(', ')}`
+      } as ApiResponse);
+    }
+
+    const requestedVersion = parseVersion(assessmentVersion);
+    const definition = requestedVersion === null
+      ? null
+      : AssessmentService.getDefinition(assessmentType, requestedVersion);
+    if (!definition) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown assessment version: ${assessmentType} v${assessmentVersion}`
+      } as ApiResponse);
+    }
+
+    const validation = AssessmentService.validateAnswers(answers, assessmentType, definition.version, true);
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid answers',
+        message: validation.errors.join(', ')
+      } as ApiResponse);
+    }
+
+    const saved = await SessionService.upsertSessionAnswers(sessionId, answers, {
+      type: assessmentType,
+      version: definition.version
+    });
+
+    if (!saved) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found or expired'
+      } as ApiResponse);
+    }
+
+    res.json({
+      success: true,
+      data: AssessmentService.getNextQuestion(saved, assessmentType, definition.version),
+      message: `${answers.length} answer(s) saved`
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error saving answers:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save answers'
+    } as ApiResponse);
+  }
+});
+
+// GET /api/assessment/progress/:sessionId - Saved answers and where to resume
+router.get('/progress/:sessionId', async (req, res) => {
+  try {
+    const session = await SessionService.getSession(req.params.sessionId);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found or expired'
+      } as ApiResponse);
+    }
+
+    const answers = session.assessmentAnswers || [];
+    const type = session.assessmentType || 'standard';
+    const version = session.assessmentVersion ?? UNVERSIONED_ASSESSMENT_VERSION;
+
+    res.json({
+      success: true,
+      data: {
+        assessmentType: type,
+        assessmentVersion: version,
+        answers,
+        completed: !!session.profileData,
+        next: answers.length > 0 ? AssessmentService.getNextQuestion(answers, type, version) : null
+      }
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error retrieving progress:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve progress'
+    } as ApiResponse);
+  }
+});
+
 // POST /api/assessment/complete
-router.post('/complete', (req, res) => {
+router.post('/complete', async (req, res) => {
   try {
     const { sessionId, zipCode } = req.body;
 
@@ -86,8 +303,15 @@ router.post('/complete', (req, res) => {
       } as ApiResponse);
     }
 
+    if (!GeographyService.isValidZip(zipCode)) {
+      return res.status(400).json({
+        success: false,
+        error: `ZIP code ${zipCode} is not a US ZIP code`
+      } as ApiResponse);
+    }
+
     // Get session
-    const session = SessionService.getSession(sessionId);
+    const session = await SessionService.getSession(sessionId);
     if (!session || !session.assessmentAnswers) {
       return res.status(404).json({
         success: false,
@@ -95,11 +319,23 @@ router.post('/complete', (req, res) => {
       } as ApiResponse);
     }
 
+    // Answers may have been saved a few at a time, so check the set is complete
+    const type = session.assessmentType || 'standard';
+    const version = session.assessmentVersion ?? UNVERSIONED_ASSESSMENT_VERSION;
+    const validation = AssessmentService.validateAnswers(session.assessmentAnswers, type, version);
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid answers',
+        message: validation.errors.join(', ')
+      } as ApiResponse);
+    }
+
     // Generate profile from answers
-    const profile = AssessmentService.generateProfile(session.assessmentAnswers, zipCode);
+    const profile = AssessmentService.generateProfile(session.assessmentAnswers, zipCode, type, version);
 
     // Update session with profile
-    SessionService.updateSessionProfile(sessionId, profile);
+    await SessionService.updateSessionProfile(sessionId, profile);
 
     res.json({
       success: true,
@@ -115,4 +351,77 @@ router.post('/complete', (req, res) => {
   }
 });
 
+// POST /api/assessment/recompute - Regenerate a session's profile under a newer assessment version
+router.post('/recompute', async (req, res) => {
+  try {
+    const { sessionId, version } = req.body;
+
+    if (!sessionId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Session ID is required'
+      } as ApiResponse);
+    }
+
+    const session = await SessionService.getSession(sessionId);
+    if (!session || !session.assessmentAnswers || !session.profileData) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session or completed profile not found'
+      } as ApiResponse);
+    }
+
+    const type = session.assessmentType || 'standard';
+    const fromVersion = session.assessmentVersion ?? UNVERSIONED_ASSESSMENT_VERSION;
+    const requestedVersion = parseVersion(version);
+    const toVersion = requestedVersion === undefined
+      ? AssessmentService.getLatestVersion(type)
+      : requestedVersion;
+
+    if (toVersion === null || !AssessmentService.getDefinition(type, toVersion)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown assessment version: ${type} v${version}`
+      } as ApiResponse);
+    }
+
+    const migration = AssessmentService.migrateAnswers(session.assessmentAnswers, type, fromVersion, toVersion);
+    if (!migration) {
+      return res.status(400).json({
+        success: false,
+        error: `No migration path from ${type} v${fromVersion} to v${toVersion}`
+      } as ApiResponse);
+    }
+
+    const profile = AssessmentService.generateProfile(
+      migration.answers,
+      session.profileData.zipCode || '',
+      type,
+      toVersion
+    );
+
+    await SessionService.updateSessionAnswers(sessionId, migration.answers, { type, version: toVersion });
+    await SessionService.updateSessionProfile(sessionId, profile);
+
+    res.json({
+      success: true,
+      data: {
+        profile,
+        migration: {
+          fromVersion: migration.fromVersion,
+          toVersion: migration.toVersion,
+          dropped: migration.dropped
+        }
+      },
+      message: `Profile recomputed on ${type} v${toVersion}`
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error recomputing profile:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to recompute profile'
+    } as ApiResponse);
+  }
+});
+
 export default router;
@@ -1,5 +1,6 @@
 import express from 'express';
-import { AuthService } from '../services/authService';
+import { AuthService, STAFF_ROLES } from '../services/authService';
+import { authenticate, requireRole } from '../middleware/auth';
 import { ApiResponse } from '../types';
 
 const router = express.Router();
@@ -107,37 +108,11 @@ router.post('/login', async (req, res) => {
 });
 
 // GET /api/auth/me - Get current user
-router.get('/me', (req, res) => {
+router.get('/me', authenticate, async (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
-        success: false,
-        error: 'No token provided'
-      } as ApiResponse);
-    }
-
-    const token = authHeader.substring(7);
-    const tokenResult = AuthService.verifyToken(token);
-
-    if (!tokenResult.success) {
-      return res.status(401).json({
-        success: false,
-        error: 'Invalid token'
-      } as ApiResponse);
-    }
-
-    const user = AuthService.getUserById(tokenResult.userId!);
-    if (!user) {
-      return res.status(404).json({
-        success: false,
-        error: 'User not found'
-      } as ApiResponse);
-    }
-
     res.json({
       success: true,
-      data: user,
+      data: req.user,
       message: 'User retrieved successfully'
     } as ApiResponse);
   } catch (error) {
@@ -150,92 +125,180 @@ router.get('/me', (req, res) => {
 });
 
 // POST /api/auth/link-session - Link anonymous session to user account
-router.post('/link-session', (req, res) => {
+router.post('/link-session', authenticate, requireRole('student'), async (req, res) => {
   try {
-    const { sessionId } = req.body;
-    const authHeader = req.headers.authorization;
+    const { sessionId, linkToken } = req.body;
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
+    if (typeof sessionId !== 'string' || typeof linkToken !== 'string') {
+      return res.status(400).json({
         success: false,
-        error: 'No token provided'
+        error: 'sessionId and linkToken are required'
       } as ApiResponse);
     }
 
-    const token = authHeader.substring(7);
-    const tokenResult = AuthService.verifyToken(token);
+    const result = await AuthService.linkSessionToUser(req.user!.id, sessionId, linkToken);
 
-    if (!tokenResult.success) {
-      return res.status(401).json({
+    if (result.success) {
+      res.json({
+        success: true,
+        message: 'Session linked to account successfully'
+      } as ApiResponse);
+    } else {
+      res.status(400).json({
         success: false,
-        error: 'Invalid token'
+        error: result.error || 'Failed to link session'
       } as ApiResponse);
     }
+  } catch (error) {
+    console.error('Link session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to link session'
+    } as ApiResponse);
+  }
+});
 
-    const linked = AuthService.linkSessionToUser(tokenResult.userId!, sessionId);
-    
-    if (linked) {
+// PUT /api/auth/profile - Update student profile
+router.put('/profile', authenticate, requireRole('student'), async (req, res) => {
+  try {
+    const updates = req.body;
+    const updated = await AuthService.updateStudentProfile(req.user!.id, updates);
+
+    if (updated) {
+      const user = await AuthService.getUserById(req.user!.id);
       res.json({
         success: true,
-        message: 'Session linked to account successfully'
+        data: user,
+        message: 'Profile updated successfully'
       } as ApiResponse);
     } else {
       res.status(400).json({
         success: false,
-        error: 'Failed to link session'
+        error: 'Failed to update profile'
       } as ApiResponse);
     }
   } catch (error) {
-    console.error('Link session error:', error);
+    console.error('Update profile error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to link session'
+      error: 'Failed to update profile'
+    } as ApiResponse);
+  }
+});
+
+// PUT /api/auth/target-careers - Set the careers a student is aiming for
+router.put('/target-careers', authenticate, requireRole('student'), async (req, res) => {
+  try {
+    const { careerIds } = req.body;
+
+    if (!Array.isArray(careerIds) || careerIds.some(id => typeof id !== 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: 'careerIds must be an array of career IDs'
+      } as ApiResponse);
+    }
+
+    const result = await AuthService.setTargetCareers(req.user!.id, careerIds);
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        error: result.error
+      } as ApiResponse);
+    }
+
+    res.json({
+      success: true,
+      data: { careerIds },
+      message: 'Target careers updated'
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Update target careers error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update target careers'
     } as ApiResponse);
   }
 });
 
-// PUT /api/auth/profile - Update user profile
-router.put('/profile', async (req, res) => {
+// PUT /api/auth/students/:id/school - Set the school a student belongs to (admins only)
+router.put('/students/:id/school', authenticate, requireRole('admin'), async (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
+    const { schoolId } = req.body;
+
+    if (schoolId !== null && (typeof schoolId !== 'string' || !schoolId.trim())) {
+      return res.status(400).json({
+        success: false,
+        error: 'schoolId must be a school ID or null'
+      } as ApiResponse);
+    }
+
+    const updated = await AuthService.setStudentSchool(req.params.id, schoolId === null ? null : schoolId.trim());
+    if (!updated) {
+      return res.status(404).json({
         success: false,
-        error: 'No token provided'
+        error: 'Student not found'
       } as ApiResponse);
     }
 
-    const token = authHeader.substring(7);
-    const tokenResult = AuthService.verifyToken(token);
+    res.json({
+      success: true,
+      data: await AuthService.getUserById(req.params.id),
+      message: 'Student school updated'
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Update student school error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update student school'
+    } as ApiResponse);
+  }
+});
+
+// POST /api/auth/staff - Create a counselor, teacher or admin account (admins only)
+router.post('/staff', authenticate, requireRole('admin'), async (req, res) => {
+  try {
+    const { role, email, password, firstName, lastName, schoolId } = req.body;
 
-    if (!tokenResult.success) {
-      return res.status(401).json({
+    if (!AuthService.isStaffRole(role)) {
+      return res.status(400).json({
         success: false,
-        error: 'Invalid token'
+        error: `Role must be one of: ${STAFF_ROLES.join(', ')}`
       } as ApiResponse);
     }
 
-    const updates = req.body;
-    const updated = AuthService.updateStudentProfile(tokenResult.userId!, updates);
+    if (!email || !password || !firstName || !lastName) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email, password, first name, and last name are required'
+      } as ApiResponse);
+    }
 
-    if (updated) {
-      const user = AuthService.getUserById(tokenResult.userId!);
-      res.json({
+    if (password.length < 6) {
+      return res.status(400).json({
+        success: false,
+        error: 'Password must be at least 6 characters long'
+      } as ApiResponse);
+    }
+
+    const result = await AuthService.registerStaff({ role, email, password, firstName, lastName, schoolId });
+
+    if (result.success) {
+      res.status(201).json({
         success: true,
-        data: user,
-        message: 'Profile updated successfully'
+        data: result.user,
+        message: `${role} account created successfully`
       } as ApiResponse);
     } else {
       res.status(400).json({
         success: false,
-        error: 'Failed to update profile'
+        error: result.error
       } as ApiResponse);
     }
   } catch (error) {
-    console.error('Update profile error:', error);
+    console.error('Staff registration error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to update profile'
+      error: 'Registration failed'
     } as ApiResponse);
   }
 });
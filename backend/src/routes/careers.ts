@@ -2,11 +2,26 @@
 import express from 'express';
 import { CareerService } from '../services/careerService';
 import { SessionService } from '../services/sessionService';
+import { GeographyService } from '../services/geographyService';
+import { CourseService, MIN_COURSE_GRADE, MAX_COURSE_GRADE } from '../services/courseService';
 import { ApiResponse } from '../types';
 import { getJobSpecificEconomicData } from '../services/careerEconomicService';
+import { WageService } from '../services/wageService';
 
 const router = express.Router();
 
+// Number of matches returned when the client doesn't ask for a specific count
+const DEFAULT_MATCH_LIMIT = 20;
+const MAX_MATCH_LIMIT = 100;
+
+/**
+ * When data built from several BLS series was current: the oldest fetch time
+ */
+function dataAsOf(fetchedAt: Date[]): string {
+  const oldest = fetchedAt.length > 0 ? Math.min(...fetchedAt.map(date => date.getTime())) : Date.now();
+  return new Date(oldest).toISOString();
+}
+
 // GET /api/careers - Get all careers
 router.get('/', (req, res) => {
   try {
@@ -42,7 +57,7 @@ router.get('/economic-data', async (req, res) => {
       data: {
         economicIndicators: economicData,
         currentUnemploymentRate,
-        lastUpdated: new Date().toISOString()
+        lastUpdated: dataAsOf(economicData.map(d => d.lastUpdated))
       },
       message: economicData.length > 0
         ? `Retrieved ${economicData.length} economic indicators from BLS`
@@ -57,7 +72,8 @@ router.get('/economic-data', async (req, res) => {
   }
 });
 
-// NEW: GET /api/careers/:id/economic-data - Job-specific economic indicators
+// NEW: GET /api/careers/:id/economic-data - Job-specific economic indicators and OEWS wages
+// (?zipCode=12345 gives wages for its metro area or state instead of national wages)
 router.get('/:id/economic-data', async (req, res) => {
   try {
     const career = CareerService.getCareerById(req.params.id);
@@ -68,15 +84,32 @@ router.get('/:id/economic-data', async (req, res) => {
       } as ApiResponse);
     }
 
-    const indicators = await getJobSpecificEconomicData(career.id);
+    const { zipCode } = req.query;
+    if (zipCode !== undefined && !GeographyService.isValidZip(zipCode)) {
+      return res.status(400).json({
+        success: false,
+        error: `ZIP code ${zipCode} is not a US ZIP code`
+      } as ApiResponse);
+    }
+
+    const region = typeof zipCode === 'string' ? GeographyService.resolveZip(zipCode) : null;
+    const [indicators, wages] = await Promise.all([
+      getJobSpecificEconomicData(career.id),
+      WageService.getWages([career], region)
+    ]);
+    const careerWages = wages.get(career.id) || null;
+    const fetchedAt = indicators.map(i => new Date(i.lastUpdated));
+    if (careerWages) fetchedAt.push(careerWages.fetchedAt);
+
     res.json({
       success: true,
       data: {
         economicIndicators: indicators,
-        lastUpdated: new Date().toISOString()
+        wages: careerWages,
+        lastUpdated: dataAsOf(fetchedAt)
       },
-      message: indicators.length > 0
-        ? `Retrieved ${indicators.length} indicators for ${career.title}`
+      message: indicators.length > 0 || careerWages
+        ? `Retrieved economic data for ${career.title}`
         : 'No job-specific series configured for this career.'
     } as ApiResponse);
   } catch (error) {
@@ -114,9 +147,9 @@ router.get('/:id', (req, res) => {
 });
 
 // POST /api/careers/matches - Get career matches for a profile
-router.post('/matches', (req, res) => {
+router.post('/matches', async (req, res) => {
   try {
-    const { sessionId, zipCode } = req.body;
+    const { sessionId, zipCode, limit } = req.body;
 
     if (!sessionId) {
       return res.status(400).json({
@@ -132,7 +165,14 @@ router.post('/matches', (req, res) => {
       } as ApiResponse);
     }
 
-    const session = SessionService.getSession(sessionId);
+    if (!GeographyService.isValidZip(zipCode)) {
+      return res.status(400).json({
+        success: false,
+        error: `ZIP code ${zipCode} is not a US ZIP code`
+      } as ApiResponse);
+    }
+
+    const session = await SessionService.getSession(sessionId);
     if (!session || !session.profileData) {
       return res.status(404).json({
         success: false,
@@ -140,13 +180,17 @@ router.post('/matches', (req, res) => {
       } as ApiResponse);
     }
 
-    const matches = CareerService.getCareerMatches(session.profileData, zipCode);
+    const region = GeographyService.resolveZip(zipCode)!;
+    const maxResults = Math.min(Math.max(parseInt(limit, 10) || DEFAULT_MATCH_LIMIT, 1), MAX_MATCH_LIMIT);
+    const allMatches = await CareerService.getCareerMatches(session.profileData, zipCode);
+    const matches = allMatches.slice(0, maxResults);
     res.json({
       success: true,
       data: {
         matches,
         profile: session.profileData,
-        totalMatches: matches.length
+        region,
+        totalMatches: allMatches.length
       },
       message: `Found ${matches.length} career matches`
     } as ApiResponse);
@@ -159,7 +203,8 @@ router.post('/matches', (req, res) => {
   }
 });
 
-// GET /api/careers/:id/pathway - Get career pathway
+// GET /api/careers/:id/pathway - Get career pathway (?zipCode=12345 lists the nearest programs first;
+// &schoolId=athens-hs&grade=10 lists the school's courses the student can still take; grades run 6-12)
 router.get('/:id/pathway', (req, res) => {
   try {
     const career = CareerService.getCareerById(req.params.id);
@@ -170,49 +215,21 @@ router.get('/:id/pathway', (req, res) => {
       } as ApiResponse);
     }
 
-    const pathway = {
-      careerId: career.id,
-      stages: [
-        {
-          order: 1,
-          title: 'High School Preparation',
-          description: 'Take relevant courses and explore the field',
-          duration: '1-4 years',
-          requirements: ['Complete high school', 'Take science/math courses', 'Volunteer or shadow professionals'],
-          providers: ['Your local high school'],
-          cost: 0
-        },
-        {
-          order: 2,
-          title: 'Training & Education',
-          description: `Complete ${career.requiredEducation} program`,
-          duration: career.requiredEducation === 'certificate' ? '6-18 months' : '2-4 years',
-          requirements: career.certifications,
-          providers: ['Community colleges', 'Vocational schools', 'Apprenticeship programs'],
-          cost: career.requiredEducation === 'certificate' ? 5000 : 15000
-        },
-        {
-          order: 3,
-          title: 'Entry-Level Position',
-          description: `Start working as ${career.title}`,
-          duration: '1-3 years',
-          requirements: ['Complete training', 'Obtain certifications', 'Pass background checks'],
-          providers: ['Local employers'],
-          cost: 0
-        },
-        {
-          order: 4,
-          title: 'Career Growth',
-          description: 'Advance to senior positions or specializations',
-          duration: 'Ongoing',
-          requirements: ['Continuing education', 'Additional certifications', 'Experience'],
-          providers: ['Professional organizations', 'Employers'],
-          cost: 2000
-        }
-      ],
-      totalDuration: career.requiredEducation === 'certificate' ? '2-6 years' : '4-8 years',
-      estimatedCost: career.requiredEducation === 'certificate' ? 5000 : 17000
-    };
+    const { zipCode, schoolId, grade } = req.query;
+    const fromGrade = grade !== undefined ? CourseService.parseGrade(grade) : undefined;
+    if (fromGrade === null) {
+      return res.status(400).json({
+        success: false,
+        error: `Grade must be between ${MIN_COURSE_GRADE} and ${MAX_COURSE_GRADE}`
+      } as ApiResponse);
+    }
+
+    const pathway = CareerService.getCareerPathway(
+      career,
+      typeof zipCode === 'string' ? zipCode : undefined,
+      typeof schoolId === 'string' && schoolId ? schoolId : undefined,
+      fromGrade
+    );
 
     res.json({
       success: true,
@@ -0,0 +1,171 @@
+import express from 'express';
+import { CounselorService } from '../services/counselorService';
+import { CareerService } from '../services/careerService';
+import { ReportService } from '../services/reportService';
+import { authenticate, requireRole } from '../middleware/auth';
+import { ApiResponse } from '../types';
+
+const router = express.Router();
+
+// Counselors see their own school; district admins without a school see every school
+router.use(authenticate, requireRole('counselor', 'admin'));
+
+// GET /api/counselor/students - Students with assessment status and target careers
+router.get('/students', async (req, res) => {
+  try {
+    const students = await CounselorService.listStudents(req.user!.schoolId);
+
+    res.json({
+      success: true,
+      data: students,
+      message: `Found ${students.length} students`
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error listing students:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve students'
+    } as ApiResponse);
+  }
+});
+
+// GET /api/counselor/students/:id - One student's progress, profile and notes
+router.get('/students/:id', async (req, res) => {
+  try {
+    const student = await CounselorService.getStudent(req.params.id, req.user!.schoolId);
+    if (!student) {
+      return res.status(404).json({
+        success: false,
+        error: 'Student not found'
+      } as ApiResponse);
+    }
+
+    res.json({
+      success: true,
+      data: student
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error retrieving student:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve student'
+    } as ApiResponse);
+  }
+});
+
+// GET /api/counselor/students/:id/report.pdf - Career report for a student's saved profile
+router.get('/students/:id/report.pdf', async (req, res) => {
+  try {
+    const student = await CounselorService.getStudent(req.params.id, req.user!.schoolId);
+    if (!student || !student.profile) {
+      return res.status(404).json({
+        success: false,
+        error: 'Student or completed profile not found'
+      } as ApiResponse);
+    }
+
+    const { profile, progress } = student;
+    const matches = await CareerService.getCareerMatches(profile, profile.zipCode || progress.student.zipCode || '');
+    const targets = progress.targetCareers
+      .map(id => CareerService.getCareerById(id))
+      .filter((career): career is NonNullable<typeof career> => !!career);
+
+    const pdf = await ReportService.generateCareerReport({
+      studentName: `${progress.student.firstName} ${progress.student.lastName}`,
+      profile,
+      matches,
+      focusCareers: targets.length > 0 ? targets : matches.slice(0, 3).map(match => match.career),
+      grade: progress.student.grade,
+      schoolId: progress.student.schoolId
+    });
+
+    res
+      .type('application/pdf')
+      .set('Content-Disposition', `attachment; filename="career-report-${progress.student.lastName}.pdf"`)
+      .send(pdf);
+  } catch (error) {
+    console.error('Error generating student report:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate report'
+    } as ApiResponse);
+  }
+});
+
+// GET /api/counselor/students/:id/notes - Notes about a student, newest first
+router.get('/students/:id/notes', async (req, res) => {
+  try {
+    const notes = await CounselorService.getNotes(req.params.id, req.user!.schoolId);
+    if (!notes) {
+      return res.status(404).json({
+        success: false,
+        error: 'Student not found'
+      } as ApiResponse);
+    }
+
+    res.json({
+      success: true,
+      data: notes
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error retrieving notes:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve notes'
+    } as ApiResponse);
+  }
+});
+
+// POST /api/counselor/students/:id/notes - Add a note about a student
+router.post('/students/:id/notes', async (req, res) => {
+  try {
+    const { note } = req.body;
+
+    if (typeof note !== 'string' || !note.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Note text is required'
+      } as ApiResponse);
+    }
+
+    const created = await CounselorService.addNote(req.user!.id, req.params.id, note.trim(), req.user!.schoolId);
+    if (!created) {
+      return res.status(404).json({
+        success: false,
+        error: 'Student not found'
+      } as ApiResponse);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: created,
+      message: 'Note added'
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error adding note:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add note'
+    } as ApiResponse);
+  }
+});
+
+// GET /api/counselor/trends - Interest, career and sector trends across students
+router.get('/trends', async (req, res) => {
+  try {
+    const trends = await CounselorService.getAggregateTrends(req.user!.schoolId);
+
+    res.json({
+      success: true,
+      data: trends
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error computing trends:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to compute trends'
+    } as ApiResponse);
+  }
+});
+
+export default router;
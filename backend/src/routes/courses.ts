@@ -0,0 +1,69 @@
+import express from 'express';
+import { CourseService, MIN_COURSE_GRADE, MAX_COURSE_GRADE } from '../services/courseService';
+import { CareerService } from '../services/careerService';
+import { authenticate, requireRole } from '../middleware/auth';
+import { ApiResponse, Student } from '../types';
+
+const router = express.Router();
+
+// GET /api/courses/recommended - Courses at the student's school related to a career
+// (?career=rn-001&grade=10 lists courses offered in that grade; without a grade,
+// the courses the student can still take from their current grade)
+router.get('/recommended', authenticate, requireRole('student'), async (req, res) => {
+  try {
+    const { career: careerId, grade } = req.query;
+    const student = req.user as Student;
+
+    const career = typeof careerId === 'string'
+      ? CareerService.getCareerById(careerId) || CareerService.getCareerByCode(careerId)
+      : null;
+    if (!career) {
+      return res.status(400).json({
+        success: false,
+        error: 'A valid career is required'
+      } as ApiResponse);
+    }
+
+    let gradeFilter: number | undefined;
+    if (grade !== undefined) {
+      const parsed = CourseService.parseGrade(grade);
+      if (parsed === null) {
+        return res.status(400).json({
+          success: false,
+          error: `Grade must be between ${MIN_COURSE_GRADE} and ${MAX_COURSE_GRADE}`
+        } as ApiResponse);
+      }
+      gradeFilter = parsed;
+    }
+
+    if (!student.schoolId) {
+      return res.status(404).json({
+        success: false,
+        error: 'Your account is not linked to a school'
+      } as ApiResponse);
+    }
+
+    const courses = CourseService.getCoursesForCareer(student.schoolId, career.id, gradeFilter !== undefined
+      ? { grade: gradeFilter }
+      : { fromGrade: student.grade });
+
+    res.json({
+      success: true,
+      data: {
+        school: CourseService.getSchool(student.schoolId) || { id: student.schoolId },
+        careerId: career.id,
+        grade: gradeFilter ?? student.grade,
+        courses
+      },
+      message: `Found ${courses.length} courses`
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error recommending courses:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve courses'
+    } as ApiResponse);
+  }
+});
+
+export default router;
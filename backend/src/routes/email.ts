@@ -0,0 +1,154 @@
+import express from 'express';
+import { EmailService } from '../services/emailService';
+import { CareerService } from '../services/careerService';
+import { ProgramService } from '../services/programService';
+import { authenticate, requireRole } from '../middleware/auth';
+import { ApiResponse, EmailLogEntry, Student } from '../types';
+
+const router = express.Router();
+
+// Most log entries returned at once
+const MAX_LOG_LIMIT = 200;
+
+/**
+ * Tell the student what happened to their email. The outbox transport only
+ * writes messages to disk, so nothing has reached the recipient yet.
+ */
+function deliveryMessage(entry: EmailLogEntry, recipient: string): string {
+  return entry.transport === 'outbox'
+    ? `Email to ${recipient} saved to the outbox; it will not be delivered until email sending is set up`
+    : `Email sent to ${recipient}`;
+}
+
+// POST /api/email/counselor-outreach - Email the student's counselor about a career
+router.post('/counselor-outreach', authenticate, requireRole('student'), async (req, res) => {
+  try {
+    const { careerId, message } = req.body;
+
+    const career = typeof careerId === 'string' ? CareerService.getCareerById(careerId) : undefined;
+    if (!career) {
+      return res.status(400).json({
+        success: false,
+        error: 'A valid careerId is required'
+      } as ApiResponse);
+    }
+
+    if (message !== undefined && typeof message !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Message must be text'
+      } as ApiResponse);
+    }
+
+    const entry = await EmailService.sendCounselorOutreach(req.user as Student, career, message);
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        error: 'No counselor found for your school'
+      } as ApiResponse);
+    }
+
+    if (entry.status === 'failed') {
+      return res.status(502).json({
+        success: false,
+        error: 'Failed to send email',
+        message: entry.error
+      } as ApiResponse);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: entry,
+      message: deliveryMessage(entry, 'your counselor')
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error sending counselor outreach:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send email'
+    } as ApiResponse);
+  }
+});
+
+// POST /api/email/program-inquiry - Email a training program on the student's behalf
+// (careerId defaults to the first career the program trains for)
+router.post('/program-inquiry', authenticate, requireRole('student'), async (req, res) => {
+  try {
+    const { programId, careerId, message } = req.body;
+
+    const program = typeof programId === 'string' ? ProgramService.getProgramById(programId) : null;
+    if (!program || !program.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: 'A valid programId is required'
+      } as ApiResponse);
+    }
+
+    const targetCareerId = careerId === undefined ? program.targetCareers[0] : careerId;
+    const career = typeof targetCareerId === 'string' && program.targetCareers.includes(targetCareerId)
+      ? CareerService.getCareerById(targetCareerId)
+      : null;
+    if (!career) {
+      return res.status(400).json({
+        success: false,
+        error: 'careerId must be a career this program trains for'
+      } as ApiResponse);
+    }
+
+    if (message !== undefined && typeof message !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Message must be text'
+      } as ApiResponse);
+    }
+
+    const entry = await EmailService.sendProgramInquiry(req.user as Student, program, career, message);
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        error: 'This program does not take inquiries by email'
+      } as ApiResponse);
+    }
+
+    if (entry.status === 'failed') {
+      return res.status(502).json({
+        success: false,
+        error: 'Failed to send email',
+        message: entry.error
+      } as ApiResponse);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: entry,
+      message: deliveryMessage(entry, program.provider)
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error sending program inquiry:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send email'
+    } as ApiResponse);
+  }
+});
+
+// GET /api/email/log - Recent send attempts (?limit=50)
+router.get('/log', authenticate, requireRole('admin'), async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, MAX_LOG_LIMIT);
+    const entries = await EmailService.getLog({ limit });
+
+    res.json({
+      success: true,
+      data: entries
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error retrieving email log:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve email log'
+    } as ApiResponse);
+  }
+});
+
+export default router;
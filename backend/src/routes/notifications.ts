@@ -0,0 +1,52 @@
+import express from 'express';
+import { ReminderService } from '../services/reminderService';
+import { authenticate } from '../middleware/auth';
+import { ApiResponse } from '../types';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+// GET /api/notifications - The signed-in user's notifications, newest first
+router.get('/', async (req, res) => {
+  try {
+    const notifications = await ReminderService.getNotifications(req.user!.id);
+
+    res.json({
+      success: true,
+      data: notifications
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error retrieving notifications:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve notifications'
+    } as ApiResponse);
+  }
+});
+
+// POST /api/notifications/:id/read - Mark a notification as read
+router.post('/:id/read', async (req, res) => {
+  try {
+    const updated = await ReminderService.markNotificationRead(req.user!.id, req.params.id);
+    if (!updated) {
+      return res.status(404).json({
+        success: false,
+        error: 'Notification not found'
+      } as ApiResponse);
+    }
+
+    res.json({
+      success: true,
+      message: 'Notification marked as read'
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error updating notification:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update notification'
+    } as ApiResponse);
+  }
+});
+
+export default router;
@@ -0,0 +1,82 @@
+import express from 'express';
+import { SessionService } from '../services/sessionService';
+import { CareerService } from '../services/careerService';
+import { ParentSummaryService, LANGUAGES } from '../services/parentSummaryService';
+import { ApiResponse, Career } from '../types';
+
+const router = express.Router();
+
+// Careers summarized when the student hasn't picked any
+const DEFAULT_CAREER_COUNT = 3;
+
+// GET /api/parent-summary/:sessionId - Parent summary for a completed assessment
+// (?lang=en|es&careers=id1,id2&name=Ana&format=json|html)
+router.get('/:sessionId', async (req, res) => {
+  try {
+    const { lang = 'en', careers, name, format = 'json' } = req.query;
+
+    if (!ParentSummaryService.isLanguage(lang)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unsupported language. Use one of: ${LANGUAGES.join(', ')}`
+      } as ApiResponse);
+    }
+
+    if (format !== 'json' && format !== 'html') {
+      return res.status(400).json({
+        success: false,
+        error: 'Format must be json or html'
+      } as ApiResponse);
+    }
+
+    const session = await SessionService.getSession(req.params.sessionId);
+    if (!session || !session.profileData) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session or completed profile not found'
+      } as ApiResponse);
+    }
+
+    const profile = session.profileData;
+    let selected: Career[];
+    if (typeof careers === 'string' && careers) {
+      const ids = careers.split(',');
+      const found = ids.map(id => CareerService.getCareerById(id));
+      const unknown = ids.filter((_, i) => !found[i]);
+      if (unknown.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: `Unknown career ID: ${unknown.join(', ')}`
+        } as ApiResponse);
+      }
+      selected = found as Career[];
+    } else {
+      selected = (await CareerService.getCareerMatches(profile, profile.zipCode || ''))
+        .slice(0, DEFAULT_CAREER_COUNT)
+        .map(match => match.career);
+    }
+
+    const summary = await ParentSummaryService.buildSummary({
+      studentName: typeof name === 'string' ? name : undefined,
+      profile,
+      careers: selected
+    }, lang);
+
+    if (format === 'html') {
+      return res.type('html').send(ParentSummaryService.renderHtml(summary));
+    }
+
+    res.json({
+      success: true,
+      data: summary
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error building parent summary:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build parent summary'
+    } as ApiResponse);
+  }
+});
+
+export default router;
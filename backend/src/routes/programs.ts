@@ -0,0 +1,107 @@
+import express from 'express';
+import { ProgramService, ProgramSearchFilters, PROGRAM_TYPES } from '../services/programService';
+import { CareerService } from '../services/careerService';
+import { ApiResponse, Sector, TrainingProgram } from '../types';
+
+const router = express.Router();
+
+const SECTORS: Sector[] = ['healthcare', 'infrastructure'];
+
+/**
+ * Turn search query parameters into filters, or explain which one is invalid
+ */
+function parseFilters(query: express.Request['query']): { filters?: ProgramSearchFilters; error?: string } {
+  const { career, sector, type, maxCost, paid, zipCode, radius } = query;
+  const filters: ProgramSearchFilters = {};
+
+  if (typeof career === 'string' && career) {
+    if (!CareerService.getCareerById(career)) return { error: `Unknown career ID: ${career}` };
+    filters.careerId = career;
+  }
+  if (typeof sector === 'string' && sector) {
+    if (!SECTORS.includes(sector as Sector)) return { error: `Sector must be one of: ${SECTORS.join(', ')}` };
+    filters.sector = sector as Sector;
+  }
+  if (typeof type === 'string' && type) {
+    if (!PROGRAM_TYPES.includes(type as TrainingProgram['type'])) {
+      return { error: `Type must be one of: ${PROGRAM_TYPES.join(', ')}` };
+    }
+    filters.type = type as TrainingProgram['type'];
+  }
+  if (maxCost !== undefined) {
+    const value = Number(maxCost);
+    if (!Number.isFinite(value) || value < 0) return { error: 'maxCost must be a non-negative number' };
+    filters.maxCost = value;
+  }
+  if (paid !== undefined) {
+    if (paid !== 'true' && paid !== 'false') return { error: 'paid must be true or false' };
+    filters.isPaid = paid === 'true';
+  }
+  if (typeof zipCode === 'string' && zipCode) {
+    if (!/^\d{5}$/.test(zipCode)) return { error: 'Valid 5-digit ZIP code is required' };
+    if (!ProgramService.isKnownZip(zipCode)) return { error: `Distance search is not available for ZIP code ${zipCode}` };
+    filters.zipCode = zipCode;
+  }
+  if (radius !== undefined) {
+    const value = Number(radius);
+    if (!filters.zipCode) return { error: 'radius requires a zipCode' };
+    if (!Number.isFinite(value) || value <= 0) return { error: 'radius must be a positive number of miles' };
+    filters.radiusMiles = value;
+  }
+
+  return { filters };
+}
+
+// GET /api/programs - Search training programs
+// (?career=rn-001&sector=healthcare&type=apprenticeship&maxCost=5000&paid=true&zipCode=43215&radius=50)
+router.get('/', (req, res) => {
+  try {
+    const { filters, error } = parseFilters(req.query);
+    if (!filters) {
+      return res.status(400).json({
+        success: false,
+        error
+      } as ApiResponse);
+    }
+
+    const programs = ProgramService.searchPrograms(filters);
+
+    res.json({
+      success: true,
+      data: programs,
+      message: `Found ${programs.length} programs`
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error searching programs:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search programs'
+    } as ApiResponse);
+  }
+});
+
+// GET /api/programs/:id - Get a training program
+router.get('/:id', (req, res) => {
+  try {
+    const program = ProgramService.getProgramById(req.params.id);
+    if (!program) {
+      return res.status(404).json({
+        success: false,
+        error: 'Program not found'
+      } as ApiResponse);
+    }
+
+    res.json({
+      success: true,
+      data: program
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error retrieving program:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve program'
+    } as ApiResponse);
+  }
+});
+
+export default router;
@@ -0,0 +1,61 @@
+import express from 'express';
+import { ReminderService } from '../services/reminderService';
+import { authenticate, requireRole } from '../middleware/auth';
+import { ApiResponse } from '../types';
+
+const router = express.Router();
+
+router.use(authenticate, requireRole('student'));
+
+// PATCH /api/reminders/:actionId - Snooze ({ snoozeUntil }) or turn off ({ enabled: false }) a reminder
+router.patch('/:actionId', async (req, res) => {
+  try {
+    const { snoozeUntil, enabled } = req.body;
+
+    if (enabled === false) {
+      const action = await ReminderService.disable(req.user!.id, req.params.actionId);
+      if (!action) {
+        return res.status(404).json({
+          success: false,
+          error: 'Action not found'
+        } as ApiResponse);
+      }
+
+      return res.json({
+        success: true,
+        data: action,
+        message: 'Reminder turned off'
+      } as ApiResponse);
+    }
+
+    const until = typeof snoozeUntil === 'string' ? new Date(snoozeUntil) : null;
+    if (!until || isNaN(until.getTime()) || until <= new Date()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Send a future snoozeUntil date, or enabled: false'
+      } as ApiResponse);
+    }
+
+    const action = await ReminderService.snooze(req.user!.id, req.params.actionId, until);
+    if (!action) {
+      return res.status(404).json({
+        success: false,
+        error: 'Action not found'
+      } as ApiResponse);
+    }
+
+    res.json({
+      success: true,
+      data: action,
+      message: 'Reminder snoozed'
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error updating reminder:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update reminder'
+    } as ApiResponse);
+  }
+});
+
+export default router;
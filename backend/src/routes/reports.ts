@@ -0,0 +1,76 @@
+import express from 'express';
+import { SessionService } from '../services/sessionService';
+import { CareerService } from '../services/careerService';
+import { ReportService } from '../services/reportService';
+import { ApiResponse, Career } from '../types';
+
+const router = express.Router();
+
+// Careers given a pathway and action plan when none are requested
+const DEFAULT_FOCUS_COUNT = 3;
+
+/**
+ * Resolve a comma-separated list of career IDs or O*NET codes.
+ * Returns the careers, or the entries that didn't match any career.
+ */
+function resolveCareers(list: string): { careers: Career[]; unknown: string[] } {
+  const careers: Career[] = [];
+  const unknown: string[] = [];
+  for (const codeOrId of list.split(',').filter(Boolean)) {
+    const career = CareerService.getCareerByCode(codeOrId) || CareerService.getCareerById(codeOrId);
+    if (career) careers.push(career);
+    else unknown.push(codeOrId);
+  }
+  return { careers, unknown };
+}
+
+// GET /api/reports/:sessionId.pdf - Career report for a completed assessment
+// (?careers=id1,id2 picks which careers get a pathway and action plan; &grade=11)
+router.get('/:sessionId.pdf', async (req, res) => {
+  try {
+    const { careers, grade } = req.query;
+
+    const session = await SessionService.getSession(req.params.sessionId);
+    if (!session || !session.profileData) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session or completed profile not found'
+      } as ApiResponse);
+    }
+
+    const profile = session.profileData;
+    const matches = await CareerService.getCareerMatches(profile, profile.zipCode || '');
+
+    let focusCareers = matches.slice(0, DEFAULT_FOCUS_COUNT).map(match => match.career);
+    if (typeof careers === 'string' && careers) {
+      const resolved = resolveCareers(careers);
+      if (resolved.unknown.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: `Unknown career: ${resolved.unknown.join(', ')}`
+        } as ApiResponse);
+      }
+      focusCareers = resolved.careers;
+    }
+
+    const pdf = await ReportService.generateCareerReport({
+      profile,
+      matches,
+      focusCareers,
+      grade: grade ? parseInt(grade as string, 10) : undefined
+    });
+
+    res
+      .type('application/pdf')
+      .set('Content-Disposition', 'attachment; filename="lantern-career-report.pdf"')
+      .send(pdf);
+  } catch (error) {
+    console.error('Error generating report:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate report'
+    } as ApiResponse);
+  }
+});
+
+export default router;
@@ -4,12 +4,12 @@ import { ApiResponse } from '../types';
 
 const router = express.Router();
 
-router.post('/start', (req, res) => {
+router.post('/start', async (req, res) => {
   try {
-    const session = SessionService.createSession();
+    const session = await SessionService.createSession();
     res.json({
       success: true,
-      data: { sessionId: session.sessionId, expiresAt: session.expiresAt },
+      data: { sessionId: session.sessionId, linkToken: session.linkToken, expiresAt: session.expiresAt },
       message: 'Session created'
     } as ApiResponse);
   } catch (error) {
@@ -17,13 +17,15 @@ router.post('/start', (req, res) => {
   }
 });
 
-router.get('/:id', (req, res) => {
+router.get('/:id', async (req, res) => {
   try {
-    const session = SessionService.getSession(req.params.id);
+    const session = await SessionService.getSession(req.params.id);
     if (!session) {
       return res.status(404).json({ success: false, error: 'Session not found' } as ApiResponse);
     }
-    res.json({ success: true, data: session } as ApiResponse);
+    // The link token's hash and the linked account stay on the server
+    const { linkTokenHash, linkedUserId, ...data } = session;
+    res.json({ success: true, data } as ApiResponse);
   } catch (error) {
     res.status(500).json({ success: false, error: 'Failed to get session' } as ApiResponse);
   }
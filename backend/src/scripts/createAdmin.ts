@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+/**
+ * Create the first admin account
+ *
+ * Every other staff account is created by an admin, so a new install needs
+ * one admin to start from. Does nothing if the email is already registered.
+ *
+ * Usage:
+ *   npm run admin:create -- <email> <password> [firstName] [lastName]
+ *   # or after building:
+ *   node dist/scripts/createAdmin.js <email> <password> [firstName] [lastName]
+ *
+ * ADMIN_EMAIL, ADMIN_PASSWORD, ADMIN_FIRST_NAME and ADMIN_LAST_NAME are used
+ * for any argument left out. Setting them in .env creates the admin when the
+ * API starts instead.
+ */
+
+import dotenv from 'dotenv';
+import { initDatabase, closePool } from '../database/db';
+import { AuthService } from '../services/authService';
+
+async function main(): Promise<void> {
+  dotenv.config();
+  const [email, password, firstName, lastName] = process.argv.slice(2);
+
+  await initDatabase();
+  const result = await AuthService.createInitialAdmin({
+    email: email || process.env.ADMIN_EMAIL || '',
+    password: password || process.env.ADMIN_PASSWORD || '',
+    firstName: firstName || process.env.ADMIN_FIRST_NAME,
+    lastName: lastName || process.env.ADMIN_LAST_NAME
+  });
+
+  if (!result.success) {
+    console.error(`Error: ${result.error}`);
+    console.log('\nUsage: npm run admin:create -- <email> <password> [firstName] [lastName]');
+    process.exitCode = 1;
+  } else if (result.created) {
+    console.log(`Created admin account ${email || process.env.ADMIN_EMAIL}`);
+  } else {
+    console.log(`${email || process.env.ADMIN_EMAIL} is already registered; nothing to do`);
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Failed to create admin account:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
@@ -16,6 +16,7 @@
  *   - Skills.txt
  *   - Knowledge.txt
  *   - Abilities.txt
+ *   - Interests.txt
  *   - Education, Training, and Experience.txt
  */
 
@@ -52,6 +53,7 @@ async function main(): Promise<void> {
     console.log('  - Skills.txt');
     console.log('  - Knowledge.txt');
     console.log('  - Abilities.txt');
+    console.log('  - Interests.txt');
     console.log('  - Education, Training, and Experience.txt');
     console.log('\nDownload O*NET database from: https://www.onetcenter.org/database.html');
     process.exit(1);
@@ -1,4 +1,8 @@
-import { CareerMatch } from '../types';
+import { randomUUID } from 'crypto';
+import { Action, Career, Student } from '../types';
+import { ActionPlanRepository, StoredActionPlan } from '../repositories/actionPlanRepository';
+import { ProgramService } from './programService';
+import { CourseService } from './courseService';
 
 export interface ActionStep {
   id: string;
@@ -13,9 +17,12 @@ export interface ActionStep {
     url: string;
     type: 'article' | 'video' | 'course' | 'website';
   }[];
+  // School courses the step recommends
+  courseCodes?: string[];
 }
 
 export interface ActionPlan {
+  careerId: string;
   careerTitle: string;
   careerCode: string;
   steps: ActionStep[];
@@ -27,14 +34,42 @@ export interface ActionPlan {
   estimatedTimeToCareer: string;
 }
 
+/**
+ * A student's plan as saved on the server: the generated plan with their
+ * checkmarks, plus the custom actions they added
+ */
+export interface SavedActionPlan extends ActionPlan {
+  id: string;
+  studentId: string;
+  actions: Action[];
+  progress: ReturnType<typeof ActionPlanService.getProgress>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// null clears a date
+export type ActionInput = Partial<Omit<Action, 'id' | 'completedAt' | 'dueDate' | 'reminderDate'>> & {
+  dueDate?: Date | null;
+  reminderDate?: Date | null;
+};
+
+export const ACTION_TYPES: Action['type'][] = ['course', 'meeting', 'application', 'research', 'custom'];
+
+// Who a saved plan belongs to; grade, ZIP code and school shape the generated steps
+type PlanOwner = Pick<Student, 'id' | 'grade' | 'zipCode' | 'schoolId'>;
+
+// School courses recommended in a plan
+const MAX_PLAN_COURSES = 4;
+
 export class ActionPlanService {
   /**
-   * Generate personalized action plan for a career match
+   * Generate personalized action plan for a career
    */
   static generateActionPlan(
-    career: CareerMatch,
+    career: Career,
     userGrade?: number,
-    userZipCode?: string
+    userZipCode?: string,
+    userSchoolId?: string
   ): ActionPlan {
     const steps: ActionStep[] = [];
     const milestones: { title: string; description: string; targetDate?: string }[] = [];
@@ -81,12 +116,18 @@ export class ActionPlanService {
           title: 'CareerOneStop Job Finder',
           url: 'https://www.careeronestop.org/Toolkit/Jobs/find-jobs.aspx',
           type: 'website'
-        }
+        },
+        // Programs from the catalog, nearest first
+        ...ProgramService.getProgramsForCareer(career.id, userZipCode).map(program => ({
+          title: `${program.name} (${program.provider}, ${program.location.city})`,
+          url: program.applicationUrl || `/programs?career=${career.id}`,
+          type: 'course' as const
+        }))
       ]
     });
 
     // Education Planning
-    if (career.educationLevel === 'High school diploma or equivalent') {
+    if (career.requiredEducation === 'high-school') {
       steps.push({
         id: 'education-1',
         title: 'Complete High School',
@@ -101,7 +142,29 @@ export class ActionPlanService {
         title: 'High School Graduation',
         description: 'Earn your high school diploma with strong grades in core subjects'
       });
-    } else if (career.educationLevel.includes('Associate')) {
+    } else if (career.requiredEducation === 'certificate') {
+      steps.push({
+        id: 'education-1',
+        title: 'Find a Certificate Program',
+        description: 'Look for accredited certificate or vocational programs that prepare you for this career',
+        category: 'education',
+        timeframe: isHighSchool ? 'short-term' : 'immediate',
+        priority: 'high',
+        completed: false,
+        resources: [
+          {
+            title: 'Training Finder',
+            url: 'https://www.careeronestop.org/Toolkit/Training/find-local-training.aspx',
+            type: 'website'
+          }
+        ]
+      });
+
+      milestones.push({
+        title: 'Certificate Program',
+        description: 'Complete a certificate or vocational training program (typically under 2 years)'
+      });
+    } else if (career.requiredEducation === 'associate') {
       steps.push({
         id: 'education-1',
         title: 'Research Community Colleges',
@@ -123,7 +186,7 @@ export class ActionPlanService {
         title: 'Associate Degree',
         description: 'Complete 2-year degree program (typically 60 credits)'
       });
-    } else if (career.educationLevel.includes('Bachelor')) {
+    } else if (career.requiredEducation === 'bachelor') {
       steps.push({
         id: 'education-1',
         title: 'Research 4-Year Colleges',
@@ -147,6 +210,23 @@ export class ActionPlanService {
       });
     }
 
+    // Courses at the student's school that they can still take
+    const courses = userSchoolId && !isPostSecondary
+      ? CourseService.getCoursesForCareer(userSchoolId, career.id, { fromGrade: isHighSchool ? userGrade : undefined }).slice(0, MAX_PLAN_COURSES)
+      : [];
+    if (courses.length > 0) {
+      steps.push({
+        id: 'courses-1',
+        title: 'Sign Up for Related Courses',
+        description: `Ask your counselor about fitting these courses into your schedule: ${courses.map(CourseService.formatCourse).join(', ')}`,
+        category: 'education',
+        timeframe: 'short-term',
+        priority: 'high',
+        completed: false,
+        courseCodes: courses.map(course => course.code)
+      });
+    }
+
     // Skills Development
     const topSkills = career.skills?.slice(0, 3) || [];
     topSkills.forEach((skill, index) => {
@@ -225,13 +305,11 @@ export class ActionPlanService {
     });
 
     // Certification/Licensing (if applicable)
-    if (career.title.toLowerCase().includes('nurse') || 
-        career.title.toLowerCase().includes('therapist') ||
-        career.title.toLowerCase().includes('technician')) {
+    if (career.certifications.length > 0) {
       steps.push({
         id: 'education-2',
         title: 'Research Certification Requirements',
-        description: 'Understand licensing and certification needed in your state',
+        description: `Understand the licensing and certification needed in your state: ${career.certifications.join(', ')}`,
         category: 'education',
         timeframe: 'short-term',
         priority: 'high',
@@ -253,11 +331,13 @@ export class ActionPlanService {
 
     // Calculate estimated time to career
     let estimatedYears = 0;
-    if (career.educationLevel.includes('High school')) {
+    if (career.requiredEducation === 'high-school') {
       estimatedYears = isHighSchool ? (12 - (userGrade || 9)) : 0;
-    } else if (career.educationLevel.includes('Associate')) {
+    } else if (career.requiredEducation === 'certificate') {
+      estimatedYears = isHighSchool ? (12 - (userGrade || 9)) + 1 : 1;
+    } else if (career.requiredEducation === 'associate') {
       estimatedYears = isHighSchool ? (12 - (userGrade || 9)) + 2 : 2;
-    } else if (career.educationLevel.includes('Bachelor')) {
+    } else if (career.requiredEducation === 'bachelor') {
       estimatedYears = isHighSchool ? (12 - (userGrade || 9)) + 4 : 4;
     }
 
@@ -270,8 +350,9 @@ export class ActionPlanService {
           : '6+ years';
 
     return {
+      careerId: career.id,
       careerTitle: career.title,
-      careerCode: career.onetCode,
+      careerCode: career.onetCode || career.id,
       steps: steps.sort((a, b) => {
         const timeframeOrder = { immediate: 0, 'short-term': 1, 'long-term': 2 };
         const priorityOrder = { high: 0, medium: 1, low: 2 };
@@ -290,12 +371,13 @@ export class ActionPlanService {
    * Get action plans for multiple careers
    */
   static generateMultipleActionPlans(
-    careers: CareerMatch[],
+    careers: Career[],
     userGrade?: number,
-    userZipCode?: string
+    userZipCode?: string,
+    userSchoolId?: string
   ): ActionPlan[] {
     return careers.map(career => 
-      this.generateActionPlan(career, userGrade, userZipCode)
+      this.generateActionPlan(career, userGrade, userZipCode, userSchoolId)
     );
   }
 
@@ -336,4 +418,204 @@ export class ActionPlanService {
       nextStep
     };
   }
+
+  /**
+   * Check the fields of a custom action sent by a client.
+   * With partial set, only the fields present are checked; null dates clear them.
+   */
+  static validateActionInput(input: Record<string, unknown>, partial = false): { action?: ActionInput; error?: string } {
+    const action: ActionInput = {};
+
+    if (input.title !== undefined || !partial) {
+      if (typeof input.title !== 'string' || !input.title.trim()) return { error: 'Title is required' };
+      action.title = input.title.trim();
+    }
+    for (const field of ['description', 'notes'] as const) {
+      if (input[field] === undefined) continue;
+      if (typeof input[field] !== 'string') return { error: `${field} must be text` };
+      action[field] = (input[field] as string).trim();
+    }
+    if (input.type !== undefined) {
+      if (!ACTION_TYPES.includes(input.type as Action['type'])) {
+        return { error: `Type must be one of: ${ACTION_TYPES.join(', ')}` };
+      }
+      action.type = input.type as Action['type'];
+    }
+    for (const field of ['dueDate', 'reminderDate'] as const) {
+      if (input[field] === undefined) continue;
+      if (input[field] === null) {
+        action[field] = null;
+        continue;
+      }
+      const date = new Date(input[field] as string);
+      if (typeof input[field] !== 'string' || isNaN(date.getTime())) return { error: `${field} must be a date` };
+      action[field] = date;
+    }
+    for (const field of ['completed', 'reminderEnabled'] as const) {
+      if (input[field] === undefined) continue;
+      if (typeof input[field] !== 'boolean') return { error: `${field} must be true or false` };
+      action[field] = input[field] as boolean;
+    }
+
+    return { action };
+  }
+
+  /**
+   * Get a student's saved plan for a career, generating and saving it the first time
+   */
+  static async getSavedPlan(student: PlanOwner, career: Career): Promise<SavedActionPlan> {
+    const stored = await this.findOrCreatePlan(student, career);
+    return this.toSavedPlan(stored, await ActionPlanRepository.listActions(stored.id));
+  }
+
+  /**
+   * List every plan a student has saved, most recently updated first
+   */
+  static async listSavedPlans(studentId: string): Promise<SavedActionPlan[]> {
+    const stored = await ActionPlanRepository.listPlans(studentId);
+    return Promise.all(stored.map(async plan =>
+      this.toSavedPlan(plan, await ActionPlanRepository.listActions(plan.id))));
+  }
+
+  /**
+   * Check off (or uncheck) a step on a student's saved plan.
+   * Returns null if the plan has no such step.
+   */
+  static async setStepCompleted(
+    student: PlanOwner,
+    career: Career,
+    stepId: string,
+    completed: boolean
+  ): Promise<SavedActionPlan | null> {
+    const stored = await this.findOrCreatePlan(student, career);
+    const index = stored.plan.steps.findIndex(step => step.id === stepId);
+    if (index === -1) return null;
+
+    await ActionPlanRepository.setStepsCompleted(stored.id, [index], completed, new Date());
+    return this.getSavedPlan(student, career);
+  }
+
+  /**
+   * Copy checkmarks from a plan kept only in the browser. Steps already
+   * completed on the server stay completed; unknown step IDs are ignored.
+   */
+  static async importStepProgress(
+    student: PlanOwner,
+    career: Career,
+    steps: { id: string; completed: boolean }[]
+  ): Promise<SavedActionPlan> {
+    const stored = await this.findOrCreatePlan(student, career);
+    const completedIds = new Set(steps.filter(step => step.completed).map(step => step.id));
+    const indexes = stored.plan.steps.flatMap((step, index) => completedIds.has(step.id) ? [index] : []);
+
+    await ActionPlanRepository.setStepsCompleted(stored.id, indexes, true, new Date());
+    return this.getSavedPlan(student, career);
+  }
+
+  /**
+   * Add a custom action to a student's saved plan
+   */
+  static async addAction(student: PlanOwner, career: Career, input: ActionInput & { title: string }): Promise<Action> {
+    const stored = await this.findOrCreatePlan(student, career);
+    const completed = input.completed ?? false;
+    const action: Action = {
+      id: randomUUID(),
+      title: input.title,
+      description: input.description ?? '',
+      type: input.type ?? 'custom',
+      dueDate: input.dueDate ?? undefined,
+      completed,
+      completedAt: completed ? new Date() : undefined,
+      reminderEnabled: input.reminderEnabled ?? false,
+      reminderDate: input.reminderDate ?? (input.reminderEnabled ? input.dueDate ?? undefined : undefined),
+      notes: input.notes,
+    };
+
+    await ActionPlanRepository.createAction(stored.id, action);
+    await ActionPlanRepository.touchPlan(stored.id, new Date());
+    return action;
+  }
+
+  /**
+   * Update a custom action on a student's saved plan.
+   * Returns null if the plan has no such action.
+   */
+  static async updateAction(
+    student: PlanOwner,
+    career: Career,
+    actionId: string,
+    updates: ActionInput
+  ): Promise<Action | null> {
+    const stored = await ActionPlanRepository.findPlan(student.id, career.id);
+    if (!stored) return null;
+
+    const existing = (await ActionPlanRepository.listActions(stored.id)).find(action => action.id === actionId);
+    if (!existing) return null;
+
+    const { dueDate, reminderDate, ...fields } = updates;
+    const action: Action = { ...existing, ...fields };
+    if (updates.completed !== undefined && updates.completed !== existing.completed) {
+      action.completedAt = updates.completed ? new Date() : undefined;
+    }
+    if (dueDate !== undefined) {
+      action.dueDate = dueDate ?? undefined;
+      // A reminder that only followed the cleared due date goes with it
+      if (!dueDate && existing.reminderDate?.getTime() === existing.dueDate?.getTime()) {
+        action.reminderDate = undefined;
+      }
+    }
+    if (reminderDate !== undefined) {
+      action.reminderDate = reminderDate ?? undefined;
+    }
+    if (action.reminderEnabled && !action.reminderDate) {
+      action.reminderDate = action.dueDate;
+    }
+    // With no date left to fire on, the pending reminder is cancelled
+    if (action.reminderEnabled && !action.reminderDate) {
+      action.reminderEnabled = false;
+    }
+
+    const reminderChanged = action.reminderEnabled !== existing.reminderEnabled
+      || action.reminderDate?.getTime() !== existing.reminderDate?.getTime();
+
+    await ActionPlanRepository.updateAction(stored.id, action);
+    if (updates.reminderEnabled !== undefined || reminderDate !== undefined || reminderChanged) {
+      // A changed reminder fires again, even if the old one was already sent
+      await ActionPlanRepository.rescheduleReminder(action.id, action.reminderEnabled, action.reminderDate ?? null);
+    }
+    await ActionPlanRepository.touchPlan(stored.id, new Date());
+    return action;
+  }
+
+  /**
+   * Load a student's saved plan for a career, generating it if there is none
+   */
+  private static async findOrCreatePlan(student: PlanOwner, career: Career): Promise<StoredActionPlan> {
+    const existing = await ActionPlanRepository.findPlan(student.id, career.id);
+    if (existing) return existing;
+
+    const now = new Date();
+    await ActionPlanRepository.createPlan({
+      id: randomUUID(),
+      userId: student.id,
+      careerId: career.id,
+      plan: this.generateActionPlan(career, student.grade, student.zipCode, student.schoolId),
+      createdAt: now,
+      updatedAt: now,
+    });
+    // Read it back: a concurrent request may have created the plan first
+    return (await ActionPlanRepository.findPlan(student.id, career.id))!;
+  }
+
+  private static toSavedPlan(stored: StoredActionPlan, actions: Action[]): SavedActionPlan {
+    return {
+      ...stored.plan,
+      id: stored.id,
+      studentId: stored.userId,
+      actions,
+      progress: this.getProgress(stored.plan),
+      createdAt: stored.createdAt,
+      updatedAt: stored.updatedAt,
+    };
+  }
 }
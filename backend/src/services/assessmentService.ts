@@ -1,137 +1,271 @@
-import { AssessmentAnswer, StudentProfile } from '../types';
-import questions from '../data/questions.json';
+import {
+  AnswerMigrationResult,
+  AssessmentAnswer,
+  AssessmentDefinition,
+  AssessmentQuestion,
+  AssessmentType,
+  NextQuestionResult,
+  RiasecScores,
+  RiasecType,
+  StudentProfile
+} from '../types';
+import { ASSESSMENT_DEFINITIONS } from '../data/assessments';
+import { RIASEC_NAMES, RIASEC_TYPES, toHollandCode } from './riasec';
+import {
+  evaluateScoringRules,
+  isApplicable,
+  validateAskCondition,
+  validateScoringRules
+} from './scoringRules';
+import { CareerService } from './careerService';
+
+export const ASSESSMENT_TYPES: AssessmentType[] = ['standard', 'riasec'];
+
+// Answers saved before assessments were versioned were taken on version 1
+export const UNVERSIONED_ASSESSMENT_VERSION = 1;
+
+// Adaptive assessments skip optional follow-ups once the top matches
+// have stayed the same over this many answers
+const STABLE_TOP_MATCHES = 3;
+const STABLE_AFTER_ANSWERS = 3;
+
+// Published assessment versions (replaceable for tests)
+let definitions: AssessmentDefinition[] = ASSESSMENT_DEFINITIONS;
 
 export class AssessmentService {
   /**
-   * Get all assessment questions
+   * Replace the assessment definitions (pass null to restore the published ones)
    */
-  static getQuestions() {
-    return questions;
+  static setDefinitions(newDefinitions: AssessmentDefinition[] | null): void {
+    definitions = newDefinitions || ASSESSMENT_DEFINITIONS;
   }
 
   /**
-   * Generate student profile from assessment answers
+   * List every published assessment version
    */
-  static generateProfile(answers: AssessmentAnswer[], zipCode: string): Partial<StudentProfile> {
-    const interests: string[] = [];
-    const skills: string[] = [];
-    let workEnvironment: 'indoor' | 'outdoor' | 'mixed' = 'mixed';
-    let teamPreference: 'team' | 'solo' | 'both' = 'both';
-    let educationGoal: 'high-school' | 'certificate' | 'associate' | 'bachelor' = 'certificate';
-
-    // Process each answer
-    answers.forEach(answer => {
-      const question = questions.find(q => q.id === answer.questionId);
-      if (!question) return;
-
-      const answerValue = answer.answer;
-
-      // Extract interests
-      if (question.category === 'interests') {
-        if (typeof answerValue === 'string' && (answerValue.includes('Agree') || answerValue === 'Strongly Agree')) {
-          if (question.text.includes('helping people')) {
-            interests.push('Helping Others');
-          }
-          if (question.text.includes('hands') || question.text.includes('building')) {
-            interests.push('Hands-on Work');
-          }
-          if (question.text.includes('body') || question.text.includes('health')) {
-            interests.push('Healthcare');
-          }
-          if (question.text.includes('buildings') || question.text.includes('infrastructure') || question.text.includes('constructed')) {
-            interests.push('Infrastructure');
-          }
-          if (question.text.includes('community') || question.text.includes('difference')) {
-            interests.push('Community Impact');
-          }
-        }
-      }
+  static listDefinitions(): AssessmentDefinition[] {
+    return [...definitions].sort((a, b) => a.type.localeCompare(b.type) || a.version - b.version);
+  }
 
-      // Extract skills
-      if (question.category === 'skills') {
-        if (typeof answerValue === 'string' && (answerValue.includes('Agree') || answerValue === 'Strongly Agree')) {
-          if (question.text.includes('technology') || question.text.includes('software')) {
-            skills.push('Technology');
-          }
-          if (question.text.includes('details') || question.text.includes('attention')) {
-            skills.push('Attention to Detail');
-          }
-          if (question.text.includes('talking') || question.text.includes('communication')) {
-            skills.push('Communication');
-          }
-        }
-      }
+  /**
+   * Latest published version of an assessment type
+   */
+  static getLatestVersion(type: AssessmentType): number | null {
+    const versions = definitions.filter(d => d.type === type).map(d => d.version);
+    return versions.length > 0 ? Math.max(...versions) : null;
+  }
+
+  /**
+   * Get an assessment definition (the latest version when none is given)
+   */
+  static getDefinition(type: AssessmentType, version?: number): AssessmentDefinition | null {
+    const resolved = version ?? this.getLatestVersion(type);
+    return definitions.find(d => d.type === type && d.version === resolved) || null;
+  }
+
+  /**
+   * Get the questions for an assessment type and version (latest by default)
+   */
+  static getQuestions(type: AssessmentType = 'standard', version?: number): AssessmentQuestion[] {
+    return this.getDefinition(type, version)?.questions || [];
+  }
+
+  /**
+   * Carry answers from one version of an assessment to a newer one by applying
+   * each version's migration in turn. Returns null if there is no migration path.
+   */
+  static migrateAnswers(
+    answers: AssessmentAnswer[],
+    type: AssessmentType,
+    fromVersion: number,
+    toVersion: number
+  ): AnswerMigrationResult | null {
+    if (toVersion < fromVersion || !this.getDefinition(type, fromVersion)) return null;
+
+    let current = answers;
+    const dropped: string[] = [];
 
-      // Determine preferences
-      if (question.category === 'preferences') {
-        if (question.id === 'q4') {
-          // Work environment question
-          if (typeof answerValue === 'string') {
-            if (answerValue.includes('indoors')) workEnvironment = 'indoor';
-            else if (answerValue.includes('outdoors')) workEnvironment = 'outdoor';
-            else workEnvironment = 'mixed';
-          }
+    for (let version = fromVersion + 1; version <= toVersion; version++) {
+      const definition = this.getDefinition(type, version);
+      const migration = definition?.migration;
+      if (!definition || !migration || migration.fromVersion !== version - 1) return null;
+
+      const next: AssessmentAnswer[] = [];
+      for (const answer of current) {
+        const mapping = migration.answers[answer.questionId];
+        if (mapping === null) {
+          dropped.push(answer.questionId);
+          continue;
         }
-        if (question.id === 'q5') {
-          // Team preference question
-          if (typeof answerValue === 'string') {
-            if (answerValue.includes('team')) teamPreference = 'team';
-            else if (answerValue.includes('independently')) teamPreference = 'solo';
-            else teamPreference = 'both';
-          }
+
+        const questionId = mapping?.questionId ?? answer.questionId;
+        const value = mapping?.options?.[String(answer.answer)] ?? answer.answer;
+        const question = definition.questions.find(q => q.id === questionId);
+        if (!question || (question.options && !question.options.includes(String(value)))) {
+          dropped.push(answer.questionId);
+          continue;
         }
+
+        next.push({ ...answer, questionId, answer: value });
       }
+      current = next;
+    }
 
-      // Determine education goal
-      if (question.category === 'education' && question.id === 'q9') {
-        if (typeof answerValue === 'string') {
-          if (answerValue.includes('right away')) educationGoal = 'high-school';
-          else if (answerValue.includes('certificate') || answerValue.includes('short training')) educationGoal = 'certificate';
-          else if (answerValue.includes('community college')) educationGoal = 'associate';
-          else if (answerValue.includes('4-year')) educationGoal = 'bachelor';
-        }
+    return { answers: current, fromVersion, toVersion, dropped };
+  }
+
+  /**
+   * Pick the next question to ask given the answers so far.
+   * Questions whose askWhen condition isn't met are skipped, and optional
+   * follow-ups are skipped once the top career matches are stable.
+   * Returns null if the assessment version doesn't exist.
+   */
+  static getNextQuestion(
+    answers: AssessmentAnswer[],
+    type: AssessmentType = 'standard',
+    version?: number
+  ): NextQuestionResult | null {
+    const definition = this.getDefinition(type, version);
+    if (!definition) return null;
+
+    const answered = new Set(answers.map(a => a.questionId));
+    const pending = [...definition.questions]
+      .sort((a, b) => a.order - b.order)
+      .filter(q => !answered.has(q.id) && isApplicable(q, answers));
+    const answeredCount = definition.questions.filter(q => answered.has(q.id)).length;
+
+    let stable: boolean | undefined;
+    for (const question of pending) {
+      if (question.optional) {
+        stable ??= this.topMatchesStable(answers, type, definition.version);
+        if (stable) continue;
       }
-    });
 
-    // Remove duplicates and ensure we have at least some interests/skills
-    const uniqueInterests = [...new Set(interests)];
-    const uniqueSkills = [...new Set(skills)];
+      return {
+        question,
+        done: false,
+        answeredCount,
+        remainingCount: pending.filter(q => !q.optional || !stable).length
+      };
+    }
+
+    return {
+      question: null,
+      done: true,
+      reason: stable ? 'stable' : 'complete',
+      answeredCount,
+      remainingCount: 0
+    };
+  }
+
+  /**
+   * Whether the top career matches stayed the same over the last few answers
+   */
+  private static topMatchesStable(answers: AssessmentAnswer[], type: AssessmentType, version: number): boolean {
+    if (answers.length <= STABLE_AFTER_ANSWERS) return false;
+
+    const topMatches = (subset: AssessmentAnswer[]) =>
+      CareerService.getTopCareerIds(this.generateProfile(subset, '', type, version), STABLE_TOP_MATCHES).join(',');
+
+    const latest = topMatches(answers);
+    for (let dropped = 1; dropped <= STABLE_AFTER_ANSWERS; dropped++) {
+      if (topMatches(answers.slice(0, answers.length - dropped)) !== latest) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Check that a value names a supported assessment type
+   */
+  static isAssessmentType(value: unknown): value is AssessmentType {
+    return typeof value === 'string' && (ASSESSMENT_TYPES as string[]).includes(value);
+  }
+
+  /**
+   * Score the RIASEC inventory: average rating per interest type, scaled to 0-100
+   */
+  static scoreRiasec(answers: AssessmentAnswer[]): RiasecScores {
+    const { riasecScores } = evaluateScoringRules(this.getQuestions('riasec'), answers);
+    return riasecScores || Object.fromEntries(RIASEC_TYPES.map(t => [t, 0])) as RiasecScores;
+  }
+
+  /**
+   * Generate student profile from assessment answers by applying each
+   * question's scoring rules
+   */
+  static generateProfile(
+    answers: AssessmentAnswer[],
+    zipCode: string,
+    type: AssessmentType = 'standard',
+    version?: number
+  ): Partial<StudentProfile> {
+    const assessmentVersion = version ?? this.getLatestVersion(type) ?? UNVERSIONED_ASSESSMENT_VERSION;
+    const result = evaluateScoringRules(this.getQuestions(type, assessmentVersion), answers);
+    const interests = Object.keys(result.interests);
+    const skills = Object.keys(result.skills);
 
-    // Add default interests if none detected
-    if (uniqueInterests.length === 0) {
-      uniqueInterests.push('Exploring Options');
+    // The interest inventory describes interests by Holland type instead
+    let riasec: Pick<StudentProfile, 'riasecScores' | 'hollandCode'> | undefined;
+    if (result.riasecScores) {
+      const hollandCode = toHollandCode(result.riasecScores);
+      riasec = { riasecScores: result.riasecScores, hollandCode };
+      hollandCode.split('').forEach(letter => interests.push(RIASEC_NAMES[letter as RiasecType]));
     }
 
-    // Add default skills if none detected
-    if (uniqueSkills.length === 0) {
-      uniqueSkills.push('Willingness to Learn');
+    // Trait strengths are capped at 1 when several questions add to the same trait
+    const traitWeights = Object.fromEntries(
+      Object.entries({ ...result.interests, ...result.skills })
+        .map(([trait, weight]) => [trait, Math.min(1, Math.round(weight * 100) / 100)])
+    );
+
+    // Add default interests/skills if none detected
+    if (interests.length === 0) {
+      interests.push('Exploring Options');
+    }
+    if (skills.length === 0) {
+      skills.push('Willingness to Learn');
     }
 
     return {
-      interests: uniqueInterests,
-      skills: uniqueSkills,
-      workEnvironment,
-      teamPreference,
-      educationGoal,
+      interests,
+      skills,
+      traitWeights,
+      workEnvironment: result.workEnvironment || 'mixed',
+      teamPreference: result.teamPreference || 'both',
+      educationGoal: result.educationGoal || 'certificate',
       zipCode,
+      assessmentType: type,
+      assessmentVersion,
+      ...riasec,
       completedAt: new Date(),
       updatedAt: new Date()
     };
   }
 
   /**
-   * Validate assessment answers
+   * Validate assessment answers. Partial answer sets (saved mid-assessment)
+   * skip the completeness check.
    */
-  static validateAnswers(answers: AssessmentAnswer[]): { valid: boolean; errors: string[] } {
+  static validateAnswers(
+    answers: AssessmentAnswer[],
+    type: AssessmentType = 'standard',
+    version?: number,
+    partial = false
+  ): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
+    const questions = this.getQuestions(type, version);
 
     if (!answers || answers.length === 0) {
       errors.push('No answers provided');
       return { valid: false, errors };
     }
 
-    if (answers.length < questions.length) {
-      errors.push(`Incomplete assessment: ${answers.length}/${questions.length} questions answered`);
+    // Follow-ups that don't apply and optional questions may be left unanswered
+    const answered = new Set(answers.map(a => a.questionId));
+    const required = questions.filter(q => !q.optional && isApplicable(q, answers));
+    const answeredRequired = required.filter(q => answered.has(q.id)).length;
+    if (!partial && answeredRequired < required.length) {
+      errors.push(`Incomplete assessment: ${answeredRequired}/${required.length} questions answered`);
     }
 
     // Validate each answer
@@ -142,6 +276,10 @@ export class AssessmentService {
         return;
       }
 
+      // Scoring rules must be consistent before the answer can be scored
+      errors.push(...validateScoringRules(question));
+      errors.push(...validateAskCondition(question, questions));
+
       // Validate answer format based on question type
       if (question.type === 'scale') {
         if (typeof answer.answer !== 'string' || !question.options?.includes(answer.answer)) {
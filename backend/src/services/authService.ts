@@ -1,12 +1,19 @@
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import { randomUUID } from 'crypto';
-import { User, Student, Counselor } from '../types';
+import { Student, Counselor, StaffAccount, StaffRole, UserAccount, UserRole } from '../types';
+import { UserRepository } from '../repositories/userRepository';
+import { StudentRecordRepository } from '../repositories/studentRecordRepository';
+import { SessionService } from './sessionService';
+import { CareerService } from './careerService';
 
-// In-memory user storage (use database in production)
-const users = new Map<string, User>();
-const students = new Map<string, Student>();
-const counselors = new Map<string, Counselor>();
+// PostgreSQL error code for unique constraint violations
+const UNIQUE_VIOLATION = '23505';
+
+export const STAFF_ROLES: StaffRole[] = ['counselor', 'teacher', 'admin'];
+
+// Staff roles that only make sense within a school
+const SCHOOL_ROLES: StaffRole[] = ['counselor', 'teacher'];
 
 export class AuthService {
   private static readonly JWT_SECRET = process.env.JWT_SECRET || 'lantern-ai-secret-key';
@@ -26,29 +33,23 @@ export class AuthService {
   }): Promise<{ success: boolean; user?: Student; token?: string; error?: string }> {
     try {
       // Check if email already exists
-      const existingUser = Array.from(users.values()).find(u => u.email === data.email);
-      if (existingUser) {
+      if (await UserRepository.emailExists(data.email)) {
         return { success: false, error: 'Email already registered' };
       }
 
       // Hash password
       const passwordHash = await bcrypt.hash(data.password, this.SALT_ROUNDS);
 
-      // Create user
+      // Create student account
       const userId = randomUUID();
-      const user: User = {
+      const now = new Date();
+      const student: Student = {
         id: userId,
         email: data.email,
         role: 'student',
         schoolId: data.schoolId,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-
-      // Create student profile
-      const student: Student = {
-        ...user,
-        role: 'student',
+        createdAt: now,
+        updatedAt: now,
         firstName: data.firstName,
         lastName: data.lastName,
         grade: data.grade,
@@ -57,12 +58,7 @@ export class AuthService {
         consentGiven: true
       };
 
-      // Store user and student
-      users.set(userId, user);
-      students.set(userId, student);
-
-      // Store password separately (in production, use proper user table)
-      (user as any).passwordHash = passwordHash;
+      await UserRepository.createStudent(student, passwordHash);
 
       // Generate JWT token
       const token = jwt.sign(
@@ -73,6 +69,9 @@ export class AuthService {
 
       return { success: true, user: student, token };
     } catch (error) {
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        return { success: false, error: 'Email already registered' };
+      }
       console.error('Registration error:', error);
       return { success: false, error: 'Registration failed' };
     }
@@ -83,37 +82,23 @@ export class AuthService {
    */
   static async login(email: string, password: string): Promise<{
     success: boolean;
-    user?: Student | Counselor;
+    user?: UserAccount;
     token?: string;
     error?: string;
   }> {
     try {
       // Find user by email
-      const user = Array.from(users.values()).find(u => u.email === email);
-      if (!user) {
+      const credentials = await UserRepository.findCredentialsByEmail(email);
+      if (!credentials) {
         return { success: false, error: 'Invalid email or password' };
       }
 
-      // Check password
-      const passwordHash = (user as any).passwordHash;
-      if (!passwordHash) {
-        return { success: false, error: 'Invalid account' };
-      }
-
-      const isValidPassword = await bcrypt.compare(password, passwordHash);
+      const isValidPassword = await bcrypt.compare(password, credentials.passwordHash);
       if (!isValidPassword) {
         return { success: false, error: 'Invalid email or password' };
       }
 
-      // Get user profile based on role
-      let userProfile: Student | Counselor;
-      if (user.role === 'student') {
-        userProfile = students.get(user.id)!;
-      } else if (user.role === 'counselor') {
-        userProfile = counselors.get(user.id)!;
-      } else {
-        return { success: false, error: 'Invalid user role' };
-      }
+      const user = credentials.account;
 
       // Generate JWT token
       const token = jwt.sign(
@@ -122,7 +107,7 @@ export class AuthService {
         { expiresIn: '7d' }
       );
 
-      return { success: true, user: userProfile, token };
+      return { success: true, user, token };
     } catch (error) {
       console.error('Login error:', error);
       return { success: false, error: 'Login failed' };
@@ -136,7 +121,7 @@ export class AuthService {
     success: boolean;
     userId?: string;
     email?: string;
-    role?: string;
+    role?: UserRole;
     error?: string;
   } {
     try {
@@ -155,107 +140,204 @@ export class AuthService {
   /**
    * Get user by ID
    */
-  static getUserById(userId: string): Student | Counselor | null {
-    const user = users.get(userId);
-    if (!user) return null;
-
-    if (user.role === 'student') {
-      return students.get(userId) || null;
-    } else if (user.role === 'counselor') {
-      return counselors.get(userId) || null;
-    }
+  static async getUserById(userId: string): Promise<UserAccount | null> {
+    return UserRepository.findById(userId);
+  }
+
+  /**
+   * Update student profile. Only profile fields are accepted; identity fields
+   * (id, email, role), the school (which decides which staff can see the
+   * student, see setStudentSchool) and timestamps cannot be changed through
+   * this method.
+   */
+  static async updateStudentProfile(userId: string, updates: Partial<Student>): Promise<boolean> {
+    const { firstName, lastName, grade, zipCode, profileCompleted, consentGiven } = updates;
+    const allowed = Object.fromEntries(
+      Object.entries({ firstName, lastName, grade, zipCode, profileCompleted, consentGiven })
+        .filter(([, value]) => value !== undefined)
+    );
+
+    const updated = await UserRepository.updateStudent(userId, allowed);
+    return updated !== null;
+  }
 
-    return null;
+  /**
+   * Move a student to a school, or out of any with null (for admins).
+   * Returns false if there is no such student.
+   */
+  static async setStudentSchool(studentId: string, schoolId: string | null): Promise<boolean> {
+    const updated = await UserRepository.updateStudent(studentId, { schoolId: schoolId ?? undefined });
+    return updated !== null;
   }
 
   /**
-   * Update student profile
+   * Link session data to user account, saving the session's assessment
+   * profile (or its progress) so counselors can see it. The link token
+   * proves the session was started by this client; a session can only be
+   * linked to one account.
    */
-  static updateStudentProfile(userId: string, updates: Partial<Student>): boolean {
-    const student = students.get(userId);
-    if (!student) return false;
-
-    const updatedStudent = {
-      ...student,
-      ...updates,
-      updatedAt: new Date()
-    };
-
-    students.set(userId, updatedStudent);
-    return true;
+  static async linkSessionToUser(
+    userId: string,
+    sessionId: string,
+    linkToken: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const user = await UserRepository.findById(userId);
+    if (user?.role !== 'student') {
+      return { success: false, error: 'Student not found' };
+    }
+
+    const { session, error } = await SessionService.linkSession(sessionId, linkToken, userId);
+    if (!session) {
+      return { success: false, error };
+    }
+
+    if (session.profileData) {
+      await UserRepository.updateStudent(userId, { profileCompleted: true });
+      await StudentRecordRepository.saveProfile(userId, 'complete', session.profileData);
+    } else if (session.assessmentAnswers?.length) {
+      await StudentRecordRepository.saveProfile(userId, 'in-progress', null);
+    }
+    return { success: true };
   }
 
   /**
-   * Link session data to user account
+   * Replace the careers a student is aiming for.
+   * Returns an error message if any career ID is unknown.
    */
-  static linkSessionToUser(userId: string, sessionId: string): boolean {
-    // This would link existing session data to the user account
-    // For now, we'll just mark the profile as completed if they have session data
-    const student = students.get(userId);
-    if (student) {
-      student.profileCompleted = true;
-      students.set(userId, student);
-      return true;
+  static async setTargetCareers(userId: string, careerIds: string[]): Promise<{ success: boolean; error?: string }> {
+    const unknown = careerIds.filter(id => !CareerService.getCareerById(id));
+    if (unknown.length > 0) {
+      return { success: false, error: `Unknown career ID: ${unknown.join(', ')}` };
     }
-    return false;
+
+    await StudentRecordRepository.setTargetCareers(userId, [...new Set(careerIds)]);
+    return { success: true };
   }
 
   /**
    * Get all students (for counselor dashboard)
    */
-  static getAllStudents(): Student[] {
-    return Array.from(students.values());
+  static async getAllStudents(): Promise<Student[]> {
+    return UserRepository.listStudents();
   }
 
   /**
-   * Register counselor (admin function)
+   * Check whether a value is a staff role
    */
-  static async registerCounselor(data: {
+  static isStaffRole(role: unknown): role is StaffRole {
+    return STAFF_ROLES.includes(role as StaffRole);
+  }
+
+  /**
+   * Register a counselor, teacher or admin account (admin function)
+   */
+  static async registerStaff(data: {
+    role: StaffRole;
     email: string;
     password: string;
     firstName: string;
     lastName: string;
-    schoolId: string;
-  }): Promise<{ success: boolean; user?: Counselor; error?: string }> {
+    schoolId?: string;
+  }): Promise<{ success: boolean; user?: StaffAccount; error?: string }> {
     try {
+      if (SCHOOL_ROLES.includes(data.role) && !data.schoolId) {
+        return { success: false, error: `A school is required for ${data.role} accounts` };
+      }
+
       // Check if email already exists
-      const existingUser = Array.from(users.values()).find(u => u.email === data.email);
-      if (existingUser) {
+      if (await UserRepository.emailExists(data.email)) {
         return { success: false, error: 'Email already registered' };
       }
 
       // Hash password
       const passwordHash = await bcrypt.hash(data.password, this.SALT_ROUNDS);
 
-      // Create user
-      const userId = randomUUID();
-      const user: User = {
-        id: userId,
+      const now = new Date();
+      const account = {
+        id: randomUUID(),
         email: data.email,
-        role: 'counselor',
-        schoolId: data.schoolId,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-
-      // Create counselor profile
-      const counselor: Counselor = {
-        ...user,
-        role: 'counselor',
+        role: data.role,
+        createdAt: now,
+        updatedAt: now,
         firstName: data.firstName,
         lastName: data.lastName,
         schoolId: data.schoolId
-      };
+      } as StaffAccount;
 
-      // Store user and counselor
-      users.set(userId, user);
-      counselors.set(userId, counselor);
-      (user as any).passwordHash = passwordHash;
+      await UserRepository.createStaff(account, passwordHash);
 
-      return { success: true, user: counselor };
+      return { success: true, user: account };
     } catch (error) {
-      console.error('Counselor registration error:', error);
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        return { success: false, error: 'Email already registered' };
+      }
+      console.error('Staff registration error:', error);
       return { success: false, error: 'Registration failed' };
     }
   }
+
+  /**
+   * Register counselor (admin function)
+   */
+  static async registerCounselor(data: {
+    email: string;
+    password: string;
+    firstName: string;
+    lastName: string;
+    schoolId: string;
+  }): Promise<{ success: boolean; user?: Counselor; error?: string }> {
+    const result = await this.registerStaff({ ...data, role: 'counselor' });
+    return { ...result, user: result.user as Counselor | undefined };
+  }
+
+  /**
+   * Create the first admin account, which every other staff account is
+   * created from. Does nothing when the email is already registered, so it
+   * is safe to run on every start.
+   */
+  static async createInitialAdmin(data: {
+    email: string;
+    password: string;
+    firstName?: string;
+    lastName?: string;
+  }): Promise<{ success: boolean; created?: boolean; error?: string }> {
+    if (!data.email || !data.password) {
+      return { success: false, error: 'An email and password are required' };
+    }
+    if (data.password.length < 6) {
+      return { success: false, error: 'Password must be at least 6 characters' };
+    }
+    if (await UserRepository.emailExists(data.email)) {
+      return { success: true, created: false };
+    }
+
+    const result = await this.registerStaff({
+      role: 'admin',
+      email: data.email,
+      password: data.password,
+      firstName: data.firstName || 'Lantern',
+      lastName: data.lastName || 'Admin'
+    });
+    return result.success ? { success: true, created: true } : { success: false, error: result.error };
+  }
+
+  /**
+   * Create the first admin from ADMIN_EMAIL and ADMIN_PASSWORD, when set
+   */
+  static async createInitialAdminFromEnv(): Promise<void> {
+    const { ADMIN_EMAIL, ADMIN_PASSWORD, ADMIN_FIRST_NAME, ADMIN_LAST_NAME } = process.env;
+    if (!ADMIN_EMAIL && !ADMIN_PASSWORD) return;
+
+    const result = await this.createInitialAdmin({
+      email: ADMIN_EMAIL || '',
+      password: ADMIN_PASSWORD || '',
+      firstName: ADMIN_FIRST_NAME,
+      lastName: ADMIN_LAST_NAME
+    });
+    if (!result.success) {
+      console.error(`❌ Could not create the admin account from ADMIN_EMAIL: ${result.error}`);
+    } else if (result.created) {
+      console.log(`👤 Created admin account ${ADMIN_EMAIL}`);
+    }
+  }
 }
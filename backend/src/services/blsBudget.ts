@@ -0,0 +1,120 @@
+/**
+ * BLS daily request budget
+ *
+ * BLS caps how many queries a client can make per UTC day (far fewer without
+ * a registration key). Every request the client sends is counted here first,
+ * and background work is turned away while there's still budget left for
+ * user-facing lookups.
+ */
+
+import { RequestCounter, createRequestCounter } from '../cache';
+import { getBLSConfig } from '../config/blsConfig';
+
+// 'user' lookups answer someone waiting on a page; 'background' ones (warmups,
+// refreshes) can wait for tomorrow's budget
+export type BLSRequestPriority = 'user' | 'background';
+
+export interface BLSBudgetStatus {
+  // UTC day the count is for (YYYY-MM-DD)
+  day: string;
+  limit: number;
+  reserve: number;
+  used: number;
+  remaining: number;
+  // False once only the reserve is left
+  backgroundAllowed: boolean;
+  apiKeyConfigured: boolean;
+  resetsAt: Date;
+}
+
+// Requests sent per day, kept in the store selected by BLS_BUDGET_STORE
+let counter: RequestCounter | null = null;
+
+function getCounter(): RequestCounter {
+  if (!counter) {
+    const { cache, budget } = getBLSConfig();
+    counter = createRequestCounter({
+      type: budget.store,
+      file: budget.file,
+      redisUrl: cache.redis.url,
+      keyPrefix: budget.keyPrefix
+    });
+  }
+  return counter;
+}
+
+/**
+ * Replace the request counter (null recreates it from configuration on next use)
+ */
+export function setRequestCounter(newCounter: RequestCounter | null): void {
+  counter = newCounter;
+}
+
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+}
+
+/**
+ * Today's usage against the budget
+ */
+export async function getBudgetStatus(now: Date = new Date()): Promise<BLSBudgetStatus> {
+  const { dailyLimit, reserve } = getBLSConfig().budget;
+  const day = utcDay(now);
+  const used = await getCounter().get(day);
+  const remaining = Math.max(0, dailyLimit - used);
+
+  return {
+    day,
+    limit: dailyLimit,
+    reserve,
+    used,
+    remaining,
+    backgroundAllowed: remaining > reserve,
+    apiKeyConfigured: !!process.env.BLS_API_KEY,
+    resetsAt: nextUtcMidnight(now)
+  };
+}
+
+/**
+ * Count a request against today's budget before it's sent. Throws when the
+ * budget is used up, or when a background request would eat into the reserve.
+ *
+ * The request is counted first and judged by the count that returns, so
+ * concurrent requests (from this or other instances) can't all see the same
+ * last slot free; a refused request is taken back off the count.
+ */
+export async function reserveRequest(priority: BLSRequestPriority): Promise<void> {
+  const { dailyLimit, reserve } = getBLSConfig().budget;
+  const now = new Date();
+  const day = utcDay(now);
+
+  let count: number;
+  try {
+    count = await getCounter().increment(day);
+  } catch (error) {
+    // An unreachable counter shouldn't stop lookups; BLS still enforces its own limit
+    console.error('Failed to count BLS request:', (error as Error).message);
+    return;
+  }
+
+  // Requests left before this one
+  const remaining = dailyLimit - (count - 1);
+  let refusal: string | null = null;
+  if (remaining <= 0) {
+    refusal = `BLS daily request budget of ${dailyLimit} used up until ${nextUtcMidnight(now).toISOString()}`;
+  } else if (priority === 'background' && remaining <= reserve) {
+    refusal = `BLS background request deferred: ${remaining} of ${dailyLimit} daily requests left, kept for user lookups`;
+  }
+  if (!refusal) return;
+
+  try {
+    await getCounter().decrement(day);
+  } catch (error) {
+    console.error('Failed to release BLS request count:', (error as Error).message);
+  }
+  throw new Error(refusal);
+}
@@ -7,6 +7,10 @@
  * API Documentation: https://www.bls.gov/developers/
  */
 
+import { SwrCache, createCacheStore } from '../cache';
+import { getBLSConfig } from '../config/blsConfig';
+import { BLSRequestPriority, reserveRequest } from './blsBudget';
+
 // BLS API response types
 export interface BLSSeriesData {
   year: string;
@@ -19,6 +23,8 @@ export interface BLSSeriesData {
 export interface BLSSeries {
   seriesID: string;
   data: BLSSeriesData[];
+  // When the data was fetched from BLS (set by this client; cached data can be older)
+  fetchedAt?: Date;
 }
 
 export interface BLSApiResponse {
@@ -37,12 +43,16 @@ export interface BLSClientConfig {
   cacheTTL?: number; // in milliseconds
   maxRetries?: number;
   retryDelay?: number; // base delay in milliseconds
+  priority?: BLSRequestPriority; // background requests give way to user lookups when the daily budget runs low
+  waitForRefresh?: boolean; // refresh stale cached series before returning instead of in the background
 }
 
-// Cache entry type
-interface CacheEntry {
-  data: BLSSeries[];
-  timestamp: number;
+// Series fetched and cached together, over one year range and TTL
+export interface BLSSeriesGroup {
+  seriesIds: string[];
+  startYear?: number;
+  endYear?: number;
+  ttlMs: number;
 }
 
 // Default configuration
@@ -53,23 +63,58 @@ const DEFAULT_CONFIG: Required<BLSClientConfig> = {
   cacheTTL: 3600000, // 1 hour
   maxRetries: 3,
   retryDelay: 1000, // 1 second
+  priority: 'user',
+  waitForRefresh: false,
 };
 
-// In-memory cache
-const cache = new Map<string, CacheEntry>();
+// Series by ID and year range, shared through the store selected by BLS_CACHE_STORE
+let seriesCache: SwrCache<BLSSeries> | null = null;
+
+function getSeriesCache(): SwrCache<BLSSeries> {
+  if (!seriesCache) {
+    const { cache } = getBLSConfig();
+    seriesCache = new SwrCache<BLSSeries>(
+      { ttlMs: cache.ttlMs, maxStaleMs: cache.maxStaleMs },
+      createCacheStore({ type: cache.store, dir: cache.dir, redisUrl: cache.redis.url, keyPrefix: cache.redis.keyPrefix })
+    );
+  }
+  return seriesCache;
+}
+
+/**
+ * Replace the response cache (null recreates it from configuration on next use)
+ */
+export function setSeriesCache(cache: SwrCache<BLSSeries> | null): void {
+  seriesCache = cache;
+}
+
+/**
+ * Generate a cache key for a series over a year range
+ */
+function getCacheKey(seriesId: string, startYear?: number, endYear?: number): string {
+  return `${seriesId}_${startYear || 'null'}_${endYear || 'null'}`;
+}
+
+/**
+ * Most series BLS accepts in one request
+ */
+function getMaxSeriesPerRequest(config: Required<BLSClientConfig>): number {
+  // BLS API has a limit of 50 series per request (25 for unauthenticated)
+  return config.apiKey ? 50 : 25;
+}
 
 /**
- * Generate a cache key for a request
+ * Most series BLS accepts in one request with the configured API key (or without one)
  */
-function getCacheKey(seriesIds: string[], startYear?: number, endYear?: number): string {
-  return `${seriesIds.sort().join(',')}_${startYear || 'null'}_${endYear || 'null'}`;
+export function getSeriesPerRequest(config?: Partial<BLSClientConfig>): number {
+  return getMaxSeriesPerRequest(getConfig(config));
 }
 
 /**
- * Check if a cache entry is still valid
+ * Requests needed to fetch this many series (before any retries)
  */
-function isCacheValid(entry: CacheEntry, ttl: number): boolean {
-  return Date.now() - entry.timestamp < ttl;
+export function countRequests(seriesCount: number, config?: Partial<BLSClientConfig>): number {
+  return Math.ceil(seriesCount / getMaxSeriesPerRequest(getConfig(config)));
 }
 
 /**
@@ -87,12 +132,14 @@ function getConfig(overrides?: Partial<BLSClientConfig>): Required<BLSClientConf
     ...DEFAULT_CONFIG,
     apiKey: process.env.BLS_API_KEY || '',
     enableCache: process.env.BLS_CACHE_ENABLED !== 'false',
+    cacheTTL: getBLSConfig().cache.ttlMs,
     ...overrides,
   };
 }
 
 /**
- * Make an HTTP request with retry logic and exponential backoff
+ * Make an HTTP request with retry logic and exponential backoff. Every
+ * attempt counts against the daily request budget.
  */
 async function fetchWithRetry(
   url: string,
@@ -102,6 +149,9 @@ async function fetchWithRetry(
   let lastError: Error | null = null;
 
   for (let attempt = 0; attempt < config.maxRetries; attempt++) {
+    // Throws (without retrying) when the budget won't allow another request
+    await reserveRequest(config.priority);
+
     try {
       const response = await fetch(url, options);
 
@@ -127,7 +177,10 @@ async function fetchWithRetry(
 }
 
 /**
- * Fetch series data from the BLS API
+ * Fetch series data, from the cache when enabled. Each series is cached on
+ * its own, and only the missing or stale ones are requested, in as few
+ * requests as BLS allows. Stale cached data is returned while it's
+ * refreshed in the background (unless waitForRefresh is set).
  */
 async function fetchSeriesData(
   seriesIds: string[],
@@ -136,16 +189,64 @@ async function fetchSeriesData(
   config?: Partial<BLSClientConfig>
 ): Promise<BLSSeries[]> {
   const fullConfig = getConfig(config);
-  const cacheKey = getCacheKey(seriesIds, startYear, endYear);
 
-  // Check cache first
-  if (fullConfig.enableCache) {
-    const cached = cache.get(cacheKey);
-    if (cached && isCacheValid(cached, fullConfig.cacheTTL)) {
-      return cached.data;
-    }
+  if (!fullConfig.enableCache) {
+    const fetchedAt = new Date();
+    const series = await requestInBatches(seriesIds, startYear, endYear, fullConfig);
+    return series.map(s => ({ ...s, fetchedAt }));
+  }
+
+  const idsByKey = new Map(seriesIds.map(id => [getCacheKey(id, startYear, endYear), id]));
+  const cached = await getSeriesCache().getMany(
+    [...idsByKey.keys()],
+    async (keys, background) => {
+      // Refreshes nobody is waiting on give way to user lookups like any background work
+      const series = await requestInBatches(
+        keys.map(key => idsByKey.get(key)!),
+        startYear,
+        endYear,
+        background ? { ...fullConfig, priority: 'background' } : fullConfig
+      );
+      return new Map(series.map(s => [getCacheKey(s.seriesID, startYear, endYear), s]));
+    },
+    fullConfig.cacheTTL,
+    fullConfig.waitForRefresh
+  );
+
+  return [...idsByKey.keys()]
+    .filter(key => cached.has(key))
+    .map(key => ({ ...cached.get(key)!.value, fetchedAt: cached.get(key)!.fetchedAt }));
+}
+
+/**
+ * Request series data, split into requests of at most the series BLS allows in one
+ */
+async function requestInBatches(
+  seriesIds: string[],
+  startYear: number | undefined,
+  endYear: number | undefined,
+  fullConfig: Required<BLSClientConfig>
+): Promise<BLSSeries[]> {
+  const maxSeriesPerRequest = getMaxSeriesPerRequest(fullConfig);
+  const results: BLSSeries[] = [];
+
+  for (let i = 0; i < seriesIds.length; i += maxSeriesPerRequest) {
+    const batch = seriesIds.slice(i, i + maxSeriesPerRequest);
+    results.push(...await requestSeriesData(batch, startYear, endYear, fullConfig));
   }
 
+  return results;
+}
+
+/**
+ * Request series data from the BLS API
+ */
+async function requestSeriesData(
+  seriesIds: string[],
+  startYear: number | undefined,
+  endYear: number | undefined,
+  fullConfig: Required<BLSClientConfig>
+): Promise<BLSSeries[]> {
   // Build request body
   const requestBody: Record<string, unknown> = {
     seriesid: seriesIds,
@@ -186,17 +287,7 @@ async function fetchSeriesData(
     throw new Error(`BLS API error: ${errorMessages}`);
   }
 
-  const series = data.Results?.series || [];
-
-  // Cache the result
-  if (fullConfig.enableCache) {
-    cache.set(cacheKey, {
-      data: series,
-      timestamp: Date.now(),
-    });
-  }
-
-  return series;
+  return data.Results?.series || [];
 }
 
 /**
@@ -241,37 +332,43 @@ export async function getMultipleSeries(
   endYear?: number,
   config?: Partial<BLSClientConfig>
 ): Promise<BLSSeries[]> {
-  // BLS API has a limit of 50 series per request (25 for unauthenticated)
-  const fullConfig = getConfig(config);
-  const maxSeriesPerRequest = fullConfig.apiKey ? 50 : 25;
+  // Series that aren't cached are split into as few requests as BLS allows
+  return fetchSeriesData(seriesIds, startYear, endYear, config);
+}
 
-  if (seriesIds.length <= maxSeriesPerRequest) {
-    return fetchSeriesData(seriesIds, startYear, endYear, config);
-  }
+/**
+ * Get cached series, fresh or stale, without fetching any. Series that
+ * aren't cached, or are too far past cacheTTL to serve, are left out.
+ */
+export async function getCachedSeries(
+  seriesIds: string[],
+  startYear?: number,
+  endYear?: number,
+  config?: Partial<BLSClientConfig>
+): Promise<BLSSeries[]> {
+  const fullConfig = getConfig(config);
+  if (!fullConfig.enableCache) return [];
 
-  // Split into multiple requests if needed
-  const results: BLSSeries[] = [];
-  for (let i = 0; i < seriesIds.length; i += maxSeriesPerRequest) {
-    const batch = seriesIds.slice(i, i + maxSeriesPerRequest);
-    const batchResults = await fetchSeriesData(batch, startYear, endYear, config);
-    results.push(...batchResults);
-  }
+  const keys = seriesIds.map(id => getCacheKey(id, startYear, endYear));
+  const cached = await getSeriesCache().getCached(keys, fullConfig.cacheTTL);
 
-  return results;
+  return keys
+    .filter(key => cached.has(key))
+    .map(key => ({ ...cached.get(key)!.value, fetchedAt: cached.get(key)!.fetchedAt }));
 }
 
 /**
  * Clear the BLS data cache
  */
 export function clearCache(): void {
-  cache.clear();
+  getSeriesCache().clear();
 }
 
 /**
- * Get current cache size
+ * Get the number of cached series held in this process
  */
 export function getCacheSize(): number {
-  return cache.size;
+  return getSeriesCache().size;
 }
 
 /**
@@ -0,0 +1,231 @@
+/**
+ * Career Catalog
+ *
+ * Builds the list of careers offered to students from the normalized O*NET
+ * database written by `npm run ingest:onet` (src/data/onet_normalized.json).
+ * Curated careers are layered on top by O*NET code; if the database file is
+ * missing or unreadable the curated careers are used on their own. Career
+ * overlays uploaded by district admins are applied last.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Career, CareerOverlay, EducationLevel, Sector } from '../types';
+import { NormalizedOccupation, NormalizedOnetDatabase } from './onetService';
+import { CURATED_CAREERS } from '../data/curatedCareers';
+
+const DEFAULT_DATA_PATH = path.resolve(__dirname, '../data/onet_normalized.json');
+
+// Number of O*NET tasks shown as a career's responsibilities
+const MAX_RESPONSIBILITIES = 5;
+
+// Number of top-rated O*NET skills listed on a career
+const MAX_SKILLS = 8;
+
+/**
+ * SOC major groups that belong to each sector. Occupations outside these
+ * groups are only offered when a curated career points at them.
+ */
+const SECTOR_BY_SOC_MAJOR_GROUP: Record<string, Sector> = {
+  '29': 'healthcare',     // Healthcare Practitioners and Technical
+  '31': 'healthcare',     // Healthcare Support
+  '47': 'infrastructure', // Construction and Extraction
+  '49': 'infrastructure', // Installation, Maintenance, and Repair
+};
+
+export interface CareerCatalog {
+  careers: Career[];
+  // 'onet' when built from the normalized database, 'curated' when it fell back
+  source: 'onet' | 'curated';
+  // O*NET occupation details by O*NET-SOC code (empty for the curated fallback)
+  occupations: Map<string, NormalizedOccupation>;
+  generatedAt?: string;
+}
+
+let catalog: CareerCatalog | null = null;
+
+// District overlays, and the catalog with them applied
+let careerOverlays: CareerOverlay[] = [];
+let overlaidCatalog: CareerCatalog | null = null;
+
+/**
+ * Map an O*NET education description onto our education levels
+ */
+export function toEducationLevel(onetEducation: string): EducationLevel | null {
+  const text = onetEducation.toLowerCase();
+  if (!text) return null;
+  if (/bachelor|master|doctor|professional degree|post-baccalaureate|post-master/.test(text)) return 'bachelor';
+  if (/associate/.test(text)) return 'associate';
+  if (/certificate|some college|post-secondary/.test(text)) return 'certificate';
+  if (/high school|less than/.test(text)) return 'high-school';
+  return null;
+}
+
+/**
+ * Sector for an O*NET-SOC code, based on its SOC major group
+ */
+export function sectorForOnetCode(onetCode: string): Sector | null {
+  return SECTOR_BY_SOC_MAJOR_GROUP[onetCode.slice(0, 2)] || null;
+}
+
+/**
+ * Convert an O*NET occupation into a career
+ */
+function occupationToCareer(occupation: NormalizedOccupation, sector: Sector): Career {
+  const wage = occupation.medianWage || 0;
+
+  return {
+    id: occupation.onetCode,
+    title: occupation.title,
+    sector,
+    description: occupation.description,
+    responsibilities: occupation.tasks.slice(0, MAX_RESPONSIBILITIES),
+    requiredEducation: toEducationLevel(occupation.educationLevel) || 'certificate',
+    certifications: [],
+    averageSalary: wage,
+    salaryRange: {
+      min: Math.round(wage * 0.85),
+      max: Math.round(wage * 1.15),
+    },
+    growthOutlook: occupation.jobOutlook || 'Outlook not available',
+    onetCode: occupation.onetCode,
+    skills: occupation.skills.slice(0, MAX_SKILLS).map(s => s.name),
+    hollandCode: occupation.hollandCode || undefined,
+  };
+}
+
+/**
+ * Apply a curated career on top of the O*NET-derived one.
+ * Curated fields win, except that O*NET tasks, skills and Holland code are kept when present.
+ */
+function applyOverlay(fromOnet: Career, curated: Career): Career {
+  return {
+    ...fromOnet,
+    ...curated,
+    responsibilities: fromOnet.responsibilities.length > 0 ? fromOnet.responsibilities : curated.responsibilities,
+    skills: fromOnet.skills && fromOnet.skills.length > 0 ? fromOnet.skills : curated.skills,
+    hollandCode: fromOnet.hollandCode || curated.hollandCode,
+  };
+}
+
+/**
+ * Build the career catalog from a normalized O*NET database
+ */
+export function buildCareerCatalog(
+  database: NormalizedOnetDatabase,
+  curated: Career[] = CURATED_CAREERS
+): CareerCatalog {
+  const curatedByCode = new Map(curated.filter(c => c.onetCode).map(c => [c.onetCode as string, c]));
+  const occupations = new Map<string, NormalizedOccupation>();
+  const careers: Career[] = [];
+
+  for (const occupation of database.occupations) {
+    const overlay = curatedByCode.get(occupation.onetCode);
+    const sector = overlay?.sector || sectorForOnetCode(occupation.onetCode);
+    if (!sector) continue;
+
+    // Skip placeholder occupations ("All Other") that carry no detail
+    if (!overlay && occupation.tasks.length === 0 && occupation.skills.length === 0) continue;
+
+    const career = occupationToCareer(occupation, sector);
+    careers.push(overlay ? applyOverlay(career, overlay) : career);
+    occupations.set(occupation.onetCode, occupation);
+    curatedByCode.delete(occupation.onetCode);
+  }
+
+  // Curated careers the database doesn't know about are still offered
+  careers.push(...curatedByCode.values());
+  careers.push(...curated.filter(c => !c.onetCode));
+
+  careers.sort((a, b) => a.title.localeCompare(b.title));
+
+  return {
+    careers,
+    source: 'onet',
+    occupations,
+    generatedAt: database.metadata?.generatedAt,
+  };
+}
+
+/**
+ * Load the career catalog from disk, falling back to the curated careers
+ */
+export function loadCareerCatalog(dataPath: string = process.env.ONET_DATA_PATH || DEFAULT_DATA_PATH): CareerCatalog {
+  const fallback: CareerCatalog = {
+    careers: CURATED_CAREERS,
+    source: 'curated',
+    occupations: new Map(),
+  };
+
+  if (!fs.existsSync(dataPath)) {
+    return fallback;
+  }
+
+  try {
+    const database = JSON.parse(fs.readFileSync(dataPath, 'utf-8')) as NormalizedOnetDatabase;
+    if (!Array.isArray(database.occupations) || database.occupations.length === 0) {
+      console.warn(`O*NET database at ${dataPath} has no occupations; using curated careers`);
+      return fallback;
+    }
+    return buildCareerCatalog(database);
+  } catch (error) {
+    console.error(`Failed to load O*NET database from ${dataPath}: ${(error as Error).message}`);
+    return fallback;
+  }
+}
+
+/**
+ * Apply district overlays to a catalog. Only the fields an overlay sets
+ * change; overlays for careers not in the catalog are ignored.
+ */
+export function applyCareerOverlays(base: CareerCatalog, overlays: CareerOverlay[]): CareerCatalog {
+  if (overlays.length === 0) return base;
+
+  const overlaysById = new Map(overlays.map(overlay => [overlay.careerId, overlay]));
+  const careers = base.careers.map(career => {
+    const overlay = overlaysById.get(career.id);
+    if (!overlay) return career;
+
+    const { careerId, salaryMin, salaryMax, ...fields } = overlay;
+    return {
+      ...career,
+      ...fields,
+      salaryRange: {
+        min: salaryMin ?? career.salaryRange.min,
+        max: salaryMax ?? career.salaryRange.max,
+      },
+    };
+  });
+
+  return { ...base, careers: careers.sort((a, b) => a.title.localeCompare(b.title)) };
+}
+
+/**
+ * Get the career catalog, loading it on first use
+ */
+export function getCareerCatalog(): CareerCatalog {
+  if (!catalog) {
+    catalog = loadCareerCatalog();
+    console.log(`📋 Loaded ${catalog.careers.length} careers (${catalog.source})`);
+  }
+  if (!overlaidCatalog) {
+    overlaidCatalog = applyCareerOverlays(catalog, careerOverlays);
+  }
+  return overlaidCatalog;
+}
+
+/**
+ * Replace the cached catalog (pass null to reload from disk on next use)
+ */
+export function setCareerCatalog(newCatalog: CareerCatalog | null): void {
+  catalog = newCatalog;
+  overlaidCatalog = null;
+}
+
+/**
+ * Replace the district overlays applied to the catalog
+ */
+export function setCareerOverlays(overlays: CareerOverlay[]): void {
+  careerOverlays = overlays;
+  overlaidCatalog = null;
+}
@@ -1,6 +1,12 @@
-import { getMultipleSeries, BLSSeries } from './blsClient';
+import { getMultipleSeries, getCachedSeries, getSeriesPerRequest, BLSSeries, BLSSeriesGroup } from './blsClient';
+import { getBudgetStatus } from './blsBudget';
 import { getBLSConfig } from '../config/blsConfig';
-import { getBlsMappingForCareer } from '../data/careerBlsMappings';
+import { getBlsMappingForCareer, CAREER_BLS_MAPPINGS } from '../data/careerBlsMappings';
+import { LaborMarketService } from './laborMarketService';
+import { WageService } from './wageService';
+
+// Years of history the economic data endpoints show (and the warmup caches)
+export const ECONOMIC_DATA_YEARS = 5;
 
 export type JobEconomicIndicator = {
   seriesId: string;
@@ -15,6 +21,19 @@ export type JobEconomicIndicator = {
   lastUpdated: string;
 };
 
+export type EconomicDataWarmupReport = {
+  seriesIds: string[];
+  // Fetched during this run
+  refreshed: string[];
+  // Cached recently enough to be left alone
+  fresh: string[];
+  // Couldn't be refreshed; older cached data is still served
+  stale: string[];
+  // No data at all, cached or fetched
+  unavailable: string[];
+  error?: string;
+};
+
 export async function getJobSpecificEconomicData(careerId: string): Promise<JobEconomicIndicator[]> {
   const config = getBLSConfig();
   if (!config.enabled) return [];
@@ -31,7 +50,7 @@ export async function getJobSpecificEconomicData(careerId: string): Promise<JobE
 
   if (wantedSeries.length === 0) return [];
 
-  const seriesList = await getMultipleSeries(wantedSeries, currentYear - 5, currentYear);
+  const seriesList = await getMultipleSeries(wantedSeries, currentYear - ECONOMIC_DATA_YEARS, currentYear);
 
   return seriesList.map((s: BLSSeries) => ({
     seriesId: s.seriesID,
@@ -43,10 +62,154 @@ export async function getJobSpecificEconomicData(careerId: string): Promise<JobE
       value: d.value,
       footnotes: d.footnotes,
     })),
-    lastUpdated: new Date().toISOString(),
+    lastUpdated: (s.fetchedAt || new Date()).toISOString(),
   }));
 }
 
+/**
+ * The series the economic data endpoints can ask for: the configured
+ * indicators and each career's mapped series
+ */
+export function getIndicatorSeriesGroup(): BLSSeriesGroup {
+  const { seriesIds, cache } = getBLSConfig();
+  const ids = [
+    seriesIds.cpi,
+    seriesIds.unemployment,
+    seriesIds.wages,
+    ...CAREER_BLS_MAPPINGS.flatMap(m => Object.values(m.seriesIds)),
+  ].filter(Boolean) as string[];
+  const currentYear = new Date().getFullYear();
+
+  return { seriesIds: [...new Set(ids)], startYear: currentYear - ECONOMIC_DATA_YEARS, endYear: currentYear, ttlMs: cache.ttlMs };
+}
+
+/**
+ * Regional series student lookups read from the cache: LAUS unemployment
+ * rates and OEWS wages for every area in the ZIP crosswalk
+ */
+export function getRegionalSeriesGroups(): BLSSeriesGroup[] {
+  return [LaborMarketService.getSeriesGroup(), WageService.getSeriesGroup()];
+}
+
+/**
+ * Every series the warmup keeps cached
+ */
+export function getReferencedSeriesIds(): string[] {
+  return [...new Set([getIndicatorSeriesGroup(), ...getRegionalSeriesGroups()].flatMap(group => group.seriesIds))];
+}
+
+/**
+ * Fetch every referenced series into the BLS cache at background priority,
+ * so the warmup gives way to user lookups when the daily request budget
+ * runs low. The indicators are fetched in as few requests as possible,
+ * refreshing any that will go stale within refreshAheadMs. Regional series
+ * are fetched once they're missing or stale, missing ones and broader
+ * areas first, in at most maxRegionalRequests requests; the rest wait for
+ * the next run.
+ */
+export async function warmEconomicData(refreshAheadMs = 0, maxRegionalRequests = Infinity): Promise<EconomicDataWarmupReport> {
+  const startedAt = Date.now();
+  const indicators = getIndicatorSeriesGroup();
+  const regional = getBLSConfig().cache.enabled ? getRegionalSeriesGroups() : [];
+  const seriesIds = [...new Set([indicators, ...regional].flatMap(group => group.seriesIds))];
+  const report: EconomicDataWarmupReport = { seriesIds, refreshed: [], fresh: [], stale: [], unavailable: [] };
+
+  // Latest data for each series, and how old it may get before it's refreshed
+  const found = new Map<string, BLSSeries>();
+  const refreshAfterMs = new Map<string, number>();
+
+  const indicatorRefreshAfterMs = Math.max(0, indicators.ttlMs - refreshAheadMs);
+  indicators.seriesIds.forEach(id => refreshAfterMs.set(id, indicatorRefreshAfterMs));
+  try {
+    const seriesList = await getMultipleSeries(indicators.seriesIds, indicators.startYear, indicators.endYear, {
+      priority: 'background',
+      cacheTTL: indicatorRefreshAfterMs,
+      waitForRefresh: true,
+    });
+    seriesList.forEach(s => found.set(s.seriesID, s));
+  } catch (error) {
+    report.error = (error as Error).message;
+  }
+
+  for (const group of regional) {
+    group.seriesIds.forEach(id => refreshAfterMs.set(id, group.ttlMs));
+    const cached = await getCachedSeries(group.seriesIds, group.startYear, group.endYear, { cacheTTL: group.ttlMs });
+    cached.forEach(s => found.set(s.seriesID, s));
+  }
+
+  // A failed indicator request would fail for the regional series too
+  if (!report.error) {
+    try {
+      await warmRegionalSeries(regional, found, startedAt, maxRegionalRequests);
+    } catch (error) {
+      report.error = (error as Error).message;
+    }
+  }
+
+  for (const id of seriesIds) {
+    const s = found.get(id);
+    const fetchedAt = s && (s.fetchedAt || new Date()).getTime();
+    if (fetchedAt === undefined) {
+      report.unavailable.push(id);
+    } else if (fetchedAt >= startedAt) {
+      report.refreshed.push(id);
+    } else if (startedAt - fetchedAt < refreshAfterMs.get(id)!) {
+      report.fresh.push(id);
+    } else {
+      report.stale.push(id);
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Fetch regional series that are missing, then those that are stale, one
+ * request at a time, stopping after maxRequests or once the budget is down
+ * to its reserve. found is updated with what's fetched.
+ */
+async function warmRegionalSeries(
+  groups: BLSSeriesGroup[],
+  found: Map<string, BLSSeries>,
+  startedAt: number,
+  maxRequests: number
+): Promise<void> {
+  const seriesPerRequest = getSeriesPerRequest();
+  const batches: { group: BLSSeriesGroup; seriesIds: string[] }[] = [];
+
+  for (const wantMissing of [true, false]) {
+    for (const group of groups) {
+      const due = group.seriesIds.filter(id => {
+        const fetchedAt = found.get(id)?.fetchedAt;
+        return wantMissing ? !fetchedAt : !!fetchedAt && startedAt - fetchedAt.getTime() >= group.ttlMs;
+      });
+      for (let i = 0; i < due.length; i += seriesPerRequest) {
+        batches.push({ group, seriesIds: due.slice(i, i + seriesPerRequest) });
+      }
+    }
+  }
+
+  for (const { group, seriesIds } of batches.slice(0, maxRequests)) {
+    const budget = await getBudgetStatus();
+    if (!budget.backgroundAllowed) {
+      throw new Error(`BLS background requests deferred: ${budget.remaining} of ${budget.limit} daily requests left, kept for user lookups`);
+    }
+
+    const requestedAt = Date.now();
+    const seriesList = await getMultipleSeries(seriesIds, group.startYear, group.endYear, {
+      priority: 'background',
+      cacheTTL: group.ttlMs,
+      waitForRefresh: true,
+    });
+    seriesList.forEach(s => found.set(s.seriesID, s));
+
+    // Stale series come back unchanged when their refresh fails
+    if (!seriesList.some(s => s.fetchedAt && s.fetchedAt.getTime() >= requestedAt)) {
+      throw new Error(`Refresh of ${seriesIds.length} regional series failed; cached data kept`);
+    }
+  }
+}
+
 function getSeriesFriendlyName(seriesId: string, mapping: { seriesIds: Record<string, string | undefined> }) {
   switch (seriesId) {
     case mapping.seriesIds.cpi: return 'Consumer Price Index (CPI)';
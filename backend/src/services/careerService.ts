@@ -1,312 +1,263 @@
-import { Career, CareerMatch, StudentProfile, DemandLevel, BLSEconomicData } from '../types';
+import { Career, CareerMatch, CareerPathway, StudentProfile, DemandLevel, BLSEconomicData, GeographicRegion, RiasecScores } from '../types';
 import { getSeries, getMultipleSeries, BLS_SERIES, BLSSeries } from './blsClient';
 import { getBLSConfig } from '../config/blsConfig';
+import { ECONOMIC_DATA_YEARS } from './careerEconomicService';
+import { CareerCatalog, getCareerCatalog } from './careerCatalog';
+import { ProgramService } from './programService';
+import { CourseService } from './courseService';
+import { GeographyService } from './geographyService';
+import { LaborMarketService } from './laborMarketService';
+import { WageService } from './wageService';
+import { scoreDemand } from './demandScoring';
+import { scoreCareer, explainMatch, getCareerRatings, getCareerInterests, CareerRatings } from './matchingEngine';
+
+// School courses listed in a pathway's high school stage
+const MAX_PATHWAY_COURSES = 4;
+
+// Profiles whose top careers are remembered per catalog
+const MAX_CACHED_RANKINGS = 500;
+
+// Top matches whose cached OEWS wages are looked up; the rest use the
+// career's national salary range
+const WAGE_LOOKUP_MATCHES = 10;
+
+interface ScoringInput {
+  career: Career;
+  ratings: CareerRatings;
+  interests: RiasecScores;
+}
 
-// BLS economic data cache for careers
-let economicDataCache: {
-  data: BLSEconomicData[];
-  timestamp: number;
-} | null = null;
-
-// Sample career data - in production, this would come from a database
-const CAREERS: Career[] = [
-  {
-    id: 'rn-001',
-    title: 'Registered Nurse',
-    sector: 'healthcare',
-    description: 'Provide and coordinate patient care, educate patients about health conditions.',
-    responsibilities: ['Assess patient health', 'Administer medications', 'Operate medical equipment'],
-    requiredEducation: 'associate',
-    certifications: ['RN License', 'BLS Certification'],
-    averageSalary: 75000,
-    salaryRange: { min: 65000, max: 85000 },
-    growthOutlook: 'Much faster than average (9% growth)',
-    onetCode: '29-1141.00'
-  },
-  {
-    id: 'ma-001',
-    title: 'Medical Assistant',
-    sector: 'healthcare',
-    description: 'Perform administrative and clinical tasks to support doctors.',
-    responsibilities: ['Take vital signs', 'Prepare patients', 'Schedule appointments'],
-    requiredEducation: 'certificate',
-    certifications: ['CMA or RMA Certification'],
-    averageSalary: 37000,
-    salaryRange: { min: 32000, max: 42000 },
-    growthOutlook: 'Much faster than average (16% growth)',
-    onetCode: '31-9092.00'
-  },
-  {
-    id: 'lpn-001',
-    title: 'Licensed Practical Nurse',
-    sector: 'healthcare',
-    description: 'Provide basic nursing care under direction of RNs and doctors.',
-    responsibilities: ['Monitor patient health', 'Change bandages', 'Collect samples'],
-    requiredEducation: 'certificate',
-    certifications: ['LPN License'],
-    averageSalary: 50000,
-    salaryRange: { min: 45000, max: 55000 },
-    growthOutlook: 'Faster than average (6% growth)',
-    onetCode: '29-2061.00'
-  },
-  {
-    id: 'chw-001',
-    title: 'Community Health Worker',
-    sector: 'healthcare',
-    description: 'Assist communities to adopt healthy behaviors and access healthcare.',
-    responsibilities: ['Conduct outreach', 'Provide counseling', 'Connect to resources'],
-    requiredEducation: 'certificate',
-    certifications: ['CHW Certification'],
-    averageSalary: 43000,
-    salaryRange: { min: 38000, max: 48000 },
-    growthOutlook: 'Much faster than average (13% growth)',
-    onetCode: '21-1094.00'
-  },
-  {
-    id: 'emt-001',
-    title: 'Emergency Medical Technician',
-    sector: 'healthcare',
-    description: 'Respond to emergency calls and provide medical care.',
-    responsibilities: ['Assess patient condition', 'Provide emergency care', 'Transport patients'],
-    requiredEducation: 'certificate',
-    certifications: ['EMT Certification', 'CPR/AED'],
-    averageSalary: 38000,
-    salaryRange: { min: 33000, max: 43000 },
-    growthOutlook: 'Faster than average (7% growth)',
-    onetCode: '29-2041.00'
-  },
-  {
-    id: 'elec-001',
-    title: 'Electrician',
-    sector: 'infrastructure',
-    description: 'Install, maintain, and repair electrical systems.',
-    responsibilities: ['Read blueprints', 'Install systems', 'Inspect components'],
-    requiredEducation: 'certificate',
-    certifications: ['Electrician License', 'OSHA Safety'],
-    averageSalary: 60000,
-    salaryRange: { min: 50000, max: 70000 },
-    growthOutlook: 'Faster than average (8% growth)',
-    onetCode: '47-2111.00'
-  },
-  {
-    id: 'plumb-001',
-    title: 'Plumber',
-    sector: 'infrastructure',
-    description: 'Install and repair pipes for water, gas, and waste systems.',
-    responsibilities: ['Install pipe systems', 'Repair plumbing', 'Read blueprints'],
-    requiredEducation: 'certificate',
-    certifications: ['Plumbing License'],
-    averageSalary: 58000,
-    salaryRange: { min: 48000, max: 68000 },
-    growthOutlook: 'Faster than average (5% growth)',
-    onetCode: '47-2152.00'
-  },
-  {
-    id: 'hvac-001',
-    title: 'HVAC Technician',
-    sector: 'infrastructure',
-    description: 'Install and maintain heating, ventilation, and air conditioning systems.',
-    responsibilities: ['Install HVAC systems', 'Perform maintenance', 'Test performance'],
-    requiredEducation: 'certificate',
-    certifications: ['EPA Certification', 'HVAC License'],
-    averageSalary: 52000,
-    salaryRange: { min: 45000, max: 59000 },
-    growthOutlook: 'Faster than average (5% growth)',
-    onetCode: '49-9021.00'
-  },
-  {
-    id: 'const-001',
-    title: 'Construction Worker',
-    sector: 'infrastructure',
-    description: 'Perform physical labor at construction sites.',
-    responsibilities: ['Operate equipment', 'Load materials', 'Follow safety protocols'],
-    requiredEducation: 'high-school',
-    certifications: ['OSHA 10 or 30'],
-    averageSalary: 40000,
-    salaryRange: { min: 35000, max: 45000 },
-    growthOutlook: 'Average (4% growth)',
-    onetCode: '47-2061.00'
-  },
-  {
-    id: 'weld-001',
-    title: 'Welder',
-    sector: 'infrastructure',
-    description: 'Join metal parts using heat and pressure.',
-    responsibilities: ['Read blueprints', 'Set up equipment', 'Weld components'],
-    requiredEducation: 'certificate',
-    certifications: ['AWS Welding Certification'],
-    averageSalary: 47000,
-    salaryRange: { min: 40000, max: 54000 },
-    growthOutlook: 'Slower than average (2% growth)',
-    onetCode: '51-4121.00'
+// Career ratings and top-career rankings, worked out once per catalog
+const scoringCache = new WeakMap<CareerCatalog, { inputs: ScoringInput[]; rankings: Map<string, string[]> }>();
+
+function getScoringCache(catalog: CareerCatalog) {
+  let cached = scoringCache.get(catalog);
+  if (!cached) {
+    const inputs = catalog.careers.map(career => {
+      const occupation = career.onetCode ? catalog.occupations.get(career.onetCode) : undefined;
+      return { career, ratings: getCareerRatings(career, occupation), interests: getCareerInterests(career, occupation) };
+    });
+    cached = { inputs, rankings: new Map() };
+    scoringCache.set(catalog, cached);
   }
-];
+  return cached;
+}
 
 export class CareerService {
   /**
    * Get all careers
    */
   static getAllCareers(): Career[] {
-    return CAREERS;
+    return getCareerCatalog().careers;
   }
 
   /**
    * Get career by ID
    */
   static getCareerById(id: string): Career | null {
-    return CAREERS.find(c => c.id === id) || null;
+    return getCareerCatalog().careers.find(c => c.id === id) || null;
+  }
+
+  /**
+   * Get career by O*NET-SOC code.
+   * Accepts the full code ("29-1141.00") or the bare SOC code ("29-1141").
+   */
+  static getCareerByCode(code: string): Career | null {
+    const normalized = this.normalizeOnetCode(code);
+    if (!normalized) return null;
+    return getCareerCatalog().careers.find(c => c.onetCode === normalized) || null;
+  }
+
+  /**
+   * Normalize an O*NET-SOC code to the "XX-XXXX.XX" form, or null if it isn't one
+   */
+  private static normalizeOnetCode(code: string): string | null {
+    const match = code.trim().match(/^(\d{2}-\d{4})(\.\d{2})?$/);
+    if (!match) return null;
+    return `${match[1]}${match[2] || '.00'}`;
+  }
+
+  /**
+   * Get the stages from high school to working in a career.
+   * Training providers come from the program catalog, nearest first when a ZIP is given;
+   * with a school, high school preparation lists the school's courses the student can still take.
+   */
+  static getCareerPathway(career: Career, zipCode?: string, schoolId?: string, grade?: number): CareerPathway {
+    const programs = ProgramService.getProgramsForCareer(career.id, zipCode);
+    const school = schoolId ? CourseService.getSchool(schoolId) : null;
+    const courses = schoolId
+      ? CourseService.getCoursesForCareer(schoolId, career.id, { fromGrade: grade }).slice(0, MAX_PATHWAY_COURSES)
+      : [];
+
+    return {
+      id: `${career.id}-pathway`,
+      careerId: career.id,
+      stages: [
+        {
+          order: 1,
+          title: 'High School Preparation',
+          description: courses.length > 0
+            ? 'Take these courses and explore the field'
+            : 'Take relevant courses and explore the field',
+          duration: '1-4 years',
+          requirements: [
+            'Complete high school',
+            ...(courses.length > 0 ? courses.map(CourseService.formatCourse) : ['Take science/math courses']),
+            'Volunteer or shadow professionals'
+          ],
+          providers: [school?.name || 'Your local high school'],
+          courseCodes: courses.length > 0 ? courses.map(c => c.code) : undefined,
+          cost: 0
+        },
+        {
+          order: 2,
+          title: 'Training & Education',
+          description: `Complete ${career.requiredEducation} program`,
+          duration: career.requiredEducation === 'certificate' ? '6-18 months' : '2-4 years',
+          requirements: career.certifications,
+          providers: programs.length > 0
+            ? programs.map(p => `${p.name}, ${p.provider} (${p.location.city}, ${p.location.state})`)
+            : ['Community colleges', 'Vocational schools', 'Apprenticeship programs'],
+          programIds: programs.length > 0 ? programs.map(p => p.id) : undefined,
+          cost: career.requiredEducation === 'certificate' ? 5000 : 15000
+        },
+        {
+          order: 3,
+          title: 'Entry-Level Position',
+          description: `Start working as ${career.title}`,
+          duration: '1-3 years',
+          requirements: ['Complete training', 'Obtain certifications', 'Pass background checks'],
+          providers: ['Local employers'],
+          cost: 0
+        },
+        {
+          order: 4,
+          title: 'Career Growth',
+          description: 'Advance to senior positions or specializations',
+          duration: 'Ongoing',
+          requirements: ['Continuing education', 'Additional certifications', 'Experience'],
+          providers: ['Professional organizations', 'Employers'],
+          cost: 2000
+        }
+      ],
+      totalDuration: career.requiredEducation === 'certificate' ? '2-6 years' : '4-8 years',
+      estimatedCost: career.requiredEducation === 'certificate' ? 5000 : 17000
+    };
   }
 
   /**
-   * Get career matches for a student profile
+   * Get career matches for a student profile. Demand levels use the
+   * region's latest cached LAUS unemployment rate, and local salaries use
+   * OEWS wages for the region where available.
    */
-  static getCareerMatches(profile: Partial<StudentProfile>, zipCode: string): CareerMatch[] {
+  static async getCareerMatches(profile: Partial<StudentProfile>, zipCode: string): Promise<CareerMatch[]> {
     const matches: CareerMatch[] = [];
 
-    for (const career of CAREERS) {
-      const matchScore = this.calculateMatchScore(profile, career);
-      const reasoningFactors = this.generateReasoningFactors(profile, career, matchScore);
-      const localDemand = this.estimateLocalDemand(career, zipCode);
+    const region = GeographyService.resolveZip(zipCode);
+    const unemployment = region ? await LaborMarketService.getUnemployment(region) : null;
+
+    for (const { career, ratings, interests } of getScoringCache(getCareerCatalog()).inputs) {
+      const result = scoreCareer(profile, career, ratings, interests);
+      const demand = scoreDemand(career, unemployment);
 
       matches.push({
         careerId: career.id,
         career,
-        matchScore,
-        reasoningFactors,
-        localDemand,
+        matchScore: result.matchScore,
+        reasoningFactors: explainMatch(career, result),
+        scoreBreakdown: result.breakdown,
+        localDemand: demand.level,
+        demandBasis: demand.basis,
         localSalary: {
           min: career.salaryRange.min,
           max: career.salaryRange.max,
-          location: zipCode
+          location: region?.label || zipCode,
+          source: 'national'
         },
-        localEmployers: this.getLocalEmployers(career, zipCode)
+        localEmployers: this.getLocalEmployers(career, region)
       });
     }
 
     // Sort by match score descending
-    return matches.sort((a, b) => b.matchScore - a.matchScore);
-  }
-
-  /**
-   * Calculate match score between profile and career
-   */
-  private static calculateMatchScore(profile: Partial<StudentProfile>, career: Career): number {
-    let score = 0;
-    let maxScore = 0;
-
-    // Interest alignment (40 points)
-    maxScore += 40;
-    if (profile.interests) {
-      const interestMatches = profile.interests.filter(interest => {
-        const interestLower = interest.toLowerCase();
-        const careerText = `${career.title} ${career.description}`.toLowerCase();
-        return careerText.includes(interestLower) || 
-               (interest === 'Healthcare' && career.sector === 'healthcare') ||
-               (interest === 'Infrastructure' && career.sector === 'infrastructure') ||
-               (interest === 'Helping Others' && career.sector === 'healthcare') ||
-               (interest === 'Hands-on Work' && career.sector === 'infrastructure');
-      });
-      score += (interestMatches.length / Math.max(1, profile.interests.length)) * 40;
-    }
-
-    // Skill alignment (30 points)
-    maxScore += 30;
-    if (profile.skills) {
-      const skillMatches = profile.skills.filter(skill => {
-        const skillLower = skill.toLowerCase();
-        return career.responsibilities.some(resp => resp.toLowerCase().includes(skillLower));
-      });
-      score += (skillMatches.length / Math.max(1, profile.skills.length)) * 30;
-    }
-
-    // Education alignment (20 points)
-    maxScore += 20;
-    if (profile.educationGoal) {
-      const educationMatch = this.matchEducationLevel(profile.educationGoal, career.requiredEducation);
-      score += educationMatch * 20;
-    }
-
-    // Work environment alignment (10 points)
-    maxScore += 10;
-    if (profile.workEnvironment) {
-      if (career.sector === 'healthcare' && profile.workEnvironment === 'indoor') score += 10;
-      else if (career.sector === 'infrastructure' && profile.workEnvironment === 'outdoor') score += 10;
-      else if (profile.workEnvironment === 'mixed') score += 7;
-      else score += 5;
+    matches.sort((a, b) => b.matchScore - a.matchScore);
+
+    const wagesByCareer = await WageService.getWages(matches.slice(0, WAGE_LOOKUP_MATCHES).map(m => m.career), region);
+    for (const match of matches) {
+      const wages = wagesByCareer.get(match.careerId);
+      if (wages) {
+        match.localSalary = {
+          ...WageService.salaryRange(wages),
+          median: wages.median,
+          location: wages.area,
+          source: 'oews',
+          year: wages.year
+        };
+      }
     }
 
-    return Math.round((score / maxScore) * 100);
-  }
-
-  /**
-   * Match education levels
-   */
-  private static matchEducationLevel(studentGoal: string, careerRequired: string): number {
-    const levels = { 'high-school': 1, 'certificate': 2, 'associate': 3, 'bachelor': 4 };
-    const studentLevel = levels[studentGoal as keyof typeof levels] || 2;
-    const careerLevel = levels[careerRequired as keyof typeof levels] || 2;
-
-    if (studentLevel >= careerLevel) return 1.0;
-    if (studentLevel === careerLevel - 1) return 0.7;
-    return 0.4;
+    return matches;
   }
 
   /**
-   * Generate reasoning factors for the match
+   * IDs of the best-matching careers for a profile, by match score alone.
+   * Rankings are remembered per profile, so asking again after each new
+   * answer only scores the catalog for profiles not seen before.
    */
-  private static generateReasoningFactors(profile: Partial<StudentProfile>, career: Career, score: number): string[] {
-    const factors: string[] = [];
-
-    if (profile.interests) {
-      const matchingInterests = profile.interests.filter(i => 
-        i === 'Healthcare' && career.sector === 'healthcare' ||
-        i === 'Infrastructure' && career.sector === 'infrastructure' ||
-        i === 'Helping Others' && career.sector === 'healthcare'
-      );
-      if (matchingInterests.length > 0) {
-        factors.push(`Strong interest alignment: ${matchingInterests.join(', ')}`);
-      }
+  static getTopCareerIds(profile: Partial<StudentProfile>, count: number): string[] {
+    const { inputs, rankings } = getScoringCache(getCareerCatalog());
+    // Only the fields scoring reads, so timestamps don't defeat the cache
+    const { interests, skills, traitWeights, riasecScores, educationGoal, workEnvironment } = profile;
+    const key = `${count}:${JSON.stringify([interests, skills, traitWeights, riasecScores, educationGoal, workEnvironment])}`;
+    const cached = rankings.get(key);
+    if (cached) return cached;
+
+    const ranked = inputs
+      .map(({ career, ratings, interests }) => ({
+        id: career.id,
+        score: scoreCareer(profile, career, ratings, interests).matchScore
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, count)
+      .map(m => m.id);
+
+    // Forget the oldest ranking once the cache is full
+    if (rankings.size >= MAX_CACHED_RANKINGS) {
+      rankings.delete(rankings.keys().next().value!);
     }
-
-    if (profile.skills && profile.skills.length > 0) {
-      factors.push(`Your skills match this career's requirements`);
-    }
-
-    if (score > 80) {
-      factors.push('Excellent overall match for your profile');
-    } else if (score > 60) {
-      factors.push('Good match with room to develop additional skills');
-    }
-
-    factors.push(`${career.growthOutlook}`);
-
-    return factors;
+    rankings.set(key, ranked);
+    return ranked;
   }
 
   /**
-   * Estimate local demand (simplified - would use real data in production)
+   * Estimate local demand from projected growth and openings and the
+   * ZIP's cached LAUS unemployment rate
    */
-  private static estimateLocalDemand(career: Career, zipCode: string): DemandLevel {
-    // Healthcare generally has high demand in rural areas
-    if (career.sector === 'healthcare') return 'high';
-    // Infrastructure varies
-    if (career.sector === 'infrastructure') return 'medium';
-    return 'medium';
+  static async estimateLocalDemand(career: Career, zipCode: string): Promise<DemandLevel> {
+    const region = GeographyService.resolveZip(zipCode);
+    return scoreDemand(career, region ? await LaborMarketService.getUnemployment(region) : null).level;
   }
 
   /**
-   * Get local employers (simplified - would use real data in production)
+   * Get local employers (simplified - would use real data in production),
+   * naming the county when the ZIP resolves to one
    */
-  private static getLocalEmployers(career: Career, zipCode: string): string[] {
+  private static getLocalEmployers(career: Career, region: GeographicRegion | null): string[] {
+    const area = region?.county?.name || region?.stateName;
     if (career.sector === 'healthcare') {
-      return ['Local Hospital', 'Community Health Center', 'Private Practices'];
+      return area
+        ? [`Hospitals in ${area}`, `Community Health Centers in ${area}`, 'Private Practices']
+        : ['Local Hospital', 'Community Health Center', 'Private Practices'];
     }
-    return ['Local Construction Companies', 'Utility Companies', 'Contractors'];
+    return area
+      ? [`Construction Companies in ${area}`, 'Utility Companies', 'Contractors']
+      : ['Local Construction Companies', 'Utility Companies', 'Contractors'];
   }
 
   /**
    * Fetch economic data from BLS API
-   * Returns CPI, unemployment, and wage data for use in career recommendations
+   * Returns CPI, unemployment, and wage data for use in career recommendations.
+   * Responses come through the BLS client's cache, so lastUpdated is when
+   * each series was fetched.
    */
   static async getEconomicData(): Promise<BLSEconomicData[]> {
     const config = getBLSConfig();
@@ -315,12 +266,6 @@ export class CareerService {
       return [];
     }
 
-    // Check cache first
-    if (economicDataCache && 
-        Date.now() - economicDataCache.timestamp < config.cache.ttlMs) {
-      return economicDataCache.data;
-    }
-
     try {
       const currentYear = new Date().getFullYear();
       const seriesIds = [
@@ -329,9 +274,9 @@ export class CareerService {
         config.seriesIds.wages,
       ];
 
-      const series = await getMultipleSeries(seriesIds, currentYear - 5, currentYear);
+      const series = await getMultipleSeries(seriesIds, currentYear - ECONOMIC_DATA_YEARS, currentYear);
       
-      const result: BLSEconomicData[] = series.map((s: BLSSeries) => ({
+      return series.map((s: BLSSeries) => ({
         seriesId: s.seriesID,
         name: this.getSeriesName(s.seriesID, config),
         data: s.data.map(d => ({
@@ -341,19 +286,11 @@ export class CareerService {
           value: d.value,
           footnotes: d.footnotes,
         })),
-        lastUpdated: new Date(),
+        lastUpdated: s.fetchedAt || new Date(),
       }));
-
-      // Cache the result
-      economicDataCache = {
-        data: result,
-        timestamp: Date.now(),
-      };
-
-      return result;
     } catch (error) {
       console.error('Failed to fetch BLS economic data:', (error as Error).message);
-      return economicDataCache?.data || [];
+      return [];
     }
   }
 
@@ -409,7 +346,7 @@ export class CareerService {
     economicData: BLSEconomicData[];
   }> {
     const [matches, economicData] = await Promise.all([
-      Promise.resolve(this.getCareerMatches(profile, zipCode)),
+      this.getCareerMatches(profile, zipCode),
       this.getEconomicData(),
     ]);
 
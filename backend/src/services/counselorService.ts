@@ -0,0 +1,153 @@
+import { randomUUID } from 'crypto';
+import { AggregateTrends, CounselorNote, Student, StudentProfile, StudentProgress } from '../types';
+import { UserRepository } from '../repositories/userRepository';
+import { StoredProfile, StudentRecordRepository, TargetCareer } from '../repositories/studentRecordRepository';
+import { CareerService } from './careerService';
+
+// How many interests and careers the trends report lists
+const TOP_TRENDS = 10;
+
+function countBy(values: string[]): { value: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+function toProgress(student: Student, stored: StoredProfile | undefined, targets: TargetCareer[]): StudentProgress {
+  const activity = [student.updatedAt, stored?.updatedAt, ...targets.map(t => t.createdAt)]
+    .filter((date): date is Date => !!date);
+
+  return {
+    studentId: student.id,
+    student,
+    profileStatus: stored?.status ?? 'not-started',
+    hasSelectedCareer: targets.length > 0,
+    lastActivity: new Date(Math.max(...activity.map(date => date.getTime()))),
+    targetCareers: targets.map(t => t.careerId),
+  };
+}
+
+/**
+ * Counselor dashboard: student progress, notes and school-wide trends.
+ * Every method is scoped to a school; a missing schoolId (district admins)
+ * means every school.
+ */
+export class CounselorService {
+  /**
+   * List students with their assessment status and target careers
+   */
+  static async listStudents(schoolId?: string): Promise<StudentProgress[]> {
+    const [students, profiles, targets] = await Promise.all([
+      UserRepository.listStudents(schoolId),
+      StudentRecordRepository.listProfiles(schoolId),
+      StudentRecordRepository.listTargetCareers(schoolId),
+    ]);
+
+    const profileByStudent = new Map(profiles.map(p => [p.userId, p]));
+    return students.map(student =>
+      toProgress(student, profileByStudent.get(student.id), targets.filter(t => t.userId === student.id))
+    );
+  }
+
+  /**
+   * Find a student at the given school
+   */
+  static async findStudent(studentId: string, schoolId?: string): Promise<Student | null> {
+    const account = await UserRepository.findById(studentId);
+    if (!account || account.role !== 'student') return null;
+    if (schoolId && account.schoolId !== schoolId) return null;
+    return account;
+  }
+
+  /**
+   * Get one student's progress, saved profile and notes.
+   * Returns null if the student isn't at the given school.
+   */
+  static async getStudent(studentId: string, schoolId?: string): Promise<{
+    progress: StudentProgress;
+    profile: Partial<StudentProfile> | null;
+    notes: CounselorNote[];
+  } | null> {
+    const student = await this.findStudent(studentId, schoolId);
+    if (!student) return null;
+
+    const [stored, targets, notes] = await Promise.all([
+      StudentRecordRepository.findProfile(studentId),
+      StudentRecordRepository.listTargetCareers(student.schoolId),
+      StudentRecordRepository.listNotes(studentId),
+    ]);
+
+    return {
+      progress: toProgress(student, stored ?? undefined, targets.filter(t => t.userId === studentId)),
+      profile: stored?.profile ?? null,
+      notes,
+    };
+  }
+
+  /**
+   * List notes about a student, newest first.
+   * Returns null if the student isn't at the given school.
+   */
+  static async getNotes(studentId: string, schoolId?: string): Promise<CounselorNote[] | null> {
+    const student = await this.findStudent(studentId, schoolId);
+    return student ? StudentRecordRepository.listNotes(studentId) : null;
+  }
+
+  /**
+   * Add a note about a student.
+   * Returns null if the student isn't at the given school.
+   */
+  static async addNote(
+    counselorId: string,
+    studentId: string,
+    note: string,
+    schoolId?: string
+  ): Promise<CounselorNote | null> {
+    const student = await this.findStudent(studentId, schoolId);
+    if (!student) return null;
+
+    const created: CounselorNote = {
+      id: randomUUID(),
+      counselorId,
+      studentId,
+      note,
+      createdAt: new Date(),
+    };
+    await StudentRecordRepository.createNote(created);
+    return created;
+  }
+
+  /**
+   * Interests, target careers and sectors across a school's students
+   */
+  static async getAggregateTrends(schoolId?: string): Promise<AggregateTrends> {
+    const [students, profiles, targets] = await Promise.all([
+      UserRepository.listStudents(schoolId),
+      StudentRecordRepository.listProfiles(schoolId),
+      StudentRecordRepository.listTargetCareers(schoolId),
+    ]);
+
+    const completed = profiles.filter(p => p.status === 'complete');
+    const interests = completed.flatMap(p => p.profile?.interests || []);
+    const careers = targets
+      .map(t => CareerService.getCareerById(t.careerId))
+      .filter((career): career is NonNullable<typeof career> => !!career);
+
+    const sectorDistribution = { healthcare: 0, infrastructure: 0 };
+    for (const career of careers) {
+      sectorDistribution[career.sector]++;
+    }
+
+    return {
+      totalStudents: students.length,
+      completedAssessments: completed.length,
+      topInterests: countBy(interests).slice(0, TOP_TRENDS).map(({ value, count }) => ({ interest: value, count })),
+      topCareers: countBy(careers.map(c => c.title)).slice(0, TOP_TRENDS).map(({ value, count }) => ({ career: value, count })),
+      sectorDistribution,
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import { Course, School } from '../types';
+import { SCHOOLS, SCHOOL_COURSES } from '../data/schoolCourses';
+
+// Courses uploaded by district admins; they replace bundled courses with the same school and code
+let uploadedCourses: Course[] = [];
+
+export interface CourseFilters {
+  // Only courses offered in this grade
+  grade?: number;
+  // Only courses offered in this grade or later (the ones a student can still take)
+  fromGrade?: number;
+}
+
+// Grades school course catalogs cover
+export const MIN_COURSE_GRADE = 6;
+export const MAX_COURSE_GRADE = 12;
+
+const courseKey = (course: Course) => `${course.schoolId}:${course.code}`;
+
+/**
+ * School course catalogs, and which courses prepare students for a career
+ */
+export class CourseService {
+  /**
+   * Replace the uploaded courses served alongside the bundled ones
+   */
+  static setUploadedCourses(courses: Course[]): void {
+    uploadedCourses = courses;
+  }
+
+  /**
+   * Parse a grade query parameter. Returns null when it isn't a grade
+   * school course catalogs cover.
+   */
+  static parseGrade(value: unknown): number | null {
+    const grade = typeof value === 'string' ? Number(value) : NaN;
+    return Number.isInteger(grade) && grade >= MIN_COURSE_GRADE && grade <= MAX_COURSE_GRADE ? grade : null;
+  }
+
+  /**
+   * Get a school by ID
+   */
+  static getSchool(schoolId: string): School | null {
+    return SCHOOLS.find(school => school.id === schoolId) || null;
+  }
+
+  /**
+   * Get a school's course catalog, by code
+   */
+  static getCourses(schoolId: string): Course[] {
+    const uploadedKeys = new Set(uploadedCourses.map(courseKey));
+    return [...SCHOOL_COURSES.filter(course => !uploadedKeys.has(courseKey(course))), ...uploadedCourses]
+      .filter(course => course.schoolId === schoolId)
+      .sort((a, b) => a.code.localeCompare(b.code));
+  }
+
+  /**
+   * A school's courses related to a career: CTE courses first, then by
+   * the earliest grade they're offered in
+   */
+  static getCoursesForCareer(schoolId: string, careerId: string, filters: CourseFilters = {}): Course[] {
+    const { grade, fromGrade } = filters;
+
+    return this.getCourses(schoolId)
+      .filter(course =>
+        course.relatedCareers.includes(careerId)
+        && (grade === undefined || course.gradeLevels.includes(grade))
+        && (fromGrade === undefined || course.gradeLevels.some(level => level >= fromGrade)))
+      .sort((a, b) =>
+        Number(b.isCTE) - Number(a.isCTE)
+        || Math.min(...a.gradeLevels) - Math.min(...b.gradeLevels)
+        || a.code.localeCompare(b.code));
+  }
+
+  /**
+   * Course code and name, marking career-technical courses
+   */
+  static formatCourse(course: Course): string {
+    return `${course.code} ${course.name}${course.isCTE ? ' (CTE)' : ''}`;
+  }
+}
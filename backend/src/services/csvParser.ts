@@ -0,0 +1,111 @@
+/**
+ * CSV Parser
+ *
+ * Reads the CSV files admins upload (RFC 4180: comma-separated, fields
+ * optionally wrapped in double quotes, "" for a literal quote, quoted
+ * fields may span lines). The first row is the header.
+ */
+
+export interface CsvRow {
+  // Line the row starts on in the file, counting the header as line 1
+  line: number;
+  // Cell values by header name, trimmed
+  values: Record<string, string>;
+  // Set when the row has more cells than there are headers
+  error?: string;
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: CsvRow[];
+}
+
+/**
+ * Split CSV text into records of raw fields, with the line each record starts on
+ */
+function parseRecords(text: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    // Blank lines, and rows of empty cells left behind by spreadsheets, are skipped
+    if (fields.some(value => value.trim() !== '')) {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+      quoteLine = line;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field starting on line ${quoteLine}`);
+  }
+  endRecord();
+
+  return records;
+}
+
+/**
+ * Parse CSV text into rows keyed by the header row. Throws when the file
+ * is empty, a header is blank or repeated, or a quote is never closed.
+ */
+export function parseCsv(text: string): CsvTable {
+  const [header, ...records] = parseRecords(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new Error('File is empty');
+  }
+
+  const headers = header.fields.map(name => name.trim());
+  const blank = headers.findIndex(name => !name);
+  if (blank !== -1) {
+    throw new Error(`Header in column ${blank + 1} is blank`);
+  }
+  const repeated = headers.find((name, index) => headers.indexOf(name) !== index);
+  if (repeated) {
+    throw new Error(`Header "${repeated}" appears more than once`);
+  }
+
+  const rows = records.map((record): CsvRow => ({
+    line: record.line,
+    values: Object.fromEntries(headers.map((name, index) => [name, (record.fields[index] ?? '').trim()])),
+    error: record.fields.length > headers.length
+      ? `has ${record.fields.length} cells but the header has ${headers.length}`
+      : undefined,
+  }));
+
+  return { headers, rows };
+}
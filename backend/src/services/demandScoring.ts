@@ -0,0 +1,101 @@
+/**
+ * Demand Scoring
+ *
+ * Rates a career's local demand from its projected growth, its projected
+ * openings per 100 jobs and the local unemployment rate. Each input scores
+ * +1, 0 or -1 against the thresholds in config/demandConfig.ts, and the
+ * total sets the level.
+ */
+
+import { Career, DemandBasis, DemandInput, DemandLevel } from '../types';
+import { DemandConfig, getDemandConfig } from '../config/demandConfig';
+import { getProjectionForOnetCode, PROJECTIONS_PERIOD } from '../data/occupationProjections';
+import { UnemploymentReading } from './laborMarketService';
+
+export interface DemandEstimate {
+  level: DemandLevel;
+  basis: DemandBasis;
+}
+
+const PROJECTIONS_SOURCE = `BLS Employment Projections ${PROJECTIONS_PERIOD}`;
+
+/**
+ * +1 at or above the high threshold, -1 at or below the low one
+ */
+function thresholdPoints(value: number, high: number, low: number): number {
+  if (value >= high) return 1;
+  if (value <= low) return -1;
+  return 0;
+}
+
+/**
+ * Percent growth from an outlook like 'Much faster than average (9% growth)'
+ */
+export function parseGrowthPercent(growthOutlook: string): number | null {
+  const match = /(-?\d+(?:\.\d+)?)%/.exec(growthOutlook);
+  return match ? parseFloat(match[1]) : null;
+}
+
+/**
+ * The inputs available for a career: growth from its outlook (else its
+ * occupation's projection), openings from its occupation's projection, and
+ * the local unemployment rate when one is known
+ */
+export function getDemandInputs(
+  career: Career,
+  unemployment: UnemploymentReading | null,
+  config: DemandConfig = getDemandConfig()
+): DemandInput[] {
+  const inputs: DemandInput[] = [];
+  const projection = career.onetCode ? getProjectionForOnetCode(career.onetCode) : null;
+
+  const outlookGrowth = parseGrowthPercent(career.growthOutlook);
+  const growth = outlookGrowth ?? projection?.growthPercent;
+  if (growth !== undefined) {
+    inputs.push({
+      factor: 'growth',
+      value: growth,
+      points: thresholdPoints(growth, config.growth.highPercent, config.growth.lowPercent),
+      source: outlookGrowth !== null ? 'Career outlook' : PROJECTIONS_SOURCE
+    });
+  }
+
+  if (projection && projection.employment > 0) {
+    const openings = Math.round((projection.annualOpenings / projection.employment) * 1000) / 10;
+    inputs.push({
+      factor: 'openings',
+      value: openings,
+      points: thresholdPoints(openings, config.openings.highPer100Jobs, config.openings.lowPer100Jobs),
+      source: PROJECTIONS_SOURCE
+    });
+  }
+
+  if (unemployment) {
+    inputs.push({
+      factor: 'unemployment',
+      value: unemployment.rate,
+      // Low unemployment means employers compete for workers
+      points: unemployment.rate <= config.unemployment.tightPercent ? 1
+        : unemployment.rate >= config.unemployment.slackPercent ? -1
+        : 0,
+      source: `LAUS ${unemployment.area}, ${unemployment.period}`
+    });
+  }
+
+  return inputs;
+}
+
+/**
+ * Rate a career's demand where the unemployment rate was measured
+ */
+export function scoreDemand(
+  career: Career,
+  unemployment: UnemploymentReading | null,
+  config: DemandConfig = getDemandConfig()
+): DemandEstimate {
+  const inputs = getDemandInputs(career, unemployment, config);
+  const score = inputs.reduce((sum, input) => sum + input.points, 0);
+  const level: DemandLevel = score >= config.highScore ? 'high' : score <= config.lowScore ? 'low' : 'medium';
+
+  return { level, basis: { score, inputs } };
+}
@@ -0,0 +1,208 @@
+import { randomUUID } from 'crypto';
+import { Career, Counselor, EmailLogEntry, EmailTemplate, Student, TrainingProgram } from '../types';
+import { EMAIL_TEMPLATES } from '../data/emailTemplates';
+import { PARENT_SUMMARY_TEXT } from '../data/parentSummaryText';
+import { getEmailConfig } from '../config/emailConfig';
+import { createEmailTransport, EmailTransport } from '../email';
+import { EmailLogRepository } from '../repositories/emailLogRepository';
+import { UserRepository } from '../repositories/userRepository';
+
+export type EmailTemplateType = EmailTemplate['type'];
+
+// Sent in place of a student's own words when they don't add any
+const DEFAULT_OUTREACH_MESSAGE = "I'd like to set up a time to talk about this career.";
+const DEFAULT_INQUIRY_MESSAGE = "I'd appreciate any information you can share.";
+
+const money = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+let transport: EmailTransport | null = null;
+
+function getTransport(): EmailTransport {
+  if (!transport) {
+    transport = createEmailTransport();
+  }
+  return transport;
+}
+
+/**
+ * Templated email with a log of every send attempt
+ */
+export class EmailService {
+  /**
+   * Replace the mail transport (used by tests)
+   */
+  static setTransport(newTransport: EmailTransport | null): void {
+    transport = newTransport;
+  }
+
+  /**
+   * Get the built-in template for a type
+   */
+  static getTemplate(type: EmailTemplateType): EmailTemplate {
+    const template = EMAIL_TEMPLATES.find(t => t.type === type);
+    if (!template) {
+      throw new Error(`No email template for ${type}`);
+    }
+    return template;
+  }
+
+  /**
+   * Turn student, counselor, career and program data into template variables
+   */
+  static buildVariables(context: {
+    student?: Pick<Student, 'firstName' | 'lastName' | 'email'>;
+    counselor?: Pick<Counselor, 'firstName' | 'lastName'>;
+    career?: Career;
+    program?: TrainingProgram;
+    message?: string;
+  }): Record<string, string> {
+    const { student, counselor, career, program } = context;
+    const text = PARENT_SUMMARY_TEXT.en;
+    const variables: Record<string, string> = {};
+
+    if (student) {
+      variables.studentName = `${student.firstName} ${student.lastName}`;
+      variables.studentFirstName = student.firstName;
+      variables.studentEmail = student.email;
+    }
+    if (counselor) {
+      variables.counselorName = `${counselor.firstName} ${counselor.lastName}`;
+    }
+    if (career) {
+      variables.careerTitle = career.title;
+      variables.careerSector = text.sectors[career.sector];
+      variables.careerEducation = text.education[career.requiredEducation];
+      variables.careerSalaryRange = text.salary(money.format(career.salaryRange.min), money.format(career.salaryRange.max));
+    }
+    if (program) {
+      variables.programName = program.name;
+      variables.programProvider = program.provider;
+      variables.programType = program.type;
+      variables.programDuration = program.duration;
+      variables.programCost = program.cost > 0 ? money.format(program.cost) : 'Free';
+      variables.programLocation = `${program.location.city}, ${program.location.state}`;
+    }
+    variables.message = context.message?.trim() || '';
+
+    return variables;
+  }
+
+  /**
+   * Fill in a template's {{placeholders}}. Placeholders without a value are
+   * left in place and reported in `missing`.
+   */
+  static render(
+    template: EmailTemplate,
+    variables: Record<string, string>
+  ): { subject: string; body: string; missing: string[] } {
+    const missing = template.variables.filter(name => variables[name] === undefined);
+    const fill = (text: string) =>
+      text.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => variables[name] ?? placeholder);
+
+    return { subject: fill(template.subject), body: fill(template.body), missing };
+  }
+
+  /**
+   * Render a template and send it. The attempt is logged whether or not
+   * delivery succeeds; a template with missing variables is never sent.
+   */
+  static async send(input: {
+    type: EmailTemplateType;
+    to: string;
+    replyTo?: string;
+    variables: Record<string, string>;
+    sentBy?: string;
+  }): Promise<EmailLogEntry> {
+    const rendered = this.render(this.getTemplate(input.type), input.variables);
+    if (rendered.missing.length > 0) {
+      throw new Error(`Missing template variables: ${rendered.missing.join(', ')}`);
+    }
+
+    const mailer = getTransport();
+    const entry: EmailLogEntry = {
+      id: randomUUID(),
+      templateType: input.type,
+      recipient: input.to,
+      subject: rendered.subject,
+      transport: mailer.name,
+      status: 'sent',
+      sentBy: input.sentBy,
+      createdAt: new Date(),
+    };
+
+    try {
+      entry.messageId = await mailer.send({
+        from: getEmailConfig().from,
+        to: input.to,
+        replyTo: input.replyTo,
+        subject: rendered.subject,
+        text: rendered.body,
+      });
+    } catch (error) {
+      console.error('Error sending email:', error);
+      entry.status = 'failed';
+      entry.error = error instanceof Error ? error.message : String(error);
+    }
+
+    await EmailLogRepository.create(entry);
+    return entry;
+  }
+
+  /**
+   * Email a student's school counselor about a career, with replies going
+   * to the student. Returns null if the school has no counselor.
+   */
+  static async sendCounselorOutreach(student: Student, career: Career, message?: string): Promise<EmailLogEntry | null> {
+    if (!student.schoolId) return null;
+
+    const [counselor] = await UserRepository.listCounselors(student.schoolId);
+    if (!counselor) return null;
+
+    return this.send({
+      type: 'counselor-outreach',
+      to: counselor.email,
+      replyTo: student.email,
+      variables: this.buildVariables({
+        student,
+        counselor,
+        career,
+        message: message?.trim() || DEFAULT_OUTREACH_MESSAGE,
+      }),
+      sentBy: student.id,
+    });
+  }
+
+  /**
+   * Email a training program's contact on a student's behalf about
+   * training toward a career, with replies going to the student.
+   * Returns null if the program has no contact email.
+   */
+  static async sendProgramInquiry(
+    student: Student,
+    program: TrainingProgram,
+    career: Career,
+    message?: string
+  ): Promise<EmailLogEntry | null> {
+    if (!program.contactEmail) return null;
+
+    return this.send({
+      type: 'program-inquiry',
+      to: program.contactEmail,
+      replyTo: student.email,
+      variables: this.buildVariables({
+        student,
+        career,
+        program,
+        message: message?.trim() || DEFAULT_INQUIRY_MESSAGE,
+      }),
+      sentBy: student.id,
+    });
+  }
+
+  /**
+   * Recent send attempts, newest first
+   */
+  static async getLog(options: { sentBy?: string; limit?: number } = {}): Promise<EmailLogEntry[]> {
+    return EmailLogRepository.list({ sentBy: options.sentBy, limit: options.limit ?? 50 });
+  }
+}
@@ -0,0 +1,86 @@
+import { GeographicRegion } from '../types';
+import { STATES, ZIP_PREFIX_STATES } from '../data/usStates';
+import { getZipCrosswalk } from './zipCrosswalk';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const ZIP_PATTERN = /^\d{5}$/;
+
+/**
+ * State a ZIP belongs to, from its three-digit prefix
+ */
+function stateForPrefix(zipCode: string): string | null {
+  const prefix = zipCode.slice(0, 3);
+  const range = ZIP_PREFIX_STATES.find(([first, last]) => prefix >= first && prefix <= last);
+  return range ? range[2] : null;
+}
+
+/**
+ * Resolves ZIP codes to the county, metro area and state they're in, from
+ * the ZIP crosswalk
+ */
+export class GeographyService {
+  /**
+   * Check that a value is a five-digit ZIP in a US state, DC or Puerto Rico
+   */
+  static isValidZip(zipCode: unknown): zipCode is string {
+    return typeof zipCode === 'string' && this.resolveZip(zipCode) !== null;
+  }
+
+  /**
+   * Resolve a ZIP to its region. ZIPs outside the crosswalk resolve to
+   * their state only; returns null for malformed or unassigned ZIPs.
+   */
+  static resolveZip(zipCode: string): GeographicRegion | null {
+    if (!ZIP_PATTERN.test(zipCode)) return null;
+
+    const entry = getZipCrosswalk().get(zipCode);
+    const state = entry?.state || stateForPrefix(zipCode);
+    if (!state || !STATES[state]) return null;
+
+    const { name: stateName, fips: stateFips } = STATES[state];
+    if (!entry) {
+      return { zipCode, precision: 'state', state, stateName, stateFips, label: stateName };
+    }
+
+    const county = { fips: entry.countyFips, name: entry.countyName };
+    const metro = entry.cbsa && { cbsaCode: entry.cbsa.code, name: entry.cbsa.name, type: entry.cbsa.type };
+
+    return {
+      zipCode,
+      precision: 'zip',
+      city: entry.city,
+      state,
+      stateName,
+      stateFips,
+      county,
+      ...(metro && { metro }),
+      label: metro ? metro.name : `${county.name}, ${state}`
+    };
+  }
+
+  /**
+   * One region for each county in the crosswalk, for work that covers
+   * every area students can be in
+   */
+  static getCrosswalkRegions(): GeographicRegion[] {
+    const regions = new Map<string, GeographicRegion>();
+    for (const [zipCode, entry] of getZipCrosswalk()) {
+      if (regions.has(entry.countyFips)) continue;
+      const region = this.resolveZip(zipCode);
+      if (region) regions.set(entry.countyFips, region);
+    }
+    return [...regions.values()];
+  }
+
+  /**
+   * Approximate center of a ZIP in the crosswalk, for distance measurements
+   */
+  static getCoordinates(zipCode: string): Coordinates | null {
+    const entry = getZipCrosswalk().get(zipCode);
+    return entry ? { latitude: entry.latitude, longitude: entry.longitude } : null;
+  }
+}
@@ -0,0 +1,108 @@
+import { GeographicRegion } from '../types';
+import { getCachedSeries, BLSSeries, BLSSeriesGroup } from './blsClient';
+import { getBLSConfig } from '../config/blsConfig';
+import { getDemandConfig } from '../config/demandConfig';
+import { GeographyService } from './geographyService';
+
+export interface UnemploymentReading {
+  seriesId: string;
+  // Area the rate covers, e.g. 'Athens County, OH' or 'Ohio'
+  area: string;
+  rate: number;
+  // Month the rate is for, e.g. 'August 2026'
+  period: string;
+  fetchedAt: Date;
+}
+
+interface LausSeries {
+  seriesId: string;
+  area: string;
+}
+
+/**
+ * LAUS unemployment rate series for a region: its county when known, then its state
+ */
+function lausSeriesFor(region: GeographicRegion): LausSeries[] {
+  const series: LausSeries[] = [];
+  if (region.county) {
+    series.push({ seriesId: `LAUCN${region.county.fips}0000000003`, area: `${region.county.name}, ${region.state}` });
+  }
+  series.push({ seriesId: `LASST${region.stateFips}0000000000003`, area: region.stateName });
+  return series;
+}
+
+/**
+ * Years of LAUS data fetched (and cached) for each series
+ */
+function lausYears(): { startYear: number; endYear: number } {
+  const currentYear = new Date().getFullYear();
+  return { startYear: currentYear - 1, endYear: currentYear };
+}
+
+/**
+ * Most recent monthly rate in a series (annual averages are period M13)
+ */
+function latestReading(series: BLSSeries, area: string): UnemploymentReading | null {
+  const point = series.data.find(d => /^M(0[1-9]|1[0-2])$/.test(d.period) && !isNaN(parseFloat(d.value)));
+  if (!point) return null;
+
+  return {
+    seriesId: series.seriesID,
+    area,
+    rate: parseFloat(point.value),
+    period: `${point.periodName} ${point.year}`,
+    fetchedAt: series.fetchedAt || new Date()
+  };
+}
+
+/**
+ * Local labor market conditions from the BLS Local Area Unemployment
+ * Statistics (LAUS) program. Rates are only read from the BLS cache, which
+ * the warmup job keeps filled, so lookups never wait on BLS.
+ */
+export class LaborMarketService {
+  /**
+   * LAUS series IDs used for a region, most local first
+   */
+  static getSeriesIds(region: GeographicRegion): string[] {
+    return lausSeriesFor(region).map(series => series.seriesId);
+  }
+
+  /**
+   * LAUS series for every state and county in the ZIP crosswalk, states
+   * first, for the warmup job to keep cached
+   */
+  static getSeriesGroup(): BLSSeriesGroup {
+    const series = GeographyService.getCrosswalkRegions().map(region => this.getSeriesIds(region));
+    const states = series.map(ids => ids[ids.length - 1]);
+    const counties = series.flatMap(ids => ids.slice(0, -1));
+
+    return {
+      seriesIds: [...new Set([...states, ...counties])],
+      ...lausYears(),
+      ttlMs: getDemandConfig().unemployment.ttlMs
+    };
+  }
+
+  /**
+   * Cached unemployment rate for a region: the county's when known, else
+   * the state's. Stale rates are served until the warmup refreshes them;
+   * nothing is fetched.
+   */
+  static async getUnemployment(region: GeographicRegion): Promise<UnemploymentReading | null> {
+    if (!getBLSConfig().enabled) return null;
+
+    const lausSeries = lausSeriesFor(region);
+    const { startYear, endYear } = lausYears();
+    const cached = await getCachedSeries(lausSeries.map(s => s.seriesId), startYear, endYear, {
+      cacheTTL: getDemandConfig().unemployment.ttlMs
+    });
+
+    for (const { seriesId, area } of lausSeries) {
+      const found = cached.find(s => s.seriesID === seriesId);
+      const reading = found && latestReading(found, area);
+      if (reading) return reading;
+    }
+    return null;
+  }
+}
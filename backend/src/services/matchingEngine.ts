@@ -0,0 +1,276 @@
+/**
+ * Matching Engine
+ *
+ * Scores careers against a student profile using O*NET importance ratings.
+ * The student's interests and skills are mapped onto O*NET skills, knowledge
+ * and abilities elements (see data/traitDimensions.ts); each dimension is
+ * scored by how important those elements are to the career, then combined
+ * with RIASEC interest fit (when the student took the interest inventory),
+ * education and work environment fit.
+ */
+
+import {
+  Career,
+  EducationLevel,
+  MatchDimension,
+  MatchDimensionScore,
+  RiasecScores,
+  RiasecType,
+  StudentProfile,
+} from '../types';
+import { NormalizedOccupation } from './onetService';
+import {
+  OnetDimension,
+  TRAIT_DIMENSIONS,
+  SECTOR_BASELINE_RATINGS,
+  SECTOR_BASELINE_HOLLAND_CODE,
+  SECTOR_WORK_ENVIRONMENT,
+} from '../data/traitDimensions';
+import {
+  RIASEC_NAMES,
+  interestSimilarity,
+  scoresFromHollandCode,
+  scoresFromOnetInterests,
+  toHollandCode,
+} from './riasec';
+
+export const ONET_DIMENSIONS: OnetDimension[] = ['skills', 'knowledge', 'abilities'];
+
+/**
+ * Share of the overall score for each dimension. Dimensions the profile says
+ * nothing about are left out and the remaining weights are rescaled.
+ */
+export const DIMENSION_WEIGHTS: Record<MatchDimension, number> = {
+  interests: 0.35,
+  skills: 0.25,
+  knowledge: 0.25,
+  abilities: 0.2,
+  education: 0.2,
+  workEnvironment: 0.1,
+};
+
+// O*NET importance ratings run from 1 (not important) to 5 (extremely important)
+const MIN_IMPORTANCE = 1;
+const MAX_IMPORTANCE = 5;
+
+// Number of contributing elements reported per dimension
+const MAX_TOP_ELEMENTS = 3;
+
+const EDUCATION_ORDER: Record<EducationLevel, number> = {
+  'high-school': 1,
+  'certificate': 2,
+  'associate': 3,
+  'bachelor': 4,
+};
+
+export type TraitVector = Record<OnetDimension, Map<string, number>>;
+export type ElementRating = NormalizedOccupation['skills'][number];
+export type CareerRatings = Record<OnetDimension, ElementRating[]>;
+
+export interface MatchResult {
+  matchScore: number;
+  breakdown: MatchDimensionScore[];
+}
+
+/**
+ * Combine the element weights of every known trait into one vector per dimension.
+ * Traits without a strength count fully.
+ */
+export function buildTraitVector(traits: string[], strengths: Record<string, number> = {}): TraitVector {
+  const vector: TraitVector = { skills: new Map(), knowledge: new Map(), abilities: new Map() };
+
+  for (const trait of traits) {
+    const weights = TRAIT_DIMENSIONS[trait];
+    const strength = strengths[trait] ?? 1;
+    if (!weights || strength <= 0) continue;
+
+    for (const dimension of ONET_DIMENSIONS) {
+      for (const [element, weight] of Object.entries(weights[dimension] || {})) {
+        vector[dimension].set(element, (vector[dimension].get(element) || 0) + weight * strength);
+      }
+    }
+  }
+
+  return vector;
+}
+
+/**
+ * O*NET ratings for a career, falling back to its sector baseline when the
+ * catalog has no occupation data for it
+ */
+export function getCareerRatings(career: Career, occupation?: NormalizedOccupation): CareerRatings {
+  if (occupation && ONET_DIMENSIONS.some(d => occupation[d].length > 0)) {
+    return { skills: occupation.skills, knowledge: occupation.knowledge, abilities: occupation.abilities };
+  }
+
+  const baseline = SECTOR_BASELINE_RATINGS[career.sector];
+  const toRatings = (ratings: Record<string, number> = {}) =>
+    Object.entries(ratings).map(([name, importance]) => ({ name, importance }));
+
+  return {
+    skills: toRatings(baseline?.skills),
+    knowledge: toRatings(baseline?.knowledge),
+    abilities: toRatings(baseline?.abilities),
+  };
+}
+
+/**
+ * RIASEC interest scores for a career: O*NET interest ratings when available,
+ * otherwise its Holland code, otherwise its sector's typical code
+ */
+export function getCareerInterests(career: Career, occupation?: NormalizedOccupation): RiasecScores {
+  const fromOnet = occupation?.interests ? scoresFromOnetInterests(occupation.interests) : null;
+  if (fromOnet) return fromOnet;
+
+  return scoresFromHollandCode(career.hollandCode || SECTOR_BASELINE_HOLLAND_CODE[career.sector] || '');
+}
+
+/**
+ * Interest types in the top three for both the student and the career
+ */
+function sharedInterestTypes(student: RiasecScores, career: RiasecScores): string[] {
+  const careerTop = toHollandCode(career);
+  return toHollandCode(student)
+    .split('')
+    .filter(letter => careerTop.includes(letter))
+    .map(letter => RIASEC_NAMES[letter as RiasecType]);
+}
+
+/**
+ * Weighted similarity between the student's element weights and the career's
+ * importance ratings for one dimension (0-1), with the top contributing elements
+ */
+function scoreOnetDimension(
+  weights: Map<string, number>,
+  ratings: ElementRating[]
+): { similarity: number; topElements: string[] } {
+  const importance = new Map(ratings.map(r => [r.name, r.importance]));
+  const contributions: Array<{ element: string; value: number }> = [];
+  let totalWeight = 0;
+  let weighted = 0;
+
+  for (const [element, weight] of weights) {
+    const rating = importance.get(element) ?? MIN_IMPORTANCE;
+    const normalized = Math.min(1, Math.max(0, (rating - MIN_IMPORTANCE) / (MAX_IMPORTANCE - MIN_IMPORTANCE)));
+    totalWeight += weight;
+    weighted += weight * normalized;
+    if (normalized > 0) contributions.push({ element, value: weight * normalized });
+  }
+
+  return {
+    similarity: totalWeight > 0 ? weighted / totalWeight : 0,
+    topElements: contributions
+      .sort((a, b) => b.value - a.value)
+      .slice(0, MAX_TOP_ELEMENTS)
+      .map(c => c.element),
+  };
+}
+
+/**
+ * How well the student's education goal covers what the career requires (0-1)
+ */
+export function matchEducationLevel(studentGoal: string, careerRequired: string): number {
+  const studentLevel = EDUCATION_ORDER[studentGoal as EducationLevel] || 2;
+  const careerLevel = EDUCATION_ORDER[careerRequired as EducationLevel] || 2;
+
+  if (studentLevel >= careerLevel) return 1.0;
+  if (studentLevel === careerLevel - 1) return 0.7;
+  return 0.4;
+}
+
+/**
+ * How well the preferred work environment fits the career's usual setting (0-1)
+ */
+function matchWorkEnvironment(preference: StudentProfile['workEnvironment'], career: Career): number {
+  const setting = SECTOR_WORK_ENVIRONMENT[career.sector];
+  if (preference === setting) return 1.0;
+  if (preference === 'mixed' || setting === 'mixed') return 0.7;
+  return 0.5;
+}
+
+/**
+ * Score a career for a student profile and explain the score per dimension
+ */
+export function scoreCareer(
+  profile: Partial<StudentProfile>,
+  career: Career,
+  ratings: CareerRatings,
+  careerInterests?: RiasecScores
+): MatchResult {
+  const traits = [...(profile.interests || []), ...(profile.skills || [])];
+  const vector = buildTraitVector(traits, profile.traitWeights);
+  const parts: Array<Omit<MatchDimensionScore, 'weight'> & { similarity: number }> = [];
+
+  if (profile.riasecScores && careerInterests) {
+    const similarity = interestSimilarity(profile.riasecScores, careerInterests);
+    parts.push({
+      dimension: 'interests',
+      similarity,
+      score: Math.round(similarity * 100),
+      topElements: sharedInterestTypes(profile.riasecScores, careerInterests),
+    });
+  }
+
+  for (const dimension of ONET_DIMENSIONS) {
+    if (vector[dimension].size === 0) continue;
+    const { similarity, topElements } = scoreOnetDimension(vector[dimension], ratings[dimension]);
+    parts.push({ dimension, similarity, score: Math.round(similarity * 100), topElements });
+  }
+
+  if (profile.educationGoal) {
+    const similarity = matchEducationLevel(profile.educationGoal, career.requiredEducation);
+    parts.push({ dimension: 'education', similarity, score: Math.round(similarity * 100), topElements: [] });
+  }
+
+  if (profile.workEnvironment) {
+    const similarity = matchWorkEnvironment(profile.workEnvironment, career);
+    parts.push({ dimension: 'workEnvironment', similarity, score: Math.round(similarity * 100), topElements: [] });
+  }
+
+  const totalWeight = parts.reduce((sum, p) => sum + DIMENSION_WEIGHTS[p.dimension], 0);
+  if (totalWeight === 0) {
+    return { matchScore: 0, breakdown: [] };
+  }
+
+  const breakdown = parts.map(({ similarity, ...part }) => ({
+    ...part,
+    weight: DIMENSION_WEIGHTS[part.dimension] / totalWeight,
+  }));
+  const matchScore = parts.reduce(
+    (sum, p) => sum + p.similarity * (DIMENSION_WEIGHTS[p.dimension] / totalWeight),
+    0
+  );
+
+  return { matchScore: Math.round(matchScore * 100), breakdown };
+}
+
+/**
+ * Turn a score breakdown into the reasoning factors shown to students
+ */
+export function explainMatch(career: Career, result: MatchResult): string[] {
+  const factors: string[] = [];
+
+  for (const part of result.breakdown) {
+    if (part.dimension === 'education') {
+      factors.push(part.score === 100
+        ? 'Your education plans fit what this career requires'
+        : `Requires more education than you currently plan (${career.requiredEducation})`);
+    } else if (part.dimension === 'workEnvironment') {
+      if (part.score === 100) factors.push('Matches your preferred work environment');
+    } else if (part.score >= 60 && part.topElements.length > 0) {
+      factors.push(`Strong ${part.dimension} alignment (${part.score}%): ${part.topElements.join(', ')}`);
+    } else if (part.score >= 40 && part.topElements.length > 0) {
+      factors.push(`Some ${part.dimension} alignment (${part.score}%): ${part.topElements.join(', ')}`);
+    }
+  }
+
+  if (result.matchScore > 80) {
+    factors.push('Excellent overall match for your profile');
+  } else if (result.matchScore > 60) {
+    factors.push('Good match with room to develop additional skills');
+  }
+
+  factors.push(`${career.growthOutlook}`);
+
+  return factors;
+}
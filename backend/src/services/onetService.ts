@@ -19,6 +19,10 @@ export interface NormalizedOccupation {
   knowledge: Array<{ name: string; importance: number }>;
   /** Abilities required */
   abilities: Array<{ name: string; importance: number }>;
+  /** RIASEC occupational interest scores (1-7), e.g. { name: "Social", score: 6.3 } */
+  interests?: Array<{ name: string; score: number }>;
+  /** Holland code from the three highest interest scores (e.g., "SIC") */
+  hollandCode?: string;
   /** Education level required */
   educationLevel: string;
   /** Median annual wage (if available) */
@@ -136,6 +140,7 @@ function groupByCode<T extends Record<string, string>>(
  * - Skills.txt: Skills with importance ratings
  * - Knowledge.txt: Knowledge areas with importance ratings
  * - Abilities.txt: Abilities with importance ratings
+ * - Interests.txt: RIASEC occupational interest scores
  * - Education, Training, and Experience.txt: Education requirements
  *
  * @param inputDir - Path to directory containing O*NET CSV/text files
@@ -150,6 +155,7 @@ export async function parseOnetDatabase(inputDir: string): Promise<NormalizedOne
   const skillsFile = path.join(inputDir, 'Skills.txt');
   const knowledgeFile = path.join(inputDir, 'Knowledge.txt');
   const abilitiesFile = path.join(inputDir, 'Abilities.txt');
+  const interestsFile = path.join(inputDir, 'Interests.txt');
   const educationFile = path.join(inputDir, 'Education, Training, and Experience.txt');
 
   // Initialize occupation map
@@ -249,6 +255,30 @@ export async function parseOnetDatabase(inputDir: string): Promise<NormalizedOne
     }
   }
 
+  // Parse Interests
+  if (fs.existsSync(interestsFile)) {
+    sourceFiles.push('Interests.txt');
+    const records = parseDelimitedFile(interestsFile);
+    const grouped = groupByCode(records, 'O*NET-SOC Code');
+    for (const [code, interests] of grouped) {
+      const occupation = occupationMap.get(code);
+      if (occupation) {
+        occupation.interests = interests
+          .filter(i => i['Scale ID'] === 'OI') // Occupational interest scale
+          .map(i => ({
+            name: i['Element Name'] || '',
+            score: parseFloat(i['Data Value'] || '0')
+          }))
+          .filter(i => i.name && i.score > 0)
+          .sort((a, b) => b.score - a.score);
+        occupation.hollandCode = occupation.interests
+          .slice(0, 3)
+          .map(i => i.name.charAt(0).toUpperCase())
+          .join('');
+      }
+    }
+  }
+
   // Parse Education
   if (fs.existsSync(educationFile)) {
     sourceFiles.push('Education, Training, and Experience.txt');
@@ -0,0 +1,155 @@
+import { Career, Language, ParentSummary, StudentProfile } from '../types';
+import { PARENT_SUMMARY_TEXT, careerTitle } from '../data/parentSummaryText';
+import { ActionPlanService, ActionStep } from './actionPlanService';
+import { CareerService } from './careerService';
+import { GeographyService } from './geographyService';
+import { WageService } from './wageService';
+
+export const LANGUAGES: Language[] = ['en', 'es'];
+
+// Action plan steps shown to parents, before the closing counselor step
+const MAX_NEXT_STEPS = 4;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Parent-facing summary of a student's assessment, careers and next steps
+ */
+export class ParentSummaryService {
+  /**
+   * Check whether a value is a supported summary language
+   */
+  static isLanguage(value: unknown): value is Language {
+    return LANGUAGES.includes(value as Language);
+  }
+
+  /**
+   * Build a summary from a student's profile and the careers they're exploring.
+   * Salaries are OEWS wages for the student's area where available, and next
+   * steps come from the action plan for the first career.
+   */
+  static async buildSummary(
+    input: {
+      studentName?: string;
+      profile: Partial<StudentProfile>;
+      careers: Career[];
+      grade?: number;
+    },
+    language: Language = 'en'
+  ): Promise<ParentSummary> {
+    const text = PARENT_SUMMARY_TEXT[language];
+    const money = new Intl.NumberFormat(text.locale, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+    const zipCode = input.profile.zipCode || '';
+    const wages = await WageService.getWages(input.careers, GeographyService.resolveZip(zipCode));
+
+    const selectedCareers = await Promise.all(input.careers.map(async career => {
+      const pathway = CareerService.getCareerPathway(career, zipCode || undefined);
+      const careerWages = wages.get(career.id);
+      const salary = careerWages ? WageService.salaryRange(careerWages) : career.salaryRange;
+      return {
+        title: careerTitle(career, language),
+        sector: career.sector,
+        pathway: text.pathway(
+          text.education[career.requiredEducation],
+          text.duration(pathway.totalDuration),
+          money.format(pathway.estimatedCost)
+        ),
+        localSalary: text.salary(money.format(salary.min), money.format(salary.max)),
+        demand: await CareerService.estimateLocalDemand(career, zipCode),
+      };
+    }));
+
+    const nextSteps: string[] = [];
+    const [firstCareer] = input.careers;
+    if (firstCareer) {
+      const plan = ActionPlanService.generateActionPlan(firstCareer, input.grade, zipCode || undefined);
+      nextSteps.push(...plan.steps
+        .filter(step => step.priority === 'high')
+        .slice(0, MAX_NEXT_STEPS)
+        .map(step => this.describeStep(step, firstCareer, language)));
+    }
+    nextSteps.push(text.counselorStep);
+
+    return {
+      studentName: input.studentName?.trim() || text.defaultStudentName,
+      topInterests: (input.profile.interests || []).slice(0, 3).map(interest => text.traits[interest] || interest),
+      selectedCareers,
+      nextSteps,
+      generatedAt: new Date(),
+      language,
+    };
+  }
+
+  /**
+   * Put an action plan step into parent-friendly words
+   */
+  private static describeStep(step: ActionStep, career: Career, language: Language): string {
+    const { steps } = PARENT_SUMMARY_TEXT[language];
+
+    if (step.id === 'education-1') {
+      return steps[`education-1:${career.requiredEducation}`](career);
+    }
+    if (step.id.startsWith('skills-')) {
+      const skill = career.skills?.[Number(step.id.slice('skills-'.length)) - 1];
+      return steps.skills(career, skill);
+    }
+    return steps[step.id]?.(career) ?? step.title;
+  }
+
+  /**
+   * Render a summary as a standalone page that prints on one sheet
+   */
+  static renderHtml(summary: ParentSummary): string {
+    const text = PARENT_SUMMARY_TEXT[summary.language];
+    const preparedOn = new Date(summary.generatedAt).toLocaleDateString(text.locale, { dateStyle: 'long' });
+
+    const careers = summary.selectedCareers.map(career => `
+      <div class="career">
+        <h3>${escapeHtml(career.title)}</h3>
+        <dl>
+          <dt>${escapeHtml(text.labels.sector)}</dt><dd>${escapeHtml(text.sectors[career.sector])}</dd>
+          <dt>${escapeHtml(text.labels.pathway)}</dt><dd>${escapeHtml(career.pathway)}</dd>
+          <dt>${escapeHtml(text.labels.salary)}</dt><dd>${escapeHtml(career.localSalary)}</dd>
+          <dt>${escapeHtml(text.labels.demand)}</dt><dd>${escapeHtml(text.demand[career.demand])}</dd>
+        </dl>
+      </div>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="${summary.language}">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(text.title)}</title>
+  <style>
+    body { font-family: Georgia, serif; max-width: 720px; margin: 2rem auto; color: #111; line-height: 1.5; }
+    h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+    h2 { font-size: 1.2rem; border-bottom: 1px solid #ccc; padding-bottom: 0.25rem; margin-top: 1.5rem; }
+    h3 { margin: 0 0 0.25rem; }
+    .career { margin-bottom: 1rem; }
+    dl { display: grid; grid-template-columns: 10rem 1fr; margin: 0; }
+    dt { font-weight: bold; }
+    dd { margin: 0; }
+    .prepared { color: #555; font-size: 0.9rem; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(text.title)}</h1>
+  <p class="prepared">${escapeHtml(summary.studentName)} · ${escapeHtml(text.preparedOn(preparedOn))}</p>
+  <p>${escapeHtml(text.intro(summary.studentName))}</p>
+  <h2>${escapeHtml(text.interestsHeading)}</h2>
+  <ul>${summary.topInterests.map(interest => `<li>${escapeHtml(interest)}</li>`).join('')}</ul>
+  <h2>${escapeHtml(text.careersHeading)}</h2>${careers}
+  <h2>${escapeHtml(text.nextStepsHeading)}</h2>
+  <ol>${summary.nextSteps.map(step => `<li>${escapeHtml(step)}</li>`).join('')}</ol>
+</body>
+</html>
+`;
+  }
+}
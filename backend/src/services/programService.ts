@@ -0,0 +1,112 @@
+import { Sector, TrainingProgram } from '../types';
+import { TRAINING_PROGRAMS } from '../data/trainingPrograms';
+import { Coordinates, GeographyService } from './geographyService';
+
+export const PROGRAM_TYPES: TrainingProgram['type'][] = ['apprenticeship', 'certificate', 'internship', 'vocational'];
+
+export interface ProgramSearchFilters {
+  careerId?: string;
+  sector?: Sector;
+  type?: TrainingProgram['type'];
+  maxCost?: number;
+  isPaid?: boolean;
+  // Sort by distance from this ZIP; with radiusMiles, drop programs farther away
+  zipCode?: string;
+  radiusMiles?: number;
+}
+
+export interface ProgramSearchResult extends TrainingProgram {
+  // Straight-line miles from the searched ZIP, when one was given
+  distanceMiles?: number;
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Programs uploaded by district admins; they replace bundled programs with the same ID
+let uploadedPrograms: TrainingProgram[] = [];
+
+/**
+ * Great-circle distance between two points, in miles
+ */
+function distanceMiles(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Training program catalog: apprenticeships, certificates, internships
+ * and vocational programs that lead to careers
+ */
+export class ProgramService {
+  /**
+   * Replace the uploaded programs served alongside the bundled ones
+   */
+  static setUploadedPrograms(programs: TrainingProgram[]): void {
+    uploadedPrograms = programs;
+  }
+
+  /**
+   * Get every active program
+   */
+  static getAllPrograms(): TrainingProgram[] {
+    const uploadedIds = new Set(uploadedPrograms.map(program => program.id));
+    return [...TRAINING_PROGRAMS.filter(program => !uploadedIds.has(program.id)), ...uploadedPrograms]
+      .filter(program => program.isActive);
+  }
+
+  /**
+   * Get an active program by ID
+   */
+  static getProgramById(id: string): TrainingProgram | null {
+    return this.getAllPrograms().find(program => program.id === id) || null;
+  }
+
+  /**
+   * Check whether distances can be measured from a ZIP code
+   */
+  static isKnownZip(zipCode: string): boolean {
+    return GeographyService.getCoordinates(zipCode) !== null;
+  }
+
+  /**
+   * Search active programs. Results are nearest first when a known ZIP is
+   * given, otherwise alphabetical.
+   */
+  static searchPrograms(filters: ProgramSearchFilters = {}): ProgramSearchResult[] {
+    const origin = filters.zipCode ? GeographyService.getCoordinates(filters.zipCode) : null;
+
+    const results: ProgramSearchResult[] = this.getAllPrograms()
+      .filter(program =>
+        (!filters.careerId || program.targetCareers.includes(filters.careerId))
+        && (!filters.sector || program.sector === filters.sector)
+        && (!filters.type || program.type === filters.type)
+        && (filters.maxCost === undefined || program.cost <= filters.maxCost)
+        && (filters.isPaid === undefined || program.isPaid === filters.isPaid))
+      .map(program => {
+        const location = GeographyService.getCoordinates(program.location.zipCode);
+        return origin && location
+          ? { ...program, distanceMiles: Math.round(distanceMiles(origin, location) * 10) / 10 }
+          : { ...program };
+      });
+
+    if (!origin) {
+      return results.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    return results
+      .filter(program => filters.radiusMiles === undefined
+        || (program.distanceMiles !== undefined && program.distanceMiles <= filters.radiusMiles))
+      .sort((a, b) => (a.distanceMiles ?? Infinity) - (b.distanceMiles ?? Infinity));
+  }
+
+  /**
+   * Programs that prepare students for a career, nearest first when the ZIP is known
+   */
+  static getProgramsForCareer(careerId: string, zipCode?: string, limit = 3): ProgramSearchResult[] {
+    return this.searchPrograms({ careerId, zipCode }).slice(0, limit);
+  }
+}
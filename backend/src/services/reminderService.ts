@@ -0,0 +1,89 @@
+import { Action, AppNotification } from '../types';
+import { ActionPlanRepository } from '../repositories/actionPlanRepository';
+import { NotificationRepository } from '../repositories/notificationRepository';
+import { createReminderNotifier, ReminderNotifier } from '../notifications';
+
+let notifier: ReminderNotifier | null = null;
+
+function getNotifier(): ReminderNotifier {
+  if (!notifier) {
+    notifier = createReminderNotifier();
+  }
+  return notifier;
+}
+
+/**
+ * Sends reminders for students' custom actions and manages their
+ * notification feed
+ */
+export class ReminderService {
+  /**
+   * Replace the reminder notifier (used by tests)
+   */
+  static setNotifier(newNotifier: ReminderNotifier | null): void {
+    notifier = newNotifier;
+  }
+
+  /**
+   * Send every reminder that is due. Each reminder is claimed before it is
+   * sent, so it goes out at most once even across restarts or several API
+   * instances; a reminder whose delivery fails is not retried.
+   */
+  static async sendDueReminders(now: Date = new Date()): Promise<{ sent: number; failed: number }> {
+    const due = await ActionPlanRepository.findDueReminders(now);
+    let sent = 0;
+    let failed = 0;
+
+    for (const reminder of due) {
+      if (!(await ActionPlanRepository.claimReminder(reminder.actionId, now))) continue;
+
+      try {
+        await getNotifier().notify(reminder);
+        sent++;
+      } catch (error) {
+        console.error(`Error sending reminder for action ${reminder.actionId}:`, error);
+        failed++;
+      }
+    }
+
+    return { sent, failed };
+  }
+
+  /**
+   * Push a student's reminder back to a later date.
+   * Returns null if the student has no such action.
+   */
+  static async snooze(userId: string, actionId: string, until: Date): Promise<Action | null> {
+    const found = await ActionPlanRepository.findActionForUser(userId, actionId);
+    if (!found) return null;
+
+    await ActionPlanRepository.rescheduleReminder(actionId, true, until);
+    return { ...found.action, reminderEnabled: true, reminderDate: until };
+  }
+
+  /**
+   * Turn off a student's reminder.
+   * Returns null if the student has no such action.
+   */
+  static async disable(userId: string, actionId: string): Promise<Action | null> {
+    const found = await ActionPlanRepository.findActionForUser(userId, actionId);
+    if (!found) return null;
+
+    await ActionPlanRepository.rescheduleReminder(actionId, false, found.action.reminderDate ?? null);
+    return { ...found.action, reminderEnabled: false };
+  }
+
+  /**
+   * A student's notification feed, newest first
+   */
+  static async getNotifications(userId: string, limit = 50): Promise<AppNotification[]> {
+    return NotificationRepository.listForUser(userId, limit);
+  }
+
+  /**
+   * Mark a notification as read; returns false if the user has no such notification
+   */
+  static async markNotificationRead(userId: string, notificationId: string): Promise<boolean> {
+    return NotificationRepository.markRead(userId, notificationId, new Date());
+  }
+}
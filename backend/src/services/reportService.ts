@@ -0,0 +1,106 @@
+import PDFDocument from 'pdfkit';
+import { Career, CareerMatch, StudentProfile } from '../types';
+import { ActionPlanService } from './actionPlanService';
+import { CareerService } from './careerService';
+
+// Ranked matches listed in the report
+const MAX_MATCHES = 10;
+
+const COLORS = { heading: '#1e3a8a', text: '#111827', muted: '#6b7280' };
+
+const money = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+/**
+ * Downloadable PDF reports of career results, pathways and action plans
+ */
+export class ReportService {
+  /**
+   * Build a report: the ranked career matches, then the pathway and action
+   * plan for each career the student is focusing on
+   */
+  static generateCareerReport(input: {
+    studentName?: string;
+    profile: Partial<StudentProfile>;
+    matches: CareerMatch[];
+    focusCareers: Career[];
+    grade?: number;
+    // The student's school, for course recommendations
+    schoolId?: string;
+  }): Promise<Buffer> {
+    const doc = new PDFDocument({ size: 'LETTER', margin: 54, info: { Title: 'Lantern AI Career Report' } });
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', chunk => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const heading = (text: string, size = 16) => {
+      doc.moveDown(0.5).font('Helvetica-Bold').fontSize(size).fillColor(COLORS.heading).text(text);
+      doc.moveDown(0.25).font('Helvetica').fontSize(10).fillColor(COLORS.text);
+    };
+    const muted = (text: string) => doc.fillColor(COLORS.muted).text(text).fillColor(COLORS.text);
+
+    // Cover and profile
+    doc.font('Helvetica-Bold').fontSize(22).fillColor(COLORS.heading).text('Career Report');
+    doc.font('Helvetica').fontSize(10);
+    muted(`${input.studentName ? `${input.studentName} · ` : ''}Generated ${new Date().toLocaleDateString('en-US', { dateStyle: 'long' })}`);
+
+    const { profile } = input;
+    heading('Your Profile', 14);
+    doc.text(`Interests: ${(profile.interests || []).join(', ') || 'Not yet assessed'}`);
+    doc.text(`Skills: ${(profile.skills || []).join(', ') || 'Not yet assessed'}`);
+    if (profile.hollandCode) doc.text(`Holland code: ${profile.hollandCode}`);
+    if (profile.educationGoal) doc.text(`Education goal: ${profile.educationGoal}`);
+    if (profile.zipCode) doc.text(`Location: ${profile.zipCode}`);
+
+    // Ranked matches
+    heading('Career Matches', 14);
+    input.matches.slice(0, MAX_MATCHES).forEach((match, index) => {
+      const { career } = match;
+      doc.font('Helvetica-Bold').text(`${index + 1}. ${career.title} — ${match.matchScore}% match`);
+      doc.font('Helvetica');
+      muted(`${career.sector} · ${money.format(match.localSalary.min)}–${money.format(match.localSalary.max)} · ${match.localDemand} local demand`);
+      doc.list(match.reasoningFactors, { bulletRadius: 1.5, indent: 10, textIndent: 10 });
+      doc.moveDown(0.5);
+    });
+
+    // Pathway and action plan per focus career
+    for (const career of input.focusCareers) {
+      doc.addPage();
+      heading(career.title, 18);
+      muted(career.description);
+
+      const pathway = CareerService.getCareerPathway(career, profile.zipCode, input.schoolId, input.grade);
+      heading(`Pathway (${pathway.totalDuration}, about ${money.format(pathway.estimatedCost)})`, 13);
+      for (const stage of pathway.stages) {
+        doc.font('Helvetica-Bold').text(`${stage.order}. ${stage.title} (${stage.duration})`);
+        doc.font('Helvetica').text(stage.description);
+        if (stage.requirements.length > 0) {
+          doc.list(stage.requirements, { bulletRadius: 1.5, indent: 10, textIndent: 10 });
+        }
+        if (stage.programIds) {
+          muted(`Programs: ${stage.providers.join('; ')}`);
+        }
+        doc.moveDown(0.3);
+      }
+
+      const plan = ActionPlanService.generateActionPlan(career, input.grade, profile.zipCode, input.schoolId);
+      heading(`Action Plan (about ${plan.estimatedTimeToCareer} to career)`, 13);
+      for (const step of plan.steps) {
+        doc.font('Helvetica-Bold').text(`[  ] ${step.title}`, { continued: true });
+        doc.font('Helvetica').fillColor(COLORS.muted).text(`  ${step.timeframe} · ${step.priority} priority`);
+        doc.fillColor(COLORS.text).text(step.description, { indent: 12 });
+        doc.moveDown(0.2);
+      }
+
+      if (plan.milestones.length > 0) {
+        heading('Milestones', 13);
+        doc.list(plan.milestones.map(m => `${m.title}: ${m.description}`), { bulletRadius: 1.5, indent: 10, textIndent: 10 });
+      }
+    }
+
+    doc.end();
+    return done;
+  }
+}
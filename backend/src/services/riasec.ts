@@ -0,0 +1,92 @@
+/**
+ * RIASEC (Holland Code) helpers
+ *
+ * Shared by the RIASEC interest inventory, which scores students on the six
+ * interest types, and the matching engine, which compares those scores with
+ * O*NET occupational interest profiles.
+ */
+
+import { RiasecScores, RiasecType } from '../types';
+
+export const RIASEC_TYPES: RiasecType[] = ['R', 'I', 'A', 'S', 'E', 'C'];
+
+export const RIASEC_NAMES: Record<RiasecType, string> = {
+  R: 'Realistic',
+  I: 'Investigative',
+  A: 'Artistic',
+  S: 'Social',
+  E: 'Enterprising',
+  C: 'Conventional',
+};
+
+// Interest scores assumed for the letters of a Holland code, on O*NET's 1-7 scale
+const HOLLAND_CODE_SCORES = [7, 5.5, 4];
+const UNLISTED_TYPE_SCORE = 2;
+
+export function isRiasecType(value: unknown): value is RiasecType {
+  return typeof value === 'string' && (RIASEC_TYPES as string[]).includes(value);
+}
+
+/**
+ * Holland code made of the highest-scoring types (ties keep RIASEC order)
+ */
+export function toHollandCode(scores: RiasecScores, length = 3): string {
+  return [...RIASEC_TYPES]
+    .sort((a, b) => scores[b] - scores[a])
+    .slice(0, length)
+    .join('');
+}
+
+/**
+ * Scores from O*NET occupational interest ratings ({ name: "Social", score: 6.3 })
+ */
+export function scoresFromOnetInterests(interests: Array<{ name: string; score: number }>): RiasecScores | null {
+  const scores = Object.fromEntries(RIASEC_TYPES.map(t => [t, 0])) as RiasecScores;
+  let found = 0;
+
+  for (const interest of interests) {
+    const type = interest.name.charAt(0).toUpperCase();
+    if (isRiasecType(type)) {
+      scores[type] = interest.score;
+      found++;
+    }
+  }
+
+  return found > 0 ? scores : null;
+}
+
+/**
+ * Approximate interest scores from a Holland code such as "SIC"
+ */
+export function scoresFromHollandCode(code: string): RiasecScores {
+  const scores = Object.fromEntries(RIASEC_TYPES.map(t => [t, UNLISTED_TYPE_SCORE])) as RiasecScores;
+
+  code.toUpperCase().split('').slice(0, HOLLAND_CODE_SCORES.length).forEach((letter, index) => {
+    if (isRiasecType(letter)) scores[letter] = HOLLAND_CODE_SCORES[index];
+  });
+
+  return scores;
+}
+
+/**
+ * Similarity of two interest profiles (0-1), from the correlation of their
+ * scores. Scales don't need to match; a flat profile scores 0.5.
+ */
+export function interestSimilarity(a: RiasecScores, b: RiasecScores): number {
+  const xs = RIASEC_TYPES.map(t => a[t]);
+  const ys = RIASEC_TYPES.map(t => b[t]);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return 0.5;
+  return (covariance / Math.sqrt(varianceX * varianceY) + 1) / 2;
+}
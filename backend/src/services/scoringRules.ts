@@ -0,0 +1,194 @@
+/**
+ * Assessment Scoring Rules
+ *
+ * Each question's `scoring` maps answer options to effects on the profile:
+ * a target field, the trait (or preference value) it contributes to, and a
+ * weight. The evaluator below applies those rules generically, so rewording a
+ * question never changes how it is scored. A question's `askWhen` condition
+ * decides whether it applies at all, given the answers so far.
+ */
+
+import {
+  AskCondition,
+  AssessmentAnswer,
+  AssessmentQuestion,
+  EducationLevel,
+  RiasecScores,
+  ScoringTarget,
+  StudentProfile,
+} from '../types';
+import { RIASEC_TYPES, isRiasecType } from './riasec';
+
+export const SCORING_TARGETS: ScoringTarget[] = [
+  'interests',
+  'skills',
+  'riasec',
+  'workEnvironment',
+  'teamPreference',
+  'educationGoal',
+];
+
+// Allowed values for targets that select a single preference
+const CHOICE_VALUES: Record<'workEnvironment' | 'teamPreference' | 'educationGoal', string[]> = {
+  workEnvironment: ['indoor', 'outdoor', 'mixed'],
+  teamPreference: ['team', 'solo', 'both'],
+  educationGoal: ['high-school', 'certificate', 'associate', 'bachelor'] as EducationLevel[],
+};
+
+export interface ScoringResult {
+  // Accumulated weight per trait, strongest first
+  interests: Record<string, number>;
+  skills: Record<string, number>;
+  // 0-100 per interest type, or undefined when no RIASEC items were answered
+  riasecScores?: RiasecScores;
+  workEnvironment?: StudentProfile['workEnvironment'];
+  teamPreference?: StudentProfile['teamPreference'];
+  educationGoal?: EducationLevel;
+}
+
+function isChoiceTarget(target: ScoringTarget): target is keyof typeof CHOICE_VALUES {
+  return target in CHOICE_VALUES;
+}
+
+function sortByWeight(weights: Map<string, number>): Record<string, number> {
+  return Object.fromEntries([...weights].sort((a, b) => b[1] - a[1]));
+}
+
+/**
+ * Evaluate an askWhen condition against the answers so far
+ */
+export function evaluateAskCondition(condition: AskCondition, answers: AssessmentAnswer[]): boolean {
+  if ('all' in condition) return condition.all.every(c => evaluateAskCondition(c, answers));
+  if ('any' in condition) return condition.any.some(c => evaluateAskCondition(c, answers));
+
+  const answer = answers.find(a => a.questionId === condition.questionId);
+  return !!answer && condition.answerIn.includes(String(answer.answer));
+}
+
+/**
+ * Whether a question should be asked given the answers so far
+ */
+export function isApplicable(question: AssessmentQuestion, answers: AssessmentAnswer[]): boolean {
+  return !question.askWhen || evaluateAskCondition(question.askWhen, answers);
+}
+
+/**
+ * Check that a question's askWhen condition only refers to earlier questions
+ * and their options, returning a message per problem
+ */
+export function validateAskCondition(question: AssessmentQuestion, questions: AssessmentQuestion[]): string[] {
+  const errors: string[] = [];
+
+  const check = (condition: AskCondition) => {
+    if ('all' in condition) return condition.all.forEach(check);
+    if ('any' in condition) return condition.any.forEach(check);
+
+    const source = questions.find(q => q.id === condition.questionId);
+    if (!source || source.order >= question.order) {
+      errors.push(`Question ${question.id} depends on ${condition.questionId}, which is not an earlier question`);
+      return;
+    }
+    for (const option of condition.answerIn) {
+      if (!source.options?.includes(option)) {
+        errors.push(`Question ${question.id} depends on unknown option "${option}" of ${source.id}`);
+      }
+    }
+  };
+
+  if (question.askWhen) check(question.askWhen);
+  return errors;
+}
+
+/**
+ * Check a question's scoring rules, returning a message per problem
+ */
+export function validateScoringRules(question: AssessmentQuestion): string[] {
+  const errors: string[] = [];
+  if (!question.scoring) return errors;
+
+  for (const [option, effects] of Object.entries(question.scoring)) {
+    if (!question.options?.includes(option)) {
+      errors.push(`Scoring rule for question ${question.id} references unknown option "${option}"`);
+    }
+
+    for (const effect of effects) {
+      if (!SCORING_TARGETS.includes(effect.target)) {
+        errors.push(`Scoring rule for question ${question.id} has unknown target "${effect.target}"`);
+        continue;
+      }
+      if (typeof effect.weight !== 'number' || effect.weight < 0 || effect.weight > 1) {
+        errors.push(`Scoring rule for question ${question.id} has a weight outside 0-1`);
+      }
+      if (!effect.trait) {
+        errors.push(`Scoring rule for question ${question.id} is missing a trait`);
+      } else if (effect.target === 'riasec' && !isRiasecType(effect.trait)) {
+        errors.push(`Scoring rule for question ${question.id} has unknown RIASEC type "${effect.trait}"`);
+      } else if (isChoiceTarget(effect.target) && !CHOICE_VALUES[effect.target].includes(effect.trait)) {
+        errors.push(`Scoring rule for question ${question.id} has invalid ${effect.target} "${effect.trait}"`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Apply the scoring rules of the answered questions
+ */
+export function evaluateScoringRules(
+  questions: AssessmentQuestion[],
+  answers: AssessmentAnswer[]
+): ScoringResult {
+  const traits: Record<'interests' | 'skills', Map<string, number>> = { interests: new Map(), skills: new Map() };
+  const choices: Record<keyof typeof CHOICE_VALUES, Map<string, number>> = {
+    workEnvironment: new Map(),
+    teamPreference: new Map(),
+    educationGoal: new Map(),
+  };
+  const riasec = new Map<string, { sum: number; count: number }>();
+
+  for (const answer of answers) {
+    const question = questions.find(q => q.id === answer.questionId);
+    // Answers to follow-ups that no longer apply don't count
+    if (!question || !isApplicable(question, answers)) continue;
+    const effects = question.scoring?.[String(answer.answer)] || [];
+
+    for (const effect of effects) {
+      if (effect.target === 'interests' || effect.target === 'skills') {
+        const map = traits[effect.target];
+        map.set(effect.trait, (map.get(effect.trait) || 0) + effect.weight);
+      } else if (effect.target === 'riasec') {
+        const total = riasec.get(effect.trait) || { sum: 0, count: 0 };
+        riasec.set(effect.trait, { sum: total.sum + effect.weight, count: total.count + 1 });
+      } else if (isChoiceTarget(effect.target)) {
+        const map = choices[effect.target];
+        map.set(effect.trait, (map.get(effect.trait) || 0) + effect.weight);
+      }
+    }
+  }
+
+  // Traits only count once they carry some weight
+  for (const map of Object.values(traits)) {
+    for (const [trait, weight] of map) {
+      if (weight <= 0) map.delete(trait);
+    }
+  }
+
+  // Single-value preferences take the option with the most weight
+  const choose = (map: Map<string, number>) =>
+    [...map].sort((a, b) => b[1] - a[1]).find(([, weight]) => weight > 0)?.[0];
+
+  return {
+    interests: sortByWeight(traits.interests),
+    skills: sortByWeight(traits.skills),
+    riasecScores: riasec.size > 0
+      ? Object.fromEntries(RIASEC_TYPES.map(t => {
+        const total = riasec.get(t);
+        return [t, total && total.count > 0 ? Math.round((total.sum / total.count) * 100) : 0];
+      })) as RiasecScores
+      : undefined,
+    workEnvironment: choose(choices.workEnvironment) as ScoringResult['workEnvironment'],
+    teamPreference: choose(choices.teamPreference) as ScoringResult['teamPreference'],
+    educationGoal: choose(choices.educationGoal) as EducationLevel | undefined,
+  };
+}
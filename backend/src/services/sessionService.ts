@@ -1,48 +1,85 @@
-import { randomUUID } from 'crypto';
-import { SessionData, AssessmentAnswer, StudentProfile } from '../types';
-
-// In-memory session storage (use Redis in production)
-const sessions = new Map<string, SessionData>();
-
-// Clean up expired sessions every hour
-setInterval(() => {
-  const now = new Date();
-  for (const [sessionId, session] of sessions.entries()) {
-    if (session.expiresAt < now) {
-      sessions.delete(sessionId);
-    }
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { SessionData, AssessmentAnswer, AssessmentType, StudentProfile } from '../types';
+import { getSessionConfig } from '../config/sessionConfig';
+import { SessionStore, createSessionStore } from '../stores';
+import { UNVERSIONED_ASSESSMENT_VERSION } from './assessmentService';
+
+// Session storage backend (memory or Redis, chosen by SESSION_STORE)
+let store: SessionStore | null = null;
+
+function getStore(): SessionStore {
+  if (!store) {
+    store = createSessionStore();
   }
-}, 3600000);
+  return store;
+}
+
+// Answer saves in progress by session. Each waits for the one before, so
+// overlapping saves merge in turn instead of overwriting each other. (The
+// assessment page also sends saves one at a time, which holds across instances.)
+const pendingSaves = new Map<string, Promise<unknown>>();
+
+function inTurn<T>(sessionId: string, save: () => Promise<T>): Promise<T> {
+  const previous = pendingSaves.get(sessionId) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(save);
+  pendingSaves.set(sessionId, next);
+  next.catch(() => undefined).finally(() => {
+    if (pendingSaves.get(sessionId) === next) pendingSaves.delete(sessionId);
+  });
+  return next;
+}
+
+function hashLinkToken(linkToken: string): string {
+  return createHash('sha256').update(linkToken).digest('hex');
+}
+
+/**
+ * Milliseconds until a session expires
+ */
+function remainingTtl(session: SessionData): number {
+  return session.expiresAt.getTime() - Date.now();
+}
 
 export class SessionService {
   /**
-   * Create a new anonymous session
+   * Replace the session store (used by tests)
+   */
+  static setStore(newStore: SessionStore | null): void {
+    store = newStore;
+  }
+
+  /**
+   * Create a new anonymous session. The link token is only returned here,
+   * for the client that started the session to link it to an account.
    */
-  static createSession(): SessionData {
+  static async createSession(): Promise<SessionData & { linkToken: string }> {
+    const { ttlMs } = getSessionConfig();
     const sessionId = randomUUID();
+    const linkToken = randomBytes(32).toString('hex');
     const now = new Date();
-    const expiresAt = new Date(now.getTime() + 24 * 60 * 60 * 1000); // 24 hours
+    const expiresAt = new Date(now.getTime() + ttlMs);
 
     const session: SessionData = {
       sessionId,
+      linkTokenHash: hashLinkToken(linkToken),
       createdAt: now,
       expiresAt,
     };
 
-    sessions.set(sessionId, session);
-    return session;
+    await getStore().set(session, ttlMs);
+    return { ...session, linkToken };
   }
 
   /**
    * Get session by ID
    */
-  static getSession(sessionId: string): SessionData | null {
-    const session = sessions.get(sessionId);
+  static async getSession(sessionId: string): Promise<SessionData | null> {
+    const session = await getStore().get(sessionId);
     if (!session) return null;
 
-    // Check if expired
+    // The store expires sessions itself; this guards against clock skew between instances
     if (session.expiresAt < new Date()) {
-      sessions.delete(sessionId);
+      await getStore().delete(sessionId);
       return null;
     }
 
@@ -50,46 +87,120 @@ export class SessionService {
   }
 
   /**
-   * Update session with assessment answers
+   * Update session with assessment answers, stamped with the assessment
+   * type and version they answer
    */
-  static updateSessionAnswers(
+  static async updateSessionAnswers(
     sessionId: string,
-    answers: AssessmentAnswer[]
-  ): boolean {
-    const session = this.getSession(sessionId);
+    answers: AssessmentAnswer[],
+    assessment?: { type: AssessmentType; version: number }
+  ): Promise<boolean> {
+    const session = await this.getSession(sessionId);
     if (!session) return false;
 
     session.assessmentAnswers = answers;
-    sessions.set(sessionId, session);
+    if (assessment) {
+      session.assessmentType = assessment.type;
+      session.assessmentVersion = assessment.version;
+    }
+    await getStore().set(session, remainingTtl(session));
     return true;
   }
 
+  /**
+   * Save answers one or more at a time, replacing earlier answers to the
+   * same questions. Answers to a different assessment type or version than
+   * the one in progress start the assessment over. A profile built from
+   * the old answers is dropped once they change.
+   * Returns the merged answers, or null if the session doesn't exist.
+   */
+  static upsertSessionAnswers(
+    sessionId: string,
+    answers: AssessmentAnswer[],
+    assessment: { type: AssessmentType; version: number }
+  ): Promise<AssessmentAnswer[] | null> {
+    return inTurn(sessionId, async () => {
+      const session = await this.getSession(sessionId);
+      if (!session) return null;
+
+      // Sessions saved before assessments were versioned answered version 1
+      const sameAssessment = (session.assessmentType || 'standard') === assessment.type
+        && (session.assessmentVersion ?? UNVERSIONED_ASSESSMENT_VERSION) === assessment.version;
+      const merged = new Map(
+        (sameAssessment ? session.assessmentAnswers || [] : []).map(a => [a.questionId, a])
+      );
+      const changed = !sameAssessment || answers.some(answer =>
+        JSON.stringify(merged.get(answer.questionId)?.answer) !== JSON.stringify(answer.answer));
+      for (const answer of answers) {
+        merged.set(answer.questionId, answer);
+      }
+
+      session.assessmentAnswers = [...merged.values()];
+      session.assessmentType = assessment.type;
+      session.assessmentVersion = assessment.version;
+      if (changed) {
+        delete session.profileData;
+      }
+      await getStore().set(session, remainingTtl(session));
+      return session.assessmentAnswers;
+    });
+  }
+
   /**
    * Update session with profile data
    */
-  static updateSessionProfile(
+  static async updateSessionProfile(
     sessionId: string,
     profileData: Partial<StudentProfile>
-  ): boolean {
-    const session = this.getSession(sessionId);
+  ): Promise<boolean> {
+    const session = await this.getSession(sessionId);
     if (!session) return false;
 
     session.profileData = profileData;
-    sessions.set(sessionId, session);
+    await getStore().set(session, remainingTtl(session));
     return true;
   }
 
+  /**
+   * Link a session to a student account. Only the client holding the
+   * session's link token can link it, and only to one account.
+   * Returns the linked session, or why it can't be linked.
+   */
+  static linkSession(
+    sessionId: string,
+    linkToken: string,
+    userId: string
+  ): Promise<{ session?: SessionData; error?: string }> {
+    return inTurn(sessionId, async () => {
+      const session = await this.getSession(sessionId);
+      if (!session) return { error: 'Session not found' };
+
+      const expected = Buffer.from(session.linkTokenHash || '', 'hex');
+      const given = Buffer.from(hashLinkToken(linkToken), 'hex');
+      if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+        return { error: 'Session was not started by this client' };
+      }
+      if (session.linkedUserId && session.linkedUserId !== userId) {
+        return { error: 'Session is already linked to another account' };
+      }
+
+      session.linkedUserId = userId;
+      await getStore().set(session, remainingTtl(session));
+      return { session };
+    });
+  }
+
   /**
    * Delete session
    */
-  static deleteSession(sessionId: string): boolean {
-    return sessions.delete(sessionId);
+  static async deleteSession(sessionId: string): Promise<boolean> {
+    return getStore().delete(sessionId);
   }
 
   /**
    * Get all active sessions (for debugging)
    */
-  static getActiveSessions(): number {
-    return sessions.size;
+  static async getActiveSessions(): Promise<number> {
+    return getStore().count();
   }
 }
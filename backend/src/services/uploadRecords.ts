@@ -0,0 +1,256 @@
+/**
+ * Upload Records
+ *
+ * The columns each kind of admin upload accepts and how a CSV row becomes
+ * a course, training program or career overlay. Lists (grade levels,
+ * careers, eligibility, certifications) are separated by semicolons.
+ */
+
+import { Career, CareerOverlay, Course, DataUpload, EducationLevel, Sector, TrainingProgram } from '../types';
+import { PROGRAM_TYPES } from './programService';
+
+export type UploadType = DataUpload['type'];
+
+export const UPLOAD_TYPES: UploadType[] = ['courses', 'programs', 'careers'];
+
+const SECTORS: Sector[] = ['healthcare', 'infrastructure'];
+const EDUCATION_LEVELS: EducationLevel[] = ['high-school', 'certificate', 'associate', 'bachelor'];
+
+// Grades a course can be offered in
+const MIN_GRADE = 6;
+const MAX_GRADE = 12;
+
+export interface UploadColumns {
+  required: string[];
+  optional: string[];
+}
+
+export const UPLOAD_COLUMNS: Record<UploadType, UploadColumns> = {
+  courses: {
+    required: ['schoolId', 'code', 'name', 'gradeLevels', 'category'],
+    optional: ['isCTE', 'relatedCareers'],
+  },
+  programs: {
+    required: ['id', 'name', 'provider', 'type', 'sector', 'targetCareers', 'duration', 'cost', 'isPaid', 'zipCode', 'city', 'state'],
+    optional: ['eligibility', 'applicationUrl', 'applicationDeadline', 'contactEmail', 'isActive'],
+  },
+  careers: {
+    required: ['careerId'],
+    optional: ['title', 'description', 'averageSalary', 'salaryMin', 'salaryMax', 'growthOutlook', 'requiredEducation', 'certifications'],
+  },
+};
+
+export interface UploadContext {
+  // Courses may only be uploaded for this school, when set
+  schoolId?: string;
+  // Look up a career by ID or O*NET code
+  findCareer(idOrCode: string): Career | null;
+}
+
+export type UploadRecord =
+  | { type: 'courses'; course: Omit<Course, 'id'> }
+  | { type: 'programs'; program: TrainingProgram }
+  | { type: 'careers'; overlay: CareerOverlay };
+
+/**
+ * Reads typed values out of a row, collecting a message for each bad cell
+ */
+class RowReader {
+  readonly errors: string[] = [];
+
+  constructor(private readonly values: Record<string, string>) {}
+
+  text(column: string, required = false): string | undefined {
+    const value = this.values[column] || '';
+    if (!value) {
+      if (required) this.errors.push(`${column} is required`);
+      return undefined;
+    }
+    return value;
+  }
+
+  number(column: string, required = false): number | undefined {
+    const value = this.text(column, required);
+    if (value === undefined) return undefined;
+    const parsed = Number(value.replace(/[$,]/g, ''));
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      this.errors.push(`${column} must be a non-negative number`);
+      return undefined;
+    }
+    return parsed;
+  }
+
+  boolean(column: string, required = false): boolean | undefined {
+    const value = this.text(column, required)?.toLowerCase();
+    if (value === undefined) return undefined;
+    if (['true', 'yes', 'y', '1'].includes(value)) return true;
+    if (['false', 'no', 'n', '0'].includes(value)) return false;
+    this.errors.push(`${column} must be true or false`);
+    return undefined;
+  }
+
+  date(column: string): Date | undefined {
+    const value = this.text(column);
+    if (value === undefined) return undefined;
+    const parsed = new Date(value);
+    if (isNaN(parsed.getTime())) {
+      this.errors.push(`${column} must be a date`);
+      return undefined;
+    }
+    return parsed;
+  }
+
+  email(column: string): string | undefined {
+    const value = this.text(column);
+    if (value !== undefined && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+      this.errors.push(`${column} must be an email address`);
+      return undefined;
+    }
+    return value;
+  }
+
+  oneOf<T extends string>(column: string, options: T[], required = false): T | undefined {
+    const value = this.text(column, required);
+    if (value === undefined) return undefined;
+    if (!options.includes(value as T)) {
+      this.errors.push(`${column} must be one of: ${options.join(', ')}`);
+      return undefined;
+    }
+    return value as T;
+  }
+
+  list(column: string, required = false): string[] {
+    const value = this.text(column, required);
+    return value ? value.split(';').map(item => item.trim()).filter(Boolean) : [];
+  }
+
+  /**
+   * Career IDs from a list column, resolving O*NET codes to career IDs
+   */
+  careers(column: string, context: UploadContext, required = false): string[] {
+    const ids: string[] = [];
+    for (const idOrCode of this.list(column, required)) {
+      const career = context.findCareer(idOrCode);
+      if (career) ids.push(career.id);
+      else this.errors.push(`${column} has unknown career "${idOrCode}"`);
+    }
+    return ids;
+  }
+}
+
+function parseCourse(row: RowReader, context: UploadContext): Omit<Course, 'id'> {
+  const schoolId = row.text('schoolId', true) || '';
+  if (schoolId && context.schoolId && schoolId !== context.schoolId) {
+    row.errors.push(`schoolId must be your school (${context.schoolId})`);
+  }
+
+  const gradeLevels = row.list('gradeLevels', true).map(Number);
+  if (gradeLevels.some(grade => !Number.isInteger(grade) || grade < MIN_GRADE || grade > MAX_GRADE)) {
+    row.errors.push(`gradeLevels must be grades ${MIN_GRADE}-${MAX_GRADE}`);
+  }
+
+  return {
+    schoolId,
+    code: row.text('code', true) || '',
+    name: row.text('name', true) || '',
+    gradeLevels: [...new Set(gradeLevels)].sort((a, b) => a - b),
+    category: row.text('category', true) || '',
+    isCTE: row.boolean('isCTE') ?? false,
+    relatedCareers: row.careers('relatedCareers', context),
+  };
+}
+
+function parseProgram(row: RowReader, context: UploadContext): TrainingProgram {
+  const zipCode = row.text('zipCode', true) || '';
+  if (zipCode && !/^\d{5}$/.test(zipCode)) {
+    row.errors.push('zipCode must be 5 digits');
+  }
+  const state = (row.text('state', true) || '').toUpperCase();
+  if (state && !/^[A-Z]{2}$/.test(state)) {
+    row.errors.push('state must be a two-letter abbreviation');
+  }
+
+  return {
+    id: row.text('id', true) || '',
+    name: row.text('name', true) || '',
+    provider: row.text('provider', true) || '',
+    type: row.oneOf('type', PROGRAM_TYPES, true) || 'certificate',
+    sector: row.oneOf('sector', SECTORS, true) || 'healthcare',
+    targetCareers: row.careers('targetCareers', context, true),
+    duration: row.text('duration', true) || '',
+    cost: row.number('cost', true) ?? 0,
+    isPaid: row.boolean('isPaid', true) ?? false,
+    location: { zipCode, city: row.text('city', true) || '', state },
+    eligibility: row.list('eligibility'),
+    applicationUrl: row.text('applicationUrl'),
+    applicationDeadline: row.date('applicationDeadline'),
+    contactEmail: row.email('contactEmail'),
+    isActive: row.boolean('isActive') ?? true,
+  };
+}
+
+function parseCareerOverlay(row: RowReader, context: UploadContext): CareerOverlay {
+  const idOrCode = row.text('careerId', true);
+  const career = idOrCode ? context.findCareer(idOrCode) : null;
+  if (idOrCode && !career) {
+    row.errors.push(`careerId "${idOrCode}" is not a known career`);
+  }
+
+  const fields: CareerOverlay = {
+    careerId: career?.id || '',
+    title: row.text('title'),
+    description: row.text('description'),
+    averageSalary: row.number('averageSalary'),
+    salaryMin: row.number('salaryMin'),
+    salaryMax: row.number('salaryMax'),
+    growthOutlook: row.text('growthOutlook'),
+    requiredEducation: row.oneOf('requiredEducation', EDUCATION_LEVELS),
+    certifications: row.list('certifications'),
+  };
+  if (fields.certifications!.length === 0) fields.certifications = undefined;
+
+  // Only the cells that were filled in override the catalog
+  const overlay = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as unknown as CareerOverlay;
+  if (idOrCode && Object.keys(overlay).length === 1) {
+    row.errors.push('at least one career field must be set');
+  }
+
+  const min = overlay.salaryMin ?? career?.salaryRange.min;
+  const max = overlay.salaryMax ?? career?.salaryRange.max;
+  if (min !== undefined && max !== undefined && min > max) {
+    row.errors.push('salaryMin must not be more than salaryMax');
+  }
+
+  return overlay;
+}
+
+/**
+ * Headers a file of this type must have but doesn't
+ */
+export function missingColumns(type: UploadType, headers: string[]): string[] {
+  return UPLOAD_COLUMNS[type].required.filter(column => !headers.includes(column));
+}
+
+/**
+ * Convert one CSV row into a record, or the reasons it can't be
+ */
+export function parseUploadRow(
+  type: UploadType,
+  values: Record<string, string>,
+  context: UploadContext
+): { record?: UploadRecord; errors: string[] } {
+  const row = new RowReader(values);
+
+  let record: UploadRecord;
+  if (type === 'courses') {
+    record = { type, course: parseCourse(row, context) };
+  } else if (type === 'programs') {
+    record = { type, program: parseProgram(row, context) };
+  } else {
+    record = { type, overlay: parseCareerOverlay(row, context) };
+  }
+
+  return row.errors.length > 0 ? { errors: row.errors } : { record, errors: [] };
+}
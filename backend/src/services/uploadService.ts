@@ -0,0 +1,200 @@
+import { randomUUID } from 'crypto';
+import { DataUpload } from '../types';
+import { getUploadConfig } from '../config/uploadConfig';
+import { UploadRepository } from '../repositories/uploadRepository';
+import { CatalogDataRepository } from '../repositories/catalogDataRepository';
+import { parseCsv } from './csvParser';
+import { missingColumns, parseUploadRow, UploadContext, UploadRecord, UploadType } from './uploadRecords';
+import { setCareerOverlays } from './careerCatalog';
+import { CareerService } from './careerService';
+import { CourseService } from './courseService';
+import { ProgramService } from './programService';
+
+// Most uploads listed at once
+const MAX_LISTED_UPLOADS = 200;
+
+// Finish time of the last data-changing upload this instance has loaded; undefined until the first load
+let loadedThrough: number | null | undefined;
+
+export interface UploadInput {
+  type: UploadType;
+  filename: string;
+  content: string;
+  uploadedBy: string;
+  // The uploading admin's school; courses can only be uploaded for it
+  schoolId?: string;
+}
+
+/**
+ * Admin CSV uploads of courses, training programs and career overlays.
+ * Files are processed in the background; each row is validated on its
+ * own, so good rows are saved and bad ones are reported on the upload.
+ */
+export class UploadService {
+  /**
+   * Record an upload and start processing it. Resolves once the upload is
+   * saved as pending; `processing` resolves when it has finished.
+   */
+  static async startUpload(input: UploadInput): Promise<{ upload: DataUpload; processing: Promise<DataUpload> }> {
+    const upload: DataUpload = {
+      id: randomUUID(),
+      type: input.type,
+      filename: input.filename,
+      uploadedBy: input.uploadedBy,
+      recordsProcessed: 0,
+      recordsFailed: 0,
+      status: 'pending',
+      errors: [],
+      uploadedAt: new Date(),
+    };
+    await UploadRepository.create(upload, getUploadConfig().instanceId);
+
+    const context: UploadContext = {
+      schoolId: input.schoolId,
+      findCareer: idOrCode => CareerService.getCareerById(idOrCode) || CareerService.getCareerByCode(idOrCode),
+    };
+    const processing = new Promise<void>(resolve => setImmediate(resolve))
+      .then(() => this.processUpload({ ...upload }, input.content, context));
+
+    return { upload, processing };
+  }
+
+  /**
+   * Get an upload with its error report
+   */
+  static async getUpload(id: string): Promise<DataUpload | null> {
+    return UploadRepository.findById(id);
+  }
+
+  /**
+   * List uploads, newest first
+   */
+  static async listUploads(limit = 50): Promise<DataUpload[]> {
+    return UploadRepository.list(Math.min(limit, MAX_LISTED_UPLOADS));
+  }
+
+  /**
+   * Mark uploads a restart interrupted as failed; their files were never
+   * kept, so they can't be resumed. Only this instance's uploads and those
+   * whose instance has stopped sending heartbeats are failed, so uploads
+   * other instances are processing carry on. Run at startup.
+   */
+  static async failInterruptedUploads(): Promise<number> {
+    const { instanceId, staleAfterMs } = getUploadConfig();
+    const now = new Date();
+    return UploadRepository.failUnfinished(
+      'Processing was interrupted by a server restart; upload the file again',
+      now,
+      instanceId,
+      new Date(now.getTime() - staleAfterMs)
+    );
+  }
+
+  /**
+   * Serve uploaded courses, programs and career overlays from the catalogs.
+   * Run at startup and after each upload.
+   */
+  static async loadUploadedData(): Promise<void> {
+    // Read before loading, so an upload finishing meanwhile is picked up by the next check
+    const lastChange = await UploadRepository.lastDataChange();
+
+    CourseService.setUploadedCourses(await CatalogDataRepository.listCourses());
+    ProgramService.setUploadedPrograms(await CatalogDataRepository.listPrograms());
+    setCareerOverlays(await CatalogDataRepository.listCareerOverlays());
+    loadedThrough = lastChange?.getTime() ?? null;
+  }
+
+  /**
+   * Load uploaded data again if an upload has changed it since the last
+   * load, such as one processed by another instance. Returns whether it
+   * was reloaded.
+   */
+  static async reloadUploadedDataIfChanged(): Promise<boolean> {
+    const lastChange = await UploadRepository.lastDataChange();
+    if (loadedThrough !== undefined && (lastChange?.getTime() ?? null) === loadedThrough) {
+      return false;
+    }
+    await this.loadUploadedData();
+    return true;
+  }
+
+  /**
+   * Validate and save every row of an upload, then record the outcome
+   */
+  private static async processUpload(upload: DataUpload, content: string, context: UploadContext): Promise<DataUpload> {
+    const { maxReportedErrors, heartbeatIntervalMs } = getUploadConfig();
+    const errors: string[] = [];
+
+    // Show other instances this upload is still being worked on
+    const heartbeat = setInterval(() => {
+      UploadRepository.heartbeat(upload.id, new Date())
+        .catch(error => console.error(`Error recording heartbeat for upload ${upload.id}:`, error));
+    }, heartbeatIntervalMs);
+    heartbeat.unref();
+
+    try {
+      upload.status = 'processing';
+      await UploadRepository.update(upload);
+
+      const table = parseCsv(content);
+      const missing = missingColumns(upload.type, table.headers);
+      if (missing.length > 0) {
+        throw new Error(`Missing required columns: ${missing.join(', ')}`);
+      }
+
+      for (const row of table.rows) {
+        const { record, errors: rowErrors } = row.error
+          ? { record: undefined, errors: [row.error] }
+          : parseUploadRow(upload.type, row.values, context);
+
+        if (record) {
+          try {
+            await this.saveRecord(record);
+            upload.recordsProcessed++;
+            continue;
+          } catch (error) {
+            console.error(`Error saving row ${row.line} of upload ${upload.id}:`, error);
+            rowErrors.push('could not be saved');
+          }
+        }
+
+        upload.recordsFailed++;
+        errors.push(`Line ${row.line}: ${rowErrors.join('; ')}`);
+      }
+
+      upload.status = upload.recordsProcessed === 0 && upload.recordsFailed > 0 ? 'failed' : 'completed';
+
+      // Serve the new data before the upload shows as finished
+      if (upload.recordsProcessed > 0) {
+        await this.loadUploadedData();
+      }
+    } catch (error) {
+      upload.status = 'failed';
+      errors.push((error as Error).message);
+    }
+    clearInterval(heartbeat);
+
+    upload.errors = errors.length > maxReportedErrors
+      ? [...errors.slice(0, maxReportedErrors), `...and ${errors.length - maxReportedErrors} more`]
+      : errors;
+    upload.completedAt = new Date();
+
+    try {
+      await UploadRepository.update(upload);
+    } catch (error) {
+      console.error(`Error finishing upload ${upload.id}:`, error);
+    }
+
+    return upload;
+  }
+
+  private static async saveRecord(record: UploadRecord): Promise<void> {
+    if (record.type === 'courses') {
+      await CatalogDataRepository.upsertCourse(record.course);
+    } else if (record.type === 'programs') {
+      await CatalogDataRepository.upsertProgram(record.program);
+    } else {
+      await CatalogDataRepository.upsertCareerOverlay(record.overlay);
+    }
+  }
+}
@@ -0,0 +1,194 @@
+import { Career, GeographicRegion } from '../types';
+import { getCachedSeries, BLSSeries, BLSSeriesGroup } from './blsClient';
+import { getBLSConfig } from '../config/blsConfig';
+import { getCareerCatalog } from './careerCatalog';
+import { GeographyService } from './geographyService';
+
+export type OewsAreaType = 'metro' | 'state' | 'national';
+
+export interface OewsArea {
+  type: OewsAreaType;
+  // Seven-digit OEWS area code
+  code: string;
+  name: string;
+}
+
+export type WagePercentile = 'p10' | 'p25' | 'median' | 'p75' | 'p90';
+
+export interface OccupationWages {
+  // Six-digit SOC code, e.g. '29-1141'
+  socCode: string;
+  // Area the wages cover, e.g. 'Columbus, OH' or 'Ohio'
+  area: string;
+  areaType: OewsAreaType;
+  // Survey year, e.g. '2025'
+  year: string;
+  // Annual wages; percentiles OEWS doesn't publish for the area are left out
+  median: number;
+  percentiles: Partial<Record<Exclude<WagePercentile, 'median'>, number>>;
+  fetchedAt: Date;
+}
+
+// OEWS data type codes for annual wages at each percentile
+export const OEWS_DATATYPES: Record<WagePercentile, string> = {
+  p10: '11',
+  p25: '12',
+  median: '13',
+  p75: '14',
+  p90: '15',
+};
+
+const AREA_TYPE_CODES: Record<OewsAreaType, string> = { metro: 'M', state: 'S', national: 'N' };
+
+// Broadest areas first, so the warmup fills in the fallbacks before the details
+const AREA_TYPE_ORDER: OewsAreaType[] = ['national', 'state', 'metro'];
+
+const PERCENTILES = Object.keys(OEWS_DATATYPES) as WagePercentile[];
+
+/**
+ * OEWS areas for a region, most local first. OEWS publishes metropolitan
+ * areas, not micropolitan ones.
+ */
+function oewsAreasFor(region: GeographicRegion | null): OewsArea[] {
+  const areas: OewsArea[] = [];
+  if (region?.metro?.type === 'metropolitan') {
+    areas.push({ type: 'metro', code: `00${region.metro.cbsaCode}`, name: region.metro.name });
+  }
+  if (region) {
+    areas.push({ type: 'state', code: `${region.stateFips}00000`, name: region.stateName });
+  }
+  areas.push({ type: 'national', code: '0000000', name: 'United States' });
+  return areas;
+}
+
+/**
+ * Six-digit SOC code of a career's O*NET occupation
+ */
+function socCodeFor(career: Career): string | null {
+  const socCode = career.onetCode?.slice(0, 7);
+  return socCode && /^\d{2}-\d{4}$/.test(socCode) ? socCode : null;
+}
+
+/**
+ * OEWS series ID for an occupation in an area, all industries
+ */
+export function oewsSeriesId(socCode: string, area: OewsArea, percentile: WagePercentile): string {
+  return `OEU${AREA_TYPE_CODES[area.type]}${area.code}000000${socCode.replace('-', '')}${OEWS_DATATYPES[percentile]}`;
+}
+
+/**
+ * Years of OEWS data fetched (and cached) for each series; a survey year is
+ * published the spring after it ends
+ */
+function oewsYears(): { startYear: number; endYear: number } {
+  const currentYear = new Date().getFullYear();
+  return { startYear: currentYear - 2, endYear: currentYear };
+}
+
+/**
+ * Latest annual value in a series (suppressed values such as '*' or '#' are skipped)
+ */
+function latestValue(series: BLSSeries | undefined): { year: string; value: number } | null {
+  const point = series?.data.find(d => !isNaN(parseFloat(d.value)));
+  return point ? { year: point.year, value: parseFloat(point.value) } : null;
+}
+
+/**
+ * Wages for an occupation in an area from its cached series, or null when
+ * OEWS publishes no median for it there
+ */
+function toWages(socCode: string, area: OewsArea, series: BLSSeries[]): OccupationWages | null {
+  const values = Object.fromEntries(PERCENTILES.map(percentile => {
+    const seriesId = oewsSeriesId(socCode, area, percentile);
+    return [percentile, latestValue(series.find(s => s.seriesID === seriesId))];
+  })) as Record<WagePercentile, { year: string; value: number } | null>;
+  const { median, ...others } = values;
+  if (!median) return null;
+
+  const medianSeries = series.find(s => s.seriesID === oewsSeriesId(socCode, area, 'median'));
+  return {
+    socCode,
+    area: area.name,
+    areaType: area.type,
+    year: median.year,
+    median: median.value,
+    percentiles: Object.fromEntries(
+      Object.entries(others).filter(([, v]) => v !== null).map(([percentile, v]) => [percentile, v!.value])
+    ),
+    fetchedAt: medianSeries?.fetchedAt || new Date(),
+  };
+}
+
+/**
+ * Occupation wages by area from the BLS Occupational Employment and Wage
+ * Statistics (OEWS) program. Wages are only read from the BLS cache, which
+ * the warmup job keeps filled, so lookups never wait on BLS.
+ */
+export class WageService {
+  /**
+   * Cached wages for careers by career ID: the region's metro area's when
+   * published, else its state's, else national. Stale wages are served
+   * until the warmup refreshes them; careers without cached wages are left
+   * out, and nothing is fetched.
+   */
+  static async getWages(careers: Career[], region: GeographicRegion | null): Promise<Map<string, OccupationWages>> {
+    const { enabled, oews } = getBLSConfig();
+    const { startYear, endYear } = oewsYears();
+    const wagesBySoc = new Map<string, OccupationWages>();
+    let pending = [...new Set(careers.map(socCodeFor).filter((code): code is string => !!code))];
+
+    for (const area of oewsAreasFor(region)) {
+      if (pending.length === 0 || !enabled) break;
+
+      const series = await getCachedSeries(
+        pending.flatMap(socCode => PERCENTILES.map(percentile => oewsSeriesId(socCode, area, percentile))),
+        startYear,
+        endYear,
+        { cacheTTL: oews.ttlMs }
+      );
+      for (const socCode of pending) {
+        const wages = toWages(socCode, area, series);
+        if (wages) wagesBySoc.set(socCode, wages);
+      }
+
+      pending = pending.filter(socCode => !wagesBySoc.has(socCode));
+    }
+
+    const result = new Map<string, OccupationWages>();
+    for (const career of careers) {
+      const wages = wagesBySoc.get(socCodeFor(career) || '');
+      if (wages) result.set(career.id, wages);
+    }
+    return result;
+  }
+
+  /**
+   * OEWS series for every career's occupation in every area the ZIP
+   * crosswalk reaches (nationally, then by state, then by metro area), for
+   * the warmup job to keep cached
+   */
+  static getSeriesGroup(): BLSSeriesGroup {
+    const socCodes = [...new Set(getCareerCatalog().careers.map(socCodeFor).filter((code): code is string => !!code))];
+    const areas = new Map<string, OewsArea>();
+    for (const region of [null, ...GeographyService.getCrosswalkRegions()]) {
+      for (const area of oewsAreasFor(region)) areas.set(`${area.type}${area.code}`, area);
+    }
+    const sorted = [...areas.values()].sort((a, b) => AREA_TYPE_ORDER.indexOf(a.type) - AREA_TYPE_ORDER.indexOf(b.type));
+
+    return {
+      seriesIds: sorted.flatMap(area => socCodes.flatMap(socCode =>
+        PERCENTILES.map(percentile => oewsSeriesId(socCode, area, percentile))
+      )),
+      ...oewsYears(),
+      ttlMs: getBLSConfig().oews.ttlMs,
+    };
+  }
+
+  /**
+   * Salary range shown for wages: the 10th to 90th percentile, or the
+   * median where those aren't published
+   */
+  static salaryRange(wages: OccupationWages): { min: number; max: number } {
+    return { min: wages.percentiles.p10 ?? wages.median, max: wages.percentiles.p90 ?? wages.median };
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * ZIP Crosswalk
+ *
+ * Loads the ZIP to county, core-based statistical area (CBSA) and state
+ * crosswalk from a CSV file with the columns zip, city, state, county_fips,
+ * county_name, cbsa_code, cbsa_name, cbsa_type, latitude and longitude.
+ * Each ZIP is assigned to the county holding most of its addresses, as in
+ * the HUD USPS crosswalk, and CBSAs follow the OMB delineations; cbsa_code
+ * is blank for counties outside any metropolitan or micropolitan area.
+ *
+ * The bundled file (src/data/zipCrosswalk.csv) covers every ZIP in Ohio,
+ * West Virginia and Kentucky, built from GeoNames postal code data (CC BY
+ * 4.0), plus the few out-of-state ZIPs the sample data uses. Point
+ * ZIP_CROSSWALK_PATH at a file in the same format to cover more of the
+ * country. ZIPs that aren't in the crosswalk resolve to their state only.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseCsv } from './csvParser';
+
+const DEFAULT_DATA_PATH = path.resolve(__dirname, '../data/zipCrosswalk.csv');
+
+const REQUIRED_COLUMNS = ['zip', 'city', 'state', 'county_fips', 'county_name', 'latitude', 'longitude'];
+
+export interface ZipCrosswalkEntry {
+  city: string;
+  state: string;
+  // Five-digit county FIPS code (state + county)
+  countyFips: string;
+  countyName: string;
+  // Absent for counties outside any metropolitan or micropolitan area
+  cbsa?: {
+    code: string;
+    name: string;
+    type: 'metropolitan' | 'micropolitan';
+  };
+  latitude: number;
+  longitude: number;
+}
+
+let crosswalk: Map<string, ZipCrosswalkEntry> | null = null;
+
+/**
+ * Turn a crosswalk row into an entry, or explain why it can't be used
+ */
+function toEntry(values: Record<string, string>): ZipCrosswalkEntry | string {
+  if (!/^\d{5}$/.test(values.zip)) return `ZIP "${values.zip}" is not five digits`;
+  if (!/^[A-Z]{2}$/.test(values.state)) return `state "${values.state}" is not a two-letter code`;
+  if (!/^\d{5}$/.test(values.county_fips)) return `county FIPS "${values.county_fips}" is not five digits`;
+
+  const latitude = Number(values.latitude);
+  const longitude = Number(values.longitude);
+  if (!values.latitude || !values.longitude || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return 'latitude and longitude must be numbers';
+  }
+
+  const entry: ZipCrosswalkEntry = {
+    city: values.city,
+    state: values.state,
+    countyFips: values.county_fips,
+    countyName: values.county_name,
+    latitude,
+    longitude,
+  };
+
+  if (values.cbsa_code) {
+    const type = values.cbsa_type;
+    if (!values.cbsa_name || (type !== 'metropolitan' && type !== 'micropolitan')) {
+      return `CBSA ${values.cbsa_code} needs a name and a type of metropolitan or micropolitan`;
+    }
+    entry.cbsa = { code: values.cbsa_code, name: values.cbsa_name, type };
+  }
+
+  return entry;
+}
+
+/**
+ * Load a crosswalk file. Rows that can't be used are skipped with a
+ * warning; a missing or unreadable file gives an empty crosswalk.
+ */
+export function loadZipCrosswalk(
+  dataPath: string = process.env.ZIP_CROSSWALK_PATH || DEFAULT_DATA_PATH
+): Map<string, ZipCrosswalkEntry> {
+  const entries = new Map<string, ZipCrosswalkEntry>();
+
+  try {
+    const { headers, rows } = parseCsv(fs.readFileSync(dataPath, 'utf-8'));
+    const missing = REQUIRED_COLUMNS.filter(column => !headers.includes(column));
+    if (missing.length > 0) {
+      throw new Error(`missing columns: ${missing.join(', ')}`);
+    }
+
+    let skipped = 0;
+    for (const row of rows) {
+      const entry = row.error || toEntry(row.values);
+      if (typeof entry === 'string') {
+        skipped++;
+        if (skipped <= 5) console.warn(`ZIP crosswalk line ${row.line} skipped: ${entry}`);
+        continue;
+      }
+      entries.set(row.values.zip, entry);
+    }
+    if (skipped > 5) {
+      console.warn(`ZIP crosswalk: ${skipped} rows skipped in total`);
+    }
+  } catch (error) {
+    console.error(`Failed to load ZIP crosswalk from ${dataPath}: ${(error as Error).message}`);
+  }
+
+  return entries;
+}
+
+/**
+ * Get the crosswalk, loading it on first use
+ */
+export function getZipCrosswalk(): Map<string, ZipCrosswalkEntry> {
+  if (!crosswalk) {
+    crosswalk = loadZipCrosswalk();
+  }
+  return crosswalk;
+}
+
+/**
+ * Replace the cached crosswalk (pass null to reload from disk on next use)
+ */
+export function setZipCrosswalk(newCrosswalk: Map<string, ZipCrosswalkEntry> | null): void {
+  crosswalk = newCrosswalk;
+}
@@ -0,0 +1,23 @@
+import { getSessionConfig, SessionConfig } from '../config/sessionConfig';
+import { getRedisClient } from '../database/redis';
+import { SessionStore } from './sessionStore';
+import { MemorySessionStore } from './memorySessionStore';
+import { RedisSessionStore } from './redisSessionStore';
+
+export { SessionStore } from './sessionStore';
+export { MemorySessionStore } from './memorySessionStore';
+export { RedisSessionStore, RedisSessionClient } from './redisSessionStore';
+
+/**
+ * Create the session store selected by SESSION_STORE
+ */
+export function createSessionStore(config: SessionConfig = getSessionConfig()): SessionStore {
+  if (config.store === 'redis') {
+    return new RedisSessionStore(
+      () => getRedisClient(config.redis.url),
+      config.redis.keyPrefix
+    );
+  }
+
+  return new MemorySessionStore();
+}
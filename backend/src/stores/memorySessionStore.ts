@@ -0,0 +1,73 @@
+import { SessionData } from '../types';
+import { SessionStore } from './sessionStore';
+
+// Longest delay setTimeout supports; longer ones fire right away
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+interface MemoryEntry {
+  session: SessionData;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * In-process session store. Each session carries its own expiry timer,
+ * so nothing needs to sweep the map. Sessions are lost on restart.
+ */
+export class MemorySessionStore implements SessionStore {
+  private readonly entries = new Map<string, MemoryEntry>();
+
+  async get(sessionId: string): Promise<SessionData | null> {
+    const entry = this.entries.get(sessionId);
+    if (!entry) return null;
+
+    // Timers can fire late; never hand out an expired session
+    if (entry.session.expiresAt <= new Date()) {
+      this.remove(sessionId);
+      return null;
+    }
+
+    return entry.session;
+  }
+
+  async set(session: SessionData, ttlMs: number): Promise<void> {
+    this.remove(session.sessionId);
+    this.entries.set(session.sessionId, { session, timer: this.expireAfter(session.sessionId, ttlMs) });
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.remove(sessionId);
+  }
+
+  async count(): Promise<number> {
+    return this.entries.size;
+  }
+
+  /**
+   * Start the timer that removes a session after ttlMs. TTLs longer than
+   * one timer can wait are covered by a chain of timers.
+   */
+  private expireAfter(sessionId: string, ttlMs: number): NodeJS.Timeout {
+    const delay = Math.min(ttlMs, MAX_TIMER_DELAY_MS);
+    const timer = setTimeout(() => {
+      const entry = this.entries.get(sessionId);
+      if (!entry || entry.timer !== timer) return;
+
+      if (delay < ttlMs) {
+        entry.timer = this.expireAfter(sessionId, ttlMs - delay);
+      } else {
+        this.remove(sessionId);
+      }
+    }, delay);
+    // Don't keep the process alive just to expire sessions
+    timer.unref();
+    return timer;
+  }
+
+  private remove(sessionId: string): boolean {
+    const entry = this.entries.get(sessionId);
+    if (!entry) return false;
+
+    clearTimeout(entry.timer);
+    return this.entries.delete(sessionId);
+  }
+}
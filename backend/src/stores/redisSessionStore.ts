@@ -0,0 +1,57 @@
+import { SessionData } from '../types';
+import { SessionStore, serializeSession, deserializeSession } from './sessionStore';
+
+/**
+ * The subset of the node-redis client this store relies on
+ */
+export interface RedisSessionClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options: { PX: number }): Promise<unknown>;
+  del(key: string): Promise<number>;
+  scanIterator(options: { MATCH: string }): AsyncIterable<string>;
+}
+
+/**
+ * Redis-backed session store. Expiry uses Redis key TTLs (PX), so every
+ * API instance sees the same sessions and Redis drops them on its own.
+ */
+export class RedisSessionStore implements SessionStore {
+  constructor(
+    private readonly getClient: () => Promise<RedisSessionClient>,
+    private readonly keyPrefix: string = 'lantern:session:'
+  ) {}
+
+  async get(sessionId: string): Promise<SessionData | null> {
+    const client = await this.getClient();
+    const raw = await client.get(this.key(sessionId));
+    return raw ? deserializeSession(raw) : null;
+  }
+
+  async set(session: SessionData, ttlMs: number): Promise<void> {
+    if (ttlMs <= 0) {
+      await this.delete(session.sessionId);
+      return;
+    }
+
+    const client = await this.getClient();
+    await client.set(this.key(session.sessionId), serializeSession(session), { PX: Math.ceil(ttlMs) });
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const client = await this.getClient();
+    return (await client.del(this.key(sessionId))) > 0;
+  }
+
+  async count(): Promise<number> {
+    const client = await this.getClient();
+    let total = 0;
+    for await (const _key of client.scanIterator({ MATCH: `${this.keyPrefix}*` })) {
+      total++;
+    }
+    return total;
+  }
+
+  private key(sessionId: string): string {
+    return `${this.keyPrefix}${sessionId}`;
+  }
+}
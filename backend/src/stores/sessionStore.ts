@@ -0,0 +1,48 @@
+import { SessionData } from '../types';
+
+/**
+ * Storage backend for anonymous sessions.
+ * Implementations expire sessions on their own once the TTL passes.
+ */
+export interface SessionStore {
+  /** Get a session, or null if it doesn't exist or has expired */
+  get(sessionId: string): Promise<SessionData | null>;
+
+  /** Create or replace a session; it expires after ttlMs */
+  set(session: SessionData, ttlMs: number): Promise<void>;
+
+  /** Delete a session; returns true if one was removed */
+  delete(sessionId: string): Promise<boolean>;
+
+  /** Count live sessions */
+  count(): Promise<number>;
+}
+
+/**
+ * Serialize a session for storage outside the process
+ */
+export function serializeSession(session: SessionData): string {
+  return JSON.stringify(session);
+}
+
+/**
+ * Rebuild a session from its serialized form, restoring Date fields
+ */
+export function deserializeSession(raw: string): SessionData {
+  const parsed = JSON.parse(raw);
+  const session: SessionData = {
+    ...parsed,
+    createdAt: new Date(parsed.createdAt),
+    expiresAt: new Date(parsed.expiresAt),
+  };
+
+  if (parsed.profileData) {
+    session.profileData = {
+      ...parsed.profileData,
+      completedAt: parsed.profileData.completedAt ? new Date(parsed.profileData.completedAt) : undefined,
+      updatedAt: parsed.profileData.updatedAt ? new Date(parsed.profileData.updatedAt) : undefined,
+    };
+  }
+
+  return session;
+}
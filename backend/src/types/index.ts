@@ -29,6 +29,23 @@ export type EducationLevel = 'high-school' | 'certificate' | 'associate' | 'bach
 
 export type DemandLevel = 'high' | 'medium' | 'low';
 
+export type DemandFactor = 'growth' | 'openings' | 'unemployment';
+
+export interface DemandInput {
+  factor: DemandFactor;
+  // Percent growth, openings per 100 jobs, or percent unemployed
+  value: number;
+  // +1 for demand, -1 against, 0 between the thresholds
+  points: number;
+  source: string;
+}
+
+// The inputs a demand level was computed from
+export interface DemandBasis {
+  score: number;
+  inputs: DemandInput[];
+}
+
 // User & Authentication Types
 export interface User {
   id: string;
@@ -56,15 +73,55 @@ export interface Counselor extends User {
   schoolId: string;
 }
 
+export interface Teacher extends User {
+  role: 'teacher';
+  firstName: string;
+  lastName: string;
+  schoolId: string;
+}
+
+// Admins may be district-wide, so a school is optional
+export interface Admin extends User {
+  role: 'admin';
+  firstName: string;
+  lastName: string;
+}
+
+export type StaffRole = Exclude<UserRole, 'student'>;
+export type StaffAccount = Counselor | Teacher | Admin;
+export type UserAccount = Student | StaffAccount;
+
 export interface SessionData {
   sessionId: string;
+  // SHA-256 of the token handed to the client that started the session; it must be shown to link the session
+  linkTokenHash?: string;
+  // Student account the session was linked to
+  linkedUserId?: string;
   profileData?: Partial<StudentProfile>;
   assessmentAnswers?: AssessmentAnswer[];
+  assessmentType?: AssessmentType;
+  assessmentVersion?: number;
   createdAt: Date;
   expiresAt: Date;
 }
 
 // Assessment Types
+export type AssessmentType = 'standard' | 'riasec';
+
+// Holland code interest types: Realistic, Investigative, Artistic, Social, Enterprising, Conventional
+export type RiasecType = 'R' | 'I' | 'A' | 'S' | 'E' | 'C';
+
+export type RiasecScores = Record<RiasecType, number>;
+
+// Profile field a scoring rule contributes to
+export type ScoringTarget = 'interests' | 'skills' | 'riasec' | 'workEnvironment' | 'teamPreference' | 'educationGoal';
+
+export interface ScoringEffect {
+  target: ScoringTarget;
+  trait: string; // trait name, RIASEC letter, or the preference value to select
+  weight: number; // 0-1
+}
+
 export interface AssessmentQuestion {
   id: string;
   order: number;
@@ -72,6 +129,57 @@ export interface AssessmentQuestion {
   type: 'multiple-choice' | 'text' | 'scale';
   options?: string[];
   category: 'interests' | 'skills' | 'preferences' | 'education';
+  // Effects of each answer option on the profile, keyed by option text
+  scoring?: Record<string, ScoringEffect[]>;
+  // Only ask when prior answers meet this condition
+  askWhen?: AskCondition;
+  // Follow-up that can be skipped once the top career matches are stable
+  optional?: boolean;
+}
+
+export type AskCondition =
+  | { questionId: string; answerIn: string[] }
+  | { all: AskCondition[] }
+  | { any: AskCondition[] };
+
+export interface NextQuestionResult {
+  question: AssessmentQuestion | null;
+  done: boolean;
+  // Why the assessment ended: every applicable question answered, or matches stopped changing
+  reason?: 'complete' | 'stable';
+  answeredCount: number;
+  remainingCount: number; // applicable questions still unanswered (upper bound)
+}
+
+// A published version of an assessment. Published versions never change;
+// edits to questions ship as a new version with a migration from the previous one.
+export interface AssessmentDefinition {
+  type: AssessmentType;
+  version: number;
+  title: string;
+  description: string;
+  questions: AssessmentQuestion[];
+  migration?: AnswerMigration;
+}
+
+// How answers given on the previous version carry over to this one
+export interface AnswerMigration {
+  fromVersion: number;
+  // Keyed by the previous version's question ID; null drops the answer.
+  // Questions not listed carry over unchanged if they still exist with the same option.
+  answers: Record<string, AnswerMapping | null>;
+}
+
+export interface AnswerMapping {
+  questionId: string;
+  options?: Record<string, string>; // previous option text -> new option text
+}
+
+export interface AnswerMigrationResult {
+  answers: AssessmentAnswer[];
+  fromVersion: number;
+  toVersion: number;
+  dropped: string[]; // question IDs whose answers could not be carried over
 }
 
 export interface AssessmentAnswer {
@@ -89,6 +197,11 @@ export interface StudentProfile {
   teamPreference: 'team' | 'solo' | 'both';
   educationGoal: EducationLevel;
   zipCode: string;
+  assessmentType?: AssessmentType;
+  assessmentVersion?: number;
+  traitWeights?: Record<string, number>; // strength of each interest and skill (0-1)
+  riasecScores?: RiasecScores; // 0-100 per interest type
+  hollandCode?: string; // top three interest types, e.g. "SIC"
   completedAt: Date;
   updatedAt: Date;
 }
@@ -109,6 +222,29 @@ export interface Career {
   };
   growthOutlook: string;
   onetCode?: string;
+  skills?: string[];
+  hollandCode?: string;
+}
+
+export interface GeographicRegion {
+  zipCode: string;
+  // 'zip' when the ZIP is in the bundled crosswalk; 'state' when only its state is known
+  precision: 'zip' | 'state';
+  city?: string;
+  state: string;
+  stateName: string;
+  stateFips: string;
+  county?: {
+    fips: string;
+    name: string;
+  };
+  metro?: {
+    cbsaCode: string;
+    name: string;
+    type: 'metropolitan' | 'micropolitan';
+  };
+  // Display name: the metro area, else the county, else the state
+  label: string;
 }
 
 export interface CareerMatch {
@@ -117,12 +253,27 @@ export interface CareerMatch {
   matchScore: number;
   reasoningFactors: string[];
   localDemand: DemandLevel;
+  demandBasis: DemandBasis;
   localSalary: {
+    // 10th to 90th percentile annual wages from OEWS, else the career's national range
     min: number;
     max: number;
+    median?: number;
     location: string;
+    source: 'oews' | 'national';
+    year?: string;
   };
   localEmployers: string[];
+  scoreBreakdown?: MatchDimensionScore[];
+}
+
+export type MatchDimension = 'interests' | 'skills' | 'knowledge' | 'abilities' | 'education' | 'workEnvironment';
+
+export interface MatchDimensionScore {
+  dimension: MatchDimension;
+  score: number; // 0-100
+  weight: number; // share of the overall match score (weights sum to 1)
+  topElements: string[]; // O*NET elements that contributed most
 }
 
 // Pathway Types
@@ -141,6 +292,10 @@ export interface PathwayStage {
   duration: string;
   requirements: string[];
   providers: string[];
+  // Catalog programs listed in providers, when any prepare for the career
+  programIds?: string[];
+  // School courses listed in requirements, when the student's school offers any for the career
+  courseCodes?: string[];
   cost?: number;
 }
 
@@ -163,6 +318,8 @@ export interface TrainingProgram {
   eligibility: string[];
   applicationUrl?: string;
   applicationDeadline?: Date;
+  // Where students' program inquiry emails go
+  contactEmail?: string;
   isActive: boolean;
 }
 
@@ -218,6 +375,30 @@ export interface EmailTemplate {
   variables: string[];
 }
 
+export interface EmailLogEntry {
+  id: string;
+  templateType: EmailTemplate['type'];
+  recipient: string;
+  subject: string;
+  transport: string;
+  status: 'sent' | 'failed';
+  messageId?: string;
+  error?: string;
+  sentBy?: string;
+  createdAt: Date;
+}
+
+export interface AppNotification {
+  id: string;
+  userId: string;
+  type: 'reminder';
+  title: string;
+  body: string;
+  link?: string;
+  readAt?: Date;
+  createdAt: Date;
+}
+
 // Counselor Dashboard Types
 export interface StudentProgress {
   studentId: string;
@@ -245,6 +426,8 @@ export interface AggregateTrends {
 }
 
 // Parent Summary Types
+export type Language = 'en' | 'es';
+
 export interface ParentSummary {
   studentName: string;
   topInterests: string[];
@@ -257,7 +440,7 @@ export interface ParentSummary {
   }[];
   nextSteps: string[];
   generatedAt: Date;
-  language: 'en' | 'es';
+  language: Language;
 }
 
 // API Response Types
@@ -289,3 +472,16 @@ export interface DataUpload {
   uploadedAt: Date;
   completedAt?: Date;
 }
+
+// District overrides for a career's details; unset fields keep the catalog value
+export interface CareerOverlay {
+  careerId: string;
+  title?: string;
+  description?: string;
+  averageSalary?: number;
+  salaryMin?: number;
+  salaryMax?: number;
+  growthOutlook?: string;
+  requiredEducation?: EducationLevel;
+  certifications?: string[];
+}
@@ -0,0 +1,251 @@
+/**
+ * Route tests for /api/action-plans
+ */
+
+import actionPlansRoutes from '../src/routes/actionPlans';
+import { CareerService } from '../src/services/careerService';
+import { AuthService } from '../src/services/authService';
+import { ActionPlanRepository } from '../src/repositories/actionPlanRepository';
+import { createMemoryPool, setPool, closePool } from '../src/database/db';
+import { runMigrations } from '../src/database/migrations';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer(app => app.use('/api/action-plans', actionPlansRoutes));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('CareerService.getCareerByCode', () => {
+  it('should find a career by full O*NET-SOC code', () => {
+    expect(CareerService.getCareerByCode('29-1141.00')?.id).toBe('rn-001');
+  });
+
+  it('should find a career by bare SOC code', () => {
+    expect(CareerService.getCareerByCode('47-2111')?.id).toBe('elec-001');
+  });
+
+  it('should return null for unknown or malformed codes', () => {
+    expect(CareerService.getCareerByCode('99-9999.00')).toBeNull();
+    expect(CareerService.getCareerByCode('rn-001')).toBeNull();
+  });
+});
+
+describe('GET /api/action-plans/:careerCode', () => {
+  it('should generate a plan for an O*NET-SOC code', async () => {
+    const { status, body } = await server.request('/api/action-plans/29-1141.00?grade=10&zipCode=12345');
+
+    expect(status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.data).toMatchObject({
+      careerId: 'rn-001',
+      careerTitle: 'Registered Nurse',
+      careerCode: '29-1141.00'
+    });
+    expect(body.data.milestones.map((m: { title: string }) => m.title)).toContain('Associate Degree');
+    expect(body.data.steps.find((s: { id: string }) => s.id === 'research-2').description).toContain('12345');
+  });
+
+  it('should accept an internal career ID', async () => {
+    const { status, body } = await server.request('/api/action-plans/weld-001');
+
+    expect(status).toBe(200);
+    expect(body.data.careerTitle).toBe('Welder');
+    expect(body.data.milestones.map((m: { title: string }) => m.title)).toContain('Certificate Program');
+  });
+
+  it('should return 404 for an unknown career', async () => {
+    const { status, body } = await server.request('/api/action-plans/99-9999.00');
+
+    expect(status).toBe(404);
+    expect(body).toEqual({ success: false, error: 'Career not found' });
+  });
+});
+
+describe('POST /api/action-plans/multiple', () => {
+  it('should generate plans for every known career and skip unknown ones', async () => {
+    const { status, body } = await server.request('/api/action-plans/multiple', {
+      method: 'POST',
+      body: JSON.stringify({ careerCodes: ['29-1141.00', 'elec-001', '99-9999.00'], grade: 11 })
+    });
+
+    expect(status).toBe(200);
+    expect(body.data.map((plan: { careerId: string }) => plan.careerId)).toEqual(['rn-001', 'elec-001']);
+  });
+
+  it('should require a careerCodes array', async () => {
+    const { status } = await server.request('/api/action-plans/multiple', {
+      method: 'POST',
+      body: JSON.stringify({ careerCodes: '29-1141.00' })
+    });
+
+    expect(status).toBe(400);
+  });
+});
+
+describe('saved action plans', () => {
+  let token: string;
+
+  beforeEach(async () => {
+    const pool = createMemoryPool();
+    setPool(pool);
+    await runMigrations(pool);
+
+    await AuthService.registerStudent({
+      email: 'ana@example.com',
+      password: 'password123',
+      firstName: 'Ana',
+      lastName: 'Lopez',
+      grade: 10,
+      zipCode: '12345'
+    });
+    token = (await AuthService.login('ana@example.com', 'password123')).token!;
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await closePool();
+  });
+
+  const send = (method: string, body?: unknown) => ({
+    method,
+    headers: { Authorization: `Bearer ${token}` },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+
+  it('should require a signed-in student', async () => {
+    const { status } = await server.request('/api/action-plans/saved/rn-001');
+
+    expect(status).toBe(401);
+  });
+
+  it('should create the plan on first visit from the student\'s grade and ZIP code', async () => {
+    const { status, body } = await server.request('/api/action-plans/saved/29-1141.00', send('GET'));
+
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ careerId: 'rn-001', actions: [], progress: { completedSteps: 0 } });
+    expect(body.data.steps.find((s: { id: string }) => s.id === 'research-2').description).toContain('12345');
+  });
+
+  it('should keep step checkmarks across requests', async () => {
+    const patched = await server.request('/api/action-plans/saved/rn-001/steps/research-1', send('PATCH', { completed: true }));
+    const { body } = await server.request('/api/action-plans/saved', send('GET'));
+
+    expect(patched.status).toBe(200);
+    expect(body.data).toHaveLength(1);
+    expect(body.data[0].steps.find((s: { id: string }) => s.id === 'research-1').completed).toBe(true);
+    expect(body.data[0].progress.completedSteps).toBe(1);
+  });
+
+  it('should keep both checkmarks when steps are checked off at the same time', async () => {
+    await server.request('/api/action-plans/saved/rn-001', send('GET'));
+    // Hold each request after it reads the plan, so both read before either writes
+    const findPlan = ActionPlanRepository.findPlan.bind(ActionPlanRepository);
+    jest.spyOn(ActionPlanRepository, 'findPlan').mockImplementation(async (userId, careerId) => {
+      const plan = await findPlan(userId, careerId);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return plan;
+    });
+
+    await Promise.all([
+      server.request('/api/action-plans/saved/rn-001/steps/research-1', send('PATCH', { completed: true })),
+      server.request('/api/action-plans/saved/rn-001/steps/research-2', send('PATCH', { completed: true })),
+      server.request('/api/action-plans/saved/rn-001/actions', send('POST', { title: 'Shadow a nurse' }))
+    ]);
+    const { body } = await server.request('/api/action-plans/saved/rn-001', send('GET'));
+
+    const completed = body.data.steps.filter((s: { completed: boolean }) => s.completed).map((s: { id: string }) => s.id);
+    expect(completed.sort()).toEqual(['research-1', 'research-2']);
+    expect(body.data.actions).toHaveLength(1);
+  });
+
+  it('should return 404 for an unknown step', async () => {
+    const { status } = await server.request('/api/action-plans/saved/rn-001/steps/nope', send('PATCH', { completed: true }));
+
+    expect(status).toBe(404);
+  });
+
+  it('should import checkmarks kept in the browser without unchecking server progress', async () => {
+    await server.request('/api/action-plans/saved/rn-001/steps/research-1', send('PATCH', { completed: true }));
+
+    const { body } = await server.request('/api/action-plans/saved/rn-001/import', send('POST', {
+      steps: [{ id: 'research-1', completed: false }, { id: 'research-2', completed: true }, { id: 'gone', completed: true }]
+    }));
+
+    const completed = body.data.steps.filter((s: { completed: boolean }) => s.completed).map((s: { id: string }) => s.id);
+    expect(completed.sort()).toEqual(['research-1', 'research-2']);
+  });
+
+  it('should add and update custom actions with notes and due dates', async () => {
+    const created = await server.request('/api/action-plans/saved/rn-001/actions', send('POST', {
+      title: 'Shadow a nurse',
+      type: 'meeting',
+      dueDate: '2026-11-15',
+      notes: 'Ask Ms. Park about the hospital program',
+      reminderEnabled: true
+    }));
+
+    expect(created.status).toBe(201);
+    expect(created.body.data).toMatchObject({ title: 'Shadow a nurse', type: 'meeting', completed: false });
+    expect(created.body.data.reminderDate).toBe(created.body.data.dueDate);
+
+    const updated = await server.request(
+      `/api/action-plans/saved/rn-001/actions/${created.body.data.id}`,
+      send('PATCH', { completed: true, notes: 'Went on Nov 10' })
+    );
+    const { body } = await server.request('/api/action-plans/saved/rn-001', send('GET'));
+
+    expect(updated.body.data.completedAt).toBeDefined();
+    expect(body.data.actions).toEqual([expect.objectContaining({ completed: true, notes: 'Went on Nov 10' })]);
+  });
+
+  it('should clear due dates sent as null and cancel the reminder that followed them', async () => {
+    const created = await server.request('/api/action-plans/saved/rn-001/actions', send('POST', {
+      title: 'Tour the nursing program',
+      dueDate: '2026-11-15',
+      reminderEnabled: true
+    }));
+
+    const { body } = await server.request(
+      `/api/action-plans/saved/rn-001/actions/${created.body.data.id}`,
+      send('PATCH', { dueDate: null })
+    );
+
+    expect(body.data).toMatchObject({ reminderEnabled: false });
+    expect(body.data.dueDate).toBeUndefined();
+    expect(body.data.reminderDate).toBeUndefined();
+  });
+
+  it('should create a single plan when first visits overlap', async () => {
+    await Promise.all([
+      server.request('/api/action-plans/saved/rn-001', send('GET')),
+      server.request('/api/action-plans/saved/rn-001', send('GET'))
+    ]);
+    const { body } = await server.request('/api/action-plans/saved', send('GET'));
+
+    expect(body.data).toHaveLength(1);
+  });
+
+  it('should validate custom actions', async () => {
+    const missingTitle = await server.request('/api/action-plans/saved/rn-001/actions', send('POST', { notes: 'x' }));
+    const badType = await server.request('/api/action-plans/saved/rn-001/actions', send('POST', { title: 'x', type: 'party' }));
+    const badDate = await server.request('/api/action-plans/saved/rn-001/actions', send('POST', { title: 'x', dueDate: 'soon' }));
+
+    expect(missingTitle.body.error).toBe('Title is required');
+    expect(badType.status).toBe(400);
+    expect(badDate.body.error).toBe('dueDate must be a date');
+  });
+
+  it('should return 404 when updating an action that does not exist', async () => {
+    const { status } = await server.request(
+      '/api/action-plans/saved/rn-001/actions/00000000-0000-0000-0000-000000000000',
+      send('PATCH', { completed: true })
+    );
+
+    expect(status).toBe(404);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Tests for admin CSV uploads: row validation, loading uploaded data into
+ * the catalogs, and the /api/admin/uploads routes
+ */
+
+import { randomUUID } from 'crypto';
+import adminRoutes from '../src/routes/admin';
+import { AuthService } from '../src/services/authService';
+import { CareerService } from '../src/services/careerService';
+import { ProgramService } from '../src/services/programService';
+import { UploadService } from '../src/services/uploadService';
+import { setCareerOverlays } from '../src/services/careerCatalog';
+import { CatalogDataRepository } from '../src/repositories/catalogDataRepository';
+import { getUploadConfig } from '../src/config/uploadConfig';
+import { UploadRepository } from '../src/repositories/uploadRepository';
+import { createMemoryPool, setPool, closePool } from '../src/database/db';
+import { runMigrations } from '../src/database/migrations';
+import { DataUpload } from '../src/types';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+let server: TestServer;
+let adminId: string;
+
+const PROGRAM_HEADER = 'id,name,provider,type,sector,targetCareers,duration,cost,isPaid,zipCode,city,state,applicationDeadline';
+
+beforeAll(async () => {
+  server = await startTestServer(app => app.use('/api/admin', adminRoutes));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(async () => {
+  const pool = createMemoryPool();
+  setPool(pool);
+  await runMigrations(pool);
+
+  const registered = await AuthService.registerStaff({
+    role: 'admin',
+    email: 'admin@example.com',
+    password: 'password123',
+    firstName: 'Dana',
+    lastName: 'Admin'
+  });
+  adminId = registered.user!.id;
+});
+
+afterEach(async () => {
+  ProgramService.setUploadedPrograms([]);
+  setCareerOverlays([]);
+  await closePool();
+});
+
+// An unfinished upload, as left behind by an instance that stopped or is still processing it
+async function unfinishedUpload(filename: string, instanceId: string, heartbeatAt = new Date()): Promise<void> {
+  await UploadRepository.create({
+    id: randomUUID(),
+    type: 'careers',
+    filename,
+    uploadedBy: adminId,
+    recordsProcessed: 0,
+    recordsFailed: 0,
+    status: 'processing',
+    uploadedAt: heartbeatAt
+  }, instanceId);
+}
+
+async function upload(type: DataUpload['type'], content: string, schoolId?: string): Promise<DataUpload> {
+  const { processing } = await UploadService.startUpload({ type, filename: `${type}.csv`, content, uploadedBy: adminId, schoolId });
+  return processing;
+}
+
+describe('UploadService', () => {
+  it('should save valid program rows and report invalid ones by line', async () => {
+    const result = await upload('programs', [
+      PROGRAM_HEADER,
+      'prog-100,Phlebotomy Certificate,Athens Adult Ed,certificate,healthcare,ma-001;29-2061.00,10 weeks,"$1,200",no,45701,Athens,oh,2027-05-01',
+      'prog-101,Line Work,Utility Co,apprenticeship,energy,nope-001,4 years,abc,maybe,4570,Athens,OH,',
+    ].join('\n'));
+
+    expect(result).toMatchObject({ status: 'completed', recordsProcessed: 1, recordsFailed: 1 });
+    expect(result.errors).toEqual([
+      'Line 3: zipCode must be 5 digits; sector must be one of: healthcare, infrastructure; '
+        + 'targetCareers has unknown career "nope-001"; cost must be a non-negative number; isPaid must be true or false'
+    ]);
+
+    expect(ProgramService.getProgramById('prog-100')).toMatchObject({
+      cost: 1200,
+      isPaid: false,
+      targetCareers: ['ma-001', 'lpn-001'],
+      location: { zipCode: '45701', city: 'Athens', state: 'OH' },
+      applicationDeadline: new Date('2027-05-01'),
+      isActive: true
+    });
+    expect(ProgramService.getProgramById('prog-101')).toBeNull();
+  });
+
+  it('should let uploaded programs replace and retire bundled ones', async () => {
+    expect(ProgramService.getProgramById('prog-001')).not.toBeNull();
+
+    await upload('programs', `${PROGRAM_HEADER},isActive\n`
+      + 'prog-001,Practical Nursing Certificate,Hocking Hills Career Center,certificate,healthcare,lpn-001,12 months,9800,no,45701,Athens,OH,,false\n');
+
+    expect(ProgramService.getProgramById('prog-001')).toBeNull();
+    expect(ProgramService.getProgramsForCareer('lpn-001').map(p => p.id)).not.toContain('prog-001');
+  });
+
+  it('should apply career overlays to the catalog', async () => {
+    const result = await upload('careers', 'careerId,averageSalary,salaryMin,certifications\n'
+      + 'rn-001,82000,70000,RN License;ACLS\n'
+      + '29-2061.00,,,\n'
+      + 'nope-001,1,,\n');
+
+    expect(result).toMatchObject({ status: 'completed', recordsProcessed: 1, recordsFailed: 2 });
+    expect(result.errors).toEqual([
+      'Line 3: at least one career field must be set',
+      'Line 4: careerId "nope-001" is not a known career'
+    ]);
+
+    const nurse = CareerService.getCareerById('rn-001')!;
+    expect(nurse.averageSalary).toBe(82000);
+    expect(nurse.salaryRange.min).toBe(70000);
+    expect(nurse.certifications).toEqual(['RN License', 'ACLS']);
+    expect(nurse.title).toBe('Registered Nurse');
+  });
+
+  it('should save courses, replacing a school\'s course with the same code', async () => {
+    const header = 'schoolId,code,name,gradeLevels,category,isCTE,relatedCareers\n';
+    await upload('courses', `${header}school-1,HS101,Health Science 1,10;9,Health Science,yes,rn-001\n`);
+    const result = await upload('courses', `${header}`
+      + 'school-1,HS101,Health Science I,9;10;11,Health Science,yes,rn-001;lpn-001\n'
+      + 'school-1,WD200,Welding 2,13,Manufacturing,yes,\n');
+
+    expect(result.errors).toEqual(['Line 3: gradeLevels must be grades 6-12']);
+    expect(await CatalogDataRepository.listCourses('school-1')).toEqual([
+      expect.objectContaining({
+        code: 'HS101',
+        name: 'Health Science I',
+        gradeLevels: [9, 10, 11],
+        isCTE: true,
+        relatedCareers: ['rn-001', 'lpn-001']
+      })
+    ]);
+  });
+
+  it('should only take courses for a school admin\'s own school', async () => {
+    const result = await upload('courses', 'schoolId,code,name,gradeLevels,category\nschool-2,EN101,English 9,9,English\n', 'school-1');
+
+    expect(result).toMatchObject({ status: 'failed', recordsProcessed: 0, recordsFailed: 1 });
+    expect(result.errors).toEqual(['Line 2: schoolId must be your school (school-1)']);
+  });
+
+  it('should fail files missing required columns', async () => {
+    const result = await upload('courses', 'code,name\nHS101,Health Science\n');
+
+    expect(result).toMatchObject({ status: 'failed', recordsProcessed: 0, recordsFailed: 0 });
+    expect(result.errors).toEqual(['Missing required columns: schoolId, gradeLevels, category']);
+    expect(await UploadService.getUpload(result.id)).toMatchObject({ status: 'failed', completedAt: expect.any(Date) });
+  });
+
+  it('should reload uploaded data and fail interrupted uploads at startup', async () => {
+    await upload('careers', 'careerId,title\nweld-001,Welder-Fitter\n');
+    await unfinishedUpload('never-run.csv', getUploadConfig().instanceId);
+    setCareerOverlays([]);
+    expect(CareerService.getCareerById('weld-001')!.title).not.toBe('Welder-Fitter');
+
+    expect(await UploadService.failInterruptedUploads()).toBe(1);
+    await UploadService.loadUploadedData();
+
+    expect(CareerService.getCareerById('weld-001')!.title).toBe('Welder-Fitter');
+    const [interrupted] = await UploadService.listUploads();
+    expect(interrupted).toMatchObject({ filename: 'never-run.csv', status: 'failed' });
+  });
+
+  it('should leave uploads another instance is still processing at startup', async () => {
+    const staleAt = new Date(Date.now() - getUploadConfig().staleAfterMs - 1000);
+    await unfinishedUpload('stopped.csv', 'other-instance', staleAt);
+    await unfinishedUpload('running.csv', 'other-instance');
+
+    expect(await UploadService.failInterruptedUploads()).toBe(1);
+
+    const uploads = await UploadService.listUploads();
+    expect(uploads.find(u => u.filename === 'stopped.csv')?.status).toBe('failed');
+    expect(uploads.find(u => u.filename === 'running.csv')?.status).toBe('processing');
+  });
+
+  it('should reload data uploaded through another instance', async () => {
+    await UploadService.loadUploadedData();
+    expect(await UploadService.reloadUploadedDataIfChanged()).toBe(false);
+
+    // Another instance saves an overlay and finishes its upload
+    const uploaded: DataUpload = {
+      id: randomUUID(),
+      type: 'careers',
+      filename: 'careers.csv',
+      uploadedBy: adminId,
+      recordsProcessed: 0,
+      recordsFailed: 0,
+      status: 'processing',
+      uploadedAt: new Date()
+    };
+    await UploadRepository.create(uploaded, 'other-instance');
+    await CatalogDataRepository.upsertCareerOverlay({ careerId: 'weld-001', title: 'Welder-Fitter' });
+    await UploadRepository.update({ ...uploaded, status: 'completed', recordsProcessed: 1, completedAt: new Date() });
+    expect(CareerService.getCareerById('weld-001')!.title).not.toBe('Welder-Fitter');
+
+    expect(await UploadService.reloadUploadedDataIfChanged()).toBe(true);
+    expect(CareerService.getCareerById('weld-001')!.title).toBe('Welder-Fitter');
+    expect(await UploadService.reloadUploadedDataIfChanged()).toBe(false);
+  });
+});
+
+describe('/api/admin/uploads', () => {
+  async function token(role: 'admin' | 'counselor'): Promise<string> {
+    if (role === 'counselor') {
+      await AuthService.registerCounselor({
+        email: 'counselor@example.com',
+        password: 'password123',
+        firstName: 'Sam',
+        lastName: 'Reyes',
+        schoolId: 'school-1'
+      });
+    }
+    return (await AuthService.login(`${role}@example.com`, 'password123')).token!;
+  }
+
+  function postCsv(authToken: string, query: string, csv: string) {
+    return server.request(`/api/admin/uploads?${query}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${authToken}`, 'Content-Type': 'text/csv' },
+      body: csv
+    });
+  }
+
+  it('should accept a CSV file and report its status when processed', async () => {
+    const adminToken = await token('admin');
+    const auth = { headers: { Authorization: `Bearer ${adminToken}` } };
+
+    const posted = await postCsv(adminToken, 'type=careers&filename=overlays.csv', 'careerId,growthOutlook\nemt-001,Much faster than average\n');
+    expect(posted.status).toBe(202);
+    expect(posted.body.data).toMatchObject({ type: 'careers', filename: 'overlays.csv', status: 'pending' });
+
+    let status = posted.body.data.status;
+    let fetched: any;
+    for (let attempt = 0; attempt < 20 && (status === 'pending' || status === 'processing'); attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 25));
+      fetched = await server.request(`/api/admin/uploads/${posted.body.data.id}`, auth);
+      status = fetched.body.data.status;
+    }
+
+    expect(fetched.body.data).toMatchObject({ status: 'completed', recordsProcessed: 1, recordsFailed: 0, errors: [] });
+    expect(CareerService.getCareerById('emt-001')!.growthOutlook).toBe('Much faster than average');
+
+    const listed = await server.request('/api/admin/uploads', auth);
+    expect(listed.body.data.map((u: DataUpload) => u.id)).toEqual([posted.body.data.id]);
+  });
+
+  it('should reject unknown types and empty files', async () => {
+    const adminToken = await token('admin');
+
+    const badType = await postCsv(adminToken, 'type=schools', 'id\n1\n');
+    expect(badType.status).toBe(400);
+    expect(badType.body.error).toBe('Type must be one of: courses, programs, careers');
+
+    const empty = await postCsv(adminToken, 'type=courses', '');
+    expect(empty.status).toBe(400);
+  });
+
+  it('should list the columns for each upload type', async () => {
+    const { body } = await server.request('/api/admin/uploads/columns', {
+      headers: { Authorization: `Bearer ${await token('admin')}` }
+    });
+
+    expect(body.data.careers).toEqual(expect.objectContaining({ required: ['careerId'] }));
+  });
+
+  it('should return 404 for an unknown upload', async () => {
+    const { status } = await server.request('/api/admin/uploads/00000000-0000-4000-8000-000000000000', {
+      headers: { Authorization: `Bearer ${await token('admin')}` }
+    });
+
+    expect(status).toBe(404);
+  });
+
+  it('should be limited to admins', async () => {
+    const { status } = await postCsv(await token('counselor'), 'type=careers', 'careerId,title\nrn-001,Nurse\n');
+
+    expect(status).toBe(403);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Route tests for /api/assessment versioning and saved progress
+ */
+
+import assessmentRoutes from '../src/routes/assessment';
+import { AssessmentService } from '../src/services/assessmentService';
+import { SessionService } from '../src/services/sessionService';
+import { MemorySessionStore } from '../src/stores';
+import { AssessmentDefinition, AssessmentQuestion } from '../src/types';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+const likert = ['Disagree', 'Neutral', 'Agree'];
+
+function question(id: string, trait: string, options: string[] = likert): AssessmentQuestion {
+  return {
+    id,
+    order: Number(id.replace(/\D/g, '')),
+    text: `Question ${id}`,
+    type: 'scale',
+    category: 'interests',
+    options,
+    scoring: { [options[options.length - 1]]: [{ target: 'interests', trait, weight: 1 }] }
+  };
+}
+
+const definitions: AssessmentDefinition[] = [
+  {
+    type: 'standard',
+    version: 1,
+    title: 'Quiz',
+    description: 'First version',
+    questions: [question('q1', 'Helping Others'), question('q2', 'Healthcare'), question('q3', 'Technology')]
+  },
+  {
+    type: 'standard',
+    version: 2,
+    title: 'Quiz',
+    description: 'Reworded q2 with a wider scale and dropped q3',
+    questions: [
+      question('q1', 'Helping Others'),
+      question('q4', 'Healthcare', ['Strongly Disagree', 'Disagree', 'Neutral', 'Agree', 'Strongly Agree'])
+    ],
+    migration: {
+      fromVersion: 1,
+      answers: {
+        q2: { questionId: 'q4', options: { Agree: 'Strongly Agree' } },
+        q3: null
+      }
+    }
+  }
+];
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer(app => app.use('/api/assessment', assessmentRoutes));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  AssessmentService.setDefinitions(definitions);
+  SessionService.setStore(new MemorySessionStore());
+});
+
+afterEach(() => {
+  AssessmentService.setDefinitions(null);
+  SessionService.setStore(null);
+});
+
+function answers(values: Record<string, string>) {
+  return Object.entries(values).map(([questionId, answer]) => ({ questionId, answer, timestamp: new Date() }));
+}
+
+describe('AssessmentService.migrateAnswers', () => {
+  it('should map renamed questions and options and drop removed ones', () => {
+    const result = AssessmentService.migrateAnswers(
+      answers({ q1: 'Agree', q2: 'Agree', q3: 'Agree' }), 'standard', 1, 2
+    );
+
+    expect(result?.answers.map(a => [a.questionId, a.answer])).toEqual([['q1', 'Agree'], ['q4', 'Strongly Agree']]);
+    expect(result?.dropped).toEqual(['q3']);
+  });
+
+  it('should return null without a migration path', () => {
+    expect(AssessmentService.migrateAnswers([], 'standard', 2, 1)).toBeNull();
+    expect(AssessmentService.migrateAnswers([], 'standard', 1, 3)).toBeNull();
+  });
+});
+
+describe('GET /api/assessment/definitions', () => {
+  it('should list every version and flag the latest', async () => {
+    const { body } = await server.request('/api/assessment/definitions');
+
+    expect(body.data.map((d: { version: number; latest: boolean }) => [d.version, d.latest]))
+      .toEqual([[1, false], [2, true]]);
+  });
+});
+
+describe('GET /api/assessment/questions', () => {
+  it('should serve the requested version', async () => {
+    const { body } = await server.request('/api/assessment/questions?version=1');
+    expect(body.data.map((q: AssessmentQuestion) => q.id)).toEqual(['q1', 'q2', 'q3']);
+  });
+
+  it('should return 404 for an unknown version', async () => {
+    const { status } = await server.request('/api/assessment/questions?version=9');
+    expect(status).toBe(404);
+  });
+});
+
+describe('versioned answers and profiles', () => {
+  it('should stamp answers and profiles with the version taken', async () => {
+    const session = await SessionService.createSession();
+
+    const saved = await server.request('/api/assessment/answers', {
+      method: 'POST',
+      body: JSON.stringify({
+        sessionId: session.sessionId,
+        assessmentVersion: 1,
+        answers: answers({ q1: 'Agree', q2: 'Agree', q3: 'Neutral' })
+      })
+    });
+    expect(saved.status).toBe(200);
+    expect((await SessionService.getSession(session.sessionId))?.assessmentVersion).toBe(1);
+
+    const { body } = await server.request('/api/assessment/complete', {
+      method: 'POST',
+      body: JSON.stringify({ sessionId: session.sessionId, zipCode: '12345' })
+    });
+    expect(body.data).toMatchObject({ assessmentVersion: 1, interests: ['Helping Others', 'Healthcare'] });
+  });
+
+  it('should recompute an old profile under the latest version', async () => {
+    const session = await SessionService.createSession();
+    await SessionService.updateSessionAnswers(
+      session.sessionId,
+      answers({ q1: 'Neutral', q2: 'Agree', q3: 'Agree' }),
+      { type: 'standard', version: 1 }
+    );
+    await SessionService.updateSessionProfile(session.sessionId, { zipCode: '12345', assessmentVersion: 1 });
+
+    const { status, body } = await server.request('/api/assessment/recompute', {
+      method: 'POST',
+      body: JSON.stringify({ sessionId: session.sessionId })
+    });
+
+    expect(status).toBe(200);
+    expect(body.data.migration).toEqual({ fromVersion: 1, toVersion: 2, dropped: ['q3'] });
+    expect(body.data.profile).toMatchObject({ assessmentVersion: 2, interests: ['Healthcare'], zipCode: '12345' });
+
+    const updated = await SessionService.getSession(session.sessionId);
+    expect(updated?.assessmentVersion).toBe(2);
+    expect(updated?.assessmentAnswers?.map(a => a.questionId)).toEqual(['q1', 'q4']);
+  });
+
+  it('should reject recomputing to an older version', async () => {
+    const session = await SessionService.createSession();
+    await SessionService.updateSessionAnswers(session.sessionId, answers({ q1: 'Agree' }), { type: 'standard', version: 2 });
+    await SessionService.updateSessionProfile(session.sessionId, { zipCode: '12345' });
+
+    const { status, body } = await server.request('/api/assessment/recompute', {
+      method: 'POST',
+      body: JSON.stringify({ sessionId: session.sessionId, version: 1 })
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('No migration path from standard v2 to v1');
+  });
+});
+
+describe('saving progress', () => {
+  const patchAnswers = (body: object) => server.request('/api/assessment/answers', {
+    method: 'PATCH',
+    body: JSON.stringify(body)
+  });
+
+  it('should save answers one at a time and report where to resume', async () => {
+    const session = await SessionService.createSession();
+
+    const first = await patchAnswers({ sessionId: session.sessionId, answers: answers({ q1: 'Agree' }) });
+    expect(first.status).toBe(200);
+    expect(first.body.data).toMatchObject({ done: false, question: { id: 'q4' } });
+
+    const { body } = await server.request(`/api/assessment/progress/${session.sessionId}`);
+    expect(body.data).toMatchObject({
+      assessmentType: 'standard',
+      assessmentVersion: 2,
+      completed: false,
+      next: { question: { id: 'q4' }, answeredCount: 1, remainingCount: 1 }
+    });
+    expect(body.data.answers.map((a: { questionId: string }) => a.questionId)).toEqual(['q1']);
+  });
+
+  it('should reject invalid partial answers', async () => {
+    const session = await SessionService.createSession();
+    const { status } = await patchAnswers({ sessionId: session.sessionId, answers: answers({ q4: 'Maybe' }) });
+
+    expect(status).toBe(400);
+  });
+
+  it('should not complete an assessment with unanswered questions', async () => {
+    const session = await SessionService.createSession();
+    await patchAnswers({ sessionId: session.sessionId, answers: answers({ q1: 'Agree' }) });
+
+    const { status, body } = await server.request('/api/assessment/complete', {
+      method: 'POST',
+      body: JSON.stringify({ sessionId: session.sessionId, zipCode: '12345' })
+    });
+
+    expect(status).toBe(400);
+    expect(body.message).toBe('Incomplete assessment: 1/2 questions answered');
+  });
+
+  it('should not complete an assessment with a ZIP outside the US', async () => {
+    const session = await SessionService.createSession();
+    await patchAnswers({ sessionId: session.sessionId, answers: answers({ q1: 'Agree', q4: 'Agree' }) });
+
+    const { status, body } = await server.request('/api/assessment/complete', {
+      method: 'POST',
+      body: JSON.stringify({ sessionId: session.sessionId, zipCode: '00000' })
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('ZIP code 00000 is not a US ZIP code');
+  });
+
+  it('should return 404 for an unknown session', async () => {
+    const { status } = await server.request('/api/assessment/progress/missing');
+    expect(status).toBe(404);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Unit tests for AssessmentService
+ */
+
+import { AssessmentService } from '../src/services/assessmentService';
+import { CareerService } from '../src/services/careerService';
+import * as matchingEngine from '../src/services/matchingEngine';
+import { validateAskCondition, validateScoringRules } from '../src/services/scoringRules';
+import { AssessmentAnswer, AssessmentQuestion } from '../src/types';
+
+function answer(questionId: string, value: string): AssessmentAnswer {
+  return { questionId, answer: value, timestamp: new Date() };
+}
+
+function riasecTypeOf(question: AssessmentQuestion): string | undefined {
+  return Object.values(question.scoring || {}).flat().find(e => e.target === 'riasec')?.trait;
+}
+
+/**
+ * Answer every RIASEC item, liking the given types and disliking the rest
+ */
+function riasecAnswers(liked: Record<string, string>): AssessmentAnswer[] {
+  return AssessmentService.getQuestions('riasec').map(q => {
+    const type = riasecTypeOf(q);
+    if (type) return answer(q.id, liked[type] || 'Strongly Dislike');
+    return answer(q.id, q.options?.[0] || '');
+  });
+}
+
+describe('AssessmentService', () => {
+  describe('getQuestions', () => {
+    it('should return the standard questions by default', () => {
+      expect(AssessmentService.getQuestions().map(q => q.id)).toContain('q1');
+    });
+
+    it('should add the shared preference and education questions to the RIASEC inventory', () => {
+      const questions = AssessmentService.getQuestions('riasec');
+      const ids = questions.map(q => q.id);
+
+      expect(questions.filter(q => riasecTypeOf(q))).toHaveLength(30);
+      expect(ids).toEqual(expect.arrayContaining(['q4', 'q5', 'q9']));
+      expect(ids).not.toContain('q1');
+      expect(questions.map(q => q.order)).toEqual(questions.map((_, i) => i + 1));
+    });
+  });
+
+  describe('isAssessmentType', () => {
+    it('should accept only known assessment types', () => {
+      expect(AssessmentService.isAssessmentType('riasec')).toBe(true);
+      expect(AssessmentService.isAssessmentType('standard')).toBe(true);
+      expect(AssessmentService.isAssessmentType('mbti')).toBe(false);
+    });
+  });
+
+  describe('scoring rules', () => {
+    it('should build the profile from each option\'s effects', () => {
+      const profile = AssessmentService.generateProfile([
+        answer('q1', 'Strongly Agree'),
+        answer('q2', 'Agree'),
+        answer('q8', 'Strongly Agree'),
+        answer('q7', 'Disagree'),
+        answer('q10', 'Agree'),
+        answer('q4', 'Mostly outdoors'),
+        answer('q5', 'Working independently'),
+        answer('q9', 'Attend community college (2 years)')
+      ], '12345');
+
+      expect(profile).toMatchObject({
+        interests: ['Hands-on Work', 'Helping Others', 'Infrastructure'],
+        skills: ['Communication'],
+        traitWeights: { 'Hands-on Work': 1, 'Helping Others': 1, 'Infrastructure': 1, 'Communication': 0.7 },
+        workEnvironment: 'outdoor',
+        teamPreference: 'solo',
+        educationGoal: 'associate'
+      });
+    });
+
+    it('should fall back to defaults when no rule applies', () => {
+      const profile = AssessmentService.generateProfile([answer('q9', "I'm not sure yet")], '12345');
+
+      expect(profile).toMatchObject({
+        interests: ['Exploring Options'],
+        skills: ['Willingness to Learn'],
+        workEnvironment: 'mixed',
+        educationGoal: 'certificate'
+      });
+    });
+
+    it('should ship consistent rules for every question', () => {
+      for (const definition of AssessmentService.listDefinitions()) {
+        const { questions } = definition;
+        expect(questions.flatMap(q => [...validateScoringRules(q), ...validateAskCondition(q, questions)])).toEqual([]);
+      }
+    });
+
+    it('should report inconsistent rules', () => {
+      const errors = validateScoringRules({
+        id: 'x1',
+        order: 1,
+        text: 'I prefer to work:',
+        type: 'multiple-choice',
+        category: 'preferences',
+        options: ['Inside', 'Outside'],
+        scoring: {
+          Inside: [{ target: 'workEnvironment', trait: 'indoors', weight: 1 }],
+          Outdoors: [{ target: 'workEnvironment', trait: 'outdoor', weight: 2 }]
+        }
+      });
+
+      expect(errors).toEqual([
+        'Scoring rule for question x1 has invalid workEnvironment "indoors"',
+        'Scoring rule for question x1 references unknown option "Outdoors"',
+        'Scoring rule for question x1 has a weight outside 0-1'
+      ]);
+    });
+  });
+
+  describe('RIASEC inventory', () => {
+    it('should score each interest type from 0 to 100', () => {
+      const scores = AssessmentService.scoreRiasec(riasecAnswers({ S: 'Strongly Like', I: 'Like', C: 'Unsure' }));
+
+      expect(scores).toEqual({ R: 0, I: 75, A: 0, S: 100, E: 0, C: 50 });
+    });
+
+    it('should put the scores and Holland code on the profile', () => {
+      const answers = riasecAnswers({ R: 'Strongly Like', C: 'Like', I: 'Unsure' });
+      const profile = AssessmentService.generateProfile(answers, '12345', 'riasec');
+
+      expect(profile).toMatchObject({
+        assessmentType: 'riasec',
+        hollandCode: 'RCI',
+        interests: ['Realistic', 'Conventional', 'Investigative'],
+        workEnvironment: 'indoor',
+        educationGoal: 'high-school'
+      });
+    });
+
+    it('should validate answers against the RIASEC question set', () => {
+      expect(AssessmentService.validateAnswers(riasecAnswers({}), 'riasec').valid).toBe(true);
+      expect(AssessmentService.validateAnswers(riasecAnswers({}), 'standard').valid).toBe(false);
+    });
+  });
+
+  describe('adaptive assessment', () => {
+    const core = (overrides: Record<string, string>) => {
+      const defaults: Record<string, string> = {
+        q1: 'Neutral', q2: 'Neutral', q3: 'Neutral', q4: 'A mix of both', q5: 'Both are fine', q6: 'Neutral',
+        q7: 'Neutral', q8: 'Neutral', q9: 'Attend community college (2 years)', q10: 'Neutral', q11: 'Neutral',
+        q12: 'Yes, definitely'
+      };
+      return Object.entries({ ...defaults, ...overrides }).map(([id, value]) => answer(id, value));
+    };
+
+    it('should ask the core questions in order first', () => {
+      const next = AssessmentService.getNextQuestion([answer('q1', 'Agree')]);
+
+      expect(next).toMatchObject({ done: false, answeredCount: 1 });
+      expect(next?.question?.id).toBe('q2');
+    });
+
+    it('should skip follow-ups whose conditions are not met', () => {
+      const answers = core({ q1: 'Strongly Disagree', q7: 'Strongly Disagree' });
+      // Move the answers that change matches to the end so matches are still settling
+      const ordered = [...answers.filter(a => !['q2', 'q8', 'q4'].includes(a.questionId)),
+        answer('q2', 'Strongly Agree'), answer('q8', 'Strongly Agree'), answer('q4', 'Mostly outdoors')];
+
+      const next = AssessmentService.getNextQuestion(ordered);
+      expect(next?.question?.id).toBe('f3');
+    });
+
+    it('should ask follow-ups while the top matches are still changing', () => {
+      const answers = [...core({ q1: 'Strongly Agree', q7: 'Strongly Agree' })
+        .filter(a => !['q2', 'q8', 'q4'].includes(a.questionId)),
+      answer('q2', 'Strongly Agree'), answer('q8', 'Strongly Agree'), answer('q4', 'Mostly outdoors')];
+
+      const next = AssessmentService.getNextQuestion(answers);
+      expect(next?.question?.id).toBe('f1');
+      expect(next?.remainingCount).toBe(4);
+    });
+
+    it('should stop once the top matches are stable', () => {
+      // The last three answers have no effect on the profile
+      const answers = [...core({ q1: 'Strongly Agree', q7: 'Strongly Agree', q11: 'Strongly Disagree' })
+        .filter(a => !['q5', 'q11', 'q12'].includes(a.questionId)),
+      answer('q11', 'Strongly Disagree'), answer('q5', 'Both are fine'), answer('q12', 'Yes, definitely')];
+
+      expect(AssessmentService.getNextQuestion(answers)).toEqual({
+        question: null,
+        done: true,
+        reason: 'stable',
+        answeredCount: 12,
+        remainingCount: 0
+      });
+    });
+
+    it('should only score the catalog for answer sets it has not seen', () => {
+      const answers = () => [...core({ q1: 'Agree', q3: 'Strongly Agree', q11: 'Agree' })
+        .filter(a => !['q5', 'q11', 'q12'].includes(a.questionId)),
+      answer('q11', 'Agree'), answer('q5', 'Both are fine'), answer('q12', 'Yes, definitely')];
+      const scoreCareer = jest.spyOn(matchingEngine, 'scoreCareer');
+      try {
+        AssessmentService.getNextQuestion(answers());
+        const firstCall = scoreCareer.mock.calls.length;
+        expect(firstCall).toBeGreaterThan(0);
+        expect(firstCall).toBeLessThanOrEqual(4 * CareerService.getAllCareers().length);
+
+        // Same answers, saved again with new timestamps
+        AssessmentService.getNextQuestion(answers());
+        expect(scoreCareer).toHaveBeenCalledTimes(firstCall);
+      } finally {
+        scoreCareer.mockRestore();
+      }
+    });
+
+    it('should accept an adaptive answer set that skipped follow-ups', () => {
+      const answers = core({ q1: 'Strongly Agree' });
+      expect(AssessmentService.validateAnswers(answers).valid).toBe(true);
+      expect(AssessmentService.validateAnswers(answers.slice(1)).errors)
+        .toContain('Incomplete assessment: 11/12 questions answered');
+    });
+
+    it('should ignore answers to follow-ups that no longer apply', () => {
+      const profile = AssessmentService.generateProfile(
+        [...core({ q1: 'Disagree' }), answer('f1', 'Strongly Agree')],
+        '12345'
+      );
+
+      expect(profile.interests).toEqual(['Exploring Options']);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Route tests for /api/auth and the role-based authorization middleware
+ */
+
+import authRoutes from '../src/routes/auth';
+import { AuthService } from '../src/services/authService';
+import { createMemoryPool, setPool, closePool } from '../src/database/db';
+import { runMigrations } from '../src/database/migrations';
+import { StaffRole } from '../src/types';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer(app => app.use('/api/auth', authRoutes));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(async () => {
+  const pool = createMemoryPool();
+  setPool(pool);
+  await runMigrations(pool);
+});
+
+afterEach(async () => {
+  await closePool();
+});
+
+async function tokenFor(role: StaffRole | 'student'): Promise<string> {
+  const email = `${role}@example.com`;
+  const account = { email, password: 'password123', firstName: 'Test', lastName: role, schoolId: 'school-1' };
+
+  if (role === 'student') {
+    await AuthService.registerStudent(account);
+  } else {
+    await AuthService.registerStaff({ ...account, role });
+  }
+  return (await AuthService.login(email, 'password123')).token!;
+}
+
+const bearer = (token: string) => ({ headers: { Authorization: `Bearer ${token}` } });
+
+describe('authenticate', () => {
+  it('should reject requests without a valid token', async () => {
+    expect((await server.request('/api/auth/me')).status).toBe(401);
+    expect((await server.request('/api/auth/me', bearer('not-a-token'))).body.error).toBe('Invalid token');
+  });
+
+  it('should attach the current user', async () => {
+    const { status, body } = await server.request('/api/auth/me', bearer(await tokenFor('teacher')));
+
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ email: 'teacher@example.com', role: 'teacher' });
+  });
+});
+
+describe('requireRole', () => {
+  it('should keep staff out of student-only routes', async () => {
+    const { status } = await server.request('/api/auth/profile', {
+      method: 'PUT',
+      body: JSON.stringify({ grade: 12 }),
+      ...bearer(await tokenFor('counselor'))
+    });
+
+    expect(status).toBe(403);
+  });
+
+  it('should let only admins move a student to another school', async () => {
+    await tokenFor('student');
+    const student = (await AuthService.getAllStudents())[0];
+    const move = async (token: string) => server.request(`/api/auth/students/${student.id}/school`, {
+      method: 'PUT',
+      body: JSON.stringify({ schoolId: 'school-2' }),
+      ...bearer(token)
+    });
+
+    expect((await move(await tokenFor('counselor'))).status).toBe(403);
+
+    const { status, body } = await move(await tokenFor('admin'));
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ id: student.id, schoolId: 'school-2' });
+  });
+
+  it('should let only admins create staff accounts', async () => {
+    const teacher = {
+      role: 'teacher',
+      email: 'new-teacher@example.com',
+      password: 'password123',
+      firstName: 'Jo',
+      lastName: 'Kim',
+      schoolId: 'school-1'
+    };
+    const create = async (token: string) => server.request('/api/auth/staff', {
+      method: 'POST',
+      body: JSON.stringify(teacher),
+      ...bearer(token)
+    });
+
+    expect((await create(await tokenFor('counselor'))).status).toBe(403);
+
+    const { status, body } = await create(await tokenFor('admin'));
+    expect(status).toBe(201);
+    expect(body.data).toMatchObject({ role: 'teacher', schoolId: 'school-1' });
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * Unit tests for AuthService backed by the PostgreSQL repository layer,
+ * run against an in-process pg-mem database
+ */
+
+import { AuthService } from '../src/services/authService';
+import { createMemoryPool, setPool, closePool, query } from '../src/database/db';
+import { runMigrations, MIGRATIONS } from '../src/database/migrations';
+import { Connectable } from '../src/database/transaction';
+import { UserRepository } from '../src/repositories/userRepository';
+import { SessionService } from '../src/services/sessionService';
+import { MemorySessionStore } from '../src/stores';
+import { Pool } from 'pg';
+
+const studentData = {
+  email: 'student@example.com',
+  password: 'password123',
+  firstName: 'Ana',
+  lastName: 'Lopez',
+  grade: 11,
+  zipCode: '12345',
+  schoolId: 'school-1'
+};
+
+/**
+ * A pool that records every statement and fails the first one matching failOn
+ */
+function createRecordingPool(failOn: RegExp): Connectable & { statements: string[] } {
+  const statements: string[] = [];
+  const run = async (text: string) => {
+    statements.push(text.trim().replace(/\s+/g, ' '));
+    if (failOn.test(text)) throw new Error(`boom: ${text.trim().split(/\s+/)[0]}`);
+    return { rows: [], rowCount: 0 } as any;
+  };
+  return {
+    statements,
+    query: run,
+    async connect() {
+      return { query: run, release: () => undefined };
+    },
+  };
+}
+
+describe('AuthService', () => {
+  beforeEach(async () => {
+    const pool = createMemoryPool();
+    setPool(pool);
+    await runMigrations(pool);
+  });
+
+  afterEach(async () => {
+    await closePool();
+  });
+
+  describe('migrations', () => {
+    it('should record every migration and be safe to re-run', async () => {
+      const pool = createMemoryPool();
+      const firstRun = await runMigrations(pool);
+      const secondRun = await runMigrations(pool);
+
+      expect(firstRun).toHaveLength(MIGRATIONS.length);
+      expect(secondRun).toHaveLength(0);
+    });
+
+    it('should roll back a failed migration without recording it', async () => {
+      const pool = createRecordingPool(/student_profiles/);
+
+      await expect(runMigrations(pool)).rejects.toThrow('boom');
+
+      const recorded = pool.statements.filter(s => s.startsWith('INSERT INTO schema_migrations'));
+      expect(recorded).toHaveLength(2);
+      expect(pool.statements.slice(-2)).toEqual([expect.stringContaining('student_profiles'), 'ROLLBACK']);
+    });
+  });
+
+  describe('UserRepository', () => {
+    it('should not leave a user without its student row', async () => {
+      const pool = createRecordingPool(/INSERT INTO students/);
+      setPool(pool as unknown as Pool);
+      const now = new Date();
+
+      await expect(UserRepository.createStudent({
+        id: 'f3a1c0de-0000-4000-8000-000000000001',
+        role: 'student',
+        email: 'half@example.com',
+        firstName: 'Half',
+        lastName: 'User',
+        profileCompleted: false,
+        consentGiven: false,
+        createdAt: now,
+        updatedAt: now
+      }, 'hash')).rejects.toThrow('boom');
+
+      expect(pool.statements).toEqual([
+        'BEGIN',
+        expect.stringContaining('INSERT INTO users'),
+        expect.stringContaining('INSERT INTO students'),
+        'ROLLBACK'
+      ]);
+      setPool(null);
+    });
+
+    it('should report the original error when the rollback fails too', async () => {
+      setPool(createRecordingPool(/INSERT INTO students|ROLLBACK/) as unknown as Pool);
+      const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const now = new Date();
+
+      try {
+        await expect(UserRepository.createStudent({
+          id: 'f3a1c0de-0000-4000-8000-000000000002',
+          role: 'student',
+          email: 'half@example.com',
+          firstName: 'Half',
+          lastName: 'User',
+          profileCompleted: false,
+          consentGiven: false,
+          createdAt: now,
+          updatedAt: now
+        }, 'hash')).rejects.toThrow('boom: INSERT');
+
+        expect(error).toHaveBeenCalledWith('Error rolling back transaction:', new Error('boom: ROLLBACK'));
+      } finally {
+        error.mockRestore();
+        setPool(null);
+      }
+    });
+  });
+
+  describe('registerStudent', () => {
+    it('should persist the student and return a token', async () => {
+      const result = await AuthService.registerStudent(studentData);
+
+      expect(result.success).toBe(true);
+      expect(result.token).toBeDefined();
+      expect(result.user?.role).toBe('student');
+
+      const stored = await AuthService.getUserById(result.user!.id);
+      expect(stored).toMatchObject({
+        email: 'student@example.com',
+        firstName: 'Ana',
+        grade: 11,
+        zipCode: '12345',
+        schoolId: 'school-1',
+        profileCompleted: false
+      });
+    });
+
+    it('should never expose the password hash on the user object', async () => {
+      const result = await AuthService.registerStudent(studentData);
+      const stored = await AuthService.getUserById(result.user!.id);
+
+      expect(result.user).not.toHaveProperty('passwordHash');
+      expect(stored).not.toHaveProperty('passwordHash');
+
+      const row = await query('SELECT password_hash FROM users WHERE id = $1', [result.user!.id]);
+      expect(row.rows[0].password_hash).not.toBe(studentData.password);
+    });
+
+    it('should reject a duplicate email', async () => {
+      await AuthService.registerStudent(studentData);
+      const result = await AuthService.registerStudent(studentData);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Email already registered');
+    });
+  });
+
+  describe('login', () => {
+    it('should log in with the correct password', async () => {
+      await AuthService.registerStudent(studentData);
+      const result = await AuthService.login(studentData.email, studentData.password);
+
+      expect(result.success).toBe(true);
+      expect(result.user?.email).toBe(studentData.email);
+
+      const token = AuthService.verifyToken(result.token!);
+      expect(token.userId).toBe(result.user!.id);
+    });
+
+    it('should reject a wrong password', async () => {
+      await AuthService.registerStudent(studentData);
+      const result = await AuthService.login(studentData.email, 'wrong-password');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid email or password');
+    });
+
+    it('should log in a counselor', async () => {
+      await AuthService.registerCounselor({
+        email: 'counselor@example.com',
+        password: 'password123',
+        firstName: 'Sam',
+        lastName: 'Reyes',
+        schoolId: 'school-1'
+      });
+
+      const result = await AuthService.login('counselor@example.com', 'password123');
+
+      expect(result.success).toBe(true);
+      expect(result.user).toMatchObject({ role: 'counselor', schoolId: 'school-1' });
+    });
+  });
+
+  describe('registerStaff', () => {
+    it('should create teacher and admin accounts that can log in', async () => {
+      const teacher = await AuthService.registerStaff({
+        role: 'teacher',
+        email: 'teacher@example.com',
+        password: 'password123',
+        firstName: 'Jo',
+        lastName: 'Kim',
+        schoolId: 'school-1'
+      });
+      await AuthService.registerStaff({
+        role: 'admin',
+        email: 'admin@example.com',
+        password: 'password123',
+        firstName: 'Pat',
+        lastName: 'Lee'
+      });
+
+      expect(teacher.user).toMatchObject({ role: 'teacher', schoolId: 'school-1' });
+      expect((await AuthService.login('teacher@example.com', 'password123')).user?.role).toBe('teacher');
+
+      const admin = await AuthService.login('admin@example.com', 'password123');
+      expect(admin.user).toMatchObject({ role: 'admin', schoolId: undefined });
+      expect(AuthService.verifyToken(admin.token!).role).toBe('admin');
+    });
+
+    it('should require a school for teachers', async () => {
+      const result = await AuthService.registerStaff({
+        role: 'teacher',
+        email: 'teacher@example.com',
+        password: 'password123',
+        firstName: 'Jo',
+        lastName: 'Kim'
+      });
+
+      expect(result).toEqual({ success: false, error: 'A school is required for teacher accounts' });
+    });
+  });
+
+  describe('createInitialAdmin', () => {
+    afterEach(() => {
+      delete process.env.ADMIN_EMAIL;
+      delete process.env.ADMIN_PASSWORD;
+    });
+
+    it('should create an admin that can log in, once', async () => {
+      const admin = { email: 'admin@example.com', password: 'password123' };
+
+      expect(await AuthService.createInitialAdmin(admin)).toEqual({ success: true, created: true });
+      expect(await AuthService.createInitialAdmin({ ...admin, password: 'different' }))
+        .toEqual({ success: true, created: false });
+
+      const login = await AuthService.login('admin@example.com', 'password123');
+      expect(login.user).toMatchObject({ role: 'admin', firstName: 'Lantern', lastName: 'Admin' });
+    });
+
+    it('should create the admin from ADMIN_EMAIL and ADMIN_PASSWORD', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      process.env.ADMIN_EMAIL = 'admin@example.com';
+      process.env.ADMIN_PASSWORD = 'password123';
+
+      await AuthService.createInitialAdminFromEnv();
+
+      expect((await AuthService.login('admin@example.com', 'password123')).user?.role).toBe('admin');
+      jest.restoreAllMocks();
+    });
+
+    it('should reject a short password', async () => {
+      expect(await AuthService.createInitialAdmin({ email: 'admin@example.com', password: 'abc' }))
+        .toEqual({ success: false, error: 'Password must be at least 6 characters' });
+      expect(await UserRepository.emailExists('admin@example.com')).toBe(false);
+    });
+  });
+
+  describe('updateStudentProfile', () => {
+    it('should update profile fields but not identity fields', async () => {
+      const { user } = await AuthService.registerStudent(studentData);
+
+      const updated = await AuthService.updateStudentProfile(user!.id, {
+        grade: 12,
+        zipCode: '54321',
+        email: 'hijack@example.com',
+        role: 'student'
+      });
+
+      expect(updated).toBe(true);
+      const stored = await AuthService.getUserById(user!.id);
+      expect(stored).toMatchObject({ grade: 12, zipCode: '54321', email: studentData.email });
+    });
+
+    it('should not let students change their school', async () => {
+      const { user } = await AuthService.registerStudent(studentData);
+
+      await AuthService.updateStudentProfile(user!.id, { schoolId: 'school-2', grade: 10 });
+
+      expect(await AuthService.getUserById(user!.id)).toMatchObject({ schoolId: 'school-1', grade: 10 });
+    });
+
+    it('should return false for an unknown user', async () => {
+      const updated = await AuthService.updateStudentProfile('00000000-0000-0000-0000-000000000000', { grade: 10 });
+      expect(updated).toBe(false);
+    });
+  });
+
+  describe('linkSessionToUser', () => {
+    beforeEach(() => {
+      SessionService.setStore(new MemorySessionStore());
+    });
+
+    afterEach(() => {
+      SessionService.setStore(null);
+    });
+
+    it('should mark the student profile as completed once the session has a profile', async () => {
+      const { user } = await AuthService.registerStudent(studentData);
+      const session = await SessionService.createSession();
+      await SessionService.updateSessionProfile(session.sessionId, { interests: ['Healthcare'] });
+
+      const linked = await AuthService.linkSessionToUser(user!.id, session.sessionId, session.linkToken);
+
+      expect(linked).toEqual({ success: true });
+      const stored = await AuthService.getUserById(user!.id);
+      expect(stored).toMatchObject({ profileCompleted: true });
+    });
+
+    it('should leave the profile incomplete for a session with only answers', async () => {
+      const { user } = await AuthService.registerStudent(studentData);
+      const session = await SessionService.createSession();
+      await SessionService.updateSessionAnswers(session.sessionId, [{ questionId: 'q1', answer: 'Agree', timestamp: new Date() }]);
+
+      expect(await AuthService.linkSessionToUser(user!.id, session.sessionId, session.linkToken)).toEqual({ success: true });
+
+      expect(await AuthService.getUserById(user!.id)).toMatchObject({ profileCompleted: false });
+    });
+
+    it('should only link sessions started by this client', async () => {
+      const { user } = await AuthService.registerStudent(studentData);
+      const session = await SessionService.createSession();
+      await SessionService.updateSessionProfile(session.sessionId, { interests: ['Healthcare'] });
+
+      expect(await AuthService.linkSessionToUser(user!.id, session.sessionId, 'guessed-token'))
+        .toEqual({ success: false, error: 'Session was not started by this client' });
+      expect(await AuthService.linkSessionToUser(user!.id, 'no-such-session', session.linkToken))
+        .toEqual({ success: false, error: 'Session not found' });
+      expect(await AuthService.getUserById(user!.id)).toMatchObject({ profileCompleted: false });
+    });
+
+    it('should not link a session to a second account', async () => {
+      const { user: first } = await AuthService.registerStudent(studentData);
+      const { user: second } = await AuthService.registerStudent({ ...studentData, email: 'other@example.com' });
+      const session = await SessionService.createSession();
+      await SessionService.updateSessionProfile(session.sessionId, { interests: ['Healthcare'] });
+      await AuthService.linkSessionToUser(first!.id, session.sessionId, session.linkToken);
+
+      expect(await AuthService.linkSessionToUser(second!.id, session.sessionId, session.linkToken))
+        .toEqual({ success: false, error: 'Session is already linked to another account' });
+      expect(await AuthService.linkSessionToUser(first!.id, session.sessionId, session.linkToken)).toEqual({ success: true });
+      expect(await AuthService.getUserById(second!.id)).toMatchObject({ profileCompleted: false });
+    });
+  });
+
+  describe('getAllStudents', () => {
+    it('should list students only', async () => {
+      await AuthService.registerStudent(studentData);
+      await AuthService.registerCounselor({
+        email: 'counselor@example.com',
+        password: 'password123',
+        firstName: 'Sam',
+        lastName: 'Reyes',
+        schoolId: 'school-1'
+      });
+
+      const students = await AuthService.getAllStudents();
+
+      expect(students).toHaveLength(1);
+      expect(students[0].email).toBe(studentData.email);
+    });
+  });
+});
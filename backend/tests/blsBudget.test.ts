@@ -0,0 +1,279 @@
+/**
+ * Tests for the BLS daily request budget, the counters that persist it and
+ * the admin endpoint that reports it
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import adminRoutes from '../src/routes/admin';
+import { AuthService } from '../src/services/authService';
+import { getSeries, clearCache } from '../src/services/blsClient';
+import { getBudgetStatus, reserveRequest, setRequestCounter } from '../src/services/blsBudget';
+import { MemoryRequestCounter, FileRequestCounter, RedisRequestCounter, RedisCounterClient } from '../src/cache';
+import { createMemoryPool, setPool, closePool } from '../src/database/db';
+import { runMigrations } from '../src/database/migrations';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+const response = {
+  ok: true,
+  status: 200,
+  json: async () => ({
+    status: 'REQUEST_SUCCEEDED',
+    responseTime: 10,
+    message: [],
+    Results: { series: [{ seriesID: 'LNS14000000', data: [] }] }
+  })
+} as unknown as Response;
+
+const uncached = { enableCache: false, retryDelay: 1 };
+
+beforeEach(() => {
+  process.env.BLS_DAILY_REQUEST_LIMIT = '3';
+  process.env.BLS_BUDGET_RESERVE = '1';
+  setRequestCounter(new MemoryRequestCounter());
+});
+
+afterEach(() => {
+  delete process.env.BLS_DAILY_REQUEST_LIMIT;
+  delete process.env.BLS_BUDGET_RESERVE;
+  setRequestCounter(null);
+  clearCache();
+  jest.restoreAllMocks();
+});
+
+describe('BLS request budget', () => {
+  it('should count every attempt, including retries', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(global, 'fetch')
+      .mockResolvedValueOnce({ ok: false, status: 429 } as Response)
+      .mockResolvedValueOnce(response);
+
+    await getSeries('LNS14000000', undefined, undefined, uncached);
+
+    expect(await getBudgetStatus()).toMatchObject({ used: 2, remaining: 1, backgroundAllowed: false });
+  });
+
+  it('should defer background requests once only the reserve is left', async () => {
+    const mockFetch = jest.spyOn(global, 'fetch').mockResolvedValue(response);
+    await getSeries('LNS14000000', undefined, undefined, { ...uncached, priority: 'background' });
+
+    await getSeries('LNS14000000', undefined, undefined, { ...uncached, priority: 'background' });
+    await expect(getSeries('LNS14000000', undefined, undefined, { ...uncached, priority: 'background' }))
+      .rejects.toThrow('kept for user lookups');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    await getSeries('LNS14000000', undefined, undefined, uncached);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect((await getBudgetStatus()).used).toBe(3);
+  });
+
+  it('should let only as many concurrent requests through as the budget has left', async () => {
+    const mockFetch = jest.spyOn(global, 'fetch').mockResolvedValue(response);
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () => getSeries('LNS14000000', undefined, undefined, uncached))
+    );
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(3);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect((await getBudgetStatus()).used).toBe(3);
+  });
+
+  it('should refresh stale cached series as background requests', async () => {
+    const mockFetch = jest.spyOn(global, 'fetch').mockResolvedValue(response);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await getSeries('LNS14000000', undefined, undefined, { retryDelay: 1 });
+    await getSeries('CUSR0000SA0', undefined, undefined, uncached);
+
+    // Only the reserve is left, so a user lookup gets the stale series without spending it
+    const series = await getSeries('LNS14000000', undefined, undefined, { retryDelay: 1, cacheTTL: 0 });
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    expect(series?.seriesID).toBe('LNS14000000');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Background refresh'), expect.stringContaining('kept for user lookups'));
+  });
+
+  it('should refuse every request once the budget is used up', async () => {
+    const mockFetch = jest.spyOn(global, 'fetch').mockResolvedValue(response);
+    for (let i = 0; i < 3; i++) {
+      await getSeries('LNS14000000', undefined, undefined, uncached);
+    }
+
+    await expect(getSeries('LNS14000000', undefined, undefined, uncached)).rejects.toThrow('budget of 3 used up');
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should start each UTC day with the full budget', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(response);
+    await getSeries('LNS14000000', undefined, undefined, uncached);
+    const today = await getBudgetStatus();
+
+    const tomorrow = await getBudgetStatus(today.resetsAt);
+
+    expect(today.used).toBe(1);
+    expect(tomorrow).toMatchObject({ used: 0, remaining: 3 });
+    expect(tomorrow.day > today.day).toBe(true);
+  });
+
+  it('should default to the BLS limits with and without a registration key', async () => {
+    delete process.env.BLS_DAILY_REQUEST_LIMIT;
+    delete process.env.BLS_BUDGET_RESERVE;
+
+    expect(await getBudgetStatus()).toMatchObject({ limit: 25, reserve: 5, apiKeyConfigured: false });
+
+    process.env.BLS_API_KEY = 'test-key';
+    try {
+      expect(await getBudgetStatus()).toMatchObject({ limit: 500, reserve: 100, apiKeyConfigured: true });
+    } finally {
+      delete process.env.BLS_API_KEY;
+    }
+  });
+});
+
+describe('budget store', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lantern-budget-'));
+    process.env.BLS_CACHE_DIR = dir;
+    setRequestCounter(null);
+  });
+
+  afterEach(() => {
+    delete process.env.BLS_CACHE_DIR;
+    delete process.env.BLS_BUDGET_STORE;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep the count in a file by default, even when responses are cached in memory', async () => {
+    await reserveRequest('user');
+
+    expect(fs.readdirSync(dir)).toEqual(['request-budget']);
+    setRequestCounter(null);
+    expect((await getBudgetStatus()).used).toBe(1);
+  });
+
+  it('should use the store BLS_BUDGET_STORE selects', async () => {
+    process.env.BLS_BUDGET_STORE = 'memory';
+
+    await reserveRequest('user');
+
+    expect(fs.readdirSync(dir)).toEqual([]);
+    expect((await getBudgetStatus()).used).toBe(1);
+  });
+});
+
+describe('request counters', () => {
+  it('should keep file counts across restarts and reset them on a new day', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lantern-budget-'));
+    try {
+      const file = path.join(dir, 'bls', 'request-budget');
+      const counter = new FileRequestCounter(file);
+      await Promise.all([counter.increment('2026-10-19'), counter.increment('2026-10-19')]);
+
+      const restarted = new FileRequestCounter(file);
+      expect(await restarted.get('2026-10-19')).toBe(2);
+      expect(await restarted.get('2026-10-20')).toBe(0);
+      expect(await restarted.increment('2026-10-20')).toBe(1);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should count in Redis with one expiring key per day', async () => {
+    const values = new Map<string, number>();
+    const expiries = new Map<string, number>();
+    const redis: RedisCounterClient = {
+      async get(key) {
+        return values.has(key) ? String(values.get(key)) : null;
+      },
+      async incr(key) {
+        values.set(key, (values.get(key) || 0) + 1);
+        return values.get(key)!;
+      },
+      async decr(key) {
+        values.set(key, (values.get(key) || 0) - 1);
+        return values.get(key)!;
+      },
+      async pExpire(key, ms) {
+        expiries.set(key, ms);
+        return true;
+      }
+    };
+    const counter = new RedisRequestCounter(async () => redis, 'test:');
+
+    await counter.increment('2026-10-19');
+    await counter.increment('2026-10-19');
+    await counter.increment('2026-10-19');
+    await counter.decrement('2026-10-19');
+
+    expect(await counter.get('2026-10-19')).toBe(2);
+    expect([...expiries.keys()]).toEqual(['test:2026-10-19']);
+  });
+});
+
+describe('GET /api/admin/bls/budget', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer(app => app.use('/api/admin', adminRoutes));
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    const pool = createMemoryPool();
+    setPool(pool);
+    await runMigrations(pool);
+  });
+
+  afterEach(async () => {
+    await closePool();
+  });
+
+  async function token(role: 'admin' | 'counselor'): Promise<string> {
+    if (role === 'counselor') {
+      await AuthService.registerCounselor({
+        email: 'counselor@example.com',
+        password: 'password123',
+        firstName: 'Sam',
+        lastName: 'Reyes',
+        schoolId: 'school-1'
+      });
+    } else {
+      await AuthService.registerStaff({
+        role: 'admin',
+        email: 'admin@example.com',
+        password: 'password123',
+        firstName: 'Dana',
+        lastName: 'Admin'
+      });
+    }
+    return (await AuthService.login(`${role}@example.com`, 'password123')).token!;
+  }
+
+  it('should report today\'s usage to admins', async () => {
+    const counter = new MemoryRequestCounter();
+    await counter.increment(new Date().toISOString().slice(0, 10));
+    setRequestCounter(counter);
+
+    const { status, body } = await server.request('/api/admin/bls/budget', {
+      headers: { Authorization: `Bearer ${await token('admin')}` }
+    });
+
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ limit: 3, reserve: 1, used: 1, remaining: 2, backgroundAllowed: true });
+  });
+
+  it('should not be available to counselors', async () => {
+    const { status } = await server.request('/api/admin/bls/budget', {
+      headers: { Authorization: `Bearer ${await token('counselor')}` }
+    });
+
+    expect(status).toBe(403);
+  });
+});
@@ -11,6 +11,8 @@ import {
   BLS_SERIES,
   BLSSeries
 } from '../src/services/blsClient';
+import { setRequestCounter } from '../src/services/blsBudget';
+import { MemoryRequestCounter } from '../src/cache';
 
 // Mock the global fetch function
 const mockFetch = jest.fn();
@@ -91,6 +93,7 @@ describe('BLS Client', () => {
   beforeEach(() => {
     // Clear cache before each test
     clearCache();
+    setRequestCounter(new MemoryRequestCounter());
     mockFetch.mockReset();
     // Clear environment variables
     delete process.env.BLS_API_KEY;
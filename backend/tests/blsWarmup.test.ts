@@ -0,0 +1,231 @@
+/**
+ * Tests for the BLS warmup job that keeps every referenced series cached
+ */
+
+import { createBlsWarmupJob, getWarmupIntervalMs, getWarmupSchedule, scheduleJob } from '../src/jobs';
+import { getBLSConfig } from '../src/config/blsConfig';
+import { getReferencedSeriesIds, getJobSpecificEconomicData, warmEconomicData } from '../src/services/careerEconomicService';
+import { CareerService } from '../src/services/careerService';
+import { LaborMarketService } from '../src/services/laborMarketService';
+import { GeographyService } from '../src/services/geographyService';
+import { clearCache } from '../src/services/blsClient';
+import { getBudgetStatus, setRequestCounter } from '../src/services/blsBudget';
+import { getZipCrosswalk, setZipCrosswalk } from '../src/services/zipCrosswalk';
+import { MemoryRequestCounter } from '../src/cache';
+
+const SERIES = ['CUSR0000SA0', 'LNS14000000', 'CES0500000003'];
+
+// LAUS series for the two crosswalk ZIPs below: Ohio, then Franklin and Athens counties
+const LAUS_SERIES = ['LASST390000000000003', 'LAUCN390490000000003', 'LAUCN390090000000003'];
+
+function blsResponse(seriesIds: string[]) {
+  return {
+    ok: true,
+    status: 200,
+    json: async () => ({
+      status: 'REQUEST_SUCCEEDED',
+      responseTime: 10,
+      message: [],
+      Results: {
+        series: seriesIds.map(seriesID => ({
+          seriesID,
+          data: [{ year: '2026', period: 'M08', periodName: 'August', value: '1.0', footnotes: [] }]
+        }))
+      }
+    })
+  } as unknown as Response;
+}
+
+// Lets the next run start after the last one cached its series
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const requestedSeries = (call: unknown[]) => JSON.parse(String((call[1] as RequestInit).body)).seriesid as string[];
+
+let mockFetch: jest.SpyInstance;
+
+beforeEach(() => {
+  // Columbus (a metro area) and Athens (a micropolitan one) keep the regional series few
+  const crosswalk = getZipCrosswalk();
+  setZipCrosswalk(new Map(['43215', '45701'].map(zip => [zip, crosswalk.get(zip)!])));
+  setRequestCounter(new MemoryRequestCounter());
+  mockFetch = jest.spyOn(global, 'fetch')
+    .mockImplementation(async (_url, init) => blsResponse(JSON.parse(String(init?.body)).seriesid));
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  clearCache();
+  setZipCrosswalk(null);
+  setRequestCounter(null);
+  jest.restoreAllMocks();
+});
+
+describe('warmEconomicData', () => {
+  it('should reference the configured indicators, every mapped career series and the regional series once', () => {
+    const ids = getReferencedSeriesIds();
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toEqual(expect.arrayContaining([...SERIES, ...LAUS_SERIES]));
+    // Registered nurse medians nationally, in Ohio and in the Columbus metro area, but not micropolitan Athens
+    expect(ids).toEqual(expect.arrayContaining(['OEUN000000000000029114113', 'OEUS390000000000029114113', 'OEUM001814000000029114113']));
+    expect(ids.filter(id => id.startsWith('OEUM'))).toEqual(ids.filter(id => id.startsWith('OEUM0018140')));
+  });
+
+  it('should fetch every indicator in one request so student lookups stay off the network', async () => {
+    const report = await warmEconomicData(0, 0);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(report.refreshed.sort()).toEqual([...SERIES].sort());
+
+    await CareerService.getEconomicData();
+    await getJobSpecificEconomicData('rn-001');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fetch missing regional series, broadest areas first, in the requests it is allowed', async () => {
+    const report = await warmEconomicData(0, 2);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(requestedSeries(mockFetch.mock.calls[1])).toEqual(LAUS_SERIES);
+    expect(requestedSeries(mockFetch.mock.calls[2]).every(id => id.startsWith('OEUN'))).toBe(true);
+    expect(report.refreshed).toHaveLength(SERIES.length + LAUS_SERIES.length + 25);
+    expect(report.unavailable).toHaveLength(getReferencedSeriesIds().length - report.refreshed.length);
+
+    expect((await LaborMarketService.getUnemployment(GeographyService.resolveZip('45701')!))?.seriesId)
+      .toBe('LAUCN390090000000003');
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should only refresh series that would go stale before the next run', async () => {
+    await warmEconomicData();
+    await tick();
+    const requests = mockFetch.mock.calls.length;
+
+    expect((await warmEconomicData(0)).fresh).toHaveLength(getReferencedSeriesIds().length);
+    expect(mockFetch).toHaveBeenCalledTimes(requests);
+
+    expect((await warmEconomicData(getBLSConfig().cache.ttlMs)).refreshed).toHaveLength(SERIES.length);
+    expect(mockFetch).toHaveBeenCalledTimes(requests + 1);
+  });
+
+  it('should refresh regional series once they go stale', async () => {
+    await warmEconomicData();
+    await tick();
+    const requests = mockFetch.mock.calls.length;
+    process.env.LAUS_CACHE_TTL_MS = '1';
+    try {
+      const report = await warmEconomicData(0);
+
+      expect(report.refreshed).toEqual(LAUS_SERIES);
+      expect(mockFetch).toHaveBeenCalledTimes(requests + 1);
+    } finally {
+      delete process.env.LAUS_CACHE_TTL_MS;
+    }
+  });
+
+  it('should give way to user lookups when the daily budget runs low', async () => {
+    process.env.BLS_DAILY_REQUEST_LIMIT = '5';
+    process.env.BLS_BUDGET_RESERVE = '5';
+    try {
+      const report = await warmEconomicData();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(report.unavailable).toHaveLength(getReferencedSeriesIds().length);
+      expect(report.error).toMatch('kept for user lookups');
+      expect((await getBudgetStatus()).used).toBe(0);
+    } finally {
+      delete process.env.BLS_DAILY_REQUEST_LIMIT;
+      delete process.env.BLS_BUDGET_RESERVE;
+    }
+  });
+
+  it('should keep serving cached series when a refresh fails', async () => {
+    await warmEconomicData();
+    await tick();
+    mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' } as Response);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const report = await warmEconomicData(getBLSConfig().cache.ttlMs);
+
+    expect(report.stale).toHaveLength(SERIES.length);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('serving cached data'), 'BLS API error: 503 Service Unavailable');
+  });
+});
+
+describe('createBlsWarmupJob', () => {
+  it('should run at start and log a refresh report', async () => {
+    const job = createBlsWarmupJob();
+    const total = getReferencedSeriesIds().length;
+
+    await job.run();
+
+    expect(job.runAtStart).toBe(true);
+    // Without an API key each run has room for one request of regional series
+    expect(console.log).toHaveBeenCalledWith(
+      `📈 BLS warmup: ${total} series, 6 refreshed, 0 still fresh, 0 stale, ${total - 6} unavailable`
+    );
+  });
+});
+
+describe('warmup interval', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+    delete process.env.BLS_API_KEY;
+    delete process.env.BLS_WARMUP_INTERVAL_MS;
+  });
+
+  it('should run once per cache TTL when the budget allows it', () => {
+    process.env.BLS_API_KEY = 'test-key';
+
+    expect(getWarmupIntervalMs()).toBe(getBLSConfig().cache.ttlMs);
+  });
+
+  it('should fit a full day of runs at the defaults into the budget above the reserve', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T00:00:00Z') });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const stop = scheduleJob(createBlsWarmupJob());
+    try {
+      await jest.advanceTimersByTimeAsync(DAY_MS - 1);
+    } finally {
+      stop();
+    }
+
+    const status = await getBudgetStatus();
+    expect(status).toMatchObject({ day: '2026-10-19', limit: 25, reserve: 5 });
+    expect(status.used).toBe(mockFetch.mock.calls.length);
+    expect(status.used).toBeGreaterThan(0);
+    expect(status.used).toBeLessThanOrEqual(status.limit - status.reserve);
+    // No run was deferred for lack of budget
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should give each run its share of the budget for regional series', () => {
+    process.env.BLS_API_KEY = 'test-key';
+
+    // 400 background requests over 25 hourly runs, less one for the indicators
+    expect(getWarmupSchedule().regionalRequestsPerRun).toBe(15);
+  });
+
+  it('should warn when the budget cannot keep every regional series fresh', () => {
+    process.env.BLS_DAILY_REQUEST_LIMIT = '3';
+    process.env.BLS_BUDGET_RESERVE = '0';
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    try {
+      expect(getWarmupSchedule()).toEqual({ intervalMs: DAY_MS, regionalRequestsPerRun: 0 });
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("can't keep every LAUS and OEWS series fresh"));
+    } finally {
+      delete process.env.BLS_DAILY_REQUEST_LIMIT;
+      delete process.env.BLS_BUDGET_RESERVE;
+    }
+  });
+
+  it('should warn when a configured interval runs more often than the budget allows', () => {
+    process.env.BLS_WARMUP_INTERVAL_MS = '1800000';
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(getWarmupIntervalMs()).toBe(1800000);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('more often than the daily budget allows'));
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Tests for the stale-while-revalidate cache, its file and Redis stores,
+ * and BLS responses served through it
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SwrCache, FileCacheStore, RedisCacheStore, RedisCacheClient } from '../src/cache';
+import { getSeries, setSeriesCache, BLSSeries } from '../src/services/blsClient';
+import { setRequestCounter } from '../src/services/blsBudget';
+import { MemoryRequestCounter } from '../src/cache';
+
+/**
+ * Minimal stand-in for a Redis client that records PX retention
+ */
+function createFakeRedis(): RedisCacheClient & { values: Map<string, string>; ttls: Map<string, number> } {
+  const values = new Map<string, string>();
+  const ttls = new Map<string, number>();
+
+  return {
+    values,
+    ttls,
+    async get(key) {
+      return values.get(key) ?? null;
+    },
+    async set(key, value, options) {
+      values.set(key, value);
+      ttls.set(key, options.PX);
+      return 'OK';
+    },
+    async del(key) {
+      return values.delete(key) ? 1 : 0;
+    },
+    async *scanIterator(options) {
+      const prefix = options.MATCH.replace(/\*$/, '');
+      for (const key of [...values.keys()]) {
+        if (key.startsWith(prefix)) yield key;
+      }
+    },
+  };
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lantern-cache-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+const HOUR = 60 * 60 * 1000;
+
+describe('SwrCache', () => {
+  it('should serve fresh entries without fetching again', async () => {
+    const cache = new SwrCache<string>({ ttlMs: HOUR, maxStaleMs: HOUR });
+    const load = jest.fn().mockResolvedValue('v1');
+
+    await cache.get('k', load);
+    const second = await cache.get('k', load);
+
+    expect(second).toMatchObject({ value: 'v1', stale: false });
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(cache.size).toBe(1);
+  });
+
+  it('should serve stale entries while refreshing in the background', async () => {
+    const cache = new SwrCache<string>({ ttlMs: HOUR, maxStaleMs: HOUR });
+    await cache.get('k', async () => 'v1');
+    const firstFetch = cache.peek('k')!.fetchedAt;
+
+    let finish: (value: string) => void = () => undefined;
+    const stale = await cache.get('k', () => new Promise(resolve => { finish = resolve; }), 0);
+
+    expect(stale).toMatchObject({ value: 'v1', stale: true, fetchedAt: firstFetch });
+
+    finish('v2');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(cache.peek('k')?.value).toBe('v2');
+  });
+
+  it('should wait for entries past their stale window, and keep them if the fetch fails', async () => {
+    const cache = new SwrCache<string>({ ttlMs: HOUR, maxStaleMs: 0 });
+    await cache.get('k', async () => 'v1');
+
+    expect((await cache.get('k', async () => 'v2', 0)).value).toBe('v2');
+    expect(await cache.get('k', () => Promise.reject(new Error('down')), 0)).toMatchObject({ value: 'v2', stale: true });
+    await expect(cache.get('other', () => Promise.reject(new Error('down')))).rejects.toThrow('down');
+  });
+
+  it('should share one fetch between concurrent callers', async () => {
+    const cache = new SwrCache<string>({ ttlMs: HOUR, maxStaleMs: HOUR });
+    const load = jest.fn().mockResolvedValue('v1');
+
+    await Promise.all([cache.get('k', load), cache.get('k', load)]);
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should load every missing key in one call', async () => {
+    const cache = new SwrCache<string>({ ttlMs: HOUR, maxStaleMs: HOUR });
+    await cache.get('a', async () => 'a1');
+    const load = jest.fn(async (keys: string[]) => new Map(keys.filter(k => k !== 'gone').map(k => [k, `${k}1`])));
+
+    const values = await cache.getMany(['a', 'b', 'c', 'gone'], load);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(load).toHaveBeenCalledWith(['b', 'c', 'gone'], false);
+    expect([...values.keys()]).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should refresh stale entries before returning when asked to wait', async () => {
+    const cache = new SwrCache<string>({ ttlMs: HOUR, maxStaleMs: HOUR });
+    await cache.get('k', async () => 'v1');
+
+    const values = await cache.getMany(['k'], async () => new Map([['k', 'v2']]), 0, true);
+
+    expect(values.get('k')).toMatchObject({ value: 'v2', stale: false });
+  });
+
+  it('should read cached entries without fetching, leaving out missing and expired ones', async () => {
+    const store = new FileCacheStore(dir);
+    await new SwrCache<string>({ ttlMs: HOUR, maxStaleMs: HOUR }, store).get('k', async () => 'v1');
+    const restarted = new SwrCache<string>({ ttlMs: HOUR, maxStaleMs: HOUR }, store);
+
+    expect((await restarted.getCached(['k', 'other'])).get('k')).toMatchObject({ value: 'v1', stale: false });
+    expect([...(await restarted.getCached(['k', 'other'], 0)).values()]).toMatchObject([{ value: 'v1', stale: true }]);
+    expect((await restarted.getCached(['k'], -HOUR)).size).toBe(0);
+  });
+
+  it('should reload entries from its store after a restart', async () => {
+    const store = new FileCacheStore(dir);
+    await new SwrCache<string>({ ttlMs: HOUR, maxStaleMs: HOUR }, store).get('k', async () => 'v1');
+
+    const restarted = new SwrCache<string>({ ttlMs: HOUR, maxStaleMs: HOUR }, store);
+    const load = jest.fn().mockResolvedValue('v2');
+
+    expect((await restarted.get('k', load)).value).toBe('v1');
+    expect(load).not.toHaveBeenCalled();
+  });
+});
+
+describe('FileCacheStore', () => {
+  it('should keep entries until their retention passes', async () => {
+    const store = new FileCacheStore(path.join(dir, 'bls'));
+    const fetchedAt = new Date('2026-10-01T12:00:00Z');
+
+    await store.set('kept', { value: { rate: 4.1 }, fetchedAt }, HOUR);
+    await store.set('expired', { value: 1, fetchedAt }, -1);
+
+    expect(await store.get('kept')).toEqual({ value: { rate: 4.1 }, fetchedAt });
+    expect(await store.get('expired')).toBeNull();
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('should clear every entry', async () => {
+    const store = new FileCacheStore(dir);
+    await store.set('k', { value: 1, fetchedAt: new Date() }, HOUR);
+
+    await store.clear();
+
+    expect(await store.get('k')).toBeNull();
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+});
+
+describe('RedisCacheStore', () => {
+  it('should save entries with their retention as a key TTL', async () => {
+    const redis = createFakeRedis();
+    const store = new RedisCacheStore(async () => redis, 'test:');
+    const fetchedAt = new Date('2026-10-01T12:00:00Z');
+
+    await store.set('k', { value: ['a'], fetchedAt }, HOUR);
+
+    expect(redis.ttls.get('test:k')).toBe(HOUR);
+    expect(await store.get('k')).toEqual({ value: ['a'], fetchedAt });
+  });
+
+  it('should only clear its own keys', async () => {
+    const redis = createFakeRedis();
+    redis.values.set('lantern:session:abc', '{}');
+    const store = new RedisCacheStore(async () => redis, 'test:');
+    await store.set('k', { value: 1, fetchedAt: new Date() }, HOUR);
+
+    await store.clear();
+
+    expect([...redis.values.keys()]).toEqual(['lantern:session:abc']);
+  });
+});
+
+describe('BLS responses', () => {
+  const response = {
+    status: 'REQUEST_SUCCEEDED',
+    responseTime: 10,
+    message: [],
+    Results: {
+      series: [{ seriesID: 'LNS14000000', data: [{ year: '2026', period: 'M08', periodName: 'August', value: '4.1', footnotes: [] }] }]
+    }
+  };
+
+  beforeEach(() => {
+    setRequestCounter(new MemoryRequestCounter());
+  });
+
+  afterEach(() => {
+    setSeriesCache(null);
+    setRequestCounter(null);
+  });
+
+  it('should say when cached data was fetched, across restarts', async () => {
+    const store = new FileCacheStore(dir);
+    const mockFetch = jest.spyOn(global, 'fetch')
+      .mockResolvedValue({ ok: true, json: async () => response } as unknown as Response);
+
+    setSeriesCache(new SwrCache<BLSSeries>({ ttlMs: HOUR, maxStaleMs: HOUR }, store));
+    const fetched = await getSeries('LNS14000000', 2025, 2026);
+
+    setSeriesCache(new SwrCache<BLSSeries>({ ttlMs: HOUR, maxStaleMs: HOUR }, store));
+    const cached = await getSeries('LNS14000000', 2025, 2026);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(fetched?.fetchedAt).toBeInstanceOf(Date);
+    expect(cached?.fetchedAt).toEqual(fetched?.fetchedAt);
+    expect(cached?.data[0].value).toBe('4.1');
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for building the career catalog from normalized O*NET data
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  applyCareerOverlays,
+  buildCareerCatalog,
+  loadCareerCatalog,
+  toEducationLevel,
+  sectorForOnetCode
+} from '../src/services/careerCatalog';
+import { NormalizedOccupation, NormalizedOnetDatabase } from '../src/services/onetService';
+import { CURATED_CAREERS } from '../src/data/curatedCareers';
+
+function occupation(overrides: Partial<NormalizedOccupation>): NormalizedOccupation {
+  return {
+    onetCode: '00-0000.00',
+    title: 'Occupation',
+    description: 'Does things.',
+    tasks: ['Task one'],
+    skills: [{ name: 'Active Listening', importance: 4 }],
+    knowledge: [],
+    abilities: [],
+    educationLevel: '',
+    ...overrides
+  };
+}
+
+const database: NormalizedOnetDatabase = {
+  metadata: { version: '1.0.0', generatedAt: '2024-01-15T12:00:00.000Z', sourceFiles: [] },
+  occupations: [
+    occupation({
+      onetCode: '29-1141.00',
+      title: 'Registered Nurses',
+      description: 'Assess patient health problems and needs.',
+      tasks: ['Record patients\' medical information', 'Monitor patients'],
+      skills: [{ name: 'Service Orientation', importance: 4.1 }, { name: 'Active Listening', importance: 4.0 }],
+      educationLevel: "Bachelor's degree"
+    }),
+    occupation({
+      onetCode: '29-2052.00',
+      title: 'Pharmacy Technicians',
+      educationLevel: 'Post-secondary certificate',
+      medianWage: 40000
+    }),
+    occupation({ onetCode: '29-9099.00', title: 'Healthcare Practitioners, All Other', tasks: [], skills: [] }),
+    occupation({ onetCode: '15-1252.00', title: 'Software Developers' }),
+    occupation({ onetCode: '51-4121.00', title: 'Welders, Cutters, Solderers, and Brazers' })
+  ]
+};
+
+describe('careerCatalog', () => {
+  describe('buildCareerCatalog', () => {
+    const catalog = buildCareerCatalog(database);
+    const byId = new Map(catalog.careers.map(c => [c.id, c]));
+
+    it('should layer curated fields over the matching O*NET occupation', () => {
+      const nurse = byId.get('rn-001');
+
+      expect(nurse).toMatchObject({
+        title: 'Registered Nurse',
+        sector: 'healthcare',
+        certifications: ['RN License', 'BLS Certification'],
+        responsibilities: ['Record patients\' medical information', 'Monitor patients'],
+        skills: ['Service Orientation', 'Active Listening']
+      });
+    });
+
+    it('should add uncurated occupations from sector SOC groups', () => {
+      const tech = byId.get('29-2052.00');
+
+      expect(tech).toMatchObject({
+        title: 'Pharmacy Technicians',
+        sector: 'healthcare',
+        requiredEducation: 'certificate',
+        averageSalary: 40000,
+        onetCode: '29-2052.00'
+      });
+    });
+
+    it('should skip out-of-sector and placeholder occupations', () => {
+      expect(byId.has('15-1252.00')).toBe(false);
+      expect(byId.has('29-9099.00')).toBe(false);
+    });
+
+    it('should keep curated careers outside the sector SOC groups', () => {
+      expect(byId.get('weld-001')?.sector).toBe('infrastructure');
+    });
+
+    it('should still offer curated careers missing from the database', () => {
+      expect(byId.has('elec-001')).toBe(true);
+      expect(catalog.careers).toHaveLength(CURATED_CAREERS.length + 1);
+    });
+
+    it('should index occupation details by O*NET code', () => {
+      expect(catalog.source).toBe('onet');
+      expect(catalog.occupations.get('29-1141.00')?.title).toBe('Registered Nurses');
+    });
+  });
+
+  describe('loadCareerCatalog', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lantern-onet-'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    });
+
+    it('should fall back to curated careers when the file is missing', () => {
+      const catalog = loadCareerCatalog(path.join(tempDir, 'missing.json'));
+
+      expect(catalog.source).toBe('curated');
+      expect(catalog.careers).toBe(CURATED_CAREERS);
+    });
+
+    it('should fall back to curated careers when the file is unreadable', () => {
+      const file = path.join(tempDir, 'onet_normalized.json');
+      fs.writeFileSync(file, '{ not json');
+
+      expect(loadCareerCatalog(file).source).toBe('curated');
+    });
+
+    it('should load the catalog from a normalized database file', () => {
+      const file = path.join(tempDir, 'onet_normalized.json');
+      fs.writeFileSync(file, JSON.stringify(database));
+
+      const catalog = loadCareerCatalog(file);
+      expect(catalog.source).toBe('onet');
+      expect(catalog.careers.some(c => c.id === '29-2052.00')).toBe(true);
+    });
+  });
+
+  describe('applyCareerOverlays', () => {
+    const base = buildCareerCatalog(database);
+
+    it('should override only the fields an overlay sets', () => {
+      const overlaid = applyCareerOverlays(base, [
+        { careerId: 'rn-001', title: 'Registered Nurse (RN)', salaryMin: 61000 }
+      ]);
+      const nurse = overlaid.careers.find(c => c.id === 'rn-001');
+      const original = base.careers.find(c => c.id === 'rn-001')!;
+
+      expect(nurse).toMatchObject({
+        title: 'Registered Nurse (RN)',
+        description: original.description,
+        salaryRange: { min: 61000, max: original.salaryRange.max }
+      });
+      expect(nurse).not.toHaveProperty('careerId');
+      expect(original.title).toBe('Registered Nurse');
+    });
+
+    it('should ignore overlays for unknown careers', () => {
+      const overlaid = applyCareerOverlays(base, [{ careerId: 'nope-001', title: 'Nope' }]);
+
+      expect(overlaid.careers.map(c => c.title)).toEqual(base.careers.map(c => c.title));
+    });
+  });
+
+  describe('helpers', () => {
+    it('should map O*NET education descriptions to education levels', () => {
+      expect(toEducationLevel("Bachelor's degree")).toBe('bachelor');
+      expect(toEducationLevel("Master's degree")).toBe('bachelor');
+      expect(toEducationLevel("Associate's degree")).toBe('associate');
+      expect(toEducationLevel('Post-secondary certificate')).toBe('certificate');
+      expect(toEducationLevel('High school diploma or equivalent')).toBe('high-school');
+      expect(toEducationLevel('')).toBeNull();
+    });
+
+    it('should derive the sector from the SOC major group', () => {
+      expect(sectorForOnetCode('31-9092.00')).toBe('healthcare');
+      expect(sectorForOnetCode('49-9021.00')).toBe('infrastructure');
+      expect(sectorForOnetCode('15-1252.00')).toBeNull();
+    });
+  });
+});
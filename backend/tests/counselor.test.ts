@@ -0,0 +1,168 @@
+/**
+ * Route tests for the /api/counselor dashboard
+ */
+
+import counselorRoutes from '../src/routes/counselor';
+import { AuthService } from '../src/services/authService';
+import { SessionService } from '../src/services/sessionService';
+import { MemorySessionStore } from '../src/stores';
+import { createMemoryPool, setPool, closePool } from '../src/database/db';
+import { runMigrations } from '../src/database/migrations';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+let server: TestServer;
+let counselorToken: string;
+let ana: string;
+let ben: string;
+let other: string;
+
+beforeAll(async () => {
+  server = await startTestServer(app => app.use('/api/counselor', counselorRoutes));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+async function registerStudent(firstName: string, schoolId: string): Promise<string> {
+  const { user } = await AuthService.registerStudent({
+    email: `${firstName.toLowerCase()}@example.com`,
+    password: 'password123',
+    firstName,
+    lastName: 'Student',
+    schoolId
+  });
+  return user!.id;
+}
+
+beforeEach(async () => {
+  const pool = createMemoryPool();
+  setPool(pool);
+  await runMigrations(pool);
+  SessionService.setStore(new MemorySessionStore());
+
+  await AuthService.registerCounselor({
+    email: 'counselor@example.com',
+    password: 'password123',
+    firstName: 'Sam',
+    lastName: 'Reyes',
+    schoolId: 'school-1'
+  });
+  counselorToken = (await AuthService.login('counselor@example.com', 'password123')).token!;
+
+  ana = await registerStudent('Ana', 'school-1');
+  ben = await registerStudent('Ben', 'school-1');
+  other = await registerStudent('Cy', 'school-2');
+
+  // Ana finished the assessment and picked two careers; Ben only started
+  const finished = await SessionService.createSession();
+  await SessionService.updateSessionProfile(finished.sessionId, { interests: ['Healthcare', 'Helping Others'] });
+  await AuthService.linkSessionToUser(ana, finished.sessionId, finished.linkToken);
+  await AuthService.setTargetCareers(ana, ['rn-001', 'elec-001']);
+
+  const started = await SessionService.createSession();
+  await SessionService.updateSessionAnswers(started.sessionId, [{ questionId: 'q1', answer: 'Agree', timestamp: new Date() }]);
+  await AuthService.linkSessionToUser(ben, started.sessionId, started.linkToken);
+  await AuthService.setTargetCareers(other, ['rn-001']);
+});
+
+afterEach(async () => {
+  SessionService.setStore(null);
+  await closePool();
+});
+
+const asCounselor = (init: RequestInit = {}) => ({ ...init, headers: { Authorization: `Bearer ${counselorToken}` } });
+
+describe('GET /api/counselor/students', () => {
+  it('should list only the counselor\'s school with status and target careers', async () => {
+    const { body } = await server.request('/api/counselor/students', asCounselor());
+
+    expect(body.data.map((s: { studentId: string; profileStatus: string; targetCareers: string[] }) =>
+      [s.studentId, s.profileStatus, s.targetCareers]))
+      .toEqual([[ana, 'complete', ['rn-001', 'elec-001']], [ben, 'in-progress', []]]);
+  });
+
+  it('should be closed to students', async () => {
+    const token = (await AuthService.login('ana@example.com', 'password123')).token!;
+    const { status } = await server.request('/api/counselor/students', { headers: { Authorization: `Bearer ${token}` } });
+
+    expect(status).toBe(403);
+  });
+});
+
+describe('student records', () => {
+  it('should replace a saved profile and target careers', async () => {
+    const finished = await SessionService.createSession();
+    await SessionService.updateSessionProfile(finished.sessionId, { interests: ['Building'] });
+    await AuthService.linkSessionToUser(ben, finished.sessionId, finished.linkToken);
+    await AuthService.setTargetCareers(ana, ['weld-001']);
+
+    const { body } = await server.request('/api/counselor/students', asCounselor());
+
+    expect(body.data.map((s: { profileStatus: string; targetCareers: string[] }) => [s.profileStatus, s.targetCareers]))
+      .toEqual([['complete', ['weld-001']], ['complete', []]]);
+  });
+});
+
+describe('counselor notes', () => {
+  it('should add and list notes for a student', async () => {
+    const created = await server.request(`/api/counselor/students/${ana}/notes`, asCounselor({
+      method: 'POST',
+      body: JSON.stringify({ note: ' Interested in CNA summer program ' })
+    }));
+    expect(created.status).toBe(201);
+
+    const { body } = await server.request(`/api/counselor/students/${ana}`, asCounselor());
+    expect(body.data.notes).toEqual([expect.objectContaining({ note: 'Interested in CNA summer program', studentId: ana })]);
+    expect(body.data.profile.interests).toEqual(['Healthcare', 'Helping Others']);
+  });
+
+  it('should not reach students at other schools', async () => {
+    const { status } = await server.request(`/api/counselor/students/${other}/notes`, asCounselor({
+      method: 'POST',
+      body: JSON.stringify({ note: 'Hello' })
+    }));
+
+    expect(status).toBe(404);
+  });
+});
+
+describe('GET /api/counselor/students/:id/report.pdf', () => {
+  // Matches would otherwise fetch wages from BLS
+  beforeAll(() => {
+    process.env.BLS_ENABLED = 'false';
+  });
+
+  afterAll(() => {
+    delete process.env.BLS_ENABLED;
+  });
+
+  it('should build a report from the student\'s saved profile', async () => {
+    const { status, headers } = await server.request(`/api/counselor/students/${ana}/report.pdf`, asCounselor());
+
+    expect(status).toBe(200);
+    expect(headers.get('content-type')).toBe('application/pdf');
+  });
+
+  it('should 404 for a student without a completed profile', async () => {
+    const { status } = await server.request(`/api/counselor/students/${ben}/report.pdf`, asCounselor());
+    expect(status).toBe(404);
+  });
+});
+
+describe('GET /api/counselor/trends', () => {
+  it('should aggregate interests, careers and sectors for the school', async () => {
+    const { body } = await server.request('/api/counselor/trends', asCounselor());
+
+    expect(body.data).toEqual({
+      totalStudents: 2,
+      completedAssessments: 1,
+      topInterests: [{ interest: 'Healthcare', count: 1 }, { interest: 'Helping Others', count: 1 }],
+      topCareers: [
+        { career: 'Electrician', count: 1 },
+        { career: 'Registered Nurse', count: 1 }
+      ],
+      sectorDistribution: { healthcare: 1, infrastructure: 1 }
+    });
+  });
+});
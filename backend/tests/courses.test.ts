@@ -0,0 +1,174 @@
+/**
+ * Tests for school course catalogs, course recommendations in pathways
+ * and action plans, and /api/courses
+ */
+
+import courseRoutes from '../src/routes/courses';
+import careerRoutes from '../src/routes/careers';
+import { AuthService } from '../src/services/authService';
+import { CourseService } from '../src/services/courseService';
+import { CareerService } from '../src/services/careerService';
+import { ActionPlanService } from '../src/services/actionPlanService';
+import { createMemoryPool, setPool, closePool } from '../src/database/db';
+import { runMigrations } from '../src/database/migrations';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer(app => {
+    app.use('/api/courses', courseRoutes);
+    app.use('/api/careers', careerRoutes);
+  });
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+afterEach(() => {
+  CourseService.setUploadedCourses([]);
+});
+
+const codes = (courses: { code: string }[]) => courses.map(c => c.code);
+
+describe('CourseService.getCoursesForCareer', () => {
+  it('should list CTE courses first, then by earliest grade', () => {
+    expect(codes(CourseService.getCoursesForCareer('athens-hs', 'lpn-001')))
+      .toEqual(['HS110', 'HS210', 'HS320', 'BIO101', 'ANA201']);
+  });
+
+  it('should filter by the grade a course is offered in', () => {
+    expect(codes(CourseService.getCoursesForCareer('athens-hs', 'lpn-001', { grade: 9 }))).toEqual(['HS110', 'BIO101']);
+    expect(codes(CourseService.getCoursesForCareer('athens-hs', 'lpn-001', { fromGrade: 11 })))
+      .toEqual(['HS210', 'HS320', 'ANA201']);
+  });
+
+  it('should only list the school\'s own courses', () => {
+    expect(codes(CourseService.getCoursesForCareer('chillicothe-hs', 'weld-001'))).toEqual(['CTE160', 'CTE260', 'MTH210']);
+    expect(CourseService.getCoursesForCareer('unknown-hs', 'weld-001')).toEqual([]);
+  });
+
+  it('should let uploaded courses replace bundled ones and add new schools', () => {
+    CourseService.setUploadedCourses([
+      { id: 'u1', schoolId: 'athens-hs', code: 'HS110', name: 'Health Science I', gradeLevels: [9], category: 'Health Science', isCTE: true, relatedCareers: ['chw-001'] },
+      { id: 'u2', schoolId: 'school-1', code: 'WLD1', name: 'Welding', gradeLevels: [11], category: 'Manufacturing', isCTE: true, relatedCareers: ['weld-001'] }
+    ]);
+
+    expect(codes(CourseService.getCoursesForCareer('athens-hs', 'lpn-001'))).not.toContain('HS110');
+    expect(CourseService.getCourses('athens-hs').find(c => c.code === 'HS110')?.name).toBe('Health Science I');
+    expect(codes(CourseService.getCoursesForCareer('school-1', 'weld-001'))).toEqual(['WLD1']);
+  });
+});
+
+describe('courses in pathways and action plans', () => {
+  const nurse = () => CareerService.getCareerById('rn-001')!;
+
+  it('should list the school\'s courses in the high school stage', () => {
+    const [stage] = CareerService.getCareerPathway(nurse(), undefined, 'athens-hs', 11).stages;
+
+    expect(stage.providers).toEqual(['Athens High School']);
+    expect(stage.courseCodes).toEqual(['HS210', 'HS320', 'ANA201']);
+    expect(stage.requirements).toContain('HS320 Nurse Aide Training (STNA) (CTE)');
+  });
+
+  it('should keep the general high school stage without a school', () => {
+    const [stage] = CareerService.getCareerPathway(nurse()).stages;
+
+    expect(stage.courseCodes).toBeUndefined();
+    expect(stage.requirements).toContain('Take science/math courses');
+  });
+
+  it('should recommend course codes in the action plan', () => {
+    const step = ActionPlanService.generateActionPlan(nurse(), 9, undefined, 'athens-hs').steps.find(s => s.id === 'courses-1');
+
+    expect(step?.courseCodes).toEqual(['HS110', 'HS210', 'HS320', 'BIO101']);
+    expect(step?.description).toContain('HS110 Health Science Foundations (CTE)');
+  });
+
+  it('should leave courses out of plans for students past high school', () => {
+    const plan = ActionPlanService.generateActionPlan(nurse(), 13, undefined, 'athens-hs');
+
+    expect(plan.steps.find(s => s.id === 'courses-1')).toBeUndefined();
+  });
+});
+
+describe('GET /api/courses/recommended', () => {
+  beforeEach(async () => {
+    const pool = createMemoryPool();
+    setPool(pool);
+    await runMigrations(pool);
+  });
+
+  afterEach(async () => {
+    await closePool();
+  });
+
+  async function studentToken(schoolId?: string, grade?: number): Promise<string> {
+    const registered = await AuthService.registerStudent({
+      email: 'ana@example.com',
+      password: 'password123',
+      firstName: 'Ana',
+      lastName: 'Lopez',
+      schoolId,
+      grade
+    });
+    return registered.token!;
+  }
+
+  const get = (path: string, token: string) =>
+    server.request(path, { headers: { Authorization: `Bearer ${token}` } });
+
+  it('should list the student\'s school courses from their grade on', async () => {
+    const token = await studentToken('chillicothe-hs', 11);
+
+    const { status, body } = await get('/api/courses/recommended?career=weld-001', token);
+
+    expect(status).toBe(200);
+    expect(body.data.school.name).toBe('Chillicothe High School');
+    expect(body.data.grade).toBe(11);
+    expect(codes(body.data.courses)).toEqual(['CTE160', 'CTE260']);
+  });
+
+  it('should filter by a requested grade', async () => {
+    const token = await studentToken('chillicothe-hs', 11);
+
+    const { body } = await get('/api/courses/recommended?career=weld-001&grade=9', token);
+
+    expect(codes(body.data.courses)).toEqual(['MTH210']);
+  });
+
+  it('should validate the career and grade', async () => {
+    const token = await studentToken('athens-hs');
+
+    expect((await get('/api/courses/recommended?career=nope', token)).status).toBe(400);
+    expect((await get('/api/courses/recommended?career=rn-001&grade=14', token)).body.error)
+      .toBe('Grade must be between 6 and 12');
+  });
+
+  it('should return 404 when the student has no school', async () => {
+    const { status } = await get('/api/courses/recommended?career=rn-001', await studentToken());
+
+    expect(status).toBe(404);
+  });
+});
+
+describe('GET /api/careers/:id/pathway', () => {
+  it('should list middle school students every course they can still take', async () => {
+    const { status, body } = await server.request('/api/careers/rn-001/pathway?schoolId=athens-hs&grade=7');
+
+    expect(status).toBe(200);
+    expect(body.data.stages[0].courseCodes).toEqual(
+      codes(CourseService.getCoursesForCareer('athens-hs', 'rn-001')).slice(0, 4)
+    );
+  });
+
+  it('should reject grades the course catalogs don\'t cover, like /api/courses/recommended', async () => {
+    for (const grade of ['5', '13', 'senior']) {
+      const { status, body } = await server.request(`/api/careers/rn-001/pathway?schoolId=athens-hs&grade=${grade}`);
+
+      expect(status).toBe(400);
+      expect(body.error).toBe('Grade must be between 6 and 12');
+    }
+  });
+});
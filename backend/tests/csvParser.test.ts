@@ -0,0 +1,43 @@
+/**
+ * Unit tests for parsing uploaded CSV files
+ */
+
+import { parseCsv } from '../src/services/csvParser';
+
+describe('parseCsv', () => {
+  it('should key rows by header and trim cells', () => {
+    const table = parseCsv('code, name \r\nHS101, Health Science 1\r\n');
+
+    expect(table.headers).toEqual(['code', 'name']);
+    expect(table.rows).toEqual([{ line: 2, values: { code: 'HS101', name: 'Health Science 1' }, error: undefined }]);
+  });
+
+  it('should handle quoted commas, quotes and line breaks', () => {
+    const table = parseCsv('name,description\n"Welding, Level 1","Learn to ""lay a bead""\nsafely"\nCNA,Nurse aide\n');
+
+    expect(table.rows[0].values).toEqual({ name: 'Welding, Level 1', description: 'Learn to "lay a bead"\nsafely' });
+    expect(table.rows[1]).toMatchObject({ line: 4, values: { name: 'CNA' } });
+  });
+
+  it('should skip blank rows and a byte order mark', () => {
+    const table = parseCsv('\uFEFFcode,name\n\nA1,One\n,\n');
+
+    expect(table.headers).toEqual(['code', 'name']);
+    expect(table.rows).toHaveLength(1);
+    expect(table.rows[0].line).toBe(3);
+  });
+
+  it('should fill missing cells and flag extra ones', () => {
+    const table = parseCsv('code,name\nA1\nB2,Two,extra\n');
+
+    expect(table.rows[0].values).toEqual({ code: 'A1', name: '' });
+    expect(table.rows[1].error).toBe('has 3 cells but the header has 2');
+  });
+
+  it('should reject files it cannot read', () => {
+    expect(() => parseCsv('')).toThrow('File is empty');
+    expect(() => parseCsv('code,,name\n')).toThrow('Header in column 2 is blank');
+    expect(() => parseCsv('code,code\n')).toThrow('Header "code" appears more than once');
+    expect(() => parseCsv('code\n"A1\n')).toThrow('Unterminated quoted field starting on line 2');
+  });
+});
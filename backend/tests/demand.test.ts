@@ -0,0 +1,192 @@
+/**
+ * Tests for local demand scoring from projected growth and openings and
+ * LAUS unemployment rates
+ */
+
+import careerRoutes from '../src/routes/careers';
+import { scoreDemand, parseGrowthPercent } from '../src/services/demandScoring';
+import { LaborMarketService, UnemploymentReading } from '../src/services/laborMarketService';
+import { GeographyService } from '../src/services/geographyService';
+import { CareerService } from '../src/services/careerService';
+import { SessionService } from '../src/services/sessionService';
+import { clearCache, getMultipleSeries } from '../src/services/blsClient';
+import { setRequestCounter } from '../src/services/blsBudget';
+import { MemoryRequestCounter } from '../src/cache';
+import { MemorySessionStore } from '../src/stores';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+const career = (id: string) => CareerService.getCareerById(id)!;
+
+function reading(seriesId: string, rate: number): UnemploymentReading {
+  return { seriesId, area: 'Athens County, OH', rate, period: 'August 2026', fetchedAt: new Date() };
+}
+
+function lausResponse(series: { seriesID: string; data: object[] }[]) {
+  return {
+    ok: true,
+    json: async () => ({ status: 'REQUEST_SUCCEEDED', responseTime: 10, message: [], Results: { series } })
+  };
+}
+
+const month = (period: string, periodName: string, value: string) =>
+  ({ year: '2026', period, periodName, value, footnotes: [] });
+
+/**
+ * Put LAUS series in the BLS cache, as the warmup job does. Returns the
+ * fetch spy with that request cleared.
+ */
+async function cacheLaus(series: { seriesID: string; data: object[] }[]) {
+  const mockFetch = jest.spyOn(global, 'fetch').mockResolvedValueOnce(lausResponse(series) as unknown as Response);
+  const { startYear, endYear, ttlMs } = LaborMarketService.getSeriesGroup();
+  await getMultipleSeries(series.map(s => s.seriesID), startYear, endYear, { cacheTTL: ttlMs });
+  return mockFetch.mockClear();
+}
+
+const athens = GeographyService.resolveZip('45701')!;
+const ATHENS_COUNTY = 'LAUCN390090000000003';
+const OHIO = 'LASST390000000000003';
+
+beforeEach(() => {
+  setRequestCounter(new MemoryRequestCounter());
+});
+
+afterEach(() => {
+  setRequestCounter(null);
+  clearCache();
+  jest.restoreAllMocks();
+});
+
+describe('scoreDemand', () => {
+  it('should score growth and openings from the career\'s projections', () => {
+    expect(scoreDemand(career('ma-001'), null)).toEqual({
+      level: 'high',
+      basis: {
+        score: 2,
+        inputs: [
+          { factor: 'growth', value: 16, points: 1, source: 'Career outlook' },
+          { factor: 'openings', value: 14.7, points: 1, source: 'BLS Employment Projections 2023-33' }
+        ]
+      }
+    });
+    expect(scoreDemand(career('rn-001'), null).basis.inputs.map(i => i.points)).toEqual([1, -1]);
+  });
+
+  it('should raise demand in tight labor markets and lower it where unemployment is high', () => {
+    expect(scoreDemand(career('elec-001'), null).level).toBe('medium');
+    expect(scoreDemand(career('elec-001'), reading(ATHENS_COUNTY, 3.5)).level).toBe('high');
+    expect(scoreDemand(career('weld-001'), reading(ATHENS_COUNTY, 7.2)).level).toBe('low');
+    expect(scoreDemand(career('weld-001'), reading(ATHENS_COUNTY, 7.2)).basis.inputs[2])
+      .toEqual({ factor: 'unemployment', value: 7.2, points: -1, source: 'LAUS Athens County, OH, August 2026' });
+  });
+
+  it('should use thresholds from the environment', () => {
+    process.env.DEMAND_HIGH_SCORE = '1';
+    try {
+      expect(scoreDemand(career('elec-001'), null).level).toBe('high');
+    } finally {
+      delete process.env.DEMAND_HIGH_SCORE;
+    }
+  });
+
+  it('should fall back to projected growth when the outlook has no figure', () => {
+    const nurse = { ...career('rn-001'), growthOutlook: 'Bright outlook' };
+
+    expect(parseGrowthPercent('Slower than average (2% growth)')).toBe(2);
+    expect(scoreDemand(nurse, null).basis.inputs[0])
+      .toEqual({ factor: 'growth', value: 6, points: 0, source: 'BLS Employment Projections 2023-33' });
+  });
+});
+
+describe('LaborMarketService.getUnemployment', () => {
+  it('should prefer the county\'s cached rate to the state\'s', async () => {
+    await cacheLaus([
+      { seriesID: ATHENS_COUNTY, data: [month('M13', 'Annual', '5.0'), month('M08', 'August', '4.6')] },
+      { seriesID: OHIO, data: [month('M08', 'August', '4.1')] }
+    ]);
+
+    expect(await LaborMarketService.getUnemployment(athens))
+      .toMatchObject({ seriesId: ATHENS_COUNTY, area: 'Athens County, OH', rate: 4.6, period: 'August 2026' });
+  });
+
+  it('should fall back to the state\'s rate', async () => {
+    await cacheLaus([{ seriesID: OHIO, data: [month('M08', 'August', '4.1')] }]);
+
+    expect(await LaborMarketService.getUnemployment(athens)).toMatchObject({ seriesId: OHIO, area: 'Ohio' });
+  });
+
+  it('should serve stale rates, leaving the refresh to the warmup job', async () => {
+    const mockFetch = await cacheLaus([{ seriesID: OHIO, data: [month('M08', 'August', '4.1')] }]);
+    process.env.LAUS_CACHE_TTL_MS = '1';
+    try {
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      expect((await LaborMarketService.getUnemployment(athens))?.rate).toBe(4.1);
+    } finally {
+      delete process.env.LAUS_CACHE_TTL_MS;
+    }
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should not fetch rates that are not cached', async () => {
+    const mockFetch = jest.spyOn(global, 'fetch');
+
+    expect(await LaborMarketService.getUnemployment(athens)).toBeNull();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('demand in every match', () => {
+  it('should use the region\'s cached rate, for matches and single careers alike', async () => {
+    const mockFetch = await cacheLaus([
+      { seriesID: ATHENS_COUNTY, data: [month('M08', 'August', '3.8')] },
+      { seriesID: OHIO, data: [month('M08', 'August', '4.1')] }
+    ]);
+
+    const matches = await CareerService.getCareerMatches({ interests: ['Building'] }, '45701');
+    const electrician = matches.find(m => m.careerId === 'elec-001')!;
+
+    expect(electrician.demandBasis?.inputs.map(i => i.factor)).toContain('unemployment');
+    expect(await CareerService.estimateLocalDemand(career('elec-001'), '45701')).toBe(electrician.localDemand);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/careers/matches', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer(app => app.use('/api/careers', careerRoutes));
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    SessionService.setStore(new MemorySessionStore());
+  });
+
+  afterEach(() => {
+    SessionService.setStore(null);
+  });
+
+  it('should say which inputs produced each demand level', async () => {
+    await cacheLaus([
+      { seriesID: ATHENS_COUNTY, data: [month('M08', 'August', '3.8')] },
+      { seriesID: OHIO, data: [month('M08', 'August', '4.1')] }
+    ]);
+    const session = await SessionService.createSession();
+    await SessionService.updateSessionProfile(session.sessionId, { zipCode: '45701', interests: ['Building'] });
+
+    const { body } = await server.request('/api/careers/matches', {
+      method: 'POST',
+      body: JSON.stringify({ sessionId: session.sessionId, zipCode: '45701' })
+    });
+    const electrician = body.data.matches.find((m: { careerId: string }) => m.careerId === 'elec-001');
+
+    expect(electrician.localDemand).toBe('high');
+    expect(electrician.demandBasis.score).toBe(2);
+    expect(electrician.demandBasis.inputs.map((i: { factor: string }) => i.factor))
+      .toEqual(['growth', 'openings', 'unemployment']);
+  });
+});
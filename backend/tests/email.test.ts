@@ -0,0 +1,195 @@
+/**
+ * Route tests for /api/email
+ */
+
+import emailRoutes from '../src/routes/email';
+import { AuthService } from '../src/services/authService';
+import { EmailService } from '../src/services/emailService';
+import { ProgramService } from '../src/services/programService';
+import { TRAINING_PROGRAMS } from '../src/data/trainingPrograms';
+import { EmailMessage, EmailTransport } from '../src/email';
+import { createMemoryPool, setPool, closePool } from '../src/database/db';
+import { runMigrations } from '../src/database/migrations';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+let server: TestServer;
+let sent: EmailMessage[];
+let studentToken: string;
+
+const transport: EmailTransport = {
+  name: 'recording',
+  async send(message) {
+    sent.push(message);
+    return `msg-${sent.length}`;
+  }
+};
+
+beforeAll(async () => {
+  server = await startTestServer(app => app.use('/api/email', emailRoutes));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+async function login(email: string): Promise<string> {
+  return (await AuthService.login(email, 'password123')).token!;
+}
+
+beforeEach(async () => {
+  const pool = createMemoryPool();
+  setPool(pool);
+  await runMigrations(pool);
+  sent = [];
+  EmailService.setTransport(transport);
+
+  await AuthService.registerCounselor({
+    email: 'counselor@example.com',
+    password: 'password123',
+    firstName: 'Sam',
+    lastName: 'Reyes',
+    schoolId: 'school-1'
+  });
+  await AuthService.registerStudent({
+    email: 'ana@example.com',
+    password: 'password123',
+    firstName: 'Ana',
+    lastName: 'Lopez',
+    schoolId: 'school-1'
+  });
+  studentToken = await login('ana@example.com');
+});
+
+afterEach(async () => {
+  EmailService.setTransport(null);
+  await closePool();
+});
+
+const post = (token: string, body: unknown) => ({
+  method: 'POST',
+  headers: { Authorization: `Bearer ${token}` },
+  body: JSON.stringify(body)
+});
+
+describe('POST /api/email/counselor-outreach', () => {
+  it('should email the student\'s counselor about a career', async () => {
+    const { status, body } = await server.request(
+      '/api/email/counselor-outreach',
+      post(studentToken, { careerId: 'rn-001', message: 'Can we meet this week?' })
+    );
+
+    expect(status).toBe(201);
+    expect(body.data).toMatchObject({ status: 'sent', recipient: 'counselor@example.com' });
+    expect(body.message).toBe('Email sent to your counselor');
+    expect(sent[0].text).toContain('Can we meet this week?');
+  });
+
+  it('should not claim the email was sent when it only went to the outbox', async () => {
+    EmailService.setTransport({ ...transport, name: 'outbox' });
+
+    const { status, body } = await server.request('/api/email/counselor-outreach', post(studentToken, { careerId: 'rn-001' }));
+
+    expect(status).toBe(201);
+    expect(body.message).toBe(
+      'Email to your counselor saved to the outbox; it will not be delivered until email sending is set up'
+    );
+  });
+
+  it('should reject unknown careers', async () => {
+    const { status, body } = await server.request('/api/email/counselor-outreach', post(studentToken, { careerId: 'nope' }));
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('A valid careerId is required');
+  });
+
+  it('should return 404 when the student\'s school has no counselor', async () => {
+    await AuthService.registerStudent({
+      email: 'cy@example.com',
+      password: 'password123',
+      firstName: 'Cy',
+      lastName: 'Park',
+      schoolId: 'school-2'
+    });
+
+    const { status } = await server.request('/api/email/counselor-outreach', post(await login('cy@example.com'), { careerId: 'rn-001' }));
+
+    expect(status).toBe(404);
+    expect(sent).toHaveLength(0);
+  });
+
+  it('should only allow students', async () => {
+    const { status } = await server.request(
+      '/api/email/counselor-outreach',
+      post(await login('counselor@example.com'), { careerId: 'rn-001' })
+    );
+
+    expect(status).toBe(403);
+  });
+});
+
+describe('POST /api/email/program-inquiry', () => {
+  afterEach(() => {
+    ProgramService.setUploadedPrograms([]);
+  });
+
+  it('should email the program\'s contact with replies going to the student', async () => {
+    const { status, body } = await server.request(
+      '/api/email/program-inquiry',
+      post(studentToken, { programId: 'prog-002', careerId: 'rn-001', message: 'Is there a night cohort?' })
+    );
+
+    expect(status).toBe(201);
+    expect(body.data).toMatchObject({ templateType: 'program-inquiry', recipient: TRAINING_PROGRAMS[1].contactEmail });
+    expect(body.message).toBe('Email sent to Scioto Valley Community College');
+    expect(sent[0]).toMatchObject({ replyTo: 'ana@example.com', subject: 'Question about Associate Degree in Nursing' });
+    expect(sent[0].text).toContain('becoming a Registered Nurse');
+    expect(sent[0].text).toContain('Is there a night cohort?');
+  });
+
+  it('should validate the program and career', async () => {
+    const inquire = (body: unknown) => server.request('/api/email/program-inquiry', post(studentToken, body));
+
+    expect((await inquire({ programId: 'nope' })).body.error).toBe('A valid programId is required');
+    expect((await inquire({ programId: 'prog-002', careerId: 'weld-001' })).body.error)
+      .toBe('careerId must be a career this program trains for');
+    expect(sent).toHaveLength(0);
+  });
+
+  it('should return 404 when the program has no contact email', async () => {
+    const { contactEmail, ...program } = TRAINING_PROGRAMS[0];
+    ProgramService.setUploadedPrograms([{ ...program, id: 'prog-uploaded' }]);
+
+    const { status } = await server.request('/api/email/program-inquiry', post(studentToken, { programId: 'prog-uploaded' }));
+
+    expect(contactEmail).toBeDefined();
+    expect(status).toBe(404);
+    expect(sent).toHaveLength(0);
+  });
+});
+
+describe('GET /api/email/log', () => {
+  it('should show admins every send attempt', async () => {
+    await server.request('/api/email/counselor-outreach', post(studentToken, { careerId: 'rn-001' }));
+    await AuthService.registerStaff({
+      role: 'admin',
+      email: 'admin@example.com',
+      password: 'password123',
+      firstName: 'Dana',
+      lastName: 'Admin'
+    });
+
+    const { status, body } = await server.request('/api/email/log', {
+      headers: { Authorization: `Bearer ${await login('admin@example.com')}` }
+    });
+
+    expect(status).toBe(200);
+    expect(body.data).toHaveLength(1);
+    expect(body.data[0]).toMatchObject({ templateType: 'counselor-outreach', status: 'sent' });
+  });
+
+  it('should not show the log to students', async () => {
+    const { status } = await server.request('/api/email/log', { headers: { Authorization: `Bearer ${studentToken}` } });
+
+    expect(status).toBe(403);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for EmailService templating, delivery and the send log,
+ * plus the outbox transport used for local testing
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { EmailService } from '../src/services/emailService';
+import { AuthService } from '../src/services/authService';
+import { CareerService } from '../src/services/careerService';
+import { EmailMessage, EmailTransport, OutboxTransport } from '../src/email';
+import { createMemoryPool, setPool, closePool } from '../src/database/db';
+import { runMigrations } from '../src/database/migrations';
+import { Career, Student, TrainingProgram } from '../src/types';
+
+class RecordingTransport implements EmailTransport {
+  readonly name = 'recording';
+  readonly sent: EmailMessage[] = [];
+  failWith: string | null = null;
+
+  async send(message: EmailMessage): Promise<string> {
+    if (this.failWith) throw new Error(this.failWith);
+    this.sent.push(message);
+    return `msg-${this.sent.length}`;
+  }
+}
+
+const program: TrainingProgram = {
+  id: 'prog-1',
+  name: 'Electrical Apprenticeship',
+  provider: 'Local 58 Training Center',
+  type: 'apprenticeship',
+  sector: 'infrastructure',
+  targetCareers: ['elec-001'],
+  duration: '4 years',
+  cost: 0,
+  isPaid: true,
+  location: { zipCode: '48201', city: 'Detroit', state: 'MI' },
+  eligibility: ['18 or older'],
+  isActive: true
+};
+
+let transport: RecordingTransport;
+let career: Career;
+
+beforeEach(async () => {
+  const pool = createMemoryPool();
+  setPool(pool);
+  await runMigrations(pool);
+  transport = new RecordingTransport();
+  EmailService.setTransport(transport);
+  career = CareerService.getCareerById('rn-001')!;
+});
+
+afterEach(async () => {
+  EmailService.setTransport(null);
+  await closePool();
+});
+
+describe('EmailService.render', () => {
+  it('should fill every placeholder from student, counselor and career data', () => {
+    const variables = EmailService.buildVariables({
+      student: { firstName: 'Ana', lastName: 'Lopez', email: 'ana@example.com' },
+      counselor: { firstName: 'Sam', lastName: 'Reyes' },
+      career,
+      message: 'Can we meet Tuesday?'
+    });
+
+    const rendered = EmailService.render(EmailService.getTemplate('counselor-outreach'), variables);
+
+    expect(rendered.missing).toEqual([]);
+    expect(rendered.subject).toBe(`Ana Lopez would like to talk about ${career.title}`);
+    expect(rendered.body).toContain('Hi Sam Reyes,');
+    expect(rendered.body).toContain('Can we meet Tuesday?');
+    expect(rendered.body).toContain('ana@example.com');
+    expect(rendered.body).not.toMatch(/\{\{/);
+  });
+
+  it('should fill program details for program inquiries', () => {
+    const variables = EmailService.buildVariables({
+      student: { firstName: 'Ana', lastName: 'Lopez', email: 'ana@example.com' },
+      career: CareerService.getCareerById('elec-001')!,
+      program
+    });
+
+    const rendered = EmailService.render(EmailService.getTemplate('program-inquiry'), variables);
+
+    expect(rendered.missing).toEqual([]);
+    expect(rendered.subject).toBe('Question about Electrical Apprenticeship');
+    expect(rendered.body).toContain('Cost: Free');
+    expect(rendered.body).toContain('Location: Detroit, MI');
+  });
+
+  it('should report placeholders without a value and leave them in place', () => {
+    const rendered = EmailService.render(EmailService.getTemplate('reminder'), { studentFirstName: 'Ana' });
+
+    expect(rendered.missing).toEqual(['careerTitle', 'reminderTitle', 'reminderDue', 'message']);
+    expect(rendered.subject).toBe('Reminder: {{reminderTitle}}');
+  });
+});
+
+describe('EmailService.send', () => {
+  const reminderVariables = {
+    studentFirstName: 'Ana',
+    careerTitle: 'Registered Nurse',
+    reminderTitle: 'Ask about CNA classes',
+    reminderDue: 'March 1',
+    message: ''
+  };
+
+  it('should deliver through the transport and log the send', async () => {
+    const entry = await EmailService.send({ type: 'reminder', to: 'ana@example.com', variables: reminderVariables });
+
+    expect(entry).toMatchObject({ status: 'sent', transport: 'recording', messageId: 'msg-1', recipient: 'ana@example.com' });
+    expect(transport.sent[0]).toMatchObject({ to: 'ana@example.com', subject: 'Reminder: Ask about CNA classes' });
+    expect(await EmailService.getLog()).toEqual([entry]);
+  });
+
+  it('should log failed deliveries with the transport error', async () => {
+    transport.failWith = 'Connection refused';
+
+    const entry = await EmailService.send({ type: 'reminder', to: 'ana@example.com', variables: reminderVariables });
+
+    expect(entry).toMatchObject({ status: 'failed', error: 'Connection refused' });
+    expect((await EmailService.getLog())[0].status).toBe('failed');
+  });
+
+  it('should refuse to send a template with missing variables', async () => {
+    await expect(EmailService.send({ type: 'reminder', to: 'ana@example.com', variables: {} }))
+      .rejects.toThrow('Missing template variables');
+    expect(transport.sent).toHaveLength(0);
+  });
+});
+
+describe('EmailService.sendCounselorOutreach', () => {
+  async function registerStudent(schoolId?: string): Promise<Student> {
+    const { user } = await AuthService.registerStudent({
+      email: 'ana@example.com',
+      password: 'password123',
+      firstName: 'Ana',
+      lastName: 'Lopez',
+      schoolId
+    });
+    return user!;
+  }
+
+  it('should email the school counselor with replies going to the student', async () => {
+    await AuthService.registerCounselor({
+      email: 'counselor@example.com',
+      password: 'password123',
+      firstName: 'Sam',
+      lastName: 'Reyes',
+      schoolId: 'school-1'
+    });
+    const student = await registerStudent('school-1');
+
+    const entry = await EmailService.sendCounselorOutreach(student, career);
+
+    expect(entry).toMatchObject({ status: 'sent', recipient: 'counselor@example.com', sentBy: student.id });
+    expect(transport.sent[0].replyTo).toBe('ana@example.com');
+    expect(transport.sent[0].text).toContain("I'd like to set up a time to talk");
+  });
+
+  it('should return null when the school has no counselor', async () => {
+    const student = await registerStudent('school-2');
+
+    expect(await EmailService.sendCounselorOutreach(student, career)).toBeNull();
+    expect(transport.sent).toHaveLength(0);
+  });
+});
+
+describe('OutboxTransport', () => {
+  it('should write each message to a JSON file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'lantern-outbox-'));
+    try {
+      const outbox = new OutboxTransport(dir);
+      const messageId = await outbox.send({ from: 'noreply@lanternai.org', to: 'ana@example.com', subject: 'Hi', text: 'Hello' });
+
+      const [file] = await fs.readdir(dir);
+      const saved = JSON.parse(await fs.readFile(path.join(dir, file), 'utf8'));
+      expect(saved).toMatchObject({ messageId, to: 'ana@example.com', subject: 'Hi', text: 'Hello' });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
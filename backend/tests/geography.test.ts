@@ -0,0 +1,211 @@
+/**
+ * Tests for resolving ZIP codes to counties, metro areas and states, and
+ * the regions shown with career matches
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import careerRoutes from '../src/routes/careers';
+import { GeographyService } from '../src/services/geographyService';
+import { CareerService } from '../src/services/careerService';
+import { ProgramService } from '../src/services/programService';
+import { SessionService } from '../src/services/sessionService';
+import { getZipCrosswalk, loadZipCrosswalk, setZipCrosswalk } from '../src/services/zipCrosswalk';
+import { MemorySessionStore } from '../src/stores';
+import { TRAINING_PROGRAMS } from '../src/data/trainingPrograms';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+describe('GeographyService.resolveZip', () => {
+  it('should resolve a crosswalk ZIP to its county, metro area and state', () => {
+    expect(GeographyService.resolveZip('43215')).toEqual({
+      zipCode: '43215',
+      precision: 'zip',
+      city: 'Columbus',
+      state: 'OH',
+      stateName: 'Ohio',
+      stateFips: '39',
+      county: { fips: '39049', name: 'Franklin County' },
+      metro: { cbsaCode: '18140', name: 'Columbus, OH', type: 'metropolitan' },
+      label: 'Columbus, OH'
+    });
+  });
+
+  it('should label rural ZIPs by county', () => {
+    const region = GeographyService.resolveZip('41501');
+
+    expect(region?.metro).toBeUndefined();
+    expect(region?.label).toBe('Pike County, KY');
+  });
+
+  it('should fall back to the state for ZIPs outside the crosswalk', () => {
+    expect(GeographyService.resolveZip('15213')).toEqual({
+      zipCode: '15213',
+      precision: 'state',
+      state: 'PA',
+      stateName: 'Pennsylvania',
+      stateFips: '42',
+      label: 'Pennsylvania'
+    });
+    expect(GeographyService.resolveZip('05501')?.state).toBe('MA');
+  });
+
+  it('should reject malformed and unassigned ZIPs', () => {
+    for (const zipCode of ['4570', '45701-1234', 'abcde', '00000', '96201']) {
+      expect(GeographyService.resolveZip(zipCode)).toBeNull();
+      expect(GeographyService.isValidZip(zipCode)).toBe(false);
+    }
+    expect(GeographyService.isValidZip(45701)).toBe(false);
+  });
+
+  it('should have coordinates for every bundled program location', () => {
+    for (const program of TRAINING_PROGRAMS) {
+      expect(ProgramService.isKnownZip(program.location.zipCode)).toBe(true);
+    }
+  });
+
+  it('should cover every county in the service area', () => {
+    const counties = (state: string) =>
+      new Set([...getZipCrosswalk().values()].filter(e => e.state === state).map(e => e.countyFips)).size;
+
+    expect(counties('OH')).toBe(88);
+    expect(counties('WV')).toBe(55);
+    expect(counties('KY')).toBe(120);
+    expect(GeographyService.resolveZip('45502')?.metro?.name).toBe('Springfield, OH');
+    expect(GeographyService.resolveZip('45651')?.county?.name).toBe('Vinton County');
+  });
+
+  it('should list one region per crosswalk county', () => {
+    const regions = GeographyService.getCrosswalkRegions();
+
+    expect(new Set(regions.map(r => r.county?.fips)).size).toBe(regions.length);
+    expect(regions.filter(r => r.state === 'WV')).toHaveLength(55);
+    expect(regions.find(r => r.county?.fips === '39049')?.metro?.name).toBe('Columbus, OH');
+  });
+});
+
+describe('loadZipCrosswalk', () => {
+  let tempDir: string;
+
+  const header = 'zip,city,state,county_fips,county_name,cbsa_code,cbsa_name,cbsa_type,latitude,longitude';
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lantern-crosswalk-'));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+    setZipCrosswalk(null);
+  });
+
+  it('should load a crosswalk file in place of the bundled one', () => {
+    const file = path.join(tempDir, 'crosswalk.csv');
+    fs.writeFileSync(file, [
+      header,
+      '15213,Pittsburgh,PA,42003,Allegheny County,38300,"Pittsburgh, PA",metropolitan,40.4444,-79.9530',
+      '16801,State College,PA,42027,Centre County,,,,40.7910,-77.8583',
+    ].join('\n'));
+
+    setZipCrosswalk(loadZipCrosswalk(file));
+
+    expect(GeographyService.resolveZip('15213')).toMatchObject({
+      precision: 'zip',
+      county: { fips: '42003', name: 'Allegheny County' },
+      metro: { cbsaCode: '38300', name: 'Pittsburgh, PA', type: 'metropolitan' },
+      label: 'Pittsburgh, PA'
+    });
+    expect(GeographyService.resolveZip('16801')?.label).toBe('Centre County, PA');
+    expect(GeographyService.resolveZip('43215')?.precision).toBe('state');
+  });
+
+  it('should skip rows that cannot be used', () => {
+    const file = path.join(tempDir, 'crosswalk.csv');
+    fs.writeFileSync(file, [
+      header,
+      '1521,Pittsburgh,PA,42003,Allegheny County,,,,40.4444,-79.9530',
+      '15213,Pittsburgh,PA,42003,Allegheny County,38300,,,40.4444,-79.9530',
+      '15214,Pittsburgh,PA,42003,Allegheny County,,,,north,-79.9530',
+      '16801,State College,PA,42027,Centre County,,,,40.7910,-77.8583',
+    ].join('\n'));
+
+    expect([...loadZipCrosswalk(file).keys()]).toEqual(['16801']);
+    expect(console.warn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should be empty when the file is missing or lacks columns', () => {
+    const file = path.join(tempDir, 'crosswalk.csv');
+    fs.writeFileSync(file, 'zip,county\n15213,Allegheny');
+
+    expect(loadZipCrosswalk(path.join(tempDir, 'missing.csv')).size).toBe(0);
+    expect(loadZipCrosswalk(file).size).toBe(0);
+  });
+});
+
+describe('regional career matches', () => {
+  const match = async (zipCode: string, careerId: string) =>
+    (await CareerService.getCareerMatches({}, zipCode)).find(m => m.careerId === careerId)!;
+
+  beforeAll(() => {
+    process.env.BLS_ENABLED = 'false';
+  });
+
+  afterAll(() => {
+    delete process.env.BLS_ENABLED;
+  });
+
+  it('should show the region instead of the ZIP', async () => {
+    const nurse = await match('45701', 'rn-001');
+    expect(nurse.localSalary.location).toBe('Athens, OH');
+    expect(nurse.localEmployers[0]).toBe('Hospitals in Athens County');
+  });
+});
+
+describe('POST /api/careers/matches', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    // Matches would otherwise fetch unemployment rates and wages from BLS
+    process.env.BLS_ENABLED = 'false';
+    server = await startTestServer(app => app.use('/api/careers', careerRoutes));
+  });
+
+  afterAll(async () => {
+    delete process.env.BLS_ENABLED;
+    await server.close();
+  });
+
+  beforeEach(() => {
+    SessionService.setStore(new MemorySessionStore());
+  });
+
+  afterEach(() => {
+    SessionService.setStore(null);
+  });
+
+  const requestMatches = (body: object) => server.request('/api/careers/matches', {
+    method: 'POST',
+    body: JSON.stringify(body)
+  });
+
+  it('should return the resolved region with the matches', async () => {
+    const session = await SessionService.createSession();
+    await SessionService.updateSessionProfile(session.sessionId, { zipCode: '45601', interests: ['Healthcare'] });
+
+    const { status, body } = await requestMatches({ sessionId: session.sessionId, zipCode: '45601', limit: 1 });
+
+    expect(status).toBe(200);
+    expect(body.data.region).toMatchObject({ county: { name: 'Ross County' }, label: 'Chillicothe, OH' });
+    expect(body.data.matches[0].localSalary.location).toBe('Chillicothe, OH');
+  });
+
+  it('should reject ZIPs outside the US', async () => {
+    const session = await SessionService.createSession();
+
+    const { status } = await requestMatches({ sessionId: session.sessionId, zipCode: '00000' });
+
+    expect(status).toBe(400);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Starts an Express app on an ephemeral port for route tests
+ */
+
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+
+export interface TestResponse {
+  status: number;
+  headers: Headers;
+  body: any;
+}
+
+export interface TestServer {
+  request(path: string, init?: RequestInit): Promise<TestResponse>;
+  close(): Promise<void>;
+}
+
+export function startTestServer(mount: (app: express.Express) => void): Promise<TestServer> {
+  const app = express();
+  app.use(express.json());
+  mount(app);
+
+  return new Promise(resolve => {
+    const server: Server = app.listen(0, () => {
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      resolve({
+        async request(path, init) {
+          const response = await fetch(`${baseUrl}${path}`, {
+            ...init,
+            headers: { 'Content-Type': 'application/json', ...init?.headers },
+          });
+          const text = await response.text();
+          let body: any = text;
+          try {
+            body = JSON.parse(text);
+          } catch {
+            // Non-JSON responses are returned as text
+          }
+          return { status: response.status, headers: response.headers, body };
+        },
+        close() {
+          return new Promise<void>(done => server.close(() => done()));
+        },
+      });
+    });
+  });
+}
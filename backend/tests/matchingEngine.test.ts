@@ -0,0 +1,178 @@
+/**
+ * Unit tests for the O*NET matching engine
+ */
+
+import {
+  buildTraitVector,
+  getCareerRatings,
+  scoreCareer,
+  explainMatch,
+  getCareerInterests,
+  CareerRatings
+} from '../src/services/matchingEngine';
+import { interestSimilarity, scoresFromHollandCode, toHollandCode } from '../src/services/riasec';
+import { CURATED_CAREERS } from '../src/data/curatedCareers';
+import { Career } from '../src/types';
+import { NormalizedOccupation } from '../src/services/onetService';
+
+const nurse = CURATED_CAREERS.find(c => c.id === 'rn-001') as Career;
+const electrician = CURATED_CAREERS.find(c => c.id === 'elec-001') as Career;
+
+const nurseRatings: CareerRatings = {
+  skills: [
+    { name: 'Service Orientation', importance: 4.1 },
+    { name: 'Social Perceptiveness', importance: 4.0 },
+    { name: 'Active Listening', importance: 4.0 },
+    { name: 'Repairing', importance: 1.2 }
+  ],
+  knowledge: [
+    { name: 'Medicine and Dentistry', importance: 4.4 },
+    { name: 'Customer and Personal Service', importance: 4.2 },
+    { name: 'Mechanical', importance: 1.5 }
+  ],
+  abilities: [
+    { name: 'Problem Sensitivity', importance: 4.1 },
+    { name: 'Manual Dexterity', importance: 2.5 }
+  ]
+};
+
+const electricianRatings: CareerRatings = {
+  skills: [
+    { name: 'Service Orientation', importance: 2.2 },
+    { name: 'Repairing', importance: 3.9 },
+    { name: 'Installation', importance: 3.4 },
+    { name: 'Troubleshooting', importance: 3.8 }
+  ],
+  knowledge: [
+    { name: 'Building and Construction', importance: 4.2 },
+    { name: 'Mechanical', importance: 3.9 },
+    { name: 'Customer and Personal Service', importance: 3.0 }
+  ],
+  abilities: [
+    { name: 'Manual Dexterity', importance: 3.8 },
+    { name: 'Arm-Hand Steadiness', importance: 3.6 }
+  ]
+};
+
+describe('matchingEngine', () => {
+  describe('buildTraitVector', () => {
+    it('should sum element weights across traits and ignore unknown traits', () => {
+      const vector = buildTraitVector(['Helping Others', 'Community Impact', 'Exploring Options']);
+
+      expect(vector.skills.get('Service Orientation')).toBeCloseTo(1.8);
+      expect(vector.knowledge.get('Customer and Personal Service')).toBeCloseTo(1.6);
+      expect(vector.abilities.size).toBe(1);
+    });
+  });
+
+  describe('scoreCareer', () => {
+    it('should rank careers by how important the student\'s traits are to them', () => {
+      const helper = { interests: ['Helping Others', 'Healthcare'], skills: ['Communication'] };
+      const builder = { interests: ['Hands-on Work', 'Infrastructure'], skills: [] };
+
+      expect(scoreCareer(helper, nurse, nurseRatings).matchScore)
+        .toBeGreaterThan(scoreCareer(helper, electrician, electricianRatings).matchScore);
+      expect(scoreCareer(builder, electrician, electricianRatings).matchScore)
+        .toBeGreaterThan(scoreCareer(builder, nurse, nurseRatings).matchScore);
+    });
+
+    it('should return a per-dimension breakdown with weights summing to 1', () => {
+      const result = scoreCareer(
+        { interests: ['Helping Others'], skills: [], educationGoal: 'associate', workEnvironment: 'indoor' },
+        nurse,
+        nurseRatings
+      );
+
+      expect(result.breakdown.map(b => b.dimension))
+        .toEqual(['skills', 'knowledge', 'abilities', 'education', 'workEnvironment']);
+      expect(result.breakdown.reduce((sum, b) => sum + b.weight, 0)).toBeCloseTo(1);
+      expect(result.breakdown[0].topElements[0]).toBe('Service Orientation');
+      expect(result.breakdown.find(b => b.dimension === 'education')?.score).toBe(100);
+    });
+
+    it('should leave out dimensions the profile says nothing about', () => {
+      const result = scoreCareer({ interests: ['Technology'] }, nurse, nurseRatings);
+
+      expect(result.breakdown.map(b => b.dimension)).toEqual(['skills', 'knowledge']);
+      expect(result.matchScore).toBe(0);
+    });
+
+    it('should score 0 with an empty breakdown for an empty profile', () => {
+      expect(scoreCareer({}, nurse, nurseRatings)).toEqual({ matchScore: 0, breakdown: [] });
+    });
+  });
+
+  describe('getCareerRatings', () => {
+    it('should use O*NET occupation ratings when available', () => {
+      const occupation: NormalizedOccupation = {
+        onetCode: '29-1141.00',
+        title: 'Registered Nurses',
+        description: '',
+        tasks: [],
+        educationLevel: '',
+        ...nurseRatings
+      };
+
+      expect(getCareerRatings(nurse, occupation)).toEqual(nurseRatings);
+    });
+
+    it('should fall back to the sector baseline without occupation data', () => {
+      const ratings = getCareerRatings(electrician);
+
+      expect(ratings.skills.find(r => r.name === 'Repairing')?.importance).toBeGreaterThan(3);
+    });
+  });
+
+  describe('explainMatch', () => {
+    it('should describe strong dimensions with their top elements', () => {
+      const result = scoreCareer(
+        { interests: ['Helping Others'], educationGoal: 'high-school' },
+        nurse,
+        nurseRatings
+      );
+      const factors = explainMatch(nurse, result);
+
+      expect(factors).toContain(
+        `Strong skills alignment (${result.breakdown[0].score}%): Service Orientation, Social Perceptiveness, Active Listening`
+      );
+      expect(factors).toContain('Requires more education than you currently plan (associate)');
+      expect(factors[factors.length - 1]).toBe(nurse.growthOutlook);
+    });
+  });
+});
+
+describe('RIASEC interest matching', () => {
+  it('should rank careers by how well their interest profile fits the student\'s', () => {
+    const profile = { riasecScores: { R: 10, I: 70, A: 20, S: 95, E: 30, C: 60 } };
+
+    const nurseFit = scoreCareer(profile, nurse, nurseRatings, getCareerInterests(nurse));
+    const electricianFit = scoreCareer(profile, electrician, electricianRatings, getCareerInterests(electrician));
+
+    expect(nurseFit.matchScore).toBeGreaterThan(electricianFit.matchScore);
+    expect(nurseFit.breakdown[0]).toMatchObject({
+      dimension: 'interests',
+      weight: 1,
+      topElements: ['Social', 'Investigative', 'Conventional']
+    });
+  });
+
+  it('should prefer O*NET interest ratings over the Holland code', () => {
+    const occupation: NormalizedOccupation = {
+      onetCode: '47-2111.00',
+      title: 'Electricians',
+      description: '',
+      tasks: [],
+      educationLevel: '',
+      ...electricianRatings,
+      interests: [{ name: 'Realistic', score: 6.8 }, { name: 'Investigative', score: 4.6 }]
+    };
+
+    expect(getCareerInterests(electrician, occupation)).toMatchObject({ R: 6.8, I: 4.6, S: 0 });
+    expect(toHollandCode(getCareerInterests(electrician))).toBe('RIC');
+  });
+
+  it('should treat a flat interest profile as neutral', () => {
+    const flat = { R: 50, I: 50, A: 50, S: 50, E: 50, C: 50 };
+    expect(interestSimilarity(flat, scoresFromHollandCode('SIC'))).toBe(0.5);
+  });
+});
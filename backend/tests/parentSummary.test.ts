@@ -0,0 +1,113 @@
+/**
+ * Tests for parent summaries in English and Spanish
+ */
+
+import parentSummaryRoutes from '../src/routes/parentSummary';
+import { ParentSummaryService } from '../src/services/parentSummaryService';
+import { SessionService } from '../src/services/sessionService';
+import { MemorySessionStore } from '../src/stores';
+import { PARENT_SUMMARY_TEXT } from '../src/data/parentSummaryText';
+import { CURATED_CAREERS } from '../src/data/curatedCareers';
+import { Career } from '../src/types';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+const nurse = CURATED_CAREERS.find(c => c.id === 'rn-001') as Career;
+const profile = { interests: ['Helping Others', 'Healthcare', 'Communication', 'Technology'], zipCode: '12345' };
+
+// Matches would otherwise fetch unemployment rates and wages from BLS
+beforeAll(() => {
+  process.env.BLS_ENABLED = 'false';
+});
+
+afterAll(() => {
+  delete process.env.BLS_ENABLED;
+});
+
+describe('ParentSummaryService', () => {
+  it('should summarize interests, careers and next steps in English', async () => {
+    const summary = await ParentSummaryService.buildSummary({ studentName: 'Ana', profile, careers: [nurse] });
+
+    expect(summary).toMatchObject({
+      studentName: 'Ana',
+      language: 'en',
+      topInterests: ['Helping Others', 'Healthcare', 'Communication'],
+      selectedCareers: [{
+        title: 'Registered Nurse',
+        sector: 'healthcare',
+        pathway: 'Associate degree, about 4-8 years in total (estimated cost $17,000)',
+        demand: 'medium'
+      }]
+    });
+    expect(summary.nextSteps[0]).toBe('Learn what a Registered Nurse does day to day');
+    expect(summary.nextSteps[summary.nextSteps.length - 1]).toBe(PARENT_SUMMARY_TEXT.en.counselorStep);
+  });
+
+  it('should translate the whole summary into Spanish', async () => {
+    const summary = await ParentSummaryService.buildSummary({ profile, careers: [nurse] }, 'es');
+
+    expect(summary).toMatchObject({
+      studentName: 'Su estudiante',
+      topInterests: ['Ayudar a los demás', 'Salud', 'Comunicación'],
+      selectedCareers: [{
+        title: 'Enfermero(a) registrado(a)',
+        pathway: 'Título asociado (associate degree), aproximadamente 4-8 años en total (costo estimado $17,000)'
+      }]
+    });
+    expect(summary.selectedCareers[0].localSalary).toMatch(/al año$/);
+    expect(summary.nextSteps[0]).toBe('Aprender qué hace un(a) Enfermero(a) registrado(a) en su trabajo diario');
+  });
+
+  it('should have Spanish text for every English step and curated career', () => {
+    expect(Object.keys(PARENT_SUMMARY_TEXT.es.steps)).toEqual(Object.keys(PARENT_SUMMARY_TEXT.en.steps));
+    for (const career of CURATED_CAREERS) {
+      expect(PARENT_SUMMARY_TEXT.es.careerTitles[career.id]).toBeDefined();
+    }
+  });
+
+  it('should escape student-supplied text in the printable page', async () => {
+    const summary = await ParentSummaryService.buildSummary({ studentName: '<b>Ana</b>', profile, careers: [nurse] }, 'es');
+    const html = ParentSummaryService.renderHtml(summary);
+
+    expect(html).toContain('<html lang="es">');
+    expect(html).toContain('&lt;b&gt;Ana&lt;/b&gt;');
+    expect(html).toContain('Próximos pasos');
+  });
+});
+
+describe('GET /api/parent-summary/:sessionId', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer(app => app.use('/api/parent-summary', parentSummaryRoutes));
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    SessionService.setStore(new MemorySessionStore());
+  });
+
+  afterEach(() => {
+    SessionService.setStore(null);
+  });
+
+  it('should serve the selected careers as JSON or a printable page', async () => {
+    const session = await SessionService.createSession();
+    await SessionService.updateSessionProfile(session.sessionId, profile);
+
+    const json = await server.request(`/api/parent-summary/${session.sessionId}?lang=es&careers=rn-001,elec-001`);
+    expect(json.body.data.selectedCareers.map((c: { title: string }) => c.title))
+      .toEqual(['Enfermero(a) registrado(a)', 'Electricista']);
+
+    const html = await server.request(`/api/parent-summary/${session.sessionId}?format=html`);
+    expect(html.headers.get('content-type')).toMatch(/text\/html/);
+    expect(html.body).toContain('Career Exploration Summary');
+  });
+
+  it('should reject unsupported languages and unknown sessions', async () => {
+    expect((await server.request('/api/parent-summary/missing?lang=fr')).status).toBe(400);
+    expect((await server.request('/api/parent-summary/missing')).status).toBe(404);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for the training program catalog and /api/programs
+ */
+
+import programRoutes from '../src/routes/programs';
+import { ProgramService } from '../src/services/programService';
+import { CareerService } from '../src/services/careerService';
+import { ActionPlanService } from '../src/services/actionPlanService';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+let server: TestServer;
+
+beforeAll(async () => {
+  server = await startTestServer(app => app.use('/api/programs', programRoutes));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+const ids = (programs: { id: string }[]) => programs.map(p => p.id);
+
+describe('ProgramService.searchPrograms', () => {
+  it('should leave out inactive programs', () => {
+    expect(ids(ProgramService.searchPrograms())).not.toContain('prog-016');
+    expect(ProgramService.getProgramById('prog-016')).toBeNull();
+  });
+
+  it('should filter by career, type, cost and paid status', () => {
+    expect(ids(ProgramService.searchPrograms({ careerId: 'weld-001' })).sort()).toEqual(['prog-012', 'prog-013']);
+    expect(ids(ProgramService.searchPrograms({ careerId: 'weld-001', type: 'apprenticeship' }))).toEqual(['prog-013']);
+    expect(ProgramService.searchPrograms({ maxCost: 1000 }).every(p => p.cost <= 1000)).toBe(true);
+    expect(ProgramService.searchPrograms({ sector: 'healthcare', isPaid: true }).map(p => p.id)).toEqual(['prog-004']);
+  });
+
+  it('should sort by distance from a ZIP and apply a radius', () => {
+    const nearColumbus = ProgramService.searchPrograms({ careerId: 'rn-001', zipCode: '43215' });
+
+    expect(ids(nearColumbus)).toEqual(['prog-004', 'prog-015', 'prog-002']);
+    expect(nearColumbus[0].distanceMiles).toBe(0);
+    expect(nearColumbus[2].distanceMiles).toBeGreaterThan(35);
+    expect(nearColumbus[2].distanceMiles).toBeLessThan(50);
+
+    expect(ids(ProgramService.searchPrograms({ careerId: 'rn-001', zipCode: '43215', radiusMiles: 25 })))
+      .toEqual(['prog-004', 'prog-015']);
+  });
+});
+
+describe('programs in pathways and action plans', () => {
+  it('should list the nearest real programs as pathway training providers', () => {
+    const welder = CareerService.getCareerById('weld-001')!;
+    const training = CareerService.getCareerPathway(welder, '25301').stages[1];
+
+    expect(training.programIds).toEqual(['prog-013', 'prog-012']);
+    expect(training.providers[0]).toBe('Structural Welding Apprenticeship, Kanawha Valley Ironworkers Training (Charleston, WV)');
+  });
+
+  it('should link action plans to programs for the career', () => {
+    const plan = ActionPlanService.generateActionPlan(CareerService.getCareerById('elec-001')!, 11, '43215');
+    const research = plan.steps.find(step => step.id === 'research-2')!;
+
+    expect(research.resources!.map(r => r.title)).toContain(
+      'Inside Wireman Apprenticeship (Central Ohio Electrical Training Center, Columbus)'
+    );
+    expect(research.resources!.find(r => r.type === 'course')!.url).toBe('/programs?career=elec-001');
+  });
+});
+
+describe('GET /api/programs', () => {
+  it('should search with query filters', async () => {
+    const { status, body } = await server.request('/api/programs?career=elec-001&paid=true&zipCode=43215&radius=100');
+
+    expect(status).toBe(200);
+    expect(ids(body.data)).toEqual(['prog-007']);
+    expect(body.data[0].distanceMiles).toBe(0);
+  });
+
+  it.each([
+    ['career=nope', 'Unknown career ID: nope'],
+    ['type=degree', 'Type must be one of: apprenticeship, certificate, internship, vocational'],
+    ['maxCost=-5', 'maxCost must be a non-negative number'],
+    ['paid=yes', 'paid must be true or false'],
+    ['zipCode=99999', 'Distance search is not available for ZIP code 99999'],
+    ['radius=20', 'radius requires a zipCode']
+  ])('should reject %s', async (query, error) => {
+    const { status, body } = await server.request(`/api/programs?${query}`);
+
+    expect(status).toBe(400);
+    expect(body.error).toBe(error);
+  });
+});
+
+describe('GET /api/programs/:id', () => {
+  it('should return a program or 404', async () => {
+    const found = await server.request('/api/programs/prog-001');
+    const missing = await server.request('/api/programs/prog-999');
+
+    expect(found.body.data.name).toBe('Practical Nursing Certificate');
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Tests for action reminders: the due-reminder sweep, notifiers,
+ * the scheduler, and the /api/reminders and /api/notifications routes
+ */
+
+import reminderRoutes from '../src/routes/reminders';
+import notificationRoutes from '../src/routes/notifications';
+import { AuthService } from '../src/services/authService';
+import { ActionPlanService } from '../src/services/actionPlanService';
+import { CareerService } from '../src/services/careerService';
+import { EmailService } from '../src/services/emailService';
+import { ReminderService } from '../src/services/reminderService';
+import { DueReminder, EmailNotifier, InAppNotifier, ReminderNotifier } from '../src/notifications';
+import { EmailMessage } from '../src/email';
+import { scheduleJob } from '../src/jobs';
+import { createMemoryPool, setPool, closePool } from '../src/database/db';
+import { runMigrations } from '../src/database/migrations';
+import { Student } from '../src/types';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+let server: TestServer;
+let student: Student;
+let token: string;
+
+const DAY = 24 * 60 * 60 * 1000;
+const yesterday = () => new Date(Date.now() - DAY);
+
+beforeAll(async () => {
+  server = await startTestServer(app => {
+    app.use('/api/reminders', reminderRoutes);
+    app.use('/api/notifications', notificationRoutes);
+  });
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(async () => {
+  const pool = createMemoryPool();
+  setPool(pool);
+  await runMigrations(pool);
+  ReminderService.setNotifier(new InAppNotifier());
+
+  const registered = await AuthService.registerStudent({
+    email: 'ana@example.com',
+    password: 'password123',
+    firstName: 'Ana',
+    lastName: 'Lopez'
+  });
+  student = registered.user!;
+  token = registered.token!;
+});
+
+afterEach(async () => {
+  ReminderService.setNotifier(null);
+  await closePool();
+});
+
+function addAction(title: string, reminderDate?: Date, extra: { completed?: boolean } = {}) {
+  return ActionPlanService.addAction(student, CareerService.getCareerById('rn-001')!, {
+    title,
+    notes: 'Bring your transcript',
+    reminderEnabled: !!reminderDate,
+    reminderDate,
+    ...extra
+  });
+}
+
+describe('ReminderService.sendDueReminders', () => {
+  it('should deliver due reminders to the notification feed', async () => {
+    await addAction('Sign up for anatomy', yesterday());
+    await addAction('Apply to CNA program', new Date(Date.now() + DAY));
+
+    const result = await ReminderService.sendDueReminders();
+    const feed = await ReminderService.getNotifications(student.id);
+
+    expect(result).toEqual({ sent: 1, failed: 0 });
+    expect(feed).toHaveLength(1);
+    expect(feed[0]).toMatchObject({ title: 'Reminder: Sign up for anatomy', link: '/action-plan/rn-001' });
+    expect(feed[0].body).toContain('Bring your transcript');
+  });
+
+  it('should send each reminder at most once', async () => {
+    await addAction('Sign up for anatomy', yesterday());
+
+    await ReminderService.sendDueReminders();
+    const second = await ReminderService.sendDueReminders();
+
+    expect(second).toEqual({ sent: 0, failed: 0 });
+    expect(await ReminderService.getNotifications(student.id)).toHaveLength(1);
+  });
+
+  it('should not retry a reminder whose delivery failed', async () => {
+    await addAction('Sign up for anatomy', yesterday());
+    const failing: ReminderNotifier = { name: 'failing', notify: () => Promise.reject(new Error('offline')) };
+    ReminderService.setNotifier(failing);
+
+    expect(await ReminderService.sendDueReminders()).toEqual({ sent: 0, failed: 1 });
+    expect(await ReminderService.sendDueReminders()).toEqual({ sent: 0, failed: 0 });
+  });
+
+  it('should skip completed actions and actions without reminders', async () => {
+    await addAction('Already done', yesterday(), { completed: true });
+    await addAction('No reminder');
+
+    expect(await ReminderService.sendDueReminders()).toEqual({ sent: 0, failed: 0 });
+  });
+
+  it('should send again after the student reschedules the reminder', async () => {
+    const action = await addAction('Sign up for anatomy', yesterday());
+    await ReminderService.sendDueReminders();
+
+    await ActionPlanService.updateAction(student, CareerService.getCareerById('rn-001')!, action.id, {
+      reminderDate: new Date(Date.now() - 1000)
+    });
+
+    expect(await ReminderService.sendDueReminders()).toEqual({ sent: 1, failed: 0 });
+  });
+});
+
+describe('EmailNotifier', () => {
+  it('should email the reminder template to the student', async () => {
+    const sent: EmailMessage[] = [];
+    EmailService.setTransport({ name: 'recording', send: async message => { sent.push(message); return 'msg-1'; } });
+
+    const reminder: DueReminder = {
+      actionId: 'a1',
+      userId: student.id,
+      careerId: 'rn-001',
+      title: 'Sign up for anatomy',
+      dueDate: new Date('2026-03-01T12:00:00Z'),
+      reminderDate: new Date('2026-02-25T12:00:00Z'),
+      student: { firstName: 'Ana', lastName: 'Lopez', email: 'ana@example.com' }
+    };
+    try {
+      await new EmailNotifier().notify(reminder);
+    } finally {
+      EmailService.setTransport(null);
+    }
+
+    expect(sent[0]).toMatchObject({ to: 'ana@example.com', subject: 'Reminder: Sign up for anatomy' });
+    expect(sent[0].text).toContain('Due: March 1, 2026');
+    expect(sent[0].text).toContain('Registered Nurse');
+  });
+});
+
+describe('scheduleJob', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('should run on its interval until stopped', async () => {
+    const run = jest.fn().mockResolvedValue(undefined);
+    const stop = scheduleJob({ name: 'test', intervalMs: 1000, run });
+
+    await jest.advanceTimersByTimeAsync(3000);
+    stop();
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not overlap a run that is still going', async () => {
+    let finish: () => void = () => undefined;
+    const run = jest.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+    const stop = scheduleJob({ name: 'slow', intervalMs: 1000, run });
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    finish();
+    await jest.advanceTimersByTimeAsync(1000);
+    stop();
+
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should run right away when asked to', async () => {
+    const run = jest.fn().mockResolvedValue(undefined);
+    const stop = scheduleJob({ name: 'warmup', intervalMs: 1000, runAtStart: true, run });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    stop();
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('PATCH /api/reminders/:actionId', () => {
+  const patch = (body: unknown) => ({
+    method: 'PATCH',
+    headers: { Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body)
+  });
+
+  it('should snooze a reminder that was already sent so it fires again later', async () => {
+    const action = await addAction('Sign up for anatomy', yesterday());
+    await ReminderService.sendDueReminders();
+
+    const until = new Date(Date.now() + 2 * DAY);
+    const { status, body } = await server.request(`/api/reminders/${action.id}`, patch({ snoozeUntil: until.toISOString() }));
+
+    expect(status).toBe(200);
+    expect(body.data.reminderDate).toBe(until.toISOString());
+    expect(await ReminderService.sendDueReminders()).toEqual({ sent: 0, failed: 0 });
+    expect(await ReminderService.sendDueReminders(new Date(until.getTime() + 1000))).toEqual({ sent: 1, failed: 0 });
+  });
+
+  it('should turn a reminder off', async () => {
+    const action = await addAction('Sign up for anatomy', yesterday());
+
+    const { status, body } = await server.request(`/api/reminders/${action.id}`, patch({ enabled: false }));
+
+    expect(status).toBe(200);
+    expect(body.data.reminderEnabled).toBe(false);
+    expect(await ReminderService.sendDueReminders()).toEqual({ sent: 0, failed: 0 });
+  });
+
+  it('should reject snoozing into the past', async () => {
+    const action = await addAction('Sign up for anatomy', yesterday());
+
+    const { status } = await server.request(`/api/reminders/${action.id}`, patch({ snoozeUntil: yesterday().toISOString() }));
+
+    expect(status).toBe(400);
+  });
+
+  it('should not touch another student\'s action', async () => {
+    const action = await addAction('Sign up for anatomy', yesterday());
+    const other = await AuthService.registerStudent({
+      email: 'ben@example.com',
+      password: 'password123',
+      firstName: 'Ben',
+      lastName: 'Cho'
+    });
+
+    const { status } = await server.request(`/api/reminders/${action.id}`, {
+      method: 'PATCH',
+      headers: { Authorization: `Bearer ${other.token}` },
+      body: JSON.stringify({ enabled: false })
+    });
+
+    expect(status).toBe(404);
+  });
+});
+
+describe('/api/notifications', () => {
+  it('should list notifications and mark them read', async () => {
+    await addAction('Sign up for anatomy', yesterday());
+    await ReminderService.sendDueReminders();
+    const auth = { headers: { Authorization: `Bearer ${token}` } };
+
+    const { body } = await server.request('/api/notifications', auth);
+    const read = await server.request(`/api/notifications/${body.data[0].id}/read`, { ...auth, method: 'POST' });
+    const after = await server.request('/api/notifications', auth);
+
+    expect(body.data[0].readAt).toBeUndefined();
+    expect(read.status).toBe(200);
+    expect(after.body.data[0].readAt).toBeDefined();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for the PDF career report
+ */
+
+import reportRoutes from '../src/routes/reports';
+import { ReportService } from '../src/services/reportService';
+import { CareerService } from '../src/services/careerService';
+import { SessionService } from '../src/services/sessionService';
+import { MemorySessionStore } from '../src/stores';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+const profile = { interests: ['Helping Others', 'Healthcare'], skills: ['Communication'], zipCode: '12345' };
+
+// Matches would otherwise fetch unemployment rates and wages from BLS
+beforeAll(() => {
+  process.env.BLS_ENABLED = 'false';
+});
+
+afterAll(() => {
+  delete process.env.BLS_ENABLED;
+});
+
+describe('ReportService', () => {
+  it('should render matches plus a page per focus career', async () => {
+    const matches = await CareerService.getCareerMatches(profile, '12345');
+    const pdf = await ReportService.generateCareerReport({
+      profile,
+      matches,
+      focusCareers: matches.slice(0, 2).map(m => m.career)
+    });
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    // Cover page plus one page per focus career, at least
+    expect((pdf.toString('latin1').match(/\/Type \/Page\b/g) || []).length).toBeGreaterThanOrEqual(3);
+  });
+});
+
+describe('GET /api/reports/:sessionId.pdf', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer(app => app.use('/api/reports', reportRoutes));
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    SessionService.setStore(new MemorySessionStore());
+  });
+
+  afterEach(() => {
+    SessionService.setStore(null);
+  });
+
+  it('should download the report for a completed session', async () => {
+    const session = await SessionService.createSession();
+    await SessionService.updateSessionProfile(session.sessionId, profile);
+
+    const { status, headers, body } = await server.request(`/api/reports/${session.sessionId}.pdf?careers=rn-001`);
+
+    expect(status).toBe(200);
+    expect(headers.get('content-type')).toBe('application/pdf');
+    expect(headers.get('content-disposition')).toContain('attachment');
+    expect(body.startsWith('%PDF-')).toBe(true);
+  });
+
+  it('should reject unknown careers and sessions without a profile', async () => {
+    const session = await SessionService.createSession();
+    expect((await server.request(`/api/reports/${session.sessionId}.pdf`)).status).toBe(404);
+
+    await SessionService.updateSessionProfile(session.sessionId, profile);
+    const { status, body } = await server.request(`/api/reports/${session.sessionId}.pdf?careers=nope`);
+    expect(status).toBe(400);
+    expect(body.error).toBe('Unknown career: nope');
+  });
+});
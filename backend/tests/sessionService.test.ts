@@ -0,0 +1,201 @@
+/**
+ * Unit tests for SessionService and its session stores
+ */
+
+import { SessionService } from '../src/services/sessionService';
+import { MemorySessionStore, RedisSessionStore, RedisSessionClient } from '../src/stores';
+
+/**
+ * Minimal stand-in for a Redis client that honours PX expiry
+ */
+function createFakeRedis(): RedisSessionClient & { ttls: Map<string, number> } {
+  const values = new Map<string, { value: string; expiresAt: number }>();
+  const ttls = new Map<string, number>();
+
+  const live = (key: string) => {
+    const entry = values.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      values.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  return {
+    ttls,
+    async get(key) {
+      return live(key)?.value ?? null;
+    },
+    async set(key, value, options) {
+      ttls.set(key, options.PX);
+      values.set(key, { value, expiresAt: Date.now() + options.PX });
+      return 'OK';
+    },
+    async del(key) {
+      return values.delete(key) ? 1 : 0;
+    },
+    async *scanIterator(options) {
+      const prefix = options.MATCH.replace(/\*$/, '');
+      for (const key of [...values.keys()]) {
+        if (key.startsWith(prefix) && live(key)) yield key;
+      }
+    },
+  };
+}
+
+describe('SessionService', () => {
+  afterEach(() => {
+    SessionService.setStore(null);
+    jest.useRealTimers();
+    delete process.env.SESSION_TTL_MS;
+  });
+
+  describe('with the memory store', () => {
+    beforeEach(() => {
+      SessionService.setStore(new MemorySessionStore());
+    });
+
+    it('should create and retrieve a session', async () => {
+      const session = await SessionService.createSession();
+      const fetched = await SessionService.getSession(session.sessionId);
+
+      expect(fetched?.sessionId).toBe(session.sessionId);
+      expect(await SessionService.getActiveSessions()).toBe(1);
+    });
+
+    it('should keep only a hash of the link token', async () => {
+      const session = await SessionService.createSession();
+      const fetched = await SessionService.getSession(session.sessionId);
+
+      expect(session.linkToken).toMatch(/^[0-9a-f]{64}$/);
+      expect(fetched).not.toHaveProperty('linkToken');
+      expect(fetched?.linkTokenHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(fetched?.linkTokenHash).not.toBe(session.linkToken);
+    });
+
+    it('should store answers and profile data', async () => {
+      const session = await SessionService.createSession();
+      const answers = [{ questionId: 'q1', answer: 'Agree', timestamp: new Date() }];
+
+      expect(await SessionService.updateSessionAnswers(session.sessionId, answers)).toBe(true);
+      expect(await SessionService.updateSessionProfile(session.sessionId, { interests: ['Healthcare'] })).toBe(true);
+
+      const fetched = await SessionService.getSession(session.sessionId);
+      expect(fetched?.assessmentAnswers).toEqual(answers);
+      expect(fetched?.profileData?.interests).toEqual(['Healthcare']);
+    });
+
+    it('should expire sessions once the TTL passes', async () => {
+      jest.useFakeTimers();
+      process.env.SESSION_TTL_MS = '1000';
+
+      const session = await SessionService.createSession();
+      jest.advanceTimersByTime(1001);
+
+      expect(await SessionService.getSession(session.sessionId)).toBeNull();
+      expect(await SessionService.getActiveSessions()).toBe(0);
+    });
+
+    it('should keep sessions whose TTL is longer than one timer can wait', async () => {
+      jest.useFakeTimers();
+      const DAY_MS = 24 * 60 * 60 * 1000;
+      process.env.SESSION_TTL_MS = String(30 * DAY_MS);
+
+      const session = await SessionService.createSession();
+      jest.advanceTimersByTime(29 * DAY_MS);
+
+      expect(await SessionService.getSession(session.sessionId)).not.toBeNull();
+      expect(await SessionService.getActiveSessions()).toBe(1);
+
+      jest.advanceTimersByTime(DAY_MS + 1);
+      expect(await SessionService.getActiveSessions()).toBe(0);
+    });
+
+    it('should merge upserted answers and start over for a different assessment', async () => {
+      const session = await SessionService.createSession();
+      const standard = { type: 'standard' as const, version: 2 };
+      const answer = (questionId: string, value: string) => ({ questionId, answer: value, timestamp: new Date() });
+
+      await SessionService.upsertSessionAnswers(session.sessionId, [answer('q1', 'Agree')], standard);
+      const merged = await SessionService.upsertSessionAnswers(
+        session.sessionId, [answer('q2', 'Neutral'), answer('q1', 'Disagree')], standard
+      );
+      expect(merged?.map(a => [a.questionId, a.answer])).toEqual([['q1', 'Disagree'], ['q2', 'Neutral']]);
+
+      const restarted = await SessionService.upsertSessionAnswers(
+        session.sessionId, [answer('r1', 'Like')], { type: 'riasec', version: 1 }
+      );
+      expect(restarted?.map(a => a.questionId)).toEqual(['r1']);
+      expect(await SessionService.upsertSessionAnswers('missing', [], standard)).toBeNull();
+    });
+
+    it('should keep every answer when saves overlap', async () => {
+      const session = await SessionService.createSession();
+      const standard = { type: 'standard' as const, version: 2 };
+
+      await Promise.all(['q1', 'q2', 'q3'].map(questionId =>
+        SessionService.upsertSessionAnswers(session.sessionId, [{ questionId, answer: 'Agree', timestamp: new Date() }], standard)));
+
+      const saved = await SessionService.getSession(session.sessionId);
+      expect(saved?.assessmentAnswers?.map(a => a.questionId).sort()).toEqual(['q1', 'q2', 'q3']);
+    });
+
+    it('should keep answers saved before versioning and drop a profile built from changed answers', async () => {
+      const session = await SessionService.createSession();
+      await SessionService.updateSessionAnswers(session.sessionId, [{ questionId: 'q1', answer: 'Agree', timestamp: new Date() }]);
+      await SessionService.updateSessionProfile(session.sessionId, { interests: ['Healthcare'] });
+      const v1 = { type: 'standard' as const, version: 1 };
+
+      await SessionService.upsertSessionAnswers(session.sessionId, [{ questionId: 'q1', answer: 'Agree', timestamp: new Date() }], v1);
+      expect((await SessionService.getSession(session.sessionId))?.profileData).toBeDefined();
+
+      const merged = await SessionService.upsertSessionAnswers(
+        session.sessionId, [{ questionId: 'q2', answer: 'Neutral', timestamp: new Date() }], v1
+      );
+      expect(merged?.map(a => a.questionId)).toEqual(['q1', 'q2']);
+      expect((await SessionService.getSession(session.sessionId))?.profileData).toBeUndefined();
+    });
+
+    it('should return false when updating an unknown session', async () => {
+      expect(await SessionService.updateSessionAnswers('missing', [])).toBe(false);
+    });
+  });
+
+  describe('with the Redis store', () => {
+    it('should set a native TTL and revive dates', async () => {
+      const redis = createFakeRedis();
+      SessionService.setStore(new RedisSessionStore(async () => redis, 'test:'));
+      process.env.SESSION_TTL_MS = '60000';
+
+      const session = await SessionService.createSession();
+      expect(redis.ttls.get(`test:${session.sessionId}`)).toBe(60000);
+
+      const fetched = await SessionService.getSession(session.sessionId);
+      expect(fetched?.expiresAt).toBeInstanceOf(Date);
+      expect(fetched?.expiresAt.getTime()).toBe(session.expiresAt.getTime());
+    });
+
+    it('should keep the original expiry when a session is updated', async () => {
+      const redis = createFakeRedis();
+      SessionService.setStore(new RedisSessionStore(async () => redis, 'test:'));
+      process.env.SESSION_TTL_MS = '60000';
+
+      const session = await SessionService.createSession();
+      await SessionService.updateSessionAnswers(session.sessionId, []);
+
+      expect(redis.ttls.get(`test:${session.sessionId}`)).toBeLessThanOrEqual(60000);
+    });
+
+    it('should count and delete sessions', async () => {
+      const redis = createFakeRedis();
+      SessionService.setStore(new RedisSessionStore(async () => redis, 'test:'));
+
+      const first = await SessionService.createSession();
+      await SessionService.createSession();
+      expect(await SessionService.getActiveSessions()).toBe(2);
+
+      expect(await SessionService.deleteSession(first.sessionId)).toBe(true);
+      expect(await SessionService.getActiveSessions()).toBe(1);
+    });
+  });
+});
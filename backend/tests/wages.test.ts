@@ -0,0 +1,223 @@
+/**
+ * Tests for OEWS occupation wages by area and the local salaries built from them
+ */
+
+import careerRoutes from '../src/routes/careers';
+import { WageService, oewsSeriesId } from '../src/services/wageService';
+import { GeographyService } from '../src/services/geographyService';
+import { CareerService } from '../src/services/careerService';
+import { warmEconomicData } from '../src/services/careerEconomicService';
+import { clearCache } from '../src/services/blsClient';
+import { setRequestCounter } from '../src/services/blsBudget';
+import { getZipCrosswalk, setZipCrosswalk } from '../src/services/zipCrosswalk';
+import { MemoryRequestCounter } from '../src/cache';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+const career = (id: string) => CareerService.getCareerById(id)!;
+
+// Annual wages the fake BLS API returns for each OEWS data type
+const WAGES_BY_DATATYPE: Record<string, string> = { '11': '61000', '12': '72000', '13': '84000', '14': '97000', '15': '112000' };
+
+const realFetch = global.fetch;
+
+/**
+ * Answer BLS requests with wages for every OEWS series except those
+ * `missing` rejects (requests to the test server go through)
+ */
+function fakeBls(missing: (seriesId: string) => boolean = () => false) {
+  return jest.spyOn(global, 'fetch').mockImplementation(async (url, init) => {
+    if (!String(url).startsWith('https://api.bls.gov/')) return realFetch(url, init);
+
+    const { seriesid } = JSON.parse(String(init!.body)) as { seriesid: string[] };
+    const series = seriesid.map(seriesID => {
+      const value = seriesID.startsWith('OEU') && !missing(seriesID) ? WAGES_BY_DATATYPE[seriesID.slice(-2)] : undefined;
+      return {
+        seriesID,
+        data: value ? [{ year: '2025', period: 'A01', periodName: 'Annual', value, footnotes: [] }] : []
+      };
+    });
+    return {
+      ok: true,
+      json: async () => ({ status: 'REQUEST_SUCCEEDED', responseTime: 10, message: [], Results: { series } })
+    } as unknown as Response;
+  });
+}
+
+const requestedSeries = (mockFetch: jest.SpyInstance) =>
+  mockFetch.mock.calls.filter(([url]) => String(url).startsWith('https://api.bls.gov/')).flatMap(([, init]) => (JSON.parse(String(init!.body)) as { seriesid: string[] }).seriesid);
+
+/**
+ * Fill the BLS cache the way the warmup job does, from the fake BLS API.
+ * Returns the fetch spy with the warmup's requests cleared.
+ */
+async function warmWages(missing?: (seriesId: string) => boolean) {
+  const mockFetch = fakeBls(missing);
+  await warmEconomicData();
+  return mockFetch.mockClear();
+}
+
+const columbus = GeographyService.resolveZip('43215')!;
+const athens = GeographyService.resolveZip('45701')!;
+
+beforeEach(() => {
+  // Keep the warmup to the Columbus metro area and micropolitan Athens
+  const crosswalk = getZipCrosswalk();
+  setZipCrosswalk(new Map(['43215', '45701'].map(zip => [zip, crosswalk.get(zip)!])));
+  setRequestCounter(new MemoryRequestCounter());
+});
+
+afterEach(() => {
+  setZipCrosswalk(null);
+  setRequestCounter(null);
+  clearCache();
+  jest.restoreAllMocks();
+});
+
+describe('oewsSeriesId', () => {
+  it('should build series IDs from the SOC code, area and percentile', () => {
+    expect(oewsSeriesId('29-1141', { type: 'metro', code: '0018140', name: 'Columbus, OH' }, 'median'))
+      .toBe('OEUM001814000000029114113');
+    expect(oewsSeriesId('47-2111', { type: 'state', code: '3900000', name: 'Ohio' }, 'p10'))
+      .toBe('OEUS390000000000047211111');
+    expect(oewsSeriesId('31-9092', { type: 'national', code: '0000000', name: 'United States' }, 'p90'))
+      .toBe('OEUN000000000000031909215');
+  });
+});
+
+describe('WageService.getWages', () => {
+  it('should read the median and percentiles for the metro area from the cache', async () => {
+    const mockFetch = await warmWages();
+
+    const wages = await WageService.getWages([career('rn-001')], columbus);
+
+    expect(wages.get('rn-001')).toMatchObject({
+      socCode: '29-1141',
+      area: 'Columbus, OH',
+      areaType: 'metro',
+      year: '2025',
+      median: 84000,
+      percentiles: { p10: 61000, p25: 72000, p75: 97000, p90: 112000 }
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should have the warmup cache every percentile for the metro area', async () => {
+    const mockFetch = fakeBls();
+
+    await warmEconomicData();
+
+    expect(requestedSeries(mockFetch)).toEqual(expect.arrayContaining([
+      'OEUM001814000000029114111',
+      'OEUM001814000000029114112',
+      'OEUM001814000000029114113',
+      'OEUM001814000000029114114',
+      'OEUM001814000000029114115'
+    ]));
+  });
+
+  it('should fall back to the state where the metro area has no data', async () => {
+    await warmWages(seriesId => seriesId.startsWith('OEUM'));
+
+    const wages = await WageService.getWages([career('rn-001')], columbus);
+
+    expect(wages.get('rn-001')).toMatchObject({ area: 'Ohio', areaType: 'state', median: 84000 });
+  });
+
+  it('should use state wages for micropolitan areas, which OEWS does not publish', async () => {
+    await warmWages();
+
+    const wages = await WageService.getWages([career('elec-001')], athens);
+
+    expect(wages.get('elec-001')?.area).toBe('Ohio');
+  });
+
+  it('should serve stale wages, leaving the refresh to the warmup job', async () => {
+    const mockFetch = await warmWages();
+    process.env.OEWS_CACHE_TTL_MS = '1';
+    try {
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      expect((await WageService.getWages([career('rn-001')], columbus)).get('rn-001')?.median).toBe(84000);
+    } finally {
+      delete process.env.OEWS_CACHE_TTL_MS;
+    }
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should leave out wages that are not cached, without fetching them', async () => {
+    const mockFetch = fakeBls();
+
+    expect((await WageService.getWages([career('rn-001')], columbus)).size).toBe(0);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should leave wages out when BLS is disabled', async () => {
+    await warmWages();
+    process.env.BLS_ENABLED = 'false';
+    try {
+      expect((await WageService.getWages([career('rn-001')], columbus)).size).toBe(0);
+    } finally {
+      delete process.env.BLS_ENABLED;
+    }
+  });
+});
+
+describe('local salaries in career matches', () => {
+  it('should come from cached OEWS wages for the top matches', async () => {
+    const mockFetch = await warmWages();
+
+    const matches = await CareerService.getCareerMatches({ interests: ['Healthcare'] }, '43215');
+
+    expect(matches[0].localSalary).toEqual({
+      min: 61000,
+      max: 112000,
+      median: 84000,
+      location: 'Columbus, OH',
+      source: 'oews',
+      year: '2025'
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the national salary range without cached wages', async () => {
+    const matches = await CareerService.getCareerMatches({}, '43215');
+    const nurse = matches.find(m => m.careerId === 'rn-001')!;
+
+    expect(nurse.localSalary).toEqual({ ...career('rn-001').salaryRange, location: 'Columbus, OH', source: 'national' });
+  });
+});
+
+describe('GET /api/careers/:id/economic-data', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer(app => app.use('/api/careers', careerRoutes));
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should return wages for the ZIP\'s area', async () => {
+    await warmWages();
+
+    const { status, body } = await server.request('/api/careers/rn-001/economic-data?zipCode=43215');
+
+    expect(status).toBe(200);
+    expect(body.data.wages).toMatchObject({ area: 'Columbus, OH', median: 84000, percentiles: { p10: 61000, p90: 112000 } });
+  });
+
+  it('should return national wages without a ZIP', async () => {
+    await warmWages();
+
+    const { body } = await server.request('/api/careers/weld-001/economic-data');
+
+    expect(body.data.wages).toMatchObject({ socCode: '51-4121', area: 'United States', areaType: 'national' });
+  });
+
+  it('should reject ZIPs outside the US', async () => {
+    const { status } = await server.request('/api/careers/rn-001/economic-data?zipCode=00000');
+
+    expect(status).toBe(400);
+  });
+});
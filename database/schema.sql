@@ -0,0 +1,163 @@
+-- Lantern AI database schema
+--
+-- Reference snapshot of the schema produced by the migrations in
+-- backend/src/database/migrations. Apply changes through a new migration
+-- (npm run db:migrate), then mirror them here.
+
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 001_create_users
+CREATE TABLE IF NOT EXISTS users (
+  id UUID PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE,
+  password_hash TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('student', 'counselor', 'teacher', 'admin')),
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  school_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (role <> 'counselor' OR school_id IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS students (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  grade INTEGER,
+  zip_code VARCHAR(5),
+  profile_completed BOOLEAN NOT NULL DEFAULT FALSE,
+  consent_given BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE INDEX IF NOT EXISTS idx_users_school_id ON users (school_id);
+
+-- 002_require_teacher_school
+ALTER TABLE users
+  ADD CONSTRAINT users_teacher_school_check CHECK (role <> 'teacher' OR school_id IS NOT NULL);
+
+-- 003_create_student_records
+CREATE TABLE IF NOT EXISTS student_profiles (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('in-progress', 'complete')),
+  profile JSONB,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS student_target_careers (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  career_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, career_id)
+);
+
+CREATE TABLE IF NOT EXISTS counselor_notes (
+  id UUID PRIMARY KEY,
+  counselor_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  note TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_counselor_notes_student_id ON counselor_notes (student_id);
+
+-- 004_create_email_log
+CREATE TABLE IF NOT EXISTS email_log (
+  id UUID PRIMARY KEY,
+  template_type TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  transport TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  message_id TEXT,
+  error TEXT,
+  sent_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_log_sent_by ON email_log (sent_by);
+
+-- 005_create_action_plans
+CREATE TABLE IF NOT EXISTS action_plans (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  career_id TEXT NOT NULL,
+  plan JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, career_id)
+);
+
+CREATE TABLE IF NOT EXISTS plan_actions (
+  id UUID PRIMARY KEY,
+  plan_id UUID NOT NULL REFERENCES action_plans(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  type TEXT NOT NULL CHECK (type IN ('course', 'meeting', 'application', 'research', 'custom')),
+  due_date TIMESTAMPTZ,
+  completed BOOLEAN NOT NULL DEFAULT FALSE,
+  completed_at TIMESTAMPTZ,
+  reminder_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  reminder_date TIMESTAMPTZ,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_plan_actions_plan_id ON plan_actions (plan_id);
+
+-- 006_create_reminders
+ALTER TABLE plan_actions ADD COLUMN reminder_sent_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('reminder')),
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  link TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications (user_id);
+
+-- 007_create_data_uploads
+CREATE TABLE IF NOT EXISTS data_uploads (
+  id UUID PRIMARY KEY,
+  type TEXT NOT NULL CHECK (type IN ('courses', 'programs', 'careers')),
+  filename TEXT NOT NULL,
+  uploaded_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  records_processed INTEGER NOT NULL DEFAULT 0,
+  records_failed INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  errors JSONB NOT NULL DEFAULT '[]',
+  uploaded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS courses (
+  id UUID PRIMARY KEY,
+  school_id TEXT NOT NULL,
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  grade_levels JSONB NOT NULL,
+  category TEXT NOT NULL,
+  is_cte BOOLEAN NOT NULL DEFAULT FALSE,
+  related_careers JSONB NOT NULL DEFAULT '[]',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (school_id, code)
+);
+
+CREATE TABLE IF NOT EXISTS training_programs (
+  id TEXT PRIMARY KEY,
+  program JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS career_overlays (
+  career_id TEXT PRIMARY KEY,
+  overlay JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
@@ -20,6 +20,7 @@ interface ActionStep {
 }
 
 interface ActionPlan {
+  careerId: string;
   careerTitle: string;
   careerCode: string;
   steps: ActionStep[];
@@ -31,6 +32,23 @@ interface ActionPlan {
   estimatedTimeToCareer: string;
 }
 
+interface CustomAction {
+  id: string;
+  title: string;
+  description: string;
+  type: 'course' | 'meeting' | 'application' | 'research' | 'custom';
+  dueDate?: string;
+  completed: boolean;
+  reminderEnabled: boolean;
+  reminderDate?: string;
+  notes?: string;
+}
+
+// Server copy of a signed-in student's plan
+interface SavedActionPlan extends ActionPlan {
+  actions: CustomAction[];
+}
+
 export default function ActionPlanPage() {
   const router = useRouter();
   const params = useParams();
@@ -40,6 +58,10 @@ export default function ActionPlanPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [filter, setFilter] = useState<'all' | 'immediate' | 'short-term' | 'long-term'>('all');
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [actions, setActions] = useState<CustomAction[]>([]);
+  const [newAction, setNewAction] = useState({ title: '', dueDate: '', notes: '', remind: false });
 
   useEffect(() => {
     loadActionPlan();
@@ -51,6 +73,19 @@ export default function ActionPlanPage() {
       const userData = user ? JSON.parse(user) : null;
       const zipCode = localStorage.getItem('zipCode') || userData?.zipCode;
       const grade = userData?.grade;
+      setSessionId(localStorage.getItem('sessionId'));
+
+      // Signed-in students get the plan saved on the server
+      const studentToken = userData?.role === 'student' ? localStorage.getItem('token') : null;
+      if (studentToken) {
+        setToken(studentToken);
+        const plan = await loadSavedPlan(studentToken);
+        if (plan) {
+          setActionPlan(plan);
+          setActions(plan.actions);
+        }
+        return;
+      }
 
       const queryParams = new URLSearchParams();
       if (grade) queryParams.append('grade', grade.toString());
@@ -74,9 +109,47 @@ export default function ActionPlanPage() {
     }
   };
 
-  const toggleStepCompletion = (stepId: string) => {
+  const apiRequest = (studentToken: string, path: string, method = 'GET', body?: unknown) =>
+    fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/action-plans/saved/${careerCode}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${studentToken}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }).then(response => response.json());
+
+  const loadSavedPlan = async (studentToken: string): Promise<SavedActionPlan | null> => {
+    const data = await apiRequest(studentToken, '');
+    if (!data.success) {
+      setError(data.error || 'Failed to load action plan');
+      return null;
+    }
+
+    // One-time import of checkmarks saved in this browser before plans lived on the server
+    const savedPlans = JSON.parse(localStorage.getItem('actionPlans') || '{}');
+    if (!savedPlans[careerCode]) return data.data;
+
+    const imported = await apiRequest(studentToken, '/import', 'POST', { steps: savedPlans[careerCode] });
+    if (!imported.success) return data.data;
+
+    delete savedPlans[careerCode];
+    if (Object.keys(savedPlans).length > 0) {
+      localStorage.setItem('actionPlans', JSON.stringify(savedPlans));
+    } else {
+      localStorage.removeItem('actionPlans');
+    }
+    return imported.data;
+  };
+
+  const toggleStepCompletion = async (stepId: string) => {
     if (!actionPlan) return;
 
+    if (token) {
+      const step = actionPlan.steps.find(s => s.id === stepId);
+      const data = await apiRequest(token, `/steps/${stepId}`, 'PATCH', { completed: !step?.completed });
+      if (data.success) setActionPlan(data.data);
+      else setError(data.error || 'Failed to save progress');
+      return;
+    }
+
     const updatedSteps = actionPlan.steps.map(step =>
       step.id === stepId ? { ...step, completed: !step.completed } : step
     );
@@ -92,6 +165,49 @@ export default function ActionPlanPage() {
     localStorage.setItem('actionPlans', JSON.stringify(savedPlans));
   };
 
+  const addAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !newAction.title.trim()) return;
+
+    const data = await apiRequest(token, '/actions', 'POST', {
+      title: newAction.title,
+      dueDate: newAction.dueDate || undefined,
+      notes: newAction.notes || undefined,
+      reminderEnabled: newAction.remind && !!newAction.dueDate,
+    });
+    if (data.success) {
+      setActions([...actions, data.data]);
+      setNewAction({ title: '', dueDate: '', notes: '', remind: false });
+    }
+  };
+
+  // Snooze a reminder by a week, or turn it off
+  const updateReminder = async (action: CustomAction, change: 'snooze' | 'off') => {
+    if (!token) return;
+
+    const body = change === 'off'
+      ? { enabled: false }
+      : { snoozeUntil: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString() };
+    const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/reminders/${action.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (data.success) {
+      setActions(actions.map(a => (a.id === action.id ? data.data : a)));
+    }
+  };
+
+  const toggleAction = async (action: CustomAction) => {
+    if (!token) return;
+
+    const data = await apiRequest(token, `/actions/${action.id}`, 'PATCH', { completed: !action.completed });
+    if (data.success) {
+      setActions(actions.map(a => (a.id === action.id ? data.data : a)));
+    }
+  };
+
   const getCategoryIcon = (category: string) => {
     switch (category) {
       case 'education':
@@ -321,6 +437,89 @@ export default function ActionPlanPage() {
 
           {/* Sidebar */}
           <div className="lg:col-span-1">
+            {/* Custom actions (signed-in students) */}
+            {token && (
+              <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+                <h3 className="text-lg font-semibold mb-4">My Actions</h3>
+                {actions.length === 0 && (
+                  <p className="text-sm text-gray-600 mb-4">Add your own to-dos, like a class to sign up for or a person to talk to.</p>
+                )}
+                <div className="space-y-3 mb-4">
+                  {actions.map(action => (
+                    <label key={action.id} className="flex items-start cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={action.completed}
+                        onChange={() => toggleAction(action)}
+                        className="mt-1 h-4 w-4 text-blue-600 rounded"
+                      />
+                      <span className="ml-3">
+                        <span className={`block font-medium ${action.completed ? 'line-through text-gray-500' : 'text-gray-900'}`}>
+                          {action.title}
+                        </span>
+                        {action.dueDate && (
+                          <span className="block text-xs text-gray-500">
+                            Due {new Date(action.dueDate).toLocaleDateString()}
+                          </span>
+                        )}
+                        {action.notes && <span className="block text-sm text-gray-600">{action.notes}</span>}
+                        {action.reminderEnabled && action.reminderDate && !action.completed && (
+                          <span className="block text-xs text-gray-500">
+                            🔔 Reminder {new Date(action.reminderDate).toLocaleDateString()}
+                            <button type="button" onClick={() => updateReminder(action, 'snooze')} className="ml-2 text-blue-600 hover:underline">
+                              Snooze a week
+                            </button>
+                            <button type="button" onClick={() => updateReminder(action, 'off')} className="ml-2 text-blue-600 hover:underline">
+                              Turn off
+                            </button>
+                          </span>
+                        )}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+                <form onSubmit={addAction} className="space-y-2">
+                  <input
+                    type="text"
+                    value={newAction.title}
+                    onChange={(e) => setNewAction({ ...newAction, title: e.target.value })}
+                    placeholder="New action"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <input
+                    type="date"
+                    value={newAction.dueDate}
+                    onChange={(e) => setNewAction({ ...newAction, dueDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={newAction.remind}
+                      disabled={!newAction.dueDate}
+                      onChange={(e) => setNewAction({ ...newAction, remind: e.target.checked })}
+                      className="h-4 w-4 mr-2"
+                    />
+                    Remind me on the due date
+                  </label>
+                  <textarea
+                    value={newAction.notes}
+                    onChange={(e) => setNewAction({ ...newAction, notes: e.target.value })}
+                    placeholder="Notes (optional)"
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!newAction.title.trim()}
+                    className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Add Action
+                  </button>
+                </form>
+              </div>
+            )}
+
             {/* Milestones */}
             <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
               <h3 className="text-lg font-semibold mb-4">Key Milestones</h3>
@@ -344,7 +543,7 @@ export default function ActionPlanPage() {
               <h3 className="text-lg font-semibold mb-4">Quick Actions</h3>
               <div className="space-y-3">
                 <Link
-                  href={`/careers/${careerCode}`}
+                  href={`/careers/${actionPlan.careerId}`}
                   className="block w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 text-center"
                 >
                   View Career Details
@@ -355,6 +554,14 @@ export default function ActionPlanPage() {
                 >
                   Print Action Plan
                 </button>
+                {sessionId && (
+                  <a
+                    href={`${process.env.NEXT_PUBLIC_API_URL}/api/reports/${sessionId}.pdf?careers=${actionPlan.careerId}`}
+                    className="block w-full bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 text-center"
+                  >
+                    Download PDF Report
+                  </a>
+                )}
                 <Link
                   href="/results"
                   className="block w-full bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 text-center"
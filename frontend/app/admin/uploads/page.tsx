@@ -0,0 +1,222 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+type UploadType = 'courses' | 'programs' | 'careers';
+
+interface DataUpload {
+  id: string;
+  type: UploadType;
+  filename: string;
+  recordsProcessed: number;
+  recordsFailed: number;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  errors?: string[];
+  uploadedAt: string;
+  completedAt?: string;
+}
+
+type UploadColumns = Record<UploadType, { required: string[]; optional: string[] }>;
+
+const TYPE_LABELS: Record<UploadType, string> = {
+  courses: 'School courses',
+  programs: 'Training programs',
+  careers: 'Career details',
+};
+
+const STATUS_STYLES: Record<DataUpload['status'], string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  processing: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+// How often to check on uploads that are still being processed
+const REFRESH_MS = 2000;
+
+export default function AdminUploadsPage() {
+  const router = useRouter();
+  const [uploads, setUploads] = useState<DataUpload[]>([]);
+  const [columns, setColumns] = useState<UploadColumns | null>(null);
+  const [type, setType] = useState<UploadType>('courses');
+  const [file, setFile] = useState<File | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const authHeaders = (): Record<string, string> => ({
+    'Authorization': `Bearer ${localStorage.getItem('token')}`
+  });
+
+  const loadUploads = async () => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/admin/uploads`, { headers: authHeaders() });
+      if (response.status === 401 || response.status === 403) {
+        router.push('/login');
+        return;
+      }
+      const data = await response.json();
+      if (data.success) setUploads(data.data);
+    } catch (error) {
+      console.error('Error loading uploads:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!localStorage.getItem('token')) {
+      router.push('/login');
+      return;
+    }
+
+    loadUploads();
+    fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/admin/uploads/columns`, { headers: authHeaders() })
+      .then(response => response.json())
+      .then(data => data.success && setColumns(data.data))
+      .catch(error => console.error('Error loading upload columns:', error));
+  }, []);
+
+  // Keep refreshing while any upload is still being processed
+  useEffect(() => {
+    if (!uploads.some(u => u.status === 'pending' || u.status === 'processing')) return;
+    const timer = setTimeout(loadUploads, REFRESH_MS);
+    return () => clearTimeout(timer);
+  }, [uploads]);
+
+  const handleUpload = async () => {
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const params = new URLSearchParams({ type, filename: file.name });
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/admin/uploads?${params}`, {
+        method: 'POST',
+        headers: { ...authHeaders(), 'Content-Type': 'text/csv' },
+        body: await file.text()
+      });
+      const data = await response.json();
+      if (data.success) {
+        setUploads([data.data, ...uploads]);
+        setFile(null);
+      } else {
+        alert(data.error || 'Upload failed');
+      }
+    } catch (error) {
+      console.error('Error uploading file:', error);
+      alert('Upload failed');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-2xl font-bold text-gray-900">Lantern AI · Data Uploads</h1>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto py-12 px-4 sm:px-6 lg:px-8">
+        {/* Upload form */}
+        <div className="bg-white rounded-lg shadow p-6 mb-8">
+          <h2 className="text-lg font-semibold mb-4">Upload a CSV file</h2>
+          <div className="flex flex-wrap items-center gap-4">
+            <select
+              value={type}
+              onChange={e => setType(e.target.value as UploadType)}
+              className="border border-gray-300 rounded-lg px-3 py-2"
+            >
+              {(Object.keys(TYPE_LABELS) as UploadType[]).map(t => (
+                <option key={t} value={t}>{TYPE_LABELS[t]}</option>
+              ))}
+            </select>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={e => setFile(e.target.files?.[0] || null)}
+              className="text-sm"
+            />
+            <button
+              onClick={handleUpload}
+              disabled={!file || isUploading}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isUploading ? 'Uploading...' : 'Upload'}
+            </button>
+          </div>
+          {columns && (
+            <p className="text-sm text-gray-600 mt-4">
+              Columns: <span className="font-mono">{columns[type].required.join(', ')}</span>
+              {columns[type].optional.length > 0 && (
+                <> (optional: <span className="font-mono">{columns[type].optional.join(', ')}</span>)</>
+              )}. Separate list values with semicolons.
+            </p>
+          )}
+        </div>
+
+        {/* Upload history */}
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">File</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Rows Saved</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Rows Failed</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Uploaded</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {uploads.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">No uploads yet</td>
+                </tr>
+              )}
+              {uploads.map(u => (
+                <Fragment key={u.id}>
+                  <tr
+                    onClick={() => setExpanded(expanded === u.id ? null : u.id)}
+                    className={u.errors && u.errors.length > 0 ? 'cursor-pointer hover:bg-gray-50' : ''}
+                  >
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">{u.filename}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{TYPE_LABELS[u.type]}</td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 text-xs rounded-full ${STATUS_STYLES[u.status]}`}>{u.status}</span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{u.recordsProcessed}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {u.recordsFailed}
+                      {u.errors && u.errors.length > 0 && <span className="text-blue-600 ml-2">{expanded === u.id ? 'Hide' : 'Show'} errors</span>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">{new Date(u.uploadedAt).toLocaleString()}</td>
+                  </tr>
+                  {expanded === u.id && u.errors && (
+                    <tr>
+                      <td colSpan={6} className="px-6 py-4 bg-red-50">
+                        <ul className="text-sm text-red-800 space-y-1 font-mono">
+                          {u.errors.map((error, i) => <li key={i}>{error}</li>)}
+                        </ul>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
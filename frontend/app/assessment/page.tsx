@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 
 interface Question {
@@ -12,30 +12,148 @@ interface Question {
   category: string;
 }
 
+type AssessmentType = 'standard' | 'riasec';
+
+// An answer as the API sends and receives it
+interface AssessmentAnswer {
+  questionId: string;
+  answer: string | number;
+  // ISO 8601
+  timestamp: string;
+}
+
+interface AssessmentDefinition {
+  type: AssessmentType;
+  version: number;
+  title: string;
+  description: string;
+  latest: boolean;
+}
+
 export default function AssessmentPage() {
   const router = useRouter();
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [answers, setAnswers] = useState<any[]>([]);
+  const [definitions, setDefinitions] = useState<AssessmentDefinition[]>([]);
+  const [assessment, setAssessment] = useState<AssessmentDefinition | null>(null);
+  const [currentQuestion, setCurrentQuestion] = useState<Question | null>(null);
+  // Questions already answered, in the order they were asked
+  const [asked, setAsked] = useState<Question[]>([]);
+  const [answers, setAnswers] = useState<AssessmentAnswer[]>([]);
+  const [remainingCount, setRemainingCount] = useState(0);
   const [selectedAnswer, setSelectedAnswer] = useState('');
-  const [isLoading, setIsLoading] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
   const [zipCode, setZipCode] = useState('');
   const [showZipCode, setShowZipCode] = useState(false);
+  // Answer saves still in flight, chained so they reach the server one at a time
+  const pendingSaves = useRef<Promise<void>>(Promise.resolve());
 
   useEffect(() => {
-    fetchQuestions();
+    fetchDefinitions();
   }, []);
 
-  const fetchQuestions = async () => {
+  const fetchDefinitions = async () => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/assessment/definitions`);
+      const data = await response.json();
+      if (data.success) {
+        setDefinitions(data.data.filter((d: AssessmentDefinition) => d.latest));
+        await resumeProgress(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching assessments:', error);
+      alert('Failed to load assessments');
+    }
+  };
+
+  // Pick up where the student left off if this session has saved answers
+  const resumeProgress = async (allDefinitions: AssessmentDefinition[]) => {
+    const sessionId = localStorage.getItem('sessionId');
+    if (!sessionId) return;
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/assessment/progress/${sessionId}`);
+      const data = await response.json();
+      if (!data.success || data.data.completed || !data.data.next) return;
+
+      const { assessmentType, assessmentVersion, answers: saved, next } = data.data;
+      const definition = allDefinitions.find(d => d.type === assessmentType && d.version === assessmentVersion);
+      if (!definition) return;
+
+      // Rebuild the answered questions so Back still works
+      const questionsResponse = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/assessment/questions?type=${assessmentType}&version=${assessmentVersion}`
+      );
+      const questionsData = await questionsResponse.json();
+      if (!questionsData.success) return;
+      const byId = new Map<string, Question>(questionsData.data.map((q: Question) => [q.id, q]));
+      const resumed = (saved as AssessmentAnswer[]).filter(a => byId.has(a.questionId));
+
+      setAssessment(definition);
+      setAnswers(resumed);
+      setAsked(resumed.map(a => byId.get(a.questionId) as Question));
+      setRemainingCount(next.remainingCount);
+      if (next.done) {
+        setShowZipCode(true);
+      } else {
+        setCurrentQuestion(next.question);
+      }
+    } catch (error) {
+      console.error('Error resuming assessment:', error);
+    }
+  };
+
+  const chooseAssessment = (definition: AssessmentDefinition) => {
+    setAssessment(definition);
+    fetchNextQuestion(definition, []);
+  };
+
+  // Save each answer as it's given so progress survives closing the browser.
+  // Saves wait for the one before so quick answers can't overwrite each other.
+  const saveAnswer = (answer: AssessmentAnswer) => {
+    pendingSaves.current = pendingSaves.current.then(() => sendAnswer(answer));
+    return pendingSaves.current;
+  };
+
+  const sendAnswer = async (answer: AssessmentAnswer) => {
+    const sessionId = localStorage.getItem('sessionId');
+    if (!sessionId || !assessment) return;
+
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/assessment/questions`);
+      await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/assessment/answers`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId,
+          answers: [answer],
+          assessmentType: assessment.type,
+          assessmentVersion: assessment.version
+        })
+      });
+    } catch (error) {
+      console.error('Error saving answer:', error);
+    }
+  };
+
+  // The backend picks the next question from the answers so far
+  const fetchNextQuestion = async ({ type, version }: AssessmentDefinition, answersSoFar: AssessmentAnswer[]) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/assessment/next`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assessmentType: type, assessmentVersion: version, answers: answersSoFar })
+      });
       const data = await response.json();
       if (data.success) {
-        setQuestions(data.data);
+        setRemainingCount(data.data.remainingCount);
+        if (data.data.done) {
+          setShowZipCode(true);
+        } else {
+          setCurrentQuestion(data.data.question);
+        }
         setIsLoading(false);
       }
     } catch (error) {
-      console.error('Error fetching questions:', error);
+      console.error('Error fetching question:', error);
       alert('Failed to load questions');
     }
   };
@@ -46,19 +164,29 @@ export default function AssessmentPage() {
       return;
     }
 
-    const newAnswers = [...answers, {
-      questionId: questions[currentIndex].id,
+    if (!assessment || !currentQuestion) return;
+
+    const answer: AssessmentAnswer = {
+      questionId: currentQuestion.id,
       answer: selectedAnswer,
       timestamp: new Date().toISOString()
-    }];
+    };
+    const newAnswers = [...answers, answer];
+    saveAnswer(answer);
     setAnswers(newAnswers);
+    setAsked([...asked, currentQuestion]);
     setSelectedAnswer('');
+    fetchNextQuestion(assessment, newAnswers);
+  };
 
-    if (currentIndex < questions.length - 1) {
-      setCurrentIndex(currentIndex + 1);
-    } else {
-      setShowZipCode(true);
-    }
+  const handleBack = () => {
+    if (asked.length === 0) return;
+
+    setCurrentQuestion(asked[asked.length - 1]);
+    setSelectedAnswer(String(answers[answers.length - 1].answer));
+    setAsked(asked.slice(0, -1));
+    setAnswers(answers.slice(0, -1));
+    setRemainingCount(remainingCount + 1);
   };
 
   const handleSubmit = async () => {
@@ -75,10 +203,16 @@ export default function AssessmentPage() {
     }
 
     try {
+      await pendingSaves.current;
       await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/assessment/answers`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sessionId, answers })
+        body: JSON.stringify({
+          sessionId,
+          answers,
+          assessmentType: assessment?.type,
+          assessmentVersion: assessment?.version
+        })
       });
 
       const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/assessment/complete`, {
@@ -91,6 +225,8 @@ export default function AssessmentPage() {
       if (data.success) {
         localStorage.setItem('zipCode', zipCode);
         router.push('/results');
+      } else {
+        alert(data.error || 'Failed to submit assessment');
       }
     } catch (error) {
       console.error('Error submitting assessment:', error);
@@ -98,7 +234,34 @@ export default function AssessmentPage() {
     }
   };
 
-  if (isLoading) {
+  if (!assessment) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12 px-4">
+        <div className="max-w-3xl mx-auto">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-gray-900">Choose Your Assessment</h1>
+          </div>
+          <div className="space-y-4">
+            {definitions.length === 0 && (
+              <div className="text-center text-xl">Loading assessments...</div>
+            )}
+            {definitions.map(option => (
+              <button
+                key={option.type}
+                onClick={() => chooseAssessment(option)}
+                className="w-full text-left bg-white rounded-lg shadow-lg p-6 border-2 border-transparent hover:border-blue-600 transition-all"
+              >
+                <h2 className="text-xl font-semibold mb-2">{option.title}</h2>
+                <p className="text-gray-600">{option.description}</p>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!showZipCode && (isLoading || !currentQuestion)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-xl">Loading questions...</div>
@@ -135,8 +298,11 @@ export default function AssessmentPage() {
     );
   }
 
-  const currentQuestion = questions[currentIndex];
-  const progress = ((currentIndex + 1) / questions.length) * 100;
+  if (!currentQuestion) return null;
+
+  // Follow-up questions are only asked when needed, so the total can shrink as you go
+  const total = answers.length + remainingCount;
+  const progress = ((answers.length + 1) / total) * 100;
 
   return (
     <div className="min-h-screen bg-gray-50 py-12 px-4">
@@ -146,7 +312,7 @@ export default function AssessmentPage() {
         </div>
         <div className="mb-8">
           <div className="flex justify-between text-sm text-gray-600 mb-2">
-            <span>Question {currentIndex + 1} of {questions.length}</span>
+            <span>Question {answers.length + 1} of up to {total}</span>
             <span>{Math.round(progress)}% Complete</span>
           </div>
           <div className="w-full bg-gray-200 rounded-full h-2">
@@ -178,8 +344,8 @@ export default function AssessmentPage() {
 
           <div className="mt-8 flex justify-between">
             <button
-              onClick={() => setCurrentIndex(Math.max(0, currentIndex - 1))}
-              disabled={currentIndex === 0}
+              onClick={handleBack}
+              disabled={asked.length === 0}
               className="px-6 py-2 text-gray-600 disabled:opacity-50"
             >
               Back
@@ -188,7 +354,7 @@ export default function AssessmentPage() {
               onClick={handleNext}
               className="px-8 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700"
             >
-              {currentIndex === questions.length - 1 ? 'Finish' : 'Next'}
+              Next
             </button>
           </div>
         </div>
@@ -41,8 +41,43 @@ interface EconomicIndicator {
   lastUpdated: string;
 }
 
+interface SchoolCourse {
+  code: string;
+  name: string;
+  gradeLevels: number[];
+  category: string;
+  isCTE: boolean;
+}
+
+interface CourseRecommendations {
+  school: { id: string; name?: string };
+  courses: SchoolCourse[];
+}
+
+interface PathwayStage {
+  order: number;
+  title: string;
+  description: string;
+  duration: string;
+  requirements: string[];
+  providers: string[];
+}
+
+interface CareerPathway {
+  stages: PathwayStage[];
+  totalDuration: string;
+}
+
+interface OccupationWages {
+  area: string;
+  year: string;
+  median: number;
+  percentiles: { p10?: number; p25?: number; p75?: number; p90?: number };
+}
+
 interface EconomicDataPayload {
   economicIndicators: EconomicIndicator[];
+  wages?: OccupationWages | null;
   currentUnemploymentRate?: number | null;
   lastUpdated: string;
 }
@@ -66,9 +101,14 @@ export default function CareerDetailPage() {
 
     async function load() {
       try {
+        // Wages are for the student's metro area or state when we know their ZIP
+        const user = JSON.parse(localStorage.getItem('user') || 'null');
+        const zipCode = localStorage.getItem('zipCode') || user?.zipCode;
+        const econQuery = zipCode ? `?zipCode=${encodeURIComponent(zipCode)}` : '';
+
         const [careerRes, econRes] = await Promise.all([
           fetch(`/api/careers/${encodeURIComponent(id)}`, { cache: 'no-store' }),
-          fetch(`/api/careers/${encodeURIComponent(id)}/economic-data`, {
+          fetch(`/api/careers/${encodeURIComponent(id)}/economic-data${econQuery}`, {
             cache: 'no-store',
           }),
         ]);
@@ -165,7 +205,7 @@ export default function CareerDetailPage() {
             </div>
             <div className="text-right">
               <div className="text-3xl font-bold text-green-600">
-                ${(career.averageSalary / 1000).toFixed(0)}k
+                {career.averageSalary > 0 ? `$${(career.averageSalary / 1000).toFixed(0)}k` : 'N/A'}
               </div>
               <div className="text-sm text-gray-500">Average Salary</div>
             </div>
@@ -180,7 +220,11 @@ export default function CareerDetailPage() {
             />
             <Info
               label="Salary (National Range)"
-              value={`$${career.salaryRange.min.toLocaleString()} - $${career.salaryRange.max.toLocaleString()}`}
+              value={
+                career.averageSalary > 0
+                  ? `$${career.salaryRange.min.toLocaleString()} - $${career.salaryRange.max.toLocaleString()}`
+                  : 'Not available'
+              }
             />
             <Info label="Growth Outlook" value={career.growthOutlook} />
           </div>
@@ -207,7 +251,7 @@ export default function CareerDetailPage() {
             </h2>
             {econ?.lastUpdated && (
               <span className="text-sm text-gray-500">
-                Updated: {new Date(econ.lastUpdated).toLocaleString()}
+                Data as of {new Date(econ.lastUpdated).toLocaleString()}
               </span>
             )}
           </div>
@@ -217,6 +261,8 @@ export default function CareerDetailPage() {
             </p>
           ) : (
             <>
+              {econ.wages && <Wages wages={econ.wages} />}
+
               <div className="grid md:grid-cols-3 gap-6 mt-4">
                 {econ.economicIndicators.map((ind) => (
                   <div
@@ -254,6 +300,10 @@ export default function CareerDetailPage() {
           )}
         </div>
 
+        <SchoolCourses careerId={career.id} />
+
+        <Pathway careerId={career.id} />
+
         {/* Action Buttons */}
         <div className="bg-white rounded-lg shadow-lg p-6">
           <h3 className="text-lg font-semibold mb-4">Take Action</h3>
@@ -264,6 +314,12 @@ export default function CareerDetailPage() {
             >
               📋 Get Your Action Plan
             </Link>
+            <Link
+              href={`/programs?career=${career.id}`}
+              className="block w-full bg-teal-600 text-white py-3 px-4 rounded-lg hover:bg-teal-700 text-center font-medium"
+            >
+              🏫 Find Training Programs
+            </Link>
             {career.onetCode && (
               <a
                 href={`https://www.onetonline.org/link/summary/${career.onetCode}`}
@@ -282,6 +338,7 @@ export default function CareerDetailPage() {
             >
               💼 Find Jobs
             </a>
+            <EmailCounselorButton careerId={career.id} />
             <BackButton className="block w-full bg-gray-100 text-gray-700 py-3 px-4 rounded-lg hover:bg-gray-200 text-center font-medium">
               ← Back to All Results
             </BackButton>
@@ -329,6 +386,156 @@ function Nav() {
   );
 }
 
+/**
+ * One-click email to the signed-in student's school counselor about this career
+ */
+function EmailCounselorButton({ careerId }: { careerId: string }) {
+  const [token, setToken] = useState<string | null>(null);
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent' | 'error'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [note, setNote] = useState<string | null>(null);
+
+  useEffect(() => {
+    const user = JSON.parse(localStorage.getItem('user') || 'null');
+    if (user?.role === 'student') setToken(localStorage.getItem('token'));
+  }, []);
+
+  if (!token) return null;
+
+  async function send() {
+    setStatus('sending');
+    setError(null);
+    try {
+      const res = await fetch('/api/email/counselor-outreach', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ careerId }),
+      });
+      const body = (await safeJson(res)) as ApiResponse<{ transport: string }> | null;
+      if (!res.ok || !body?.success) {
+        throw new Error(body?.error || `Email request failed (${res.status})`);
+      }
+      // The outbox transport only saves messages; say so rather than claim it was sent
+      setNote(body.data?.transport === 'outbox' ? body.message || null : null);
+      setStatus('sent');
+    } catch (e: any) {
+      setError(e?.message || 'Failed to email your counselor');
+      setStatus('error');
+    }
+  }
+
+  return (
+    <div>
+      <button
+        onClick={send}
+        disabled={status === 'sending' || status === 'sent'}
+        className="block w-full bg-amber-500 text-white py-3 px-4 rounded-lg hover:bg-amber-600 text-center font-medium disabled:opacity-60"
+      >
+        {status === 'sent'
+          ? note ? '📥 Email Saved' : '✅ Counselor Emailed'
+          : status === 'sending' ? 'Sending...' : '✉️ Email My Counselor About This Career'}
+      </button>
+      {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+      {note && <p className="text-sm text-gray-600 mt-1">{note}</p>}
+    </div>
+  );
+}
+
+function SchoolCourses({ careerId }: { careerId: string }) {
+  const [recommended, setRecommended] = useState<CourseRecommendations | null>(null);
+
+  useEffect(() => {
+    const user = JSON.parse(localStorage.getItem('user') || 'null');
+    if (user?.role !== 'student' || !user.schoolId) return;
+
+    fetch(`/api/courses/recommended?career=${encodeURIComponent(careerId)}`, {
+      headers: { Authorization: `Bearer ${localStorage.getItem('token')}` },
+    })
+      .then(safeJson)
+      .then((body: ApiResponse<CourseRecommendations> | null) => {
+        if (body?.success && body.data) setRecommended(body.data);
+      })
+      .catch((e) => console.warn('Course recommendations fetch warning:', e));
+  }, [careerId]);
+
+  if (!recommended || recommended.courses.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow p-6 mb-8">
+      <h2 className="text-2xl font-semibold text-gray-900">
+        Courses at {recommended.school.name || 'Your School'}
+      </h2>
+      <ul className="divide-y divide-gray-100 mt-4">
+        {recommended.courses.map((course) => (
+          <li key={course.code} className="py-3 flex items-center justify-between">
+            <div>
+              <span className="font-mono text-sm text-gray-500 mr-2">{course.code}</span>
+              <span className="font-medium text-gray-900">{course.name}</span>
+              {course.isCTE && (
+                <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-teal-100 text-teal-800">CTE</span>
+              )}
+            </div>
+            <span className="text-sm text-gray-500">Grades {course.gradeLevels.join(', ')}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Steps from high school into the career. Signed-in students see their
+ * school's courses from their grade on, and programs near their ZIP first.
+ */
+function Pathway({ careerId }: { careerId: string }) {
+  const [pathway, setPathway] = useState<CareerPathway | null>(null);
+
+  useEffect(() => {
+    const user = JSON.parse(localStorage.getItem('user') || 'null');
+    const zipCode = localStorage.getItem('zipCode') || user?.zipCode;
+    const queryParams = new URLSearchParams();
+    if (user?.role === 'student' && user.schoolId) {
+      queryParams.append('schoolId', user.schoolId);
+      // Post-secondary students (grade 13) have no school courses left to take
+      if (user.grade && user.grade <= 12) queryParams.append('grade', user.grade.toString());
+    }
+    if (zipCode) queryParams.append('zipCode', zipCode);
+
+    fetch(`/api/careers/${encodeURIComponent(careerId)}/pathway?${queryParams}`, { cache: 'no-store' })
+      .then(safeJson)
+      .then((body: ApiResponse<CareerPathway> | null) => {
+        if (body?.success && body.data) setPathway(body.data);
+      })
+      .catch((e) => console.warn('Career pathway fetch warning:', e));
+  }, [careerId]);
+
+  if (!pathway) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow p-6 mb-8">
+      <h2 className="text-2xl font-semibold text-gray-900">Your Pathway</h2>
+      <p className="text-sm text-gray-500 mt-1">About {pathway.totalDuration}</p>
+      <ol className="mt-4 space-y-4">
+        {pathway.stages.map((stage) => (
+          <li key={stage.order} className="border-l-4 border-blue-200 pl-4">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-gray-900">{stage.order}. {stage.title}</span>
+              <span className="text-sm text-gray-500">{stage.duration}</span>
+            </div>
+            <p className="text-gray-700 text-sm mt-1">{stage.description}</p>
+            <ul className="list-disc list-inside text-sm text-gray-600 mt-2">
+              {stage.requirements.map((requirement) => (
+                <li key={requirement}>{requirement}</li>
+              ))}
+            </ul>
+            <p className="text-sm text-gray-500 mt-2">Where: {stage.providers.join('; ')}</p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
 function Info({ label, value }: { label: string; value: string }) {
   return (
     <div>
@@ -347,6 +554,39 @@ function capitalize(s: string) {
   return s.charAt(0).toUpperCase() + s.slice(1);
 }
 
+function Wages({ wages }: { wages: OccupationWages }) {
+  const points = [
+    { label: '10th percentile', value: wages.percentiles.p10 },
+    { label: '25th percentile', value: wages.percentiles.p25 },
+    { label: 'Median', value: wages.median },
+    { label: '75th percentile', value: wages.percentiles.p75 },
+    { label: '90th percentile', value: wages.percentiles.p90 },
+  ].filter((point): point is { label: string; value: number } => point.value !== undefined);
+
+  return (
+    <div className="mt-4 bg-green-50 border border-green-200 rounded-lg p-4">
+      <div className="flex justify-between text-sm text-green-800">
+        <span className="font-semibold">Annual Wages in {wages.area}</span>
+        <span>BLS OEWS {wages.year}</span>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-4 mt-3">
+        {points.map((point) => (
+          <div key={point.label}>
+            <div className="text-xs text-gray-600">{point.label}</div>
+            <div
+              className={`font-bold ${
+                point.label === 'Median' ? 'text-2xl text-green-700' : 'text-lg text-gray-900'
+              }`}
+            >
+              ${point.value.toLocaleString()}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function formatValue(name: string, value: string) {
   const num = parseFloat(value);
   if (isNaN(num)) return value || 'N/A';
@@ -362,4 +602,4 @@ async function safeJson(res: Response) {
   } catch {
     return null;
   }
-}
\ No newline at end of file
+}
\ No newline at end of file
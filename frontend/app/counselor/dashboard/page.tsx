@@ -0,0 +1,264 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface StudentProgress {
+  studentId: string;
+  student: {
+    firstName: string;
+    lastName: string;
+    email: string;
+    grade?: number;
+  };
+  profileStatus: 'not-started' | 'in-progress' | 'complete';
+  hasSelectedCareer: boolean;
+  lastActivity: string;
+  targetCareers: string[];
+}
+
+interface CounselorNote {
+  id: string;
+  note: string;
+  createdAt: string;
+}
+
+interface AggregateTrends {
+  totalStudents: number;
+  completedAssessments: number;
+  topInterests: { interest: string; count: number }[];
+  topCareers: { career: string; count: number }[];
+  sectorDistribution: { healthcare: number; infrastructure: number };
+}
+
+const STATUS_LABELS: Record<StudentProgress['profileStatus'], { label: string; className: string }> = {
+  'not-started': { label: 'Not Started', className: 'bg-gray-100 text-gray-700' },
+  'in-progress': { label: 'In Progress', className: 'bg-yellow-100 text-yellow-800' },
+  'complete': { label: 'Complete', className: 'bg-green-100 text-green-800' },
+};
+
+export default function CounselorDashboardPage() {
+  const router = useRouter();
+  const [students, setStudents] = useState<StudentProgress[]>([]);
+  const [trends, setTrends] = useState<AggregateTrends | null>(null);
+  const [selected, setSelected] = useState<StudentProgress | null>(null);
+  const [notes, setNotes] = useState<CounselorNote[]>([]);
+  const [newNote, setNewNote] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadDashboard();
+  }, []);
+
+  const authHeaders = (): Record<string, string> => ({
+    'Authorization': `Bearer ${localStorage.getItem('token')}`,
+    'Content-Type': 'application/json'
+  });
+
+  const loadDashboard = async () => {
+    if (!localStorage.getItem('token')) {
+      router.push('/login');
+      return;
+    }
+
+    try {
+      const [studentsResponse, trendsResponse] = await Promise.all([
+        fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/counselor/students`, { headers: authHeaders() }),
+        fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/counselor/trends`, { headers: authHeaders() })
+      ]);
+
+      if (studentsResponse.status === 401 || studentsResponse.status === 403) {
+        router.push('/login');
+        return;
+      }
+
+      const studentsData = await studentsResponse.json();
+      const trendsData = await trendsResponse.json();
+      if (studentsData.success) setStudents(studentsData.data);
+      if (trendsData.success) setTrends(trendsData.data);
+    } catch (error) {
+      console.error('Error loading dashboard:', error);
+      alert('Failed to load dashboard');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectStudent = async (student: StudentProgress) => {
+    setSelected(student);
+    setNotes([]);
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/counselor/students/${student.studentId}/notes`,
+        { headers: authHeaders() }
+      );
+      const data = await response.json();
+      if (data.success) setNotes(data.data);
+    } catch (error) {
+      console.error('Error loading notes:', error);
+    }
+  };
+
+  const addNote = async () => {
+    if (!selected || !newNote.trim()) return;
+
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/counselor/students/${selected.studentId}/notes`,
+        { method: 'POST', headers: authHeaders(), body: JSON.stringify({ note: newNote }) }
+      );
+      const data = await response.json();
+      if (data.success) {
+        setNotes([data.data, ...notes]);
+        setNewNote('');
+      } else {
+        alert(data.error || 'Failed to add note');
+      }
+    } catch (error) {
+      console.error('Error adding note:', error);
+      alert('Failed to add note');
+    }
+  };
+
+  const handleLogout = () => {
+    localStorage.removeItem('token');
+    localStorage.removeItem('user');
+    router.push('/');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <h1 className="text-2xl font-bold text-gray-900">Lantern AI · Counselor Dashboard</h1>
+            <button onClick={handleLogout} className="text-gray-500 hover:text-gray-700">
+              Sign out
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto py-12 px-4 sm:px-6 lg:px-8">
+        {/* Trends */}
+        {trends && (
+          <div className="grid gap-6 md:grid-cols-4 mb-8">
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="text-sm text-gray-500">Students</div>
+              <div className="text-3xl font-bold">{trends.totalStudents}</div>
+            </div>
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="text-sm text-gray-500">Assessments Completed</div>
+              <div className="text-3xl font-bold">{trends.completedAssessments}</div>
+            </div>
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="text-sm text-gray-500 mb-2">Top Interests</div>
+              <ul className="text-sm text-gray-700 space-y-1">
+                {trends.topInterests.slice(0, 3).map(i => (
+                  <li key={i.interest}>{i.interest} ({i.count})</li>
+                ))}
+              </ul>
+            </div>
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="text-sm text-gray-500 mb-2">Target Careers by Sector</div>
+              <div className="text-sm text-gray-700">Healthcare: {trends.sectorDistribution.healthcare}</div>
+              <div className="text-sm text-gray-700">Infrastructure: {trends.sectorDistribution.infrastructure}</div>
+            </div>
+          </div>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Student list */}
+          <div className="lg:col-span-2 bg-white rounded-lg shadow overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Student</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Grade</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Assessment</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Target Careers</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last Active</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {students.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-gray-500">No students yet</td>
+                  </tr>
+                )}
+                {students.map(s => (
+                  <tr
+                    key={s.studentId}
+                    onClick={() => selectStudent(s)}
+                    className={`cursor-pointer hover:bg-blue-50 ${selected?.studentId === s.studentId ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="px-6 py-4">
+                      <div className="font-medium text-gray-900">{s.student.firstName} {s.student.lastName}</div>
+                      <div className="text-sm text-gray-500">{s.student.email}</div>
+                    </td>
+                    <td className="px-6 py-4 text-gray-700">{s.student.grade ?? '—'}</td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_LABELS[s.profileStatus].className}`}>
+                        {STATUS_LABELS[s.profileStatus].label}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {s.targetCareers.length > 0 ? s.targetCareers.join(', ') : '—'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {new Date(s.lastActivity).toLocaleDateString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Notes */}
+          <div className="bg-white rounded-lg shadow p-6">
+            {selected ? (
+              <>
+                <h2 className="text-lg font-semibold mb-4">
+                  Notes for {selected.student.firstName} {selected.student.lastName}
+                </h2>
+                <textarea
+                  value={newNote}
+                  onChange={(e) => setNewNote(e.target.value)}
+                  placeholder="Add a note..."
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg mb-3"
+                  rows={3}
+                />
+                <button
+                  onClick={addNote}
+                  className="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 mb-6"
+                >
+                  Add Note
+                </button>
+                <div className="space-y-4">
+                  {notes.length === 0 && <p className="text-gray-500 text-sm">No notes yet</p>}
+                  {notes.map(n => (
+                    <div key={n.id} className="border-l-4 border-blue-200 pl-3">
+                      <p className="text-gray-800">{n.note}</p>
+                      <p className="text-xs text-gray-500 mt-1">{new Date(n.createdAt).toLocaleString()}</p>
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <p className="text-gray-500">Select a student to see and add notes.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
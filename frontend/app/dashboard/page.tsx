@@ -14,10 +14,20 @@ interface User {
   profileCompleted: boolean;
 }
 
+interface Notification {
+  id: string;
+  title: string;
+  body: string;
+  link?: string;
+  readAt?: string;
+  createdAt: string;
+}
+
 export default function DashboardPage() {
   const router = useRouter();
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
 
   useEffect(() => {
     checkAuth();
@@ -40,6 +50,7 @@ export default function DashboardPage() {
       const data = await response.json();
       if (data.success) {
         setUser(data.data);
+        loadNotifications(token);
       } else {
         localStorage.removeItem('token');
         localStorage.removeItem('user');
@@ -53,10 +64,39 @@ export default function DashboardPage() {
     }
   };
 
+  const loadNotifications = async (token: string) => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/notifications`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      const data = await response.json();
+      if (data.success) setNotifications(data.data);
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    }
+  };
+
+  const markRead = async (notification: Notification) => {
+    if (notification.readAt) return;
+
+    await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/notifications/${notification.id}/read`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${localStorage.getItem('token')}`
+      }
+    });
+    setNotifications(notifications.map(n =>
+      n.id === notification.id ? { ...n, readAt: new Date().toISOString() } : n
+    ));
+  };
+
   const handleLogout = () => {
     localStorage.removeItem('token');
     localStorage.removeItem('user');
     localStorage.removeItem('sessionId');
+    localStorage.removeItem('sessionLinkToken');
     localStorage.removeItem('zipCode');
     router.push('/');
   };
@@ -71,6 +111,7 @@ export default function DashboardPage() {
       
       if (data.success && data.data.sessionId) {
         localStorage.setItem('sessionId', data.data.sessionId);
+        localStorage.setItem('sessionLinkToken', data.data.linkToken);
         router.push('/assessment');
       } else {
         alert('Failed to start assessment. Please try again.');
@@ -220,6 +261,35 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {/* Reminders */}
+        {notifications.length > 0 && (
+          <div className="mt-8 bg-white rounded-lg shadow p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              Reminders
+              {notifications.some(n => !n.readAt) && (
+                <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800">
+                  {notifications.filter(n => !n.readAt).length} new
+                </span>
+              )}
+            </h3>
+            <div className="space-y-3">
+              {notifications.map(notification => (
+                <Link
+                  key={notification.id}
+                  href={notification.link || '/dashboard'}
+                  onClick={() => markRead(notification)}
+                  className={`block p-3 rounded-lg border ${
+                    notification.readAt ? 'border-gray-200 text-gray-500' : 'border-blue-200 bg-blue-50 text-gray-900'
+                  }`}
+                >
+                  <div className="font-medium">{notification.title}</div>
+                  <div className="text-sm">{notification.body}</div>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Profile Status */}
         <div className="mt-8 bg-white rounded-lg shadow p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Profile Status</h3>
@@ -34,7 +34,7 @@ type FetchState =
   | { status: 'loading' }
   | { status: 'error'; message: string; httpStatus?: number }
   | { status: 'empty'; message?: string }
-  | { status: 'ready'; indicators: EconomicIndicator[]; unemployment: number | null; infoMessage?: string };
+  | { status: 'ready'; indicators: EconomicIndicator[]; unemployment: number | null; dataAsOf: string; infoMessage?: string };
 
 export default function EconomicDataPage() {
   const [state, setState] = useState<FetchState>({ status: 'loading' });
@@ -88,6 +88,7 @@ export default function EconomicDataPage() {
           status: 'ready',
           indicators,
             unemployment: data.data.currentUnemploymentRate,
+          dataAsOf: data.data.lastUpdated,
           infoMessage: data.message
         });
         return;
@@ -172,6 +173,11 @@ export default function EconomicDataPage() {
               <span className="w-2 h-2 bg-green-500 rounded-full mr-2 animate-pulse"></span>
               Live Data
             </span>
+            {state.status === 'ready' && (
+              <p className="text-xs text-gray-500 mt-1">
+                Data as of {new Date(state.dataAsOf).toLocaleString()}
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -35,7 +35,7 @@ export default function LoginPage() {
         localStorage.setItem('user', JSON.stringify(data.data.user));
         
         // Redirect based on user role
-        if (data.data.user.role === 'counselor') {
+        if (data.data.user.role === 'counselor' || data.data.user.role === 'admin') {
           router.push('/counselor/dashboard');
         } else {
           router.push('/dashboard');
@@ -17,8 +17,9 @@ export default function Home() {
       const data = await response.json();
       
       if (data.success && data.data.sessionId) {
-        // Store session ID and redirect to assessment
+        // Store session ID (and the token that links it to an account) and redirect to assessment
         localStorage.setItem('sessionId', data.data.sessionId);
+        localStorage.setItem('sessionLinkToken', data.data.linkToken);
         router.push('/assessment');
       } else {
         alert('Failed to start session. Please try again.');
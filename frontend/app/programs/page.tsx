@@ -0,0 +1,264 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface TrainingProgram {
+  id: string;
+  name: string;
+  provider: string;
+  type: 'apprenticeship' | 'certificate' | 'internship' | 'vocational';
+  sector: string;
+  targetCareers: string[];
+  duration: string;
+  cost: number;
+  isPaid: boolean;
+  location: { zipCode: string; city: string; state: string };
+  eligibility: string[];
+  applicationUrl?: string;
+  applicationDeadline?: string;
+  contactEmail?: string;
+  distanceMiles?: number;
+}
+
+interface Filters {
+  career: string;
+  sector: string;
+  type: string;
+  maxCost: string;
+  paid: string;
+  zipCode: string;
+  radius: string;
+}
+
+const EMPTY_FILTERS: Filters = { career: '', sector: '', type: '', maxCost: '', paid: '', zipCode: '', radius: '' };
+
+export default function ProgramsPage() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [programs, setPrograms] = useState<TrainingProgram[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Start from ?career= (action plans link here) and the student's saved ZIP code
+    const params = new URLSearchParams(window.location.search);
+    const initial = {
+      ...EMPTY_FILTERS,
+      career: params.get('career') || '',
+      zipCode: params.get('zipCode') || localStorage.getItem('zipCode') || '',
+    };
+    setFilters(initial);
+    search(initial);
+  }, []);
+
+  async function search(current: Filters) {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams(
+        Object.entries(current).filter(([, value]) => value !== '')
+      );
+      const response = await fetch(`/api/programs?${query}`, { cache: 'no-store' });
+      const data = await response.json();
+
+      if (data.success) {
+        setPrograms(data.data);
+      } else {
+        setPrograms([]);
+        setError(data.error || 'Failed to search programs');
+      }
+    } catch (err) {
+      console.error('Program search error:', err);
+      setError('Failed to connect to server');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const update = (field: keyof Filters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setFilters({ ...filters, [field]: e.target.value });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    search(filters);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Link href="/results" className="text-blue-600 hover:underline mb-4 inline-block">
+            ← Back to Results
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Training Programs</h1>
+          <p className="text-gray-600">Apprenticeships, certificates, internships and vocational programs near you</p>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 mb-8 grid md:grid-cols-4 gap-4">
+          <select value={filters.sector} onChange={update('sector')} className="px-3 py-2 border border-gray-300 rounded-lg">
+            <option value="">Any field</option>
+            <option value="healthcare">Healthcare</option>
+            <option value="infrastructure">Infrastructure</option>
+          </select>
+          <select value={filters.type} onChange={update('type')} className="px-3 py-2 border border-gray-300 rounded-lg">
+            <option value="">Any type</option>
+            <option value="apprenticeship">Apprenticeship</option>
+            <option value="certificate">Certificate</option>
+            <option value="internship">Internship</option>
+            <option value="vocational">Vocational</option>
+          </select>
+          <select value={filters.paid} onChange={update('paid')} className="px-3 py-2 border border-gray-300 rounded-lg">
+            <option value="">Paid or unpaid</option>
+            <option value="true">Paid (earn while you learn)</option>
+            <option value="false">Unpaid</option>
+          </select>
+          <input
+            type="number"
+            min="0"
+            value={filters.maxCost}
+            onChange={update('maxCost')}
+            placeholder="Max cost ($)"
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          />
+          <input
+            type="text"
+            value={filters.zipCode}
+            onChange={update('zipCode')}
+            placeholder="ZIP code"
+            maxLength={5}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          />
+          <select value={filters.radius} onChange={update('radius')} className="px-3 py-2 border border-gray-300 rounded-lg">
+            <option value="">Any distance</option>
+            <option value="25">Within 25 miles</option>
+            <option value="50">Within 50 miles</option>
+            <option value="100">Within 100 miles</option>
+          </select>
+          {filters.career && (
+            <button
+              type="button"
+              onClick={() => setFilters({ ...filters, career: '' })}
+              className="px-3 py-2 rounded-lg bg-blue-50 text-blue-700 text-left"
+            >
+              For career {filters.career} ✕
+            </button>
+          )}
+          <button type="submit" className="bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700">
+            Search
+          </button>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-red-700">{error}</div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center text-gray-600">Searching programs...</div>
+        ) : programs.length === 0 && !error ? (
+          <div className="text-center text-gray-600">No programs match these filters.</div>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-6">
+            {programs.map(program => (
+              <div key={program.id} id={program.id} className="bg-white rounded-lg shadow-lg p-6">
+                <div className="flex justify-between items-start mb-2">
+                  <h2 className="text-xl font-semibold text-gray-900">{program.name}</h2>
+                  {program.isPaid && (
+                    <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">Paid</span>
+                  )}
+                </div>
+                <p className="text-gray-700 mb-1">{program.provider}</p>
+                <p className="text-sm text-gray-500 mb-3">
+                  {program.location.city}, {program.location.state}
+                  {program.distanceMiles !== undefined && ` · ${program.distanceMiles} miles away`}
+                </p>
+                <div className="flex flex-wrap gap-2 mb-3 text-sm">
+                  <span className="px-3 py-1 rounded-full bg-blue-100 text-blue-800 capitalize">{program.type}</span>
+                  <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-800">{program.duration}</span>
+                  <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-800">
+                    {program.cost > 0 ? `$${program.cost.toLocaleString()}` : 'Free'}
+                  </span>
+                </div>
+                {program.eligibility.length > 0 && (
+                  <ul className="text-sm text-gray-600 list-disc list-inside mb-3">
+                    {program.eligibility.map(item => <li key={item}>{item}</li>)}
+                  </ul>
+                )}
+                {program.applicationDeadline && (
+                  <p className="text-sm text-gray-700">
+                    Apply by {new Date(program.applicationDeadline).toLocaleDateString()}
+                  </p>
+                )}
+                {program.applicationUrl && (
+                  <a
+                    href={program.applicationUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-block mt-3 text-blue-600 hover:underline"
+                  >
+                    How to apply →
+                  </a>
+                )}
+                {program.contactEmail && (
+                  <InquiryButton programId={program.id} careerId={filters.career} />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Email the program on the signed-in student's behalf, about the career
+ * they searched for when it's one the program trains for
+ */
+function InquiryButton({ programId, careerId }: { programId: string; careerId: string }) {
+  const [token, setToken] = useState<string | null>(null);
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent' | 'error'>('idle');
+  const [note, setNote] = useState<string | null>(null);
+
+  useEffect(() => {
+    const user = JSON.parse(localStorage.getItem('user') || 'null');
+    if (user?.role === 'student') setToken(localStorage.getItem('token'));
+  }, []);
+
+  if (!token) return null;
+
+  async function send() {
+    setStatus('sending');
+    setNote(null);
+    try {
+      const response = await fetch('/api/email/program-inquiry', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ programId, careerId: careerId || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Email request failed (${response.status})`);
+      }
+      setNote(data.message);
+      setStatus('sent');
+    } catch (err: any) {
+      setNote(err?.message || 'Failed to email this program');
+      setStatus('error');
+    }
+  }
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={send}
+        disabled={status === 'sending' || status === 'sent'}
+        className="text-blue-600 hover:underline disabled:opacity-60"
+      >
+        {status === 'sending' ? 'Sending...' : '✉️ Ask about this program'}
+      </button>
+      {note && <p className={`text-sm mt-1 ${status === 'error' ? 'text-red-600' : 'text-gray-600'}`}>{note}</p>}
+    </div>
+  );
+}
@@ -62,7 +62,8 @@ export default function RegisterPage() {
         
         // Link any existing session data
         const sessionId = localStorage.getItem('sessionId');
-        if (sessionId) {
+        const linkToken = localStorage.getItem('sessionLinkToken');
+        if (sessionId && linkToken) {
           try {
             await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/auth/link-session`, {
               method: 'POST',
@@ -70,7 +71,7 @@ export default function RegisterPage() {
                 'Content-Type': 'application/json',
                 'Authorization': `Bearer ${data.data.token}`
               },
-              body: JSON.stringify({ sessionId })
+              body: JSON.stringify({ sessionId, linkToken })
             });
           } catch (error) {
             console.warn('Failed to link session:', error);
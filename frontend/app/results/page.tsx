@@ -18,15 +18,38 @@ interface CareerMatch {
   matchScore: number;
   reasoningFactors: string[];
   localDemand: string;
+  demandBasis?: {
+    score: number;
+    inputs: DemandInput[];
+  };
+}
+
+interface DemandInput {
+  factor: 'growth' | 'openings' | 'unemployment';
+  value: number;
+  points: number;
+  source: string;
 }
 
+// One line per input behind a demand level, e.g. "Unemployment 4.6% (LAUS Ohio, August 2026)"
+const describeDemandInput = (input: DemandInput) => {
+  const labels: Record<DemandInput['factor'], string> = {
+    growth: `Growth ${input.value}%`,
+    openings: `${input.value} openings per 100 jobs a year`,
+    unemployment: `Unemployment ${input.value}%`,
+  };
+  return `${labels[input.factor]} (${input.source})`;
+};
+
 export default function ResultsPage() {
   const router = useRouter();
   const pathname = usePathname();
   const [matches, setMatches] = useState<CareerMatch[]>([]);
   const [profile, setProfile] = useState<any>(null);
+  const [regionLabel, setRegionLabel] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [filter, setFilter] = useState('all');
+  const [sessionId, setSessionId] = useState('');
 
   const navigateToCareer = (careerId: string) => {
     // Store the current path so BackButton can return here
@@ -46,6 +69,7 @@ export default function ResultsPage() {
       router.push('/');
       return;
     }
+    setSessionId(sessionId);
 
     try {
       const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/careers/matches`, {
@@ -58,6 +82,7 @@ export default function ResultsPage() {
       if (data.success) {
         setMatches(data.data.matches);
         setProfile(data.data.profile);
+        setRegionLabel(data.data.region?.label || '');
         setIsLoading(false);
       }
     } catch (error) {
@@ -74,6 +99,12 @@ export default function ResultsPage() {
     );
   }
 
+  // Printable summary for families, covering the top three matches
+  const parentSummaryUrl = (lang: 'en' | 'es') => {
+    const careers = matches.slice(0, 3).map(m => m.careerId).join(',');
+    return `${process.env.NEXT_PUBLIC_API_URL}/api/parent-summary/${sessionId}?format=html&lang=${lang}&careers=${careers}`;
+  };
+
   const filteredMatches = filter === 'all' 
     ? matches 
     : matches.filter(m => m.career.sector === filter);
@@ -101,6 +132,36 @@ export default function ResultsPage() {
                 </span>
               ))}
             </div>
+            {regionLabel && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                <span className="text-sm text-gray-600">Local job market:</span>
+                <span className="text-sm text-gray-900">{regionLabel}</span>
+              </div>
+            )}
+            {profile?.hollandCode && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                <span className="text-sm text-gray-600">Holland Code:</span>
+                <span className="px-3 py-1 bg-purple-100 text-purple-800 rounded-full text-sm font-semibold">
+                  {profile.hollandCode}
+                </span>
+              </div>
+            )}
+            <div className="flex flex-wrap gap-3 mt-4 text-sm">
+              <a
+                href={`${process.env.NEXT_PUBLIC_API_URL}/api/reports/${sessionId}.pdf`}
+                className="text-blue-600 hover:underline"
+              >
+                Download PDF report
+              </a>
+              <span className="text-gray-300">|</span>
+              <span className="text-gray-600">Summary for your family:</span>
+              <a href={parentSummaryUrl('en')} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                English
+              </a>
+              <a href={parentSummaryUrl('es')} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                Español
+              </a>
+            </div>
           </div>
         </div>
 
@@ -144,13 +205,18 @@ export default function ResultsPage() {
               <div className="flex items-center justify-between mb-4">
                 <div>
                   <span className="text-sm text-gray-500">Average Salary:</span>
-                  <span className="ml-2 font-semibold">${match.career.averageSalary.toLocaleString()}</span>
+                  <span className="ml-2 font-semibold">
+                    {match.career.averageSalary > 0 ? `$${match.career.averageSalary.toLocaleString()}` : 'Not available'}
+                  </span>
                 </div>
                 <div>
                   <span className="text-sm text-gray-500">Local Demand:</span>
-                  <span className={`ml-2 px-2 py-1 rounded text-sm ${
-                    match.localDemand === 'high' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
-                  }`}>
+                  <span
+                    title={match.demandBasis?.inputs.map(describeDemandInput).join('\n')}
+                    className={`ml-2 px-2 py-1 rounded text-sm ${
+                      match.localDemand === 'high' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                    }`}
+                  >
                     {match.localDemand}
                   </span>
                 </div>